@@ -0,0 +1,289 @@
+/**
+ * Unit Tests for the Result Cache
+ *
+ * Tests caching of read operations in the client:
+ * - Hits and misses keyed on session and normalized request
+ * - Time to live, bypass and error handling
+ * - Invalidation by write operations and eviction
+ * - Cached client methods (search, preview, activate, writes)
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createResultCache, invalidateObjects, invalidateTransports, withCache } from '../../../client/methods/internal';
+import { search } from '../../../client/methods/search';
+import { previewData } from '../../../client/methods/preview';
+import { activate } from '../../../client/methods/craud';
+import { writeSources } from '../../../client/methods/craud/sources';
+import type { ClientState } from '../../../client/types';
+import type { CacheConfig } from '../../../types/config';
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor } from '../../../core/adt/types';
+
+// Test Fixtures
+
+function createState(cache: CacheConfig = { enabled: true }, sessionId = 'S1'): ClientState {
+    return {
+        session: { sessionId, username: 'DEVELOPER', expiresAt: Date.now() + 60000 },
+        locks: new Map(),
+        cache: createResultCache(cache),
+    } as unknown as ClientState;
+}
+
+// Loader counting its calls
+function counter<T>(value: T) {
+    const loader = {
+        calls: 0,
+        load: async (): AsyncResult<T> => {
+            loader.calls++;
+            return [value, null];
+        },
+    };
+    return loader;
+}
+
+const searchResponse = `<?xml version="1.0" encoding="utf-8"?>
+<adtcore:objectReferences xmlns:adtcore="http://www.sap.com/adt/core">
+    <adtcore:objectReference adtcore:uri="/sap/bc/adt/programs/programs/zdemo" adtcore:type="PROG/P" adtcore:name="ZDEMO" adtcore:packageName="$TMP"/>
+</adtcore:objectReferences>`;
+
+// Records request paths and answers every request with `body`
+function recordingRequestor(body: string) {
+    const paths: string[] = [];
+    const requestor: AdtRequestor = {
+        request: async (options) => {
+            paths.push(options.path);
+            return [new Response(body), null];
+        },
+    };
+    return { requestor, paths };
+}
+
+const previewResponse = `<?xml version="1.0" encoding="utf-8"?>
+<dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview">
+    <dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="NAME" dataPreview:colType="C"/>
+        <dataPreview:dataSet><dataPreview:data>A B</dataPreview:data></dataPreview:dataSet>
+    </dataPreview:columns>
+</dataPreview:tableData>`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Cache Tests
+
+describe('withCache', () => {
+    it('should return cached results for equal requests', async () => {
+        const state = createState();
+        const loader = counter({ nodes: ['A'] });
+
+        await withCache(state, 'tree', { package: 'ZPKG', path: 'X' }, undefined, loader.load);
+        const [result, error] = await withCache(state, 'tree', { path: 'X', package: 'ZPKG' }, undefined, loader.load);
+
+        expect(error).toBeNull();
+        expect(result).toEqual({ nodes: ['A'] });
+        expect(loader.calls).toBe(1);
+        expect(state.cache.stats().operations.tree).toEqual({ entries: 1, hits: 1, misses: 1 });
+    });
+
+    it('should return copies of cached results', async () => {
+        const state = createState();
+        const loader = counter({ nodes: ['A'] });
+
+        const [first] = await withCache(state, 'tree', {}, undefined, loader.load);
+        first!.nodes.push('B');
+        const [second] = await withCache(state, 'tree', {}, undefined, loader.load);
+
+        expect(second).toEqual({ nodes: ['A'] });
+    });
+
+    it('should keep entries of sessions apart', async () => {
+        const state = createState();
+        const loader = counter(1);
+
+        await withCache(state, 'search', 'Z*', undefined, loader.load);
+        state.session = { sessionId: 'S2', username: 'DEVELOPER', expiresAt: Date.now() + 60000 };
+        await withCache(state, 'search', 'Z*', undefined, loader.load);
+
+        expect(loader.calls).toBe(2);
+    });
+
+    it('should reload after the time to live', async () => {
+        const state = createState({ enabled: true, ttlMs: { preview: 5 } });
+        const loader = counter(1);
+
+        await withCache(state, 'preview', 'q', undefined, loader.load);
+        await sleep(10);
+        await withCache(state, 'preview', 'q', undefined, loader.load);
+
+        expect(loader.calls).toBe(2);
+    });
+
+    it('should not cache unless enabled', async () => {
+        const state = { ...createState(), cache: createResultCache() } as ClientState;
+        const loader = counter(1);
+
+        await withCache(state, 'tree', {}, undefined, loader.load);
+        await withCache(state, 'tree', {}, undefined, loader.load);
+
+        expect(loader.calls).toBe(2);
+        expect(state.cache.stats().enabled).toBe(false);
+    });
+
+    it('should not cache disabled operations', async () => {
+        const disabled = createState({ enabled: false });
+        const noPreview = createState({ enabled: true, ttlMs: { preview: 0 } });
+        const loader = counter(1);
+
+        for (const state of [disabled, disabled, noPreview, noPreview]) {
+            await withCache(state, 'preview', 'q', undefined, loader.load);
+        }
+
+        expect(loader.calls).toBe(4);
+        expect(disabled.cache.stats().enabled).toBe(false);
+    });
+
+    it('should reload and cache the fresh result on bypass', async () => {
+        const state = createState();
+        let value = 1;
+        const load = async (): AsyncResult<number> => [value++, null];
+
+        await withCache(state, 'search', 'Z*', undefined, load);
+        const [bypassed] = await withCache(state, 'search', 'Z*', { bypassCache: true }, load);
+        const [cached] = await withCache(state, 'search', 'Z*', undefined, load);
+
+        expect(bypassed).toBe(2);
+        expect(cached).toBe(2);
+    });
+
+    it('should not cache errors', async () => {
+        const state = createState();
+        let calls = 0;
+        const load = async (): AsyncResult<number> => {
+            calls++;
+            return [null, new Error('down')];
+        };
+
+        await withCache(state, 'search', 'Z*', undefined, load);
+        const [, error] = await withCache(state, 'search', 'Z*', undefined, load);
+
+        expect(error?.message).toBe('down');
+        expect(calls).toBe(2);
+    });
+
+    it('should drop the least recently used entries', async () => {
+        const state = createState({ enabled: true, maxEntries: 2 });
+        const loader = counter(1);
+
+        await withCache(state, 'search', 'A', undefined, loader.load);
+        await withCache(state, 'search', 'B', undefined, loader.load);
+        await withCache(state, 'search', 'A', undefined, loader.load);
+        await withCache(state, 'search', 'C', undefined, loader.load);
+        await withCache(state, 'search', 'A', undefined, loader.load);
+
+        expect(loader.calls).toBe(3);
+        expect(state.cache.stats().evictions).toBe(1);
+    });
+});
+
+// Invalidation Tests
+
+describe('invalidation', () => {
+    it('should drop listings and previews of written objects', async () => {
+        const state = createState();
+        const loader = counter(1);
+
+        await withCache(state, 'tree', { package: 'ZPKG' }, undefined, loader.load);
+        await withCache(state, 'preview', 'ZTABLE', undefined, loader.load, ['ztable']);
+        await withCache(state, 'preview', 'ZOTHER', undefined, loader.load, ['ZOTHER']);
+        await withCache(state, 'transports', 'ZPKG', undefined, loader.load);
+
+        invalidateObjects(state, ['ZTABLE']);
+
+        const { operations, invalidations } = state.cache.stats();
+        expect(invalidations).toBe(2);
+        expect(operations.tree.entries).toBe(0);
+        expect(operations.preview.entries).toBe(1);
+        expect(operations.transports.entries).toBe(1);
+    });
+
+    it('should drop all previews when the objects are unknown', async () => {
+        const state = createState();
+        const loader = counter(1);
+
+        await withCache(state, 'preview', 'ZTABLE', undefined, loader.load, ['ZTABLE']);
+        invalidateObjects(state);
+
+        expect(state.cache.stats().entries).toBe(0);
+    });
+
+    it('should drop transport listings', async () => {
+        const state = createState();
+        const loader = counter(1);
+
+        await withCache(state, 'transports', 'ZPKG', undefined, loader.load);
+        await withCache(state, 'search', 'Z*', undefined, loader.load);
+        invalidateTransports(state);
+
+        expect(state.cache.stats().operations.transports.entries).toBe(0);
+        expect(state.cache.stats().operations.search.entries).toBe(1);
+    });
+});
+
+// Client Method Tests
+
+describe('cached client methods', () => {
+    it('should send repeated searches once', async () => {
+        const state = createState();
+        const { requestor, paths } = recordingRequestor(searchResponse);
+
+        const [first] = await search(state, requestor, 'ZDEMO*');
+        const [second] = await search(state, requestor, 'ZDEMO*');
+        await search(state, requestor, 'ZDEMO*', ['PROG/P']);
+
+        expect(second).toEqual(first);
+        expect(paths).toHaveLength(2);
+    });
+
+    it('should invalidate searches on activation', async () => {
+        const state = createState();
+        const { requestor, paths } = recordingRequestor(searchResponse);
+
+        await search(state, requestor, 'ZDEMO*');
+        await activate(state, requestor, [{ name: 'ZDEMO', extension: 'asprog' }]);
+        await search(state, requestor, 'ZDEMO*');
+
+        expect(paths.filter(path => path.includes('search'))).toHaveLength(2);
+    });
+
+    it('should drop results read while an object is written', async () => {
+        const state = createState();
+        const paths: string[] = [];
+        const requestor: AdtRequestor = {
+            request: async (options) => {
+                paths.push(options.path);
+                if (options.params?.['_action'] === 'LOCK') {
+                    return [new Response('<asx:abap xmlns:asx="http://www.sap.com/abapxml"><asx:values><DATA><LOCK_HANDLE>H1</LOCK_HANDLE></DATA></asx:values></asx:abap>'), null];
+                }
+                // Another caller searches while the source is written
+                if (options.method === 'PUT') await search(state, requestor, 'ZDEMO*');
+                return [new Response(searchResponse), null];
+            },
+        };
+
+        await writeSources(state, requestor, { name: 'ZDEMO', extension: 'asprog' }, [{ include: 'main', content: 'REPORT zdemo.' }]);
+        await search(state, requestor, 'ZDEMO*');
+
+        expect(paths.filter(path => path.includes('search'))).toHaveLength(2);
+    });
+
+    it('should keep previews apart that differ inside a literal', async () => {
+        const state = createState();
+        const { requestor, paths } = recordingRequestor(previewResponse);
+        const query = (sqlQuery: string) => ({ objectName: 'ZNAMES', objectType: 'table' as const, sqlQuery });
+
+        await previewData(state, requestor, query("SELECT NAME FROM ZNAMES WHERE NAME = 'A  B'"));
+        await previewData(state, requestor, query("SELECT NAME FROM ZNAMES WHERE NAME = 'A B'"));
+        await previewData(state, requestor, query("SELECT  NAME\n  FROM ZNAMES WHERE NAME = 'A  B' "));
+
+        expect(paths).toHaveLength(2);
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for Lock Methods
+ *
+ * Tests lock bookkeeping of the client:
+ * - acquireLock() - tracking, re-entrancy and all-or-nothing locking
+ * - releaseLock() - releasing selected or all locks
+ * - withLock() - releasing only locks acquired for the call
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { acquireLock, releaseLock, withLock } from '../../../client/methods/lock';
+import type { ClientState } from '../../../client/types';
+import type { AdtRequestor } from '../../../core/adt/types';
+import type { ObjectRef } from '../../../types/requests';
+import { ok } from '../../../types/result';
+
+// Test Fixtures
+
+const PROGRAM: ObjectRef = { name: 'ZDEMO', extension: 'asprog' };
+const CLASS: ObjectRef = { name: 'ZCL_DEMO', extension: 'aclass' };
+
+const lockResponse = (handle: string) => `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+    <asx:values><DATA><LOCK_HANDLE>${handle}</LOCK_HANDLE></DATA></asx:values>
+</asx:abap>`;
+
+// Logged-in state with no locks
+function createState(): ClientState {
+    return {
+        session: { sessionId: 'S1', username: 'DEVELOPER', expiresAt: Date.now() + 60000 },
+        locks: new Map(),
+    } as unknown as ClientState;
+}
+
+// Records lock actions; objects whose path contains `failOn` cannot be locked
+function createRequestor(failOn?: string): AdtRequestor & { actions: string[] } {
+    const actions: string[] = [];
+    return {
+        actions,
+        request: async ({ path, params }) => {
+            const action = String(params?.['_action']);
+            actions.push(`${action} ${path}`);
+            if (action === 'LOCK') {
+                if (failOn && path.toLowerCase().includes(failOn)) return [new Response('Locked by OTHER', { status: 403 }), null];
+                return [new Response(lockResponse(`HANDLE_${actions.length}`)), null];
+            }
+            return [new Response(''), null];
+        },
+    };
+}
+
+// acquireLock Tests
+
+describe('acquireLock', () => {
+    it('should track acquired locks on the client', async () => {
+        const state = createState();
+        const [locks, error] = await acquireLock(state, createRequestor(), [PROGRAM]);
+
+        expect(error).toBeNull();
+        expect(locks![0]!.handle).toBe('HANDLE_1');
+        expect(locks![0]!.object).toEqual(PROGRAM);
+        expect(state.locks.size).toBe(1);
+    });
+
+    it('should reuse a held lock', async () => {
+        const state = createState();
+        const requestor = createRequestor();
+        await acquireLock(state, requestor, [PROGRAM]);
+        const [locks] = await acquireLock(state, requestor, [{ ...PROGRAM, name: 'zdemo' }]);
+
+        expect(locks![0]!.handle).toBe('HANDLE_1');
+        expect(requestor.actions).toHaveLength(1);
+    });
+
+    it('should release locks of the call when one object cannot be locked', async () => {
+        const state = createState();
+        const requestor = createRequestor('zcl_demo');
+        const [, error] = await acquireLock(state, requestor, [PROGRAM, CLASS]);
+
+        expect(error).not.toBeNull();
+        expect(state.locks.size).toBe(0);
+        expect(requestor.actions.at(-1)).toStartWith('UNLOCK');
+    });
+});
+
+// releaseLock Tests
+
+describe('releaseLock', () => {
+    it('should release only the given objects', async () => {
+        const state = createState();
+        const requestor = createRequestor();
+        await acquireLock(state, requestor, [PROGRAM, CLASS]);
+        await releaseLock(state, requestor, [CLASS]);
+
+        expect([...state.locks.values()].map(lock => lock.object.name)).toEqual(['ZDEMO']);
+    });
+
+    it('should release every lock without objects', async () => {
+        const state = createState();
+        const requestor = createRequestor();
+        await acquireLock(state, requestor, [PROGRAM, CLASS]);
+        const [, error] = await releaseLock(state, requestor);
+
+        expect(error).toBeNull();
+        expect(state.locks.size).toBe(0);
+        expect(requestor.actions.filter(action => action.startsWith('UNLOCK'))).toHaveLength(2);
+    });
+});
+
+// withLock Tests
+
+describe('withLock', () => {
+    it('should unlock after the function', async () => {
+        const state = createState();
+        const [handle] = await withLock(state, createRequestor(), [PROGRAM], async ([lock]) => ok(lock!.handle));
+
+        expect(handle).toBe('HANDLE_1');
+        expect(state.locks.size).toBe(0);
+    });
+
+    it('should keep locks held before the call', async () => {
+        const state = createState();
+        const requestor = createRequestor();
+        await acquireLock(state, requestor, [PROGRAM]);
+        await withLock(state, requestor, [PROGRAM, CLASS], async () => ok(undefined));
+
+        expect([...state.locks.values()].map(lock => lock.object.name)).toEqual(['ZDEMO']);
+    });
+
+    it('should unlock when the function throws', async () => {
+        const state = createState();
+        const run = withLock(state, createRequestor(), [PROGRAM], async () => {
+            throw new Error('boom');
+        });
+
+        await expect(run).rejects.toThrow('boom');
+        expect(state.locks.size).toBe(0);
+    });
+});
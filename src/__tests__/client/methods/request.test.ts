@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for the Request Pipeline
+ *
+ * Tests headers sent by executeRequest() against a local HTTP server:
+ * - Stateful ADT session for every request, with or without held locks
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { executeRequest } from '../../../client/methods/internal/request';
+import type { ClientState, RequestOptions } from '../../../client/types';
+import type { AsyncResult } from '../../../types/result';
+
+// Test Fixtures
+
+let server: ReturnType<typeof Bun.serve>;
+const received: Headers[] = [];
+
+beforeAll(() => {
+    server = Bun.serve({
+        port: 0,
+        fetch(request) {
+            received.push(request.headers);
+            return new Response('ok');
+        },
+    });
+});
+
+afterAll(() => {
+    server.stop(true);
+});
+
+function createState(): ClientState {
+    return {
+        config: { url: `http://localhost:${server.port}`, client: '100', auth: { type: 'basic', username: 'U', password: 'P' } },
+        session: { sessionId: 'S1', username: 'U', expiresAt: Date.now() + 60000 },
+        csrfToken: 'TOKEN',
+        cookies: new Map(),
+        locks: new Map(),
+    } as unknown as ClientState;
+}
+
+async function send(state: ClientState, options: RequestOptions): AsyncResult<Response, Error> {
+    const self = (next: RequestOptions) => send(state, next);
+    return executeRequest({ state, ssoCerts: undefined, getCookieHeader: () => null, storeCookies: () => {} }, options, self);
+}
+
+// Session Type Tests
+
+describe('executeRequest', () => {
+    it('should send stateful session type on regular requests', async () => {
+        const state = createState();
+        const paths = ['/sap/bc/adt/programs/programs/ZDEMO/source/main', '/sap/bc/adt/repository/informationsystem/search'];
+
+        for (const path of paths) {
+            const [, error] = await send(state, { method: 'GET', path });
+            expect(error).toBeNull();
+        }
+
+        expect(received.slice(-2).map(h => h.get('X-sap-adt-sessiontype'))).toEqual(['stateful', 'stateful']);
+    });
+
+    it('should keep the session type while locks are held', async () => {
+        const state = createState();
+        state.locks.set('asprog|ZDEMO', { object: { name: 'ZDEMO', extension: 'asprog' }, handle: 'H1', acquiredAt: new Date().toISOString() });
+
+        await send(state, { method: 'POST', path: '/sap/bc/adt/programs/programs/ZDEMO', params: { _action: 'UNLOCK' } });
+
+        expect(received.at(-1)?.get('X-sap-adt-sessiontype')).toBe('stateful');
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for Upsert Methods
+ *
+ * Tests transport selection of the client:
+ * - upsert() - failing fast without a transport, using the locking request
+ * - upsert() - reading and checking the server version under the lock
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { upsert } from '../../../client/methods/craud';
+import type { ClientState } from '../../../client/types';
+import type { AdtRequestor } from '../../../core/adt/types';
+import { TransportRequiredError } from '../../../core/adt/transports/transportCheck';
+import type { ObjectContent } from '../../../types/requests';
+import { createResultCache } from '../../../client/methods/internal';
+
+// Test Fixtures
+
+const PROGRAM: ObjectContent = { name: 'ZDEMO', extension: 'asprog', content: 'REPORT zdemo.' };
+
+const checkResponse = (fields: string) => `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+    <asx:values><DATA><RESULT>S</RESULT><RECORDING>X</RECORDING><DLVUNIT>HOME</DLVUNIT>${fields}</DATA></asx:values>
+</asx:abap>`;
+
+const OPEN_REQUEST = '<REQUESTS><CTS_REQUEST><REQ_HEADER><TRKORR>DEVK900130</TRKORR></REQ_HEADER></CTS_REQUEST></REQUESTS>';
+const LOCK_HOLDER = '<LOCKS><CTS_OBJECT_LOCK><LOCK_HOLDER><REQ_HEADER><TRKORR>DEVK900123</TRKORR></REQ_HEADER></LOCK_HOLDER></CTS_OBJECT_LOCK></LOCKS>';
+
+// Logged-in state with no locks
+function createState(): ClientState {
+    return {
+        session: { sessionId: 'S1', username: 'DEVELOPER', expiresAt: Date.now() + 60000 },
+        locks: new Map(),
+        cache: createResultCache(),
+    } as unknown as ClientState;
+}
+
+const lockResponse = `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+    <asx:values><DATA><LOCK_HANDLE>HANDLE</LOCK_HANDLE></DATA></asx:values>
+</asx:abap>`;
+
+// Answers transport checks with `checkXml`, locks with a handle and reads with
+// the program source (`sources` are returned by consecutive reads)
+function createRequestor(checkXml: string, sources: string[] = []): AdtRequestor & { requests: string[] } {
+    const requests: string[] = [];
+    return {
+        requests,
+        request: async ({ method, path, params }) => {
+            const action = params?.['_action'];
+            requests.push(action ? `${method} ${path} ${action}` : `${method} ${path}`);
+            if (path.endsWith('/transportchecks')) return [new Response(checkXml), null];
+            if (action === 'LOCK') return [new Response(lockResponse), null];
+            if (method === 'GET') return [new Response(sources.shift() ?? PROGRAM.content), null];
+            return [new Response(''), null];
+        },
+    };
+}
+
+// upsert Tests
+
+describe('upsert', () => {
+    it('should fail before writing when a transport is required', async () => {
+        const requestor = createRequestor(checkResponse(OPEN_REQUEST));
+        const [, error] = await upsert(createState(), requestor, [PROGRAM], 'ZDEMO');
+
+        expect(error).toBeInstanceOf(TransportRequiredError);
+        expect((error as TransportRequiredError).transports.map(t => t.id)).toEqual(['DEVK900130']);
+        expect(requestor.requests).toEqual(['POST /sap/bc/adt/cts/transportchecks']);
+    });
+
+    it('should use the request locking the object', async () => {
+        const requestor = createRequestor(checkResponse(LOCK_HOLDER));
+        const [results, error] = await upsert(createState(), requestor, [PROGRAM], 'ZDEMO');
+
+        expect(error).toBeNull();
+        expect(results![0]!.transport).toBe('DEVK900123');
+    });
+
+    it('should skip the check for local packages', async () => {
+        const requestor = createRequestor('');
+        const [results] = await upsert(createState(), requestor, [PROGRAM], '$TMP');
+
+        expect(results![0]!.status).toBe('unchanged');
+        expect(requestor.requests.some(r => r.endsWith('/transportchecks'))).toBe(false);
+    });
+
+    it('should read the server version after locking', async () => {
+        const requestor = createRequestor('');
+        await upsert(createState(), requestor, [{ ...PROGRAM, content: 'REPORT zdemo. WRITE 1.' }], '$TMP');
+
+        expect(requestor.requests).toEqual([
+            'GET /sap/bc/adt/programs/programs/ZDEMO/source/main',
+            'POST /sap/bc/adt/programs/programs/ZDEMO/source/main LOCK',
+            'GET /sap/bc/adt/programs/programs/ZDEMO/source/main',
+            'PUT /sap/bc/adt/programs/programs/ZDEMO/source/main',
+            'POST /sap/bc/adt/programs/programs/ZDEMO/source/main UNLOCK',
+        ]);
+    });
+
+    it('should detect changes made before the lock was taken', async () => {
+        // The server source changes between the first read and the lock
+        const requestor = createRequestor('', [PROGRAM.content, 'REPORT zdemo. WRITE 2.']);
+        const object = { ...PROGRAM, content: 'REPORT zdemo. WRITE 1.', base: { content: PROGRAM.content } };
+
+        const [results] = await upsert(createState(), requestor, [object], '$TMP');
+
+        expect(results![0]!.status).toBe('conflict');
+        expect(requestor.requests.some(r => r.startsWith('PUT'))).toBe(false);
+        expect(requestor.requests.at(-1)).toBe('POST /sap/bc/adt/programs/programs/ZDEMO/source/main UNLOCK');
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit Tests for Activation Parsing
+ *
+ * Tests activation response handling:
+ * - parseActivationMessages() - all severities, optional positions, mixed types
+ * - parseInactiveObjects() - inactive dependents from pre-audit responses
+ * - activateObjects() - confirming the pre-audit's inactive objects list
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+    activateObjects,
+    parseActivationMessages,
+    parseInactiveObjects,
+} from '../../../../core/adt/craud/activation';
+import type { ActivationTarget } from '../../../../core/adt/craud/activation';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const TARGETS: ActivationTarget[] = [
+    { name: 'ZCL_DEMO', extension: 'aclass', type: 'CLAS/OC', uri: '/sap/bc/adt/oo/classes/zcl_demo', dependent: false },
+    { name: 'ZDEMO_VIEW', extension: 'asddls', type: 'DDLS/DF', uri: '/sap/bc/adt/ddic/ddl/sources/zdemo_view', dependent: false },
+    { name: 'ZDEMO_VIEW_DCL', extension: 'asdcls', type: 'DCLS/DL', uri: '/sap/bc/adt/acm/dcl/sources/zdemo_view_dcl', dependent: false },
+];
+
+const ACTIVATION_MESSAGES = `<?xml version="1.0" encoding="utf-8"?>
+<chkl:messages xmlns:chkl="http://www.sap.com/abapxml/checklist">
+  <msg objDescr="Class ZCL_DEMO" type="E" line="1" href="/sap/bc/adt/oo/classes/zcl_demo/source/main#start=12,4" forceSupported="true">
+    <shortText><txt>Field "LV_X" is unknown.</txt></shortText>
+  </msg>
+  <msg objDescr="Data Definition ZDEMO_VIEW_DCL" type="W" line="1" href="/sap/bc/adt/acm/dcl/sources/zdemo_view_dcl/source/main#start=3,0">
+    <shortText><txt>Role is not assigned.</txt></shortText>
+  </msg>
+  <msg objDescr="Data Definition ZDEMO_VIEW" type="I" line="1">
+    <shortText><txt>View ZDEMO_VIEW was activated.</txt></shortText>
+  </msg>
+  <msg objDescr="" type="W" line="1">
+    <shortText><txt>Activation log contains warnings.</txt></shortText>
+  </msg>
+</chkl:messages>`;
+
+const PRE_AUDIT_RESPONSE = `<?xml version="1.0" encoding="utf-8"?>
+<ioc:inactiveObjects xmlns:ioc="http://www.sap.com/abapxml/inactiveCtsObjects" xmlns:adtcore="http://www.sap.com/adt/core">
+  <ioc:entry>
+    <ioc:object ioc:user="DEVELOPER" ioc:deleted="false">
+      <ioc:ref adtcore:uri="/sap/bc/adt/oo/classes/zcl_demo" adtcore:type="CLAS/OC" adtcore:name="ZCL_DEMO"/>
+    </ioc:object>
+  </ioc:entry>
+  <ioc:entry>
+    <ioc:object ioc:user="DEVELOPER" ioc:deleted="false">
+      <ioc:ref adtcore:uri="/sap/bc/adt/oo/classes/zcl_demo/includes/testclasses" adtcore:type="CLAS/OCN" adtcore:name="ZCL_DEMO"/>
+    </ioc:object>
+  </ioc:entry>
+  <ioc:entry>
+    <ioc:object ioc:user="DEVELOPER" ioc:deleted="false">
+      <ioc:ref adtcore:uri="/sap/bc/adt/oo/interfaces/zif_demo" adtcore:type="INTF/OI" adtcore:name="ZIF_DEMO"/>
+    </ioc:object>
+    <ioc:transport>
+      <ioc:ref adtcore:uri="/sap/bc/adt/cts/transportrequests/DEVK900123" adtcore:type="RQRQ" adtcore:name="DEVK900123"/>
+    </ioc:transport>
+  </ioc:entry>
+</ioc:inactiveObjects>`;
+
+// Pre-audit list of the requested class and its include only
+const PRE_AUDIT_REQUESTED_ONLY = PRE_AUDIT_RESPONSE.replace(/\s*<ioc:entry>\s*<ioc:object[^>]*>\s*<ioc:ref[^>]*zif_demo[\s\S]*?<\/ioc:entry>/, '');
+
+// Answers the pre-audit with a response, the confirmation with activation messages
+function createRequestor(preAudit: string): AdtRequestor & { preAudits: string[] } {
+    const preAudits: string[] = [];
+    return {
+        preAudits,
+        request: async ({ params }) => {
+            const requested = String(params?.['preAuditRequested']);
+            preAudits.push(requested);
+            return [new Response(requested === 'true' ? preAudit : ACTIVATION_MESSAGES), null];
+        },
+    };
+}
+
+// parseActivationMessages Tests
+
+describe('parseActivationMessages', () => {
+    it('should keep errors, warnings and info messages', () => {
+        const [results, error] = parseActivationMessages(ACTIVATION_MESSAGES, TARGETS);
+
+        expect(error).toBeNull();
+        expect(results!.map(r => r.status)).toEqual(['error', 'warning', 'warning']);
+
+        const [cls, view, dcl] = results!;
+        expect(cls!.messages[0]).toEqual({ severity: 'error', text: 'Field "LV_X" is unknown.', line: 12, column: 4 });
+        expect(dcl!.messages[0]).toEqual({ severity: 'warning', text: 'Role is not assigned.', line: 3, column: 0 });
+        expect(view!.messages[0]).toEqual({ severity: 'info', text: 'View ZDEMO_VIEW was activated.' });
+    });
+
+    it('should match the longest object name first', () => {
+        const [results] = parseActivationMessages(ACTIVATION_MESSAGES, TARGETS);
+        const view = results![1]!;
+
+        expect(view.messages.map(m => m.text)).not.toContain('Role is not assigned.');
+    });
+
+    it('should report messages without an owner on every requested object', () => {
+        const [results] = parseActivationMessages(ACTIVATION_MESSAGES, TARGETS);
+
+        for (const result of results!) {
+            expect(result.messages.map(m => m.text)).toContain('Activation log contains warnings.');
+        }
+    });
+
+    it('should return success for an empty response', () => {
+        const [results, error] = parseActivationMessages('', TARGETS);
+
+        expect(error).toBeNull();
+        expect(results!.every(r => r.status === 'success' && r.messages.length === 0)).toBe(true);
+    });
+
+    it('should flag dependents', () => {
+        const dependent: ActivationTarget = { name: 'ZIF_DEMO', extension: 'aint', type: 'INTF/OI', uri: '/sap/bc/adt/oo/interfaces/zif_demo', dependent: true };
+        const [results] = parseActivationMessages('', [...TARGETS, dependent]);
+
+        expect(results![3]!.dependent).toBe(true);
+        expect(results![0]!.dependent).toBeUndefined();
+    });
+});
+
+// parseInactiveObjects Tests
+
+describe('parseInactiveObjects', () => {
+    it('should return dependents that were not requested', () => {
+        const [dependents, error] = parseInactiveObjects(PRE_AUDIT_RESPONSE, TARGETS);
+
+        expect(error).toBeNull();
+        expect(dependents).toEqual([
+            { name: 'ZIF_DEMO', extension: 'aint', type: 'INTF/OI', uri: '/sap/bc/adt/oo/interfaces/zif_demo', dependent: true },
+        ]);
+    });
+
+    it('should return no dependents for message-only responses', () => {
+        const [dependents, error] = parseInactiveObjects(ACTIVATION_MESSAGES, TARGETS);
+
+        expect(error).toBeNull();
+        expect(dependents).toEqual([]);
+    });
+
+    it('should return no dependents for an empty response', () => {
+        const [dependents] = parseInactiveObjects('', TARGETS);
+
+        expect(dependents).toEqual([]);
+    });
+});
+
+// activateObjects Tests
+
+describe('activateObjects', () => {
+    it('should confirm an inactive objects list without dependents', async () => {
+        const requestor = createRequestor(PRE_AUDIT_REQUESTED_ONLY);
+        const [results, error] = await activateObjects(requestor, [{ name: 'ZCL_DEMO', extension: 'aclass' }]);
+
+        expect(error).toBeNull();
+        expect(requestor.preAudits).toEqual(['true', 'false']);
+        expect(results?.map(r => r.name)).toEqual(['ZCL_DEMO']);
+        expect(results?.[0]?.status).toBe('error');
+    });
+
+    it('should include dependents in the confirmation', async () => {
+        const requestor = createRequestor(PRE_AUDIT_RESPONSE);
+        const [results] = await activateObjects(requestor, [{ name: 'ZCL_DEMO', extension: 'aclass' }]);
+
+        expect(requestor.preAudits).toEqual(['true', 'false']);
+        expect(results?.map(r => r.name)).toEqual(['ZCL_DEMO', 'ZIF_DEMO']);
+    });
+
+    it('should not post again when the pre-audit activated the objects', async () => {
+        const requestor = createRequestor(ACTIVATION_MESSAGES);
+        await activateObjects(requestor, [{ name: 'ZCL_DEMO', extension: 'aclass' }]);
+
+        expect(requestor.preAudits).toEqual(['true']);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for Inactive Objects Parsing
+ *
+ * Tests the activation worklist feed:
+ * - parseInactiveObjectList() - entries, owners, deletions and transports
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseInactiveObjectList } from '../../../../core/adt/craud/inactiveObjects';
+
+// Test Fixtures
+
+const INACTIVE_OBJECTS = `<?xml version="1.0" encoding="utf-8"?>
+<ioc:inactiveObjects xmlns:ioc="http://www.sap.com/abapxml/inactiveCtsObjects" xmlns:adtcore="http://www.sap.com/adt/core">
+  <ioc:entry>
+    <ioc:object ioc:user="DEVELOPER" ioc:deleted="false">
+      <ioc:ref adtcore:uri="/sap/bc/adt/oo/classes/zcl_demo" adtcore:type="CLAS/OC" adtcore:name="ZCL_DEMO"/>
+    </ioc:object>
+    <ioc:transport>
+      <ioc:ref adtcore:uri="/sap/bc/adt/cts/transportrequests/DEVK900123" adtcore:type="RQRQ" adtcore:name="DEVK900123"/>
+    </ioc:transport>
+  </ioc:entry>
+  <ioc:entry>
+    <ioc:object ioc:user="DEVELOPER" ioc:deleted="true">
+      <ioc:ref adtcore:uri="/sap/bc/adt/ddic/ddl/sources/zdemo_old" adtcore:type="DDLS/DF" adtcore:name="ZDEMO_OLD"/>
+    </ioc:object>
+  </ioc:entry>
+  <ioc:entry>
+    <ioc:object ioc:user="DEVELOPER" ioc:deleted="false">
+      <ioc:ref adtcore:uri="/sap/bc/adt/vit/wb/object_type/xyzz/object_name/ZUNKNOWN" adtcore:type="XYZZ/X" adtcore:name="ZUNKNOWN"/>
+    </ioc:object>
+  </ioc:entry>
+  <ioc:entry>
+    <ioc:transport>
+      <ioc:ref adtcore:uri="/sap/bc/adt/cts/transportrequests/DEVK900124" adtcore:type="RQRQ" adtcore:name="DEVK900124"/>
+    </ioc:transport>
+  </ioc:entry>
+</ioc:inactiveObjects>`;
+
+// parseInactiveObjectList Tests
+
+describe('parseInactiveObjectList', () => {
+    it('should parse objects with owner and transport', () => {
+        const [objects, error] = parseInactiveObjectList(INACTIVE_OBJECTS);
+
+        expect(error).toBeNull();
+        expect(objects![0]).toEqual({
+            name: 'ZCL_DEMO',
+            extension: 'aclass',
+            objectType: 'CLAS/OC',
+            uri: '/sap/bc/adt/oo/classes/zcl_demo',
+            user: 'DEVELOPER',
+            deleted: false,
+            transport: 'DEVK900123',
+        });
+    });
+
+    it('should flag deletions and omit missing transports', () => {
+        const [objects] = parseInactiveObjectList(INACTIVE_OBJECTS);
+        const deleted = objects![1]!;
+
+        expect(deleted.deleted).toBe(true);
+        expect(deleted.extension).toBe('asddls');
+        expect(deleted.transport).toBeUndefined();
+    });
+
+    it('should keep unconfigured types with an empty extension', () => {
+        const [objects] = parseInactiveObjectList(INACTIVE_OBJECTS);
+
+        expect(objects![2]!.extension).toBe('');
+        expect(objects![2]!.objectType).toBe('XYZZ/X');
+    });
+
+    it('should skip entries without an object', () => {
+        const [objects] = parseInactiveObjectList(INACTIVE_OBJECTS);
+
+        expect(objects).toHaveLength(3);
+    });
+
+    it('should return an empty list for an empty response', () => {
+        const [objects, error] = parseInactiveObjectList('');
+
+        expect(error).toBeNull();
+        expect(objects).toEqual([]);
+    });
+});
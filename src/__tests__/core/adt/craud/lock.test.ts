@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for Object Locks
+ *
+ * Tests lock conflict handling:
+ * - parseLockConflict() - owner, transport and timestamp of a conflict
+ * - lockObject() - typed error for lock conflicts
+ * - getLockStatus() - transport locks and probed edit locks
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { getLockStatus, lockObject, parseLockConflict, ObjectLockedError } from '../../../../core/adt/craud/lock';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const PROGRAM = { name: 'ZDEMO', extension: 'asprog' };
+
+const exception = (message: string, properties: Record<string, string> = {}) => `<?xml version="1.0" encoding="utf-8"?>
+<exc:exception xmlns:exc="http://www.sap.com/abapxml/types/communicationframework">
+    <namespace id="com.sap.adt"/>
+    <type id="ExceptionResourceNoAccess"/>
+    <message lang="EN">${message}</message>
+    <properties>
+        ${Object.entries(properties).map(([key, value]) => `<entry key="${key}">${value}</entry>`).join('\n        ')}
+    </properties>
+</exc:exception>`;
+
+const EDITING_CONFLICT = exception('User DEVELOPER2 is currently editing ZDEMO', {
+    'T100KEY-ID': 'EU',
+    'T100KEY-NO': '510',
+    'T100KEY-V1': 'DEVELOPER2',
+    'T100KEY-V2': 'ZDEMO',
+});
+
+const LOCK_RESULT = `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+    <asx:values>
+        <DATA>
+            <LOCK_HANDLE>HANDLE_1</LOCK_HANDLE>
+            <CORRNR>DEVK900123</CORRNR>
+            <CORRUSER>DEVELOPER</CORRUSER>
+        </DATA>
+    </asx:values>
+</asx:abap>`;
+
+const transportCheck = (locks: string) => `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+    <asx:values>
+        <DATA>
+            <RESULT>S</RESULT><RECORDING>X</RECORDING><DLVUNIT>HOME</DLVUNIT>
+            ${locks}
+        </DATA>
+    </asx:values>
+</asx:abap>`;
+
+const lockHolder = (owner: string) =>
+    `<LOCKS><CTS_OBJECT_LOCK><LOCK_HOLDER><REQ_HEADER><TRKORR>DEVK900123</TRKORR><AS4USER>${owner}</AS4USER></REQ_HEADER></LOCK_HOLDER></CTS_OBJECT_LOCK></LOCKS>`;
+
+// Answers transport checks with `respond`, lock requests with `lock` and records every action (or path)
+function createRequestor(respond: () => Response, lock = respond): AdtRequestor & { actions: string[] } {
+    const actions: string[] = [];
+    return {
+        actions,
+        request: async ({ path, params }) => {
+            const action = params?.['_action'] ? String(params['_action']) : path;
+            actions.push(action);
+            if (action === 'LOCK') return [lock(), null];
+            return [path.endsWith('/transportchecks') ? respond() : new Response(''), null];
+        },
+    };
+}
+
+// parseLockConflict Tests
+
+describe('parseLockConflict', () => {
+    it('should read the owner of an enqueue conflict', () => {
+        const conflict = parseLockConflict(EDITING_CONFLICT);
+
+        expect(conflict).toBeInstanceOf(ObjectLockedError);
+        expect(conflict!.owner).toBe('DEVELOPER2');
+        expect(conflict!.message).toBe('User DEVELOPER2 is currently editing ZDEMO');
+    });
+
+    it('should read transport and timestamp from the message', () => {
+        const conflict = parseLockConflict(exception('ZDEMO is locked in request DEVK900123 of user DEVELOPER3 since 2024-03-01 10:15:00'));
+
+        expect(conflict!.owner).toBe('DEVELOPER3');
+        expect(conflict!.transport).toBe('DEVK900123');
+        expect(conflict!.lockedAt).toBe('2024-03-01T10:15:00');
+    });
+
+    it('should ignore other errors', () => {
+        expect(parseLockConflict(exception('Resource ZDEMO does not exist'))).toBeNull();
+        expect(parseLockConflict('')).toBeNull();
+    });
+});
+
+// lockObject Tests
+
+describe('lockObject', () => {
+    it('should return an ObjectLockedError for lock conflicts', async () => {
+        const requestor = createRequestor(() => new Response(EDITING_CONFLICT, { status: 403 }));
+        const [, error] = await lockObject(requestor, PROGRAM);
+
+        expect(error).toBeInstanceOf(ObjectLockedError);
+        expect((error as ObjectLockedError).owner).toBe('DEVELOPER2');
+    });
+
+    it('should return a plain error for other failures', async () => {
+        const requestor = createRequestor(() => new Response(exception('Internal error'), { status: 500 }));
+        const [, error] = await lockObject(requestor, PROGRAM);
+
+        expect(error).not.toBeInstanceOf(ObjectLockedError);
+        expect(error!.message).toContain('Failed to lock');
+    });
+});
+
+// getLockStatus Tests
+
+describe('getLockStatus', () => {
+    it('should report the owner of the locking request', async () => {
+        const requestor = createRequestor(() => new Response(transportCheck(lockHolder('DEVELOPER2'))));
+        const [status, error] = await getLockStatus(requestor, PROGRAM, 'DEVELOPER');
+
+        expect(error).toBeNull();
+        expect(status).toEqual({ object: PROGRAM, locked: true, held: false, owner: 'DEVELOPER2', transport: 'DEVK900123' });
+        expect(requestor.actions).toEqual(['/sap/bc/adt/cts/transportchecks']);
+    });
+
+    it('should not report requests of the same user as locked', async () => {
+        const requestor = createRequestor(
+            () => new Response(transportCheck(lockHolder('DEVELOPER'))),
+            () => new Response(LOCK_RESULT)
+        );
+        const [status] = await getLockStatus(requestor, PROGRAM, 'developer');
+
+        expect(status).toEqual({ object: PROGRAM, locked: false, held: false, owner: 'DEVELOPER', transport: 'DEVK900123' });
+    });
+
+    it('should report the owner of an edit lock', async () => {
+        const requestor = createRequestor(
+            () => new Response(transportCheck('')),
+            () => new Response(EDITING_CONFLICT, { status: 403 })
+        );
+        const [status, error] = await getLockStatus(requestor, PROGRAM, 'DEVELOPER');
+
+        expect(error).toBeNull();
+        expect(status).toEqual({ object: PROGRAM, locked: true, held: false, owner: 'DEVELOPER2' });
+        expect(requestor.actions).toEqual(['/sap/bc/adt/cts/transportchecks', 'LOCK']);
+    });
+
+    it('should release the probe lock of unlocked objects', async () => {
+        const requestor = createRequestor(() => new Response(transportCheck('')), () => new Response(LOCK_RESULT));
+        const [status] = await getLockStatus(requestor, PROGRAM, 'DEVELOPER');
+
+        expect(status).toEqual({ object: PROGRAM, locked: false, held: false });
+        expect(requestor.actions).toEqual(['/sap/bc/adt/cts/transportchecks', 'LOCK', 'UNLOCK']);
+    });
+
+    it('should return other probe failures', async () => {
+        const requestor = createRequestor(
+            () => new Response(transportCheck('')),
+            () => new Response(exception('Internal error'), { status: 500 })
+        );
+        const [, error] = await getLockStatus(requestor, PROGRAM, 'DEVELOPER');
+
+        expect(error!.message).toContain('Failed to lock');
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for Unified Diff Patches
+ *
+ * Tests git-compatible patch handling:
+ * - createUnifiedDiff() - headers, hunks and context lines
+ * - applyPatch() - applying patches to server content
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { applyPatch, createUnifiedDiff } from '../../../../core/adt/craud/patch';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const URI = '/sap/bc/adt/programs/programs/zdemo/source/main';
+const SERVER = 'REPORT zdemo.\nDATA lv_a TYPE i.\nDATA lv_b TYPE i.\nlv_a = 1.\nlv_b = 2.\nWRITE lv_a.\n';
+const LOCAL = 'REPORT zdemo.\nDATA lv_a TYPE i.\nDATA lv_b TYPE i.\nlv_a = 10.\nlv_b = 2.\nWRITE lv_a.\n';
+
+// Serves SERVER as the source of every object
+const serverRequestor: AdtRequestor = {
+    request: async () => [new Response(SERVER), null],
+};
+
+// createUnifiedDiff Tests
+
+describe('createUnifiedDiff', () => {
+    it('should use the source URI in git-style headers', () => {
+        const patch = createUnifiedDiff(URI, SERVER, LOCAL);
+
+        expect(patch.startsWith(`--- a${URI}\n+++ b${URI}\n`)).toBe(true);
+        expect(patch).toContain('-lv_a = 1.\n+lv_a = 10.\n');
+    });
+
+    it('should honor the context line count', () => {
+        expect(createUnifiedDiff(URI, SERVER, LOCAL)).toContain('@@ -1,6 +1,6 @@');
+        expect(createUnifiedDiff(URI, SERVER, LOCAL, 0)).toContain('@@ -4,1 +4,1 @@');
+    });
+
+    it('should return an empty string for equal content', () => {
+        expect(createUnifiedDiff(URI, SERVER, SERVER)).toBe('');
+    });
+});
+
+// applyPatch Tests
+
+describe('applyPatch', () => {
+    it('should apply a patch to server content', async () => {
+        const patch = createUnifiedDiff(URI, SERVER, LOCAL);
+        const [result, error] = await applyPatch(serverRequestor, { name: 'ZDEMO', extension: 'asprog' }, patch);
+
+        expect(error).toBeNull();
+        expect(result).toEqual({ name: 'ZDEMO', extension: 'asprog', content: LOCAL });
+    });
+
+    it('should pick the matching file of a multi-file patch', async () => {
+        const other = createUnifiedDiff('/sap/bc/adt/programs/programs/zother/source/main', 'a\n', 'b\n');
+        const patch = other + createUnifiedDiff(URI, SERVER, LOCAL);
+        const [result] = await applyPatch(serverRequestor, { name: 'ZDEMO', extension: 'asprog' }, patch);
+
+        expect(result!.content).toBe(LOCAL);
+    });
+
+    it('should return error when the patch does not apply', async () => {
+        const patch = createUnifiedDiff(URI, 'something else\n', 'entirely\n');
+        const [result, error] = await applyPatch(serverRequestor, { name: 'ZDEMO', extension: 'asprog' }, patch);
+
+        expect(result).toBeNull();
+        expect(error!.message).toContain('does not apply');
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for Object Reads
+ *
+ * Tests metadata handling:
+ * - parseObjectMetadata() - package, owner, timestamps and language
+ * - readObject() - opt-in metadata and version markers
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseObjectMetadata, readObject } from '../../../../core/adt/craud/read';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const CLASS_DOCUMENT = `<?xml version="1.0" encoding="utf-8"?>
+<class:abapClass xmlns:class="http://www.sap.com/adt/oo/classes" xmlns:adtcore="http://www.sap.com/adt/core"
+    adtcore:name="ZCL_DEMO" adtcore:type="CLAS/OC" adtcore:description="Demo class"
+    adtcore:responsible="DEVELOPER" adtcore:masterLanguage="EN" adtcore:version="active"
+    adtcore:createdAt="2024-01-10T08:00:00Z" adtcore:createdBy="CREATOR"
+    adtcore:changedAt="2024-03-01T10:15:00Z" adtcore:changedBy="DEVELOPER">
+  <adtcore:packageRef adtcore:uri="/sap/bc/adt/packages/zdemo" adtcore:type="DEVC/K" adtcore:name="ZDEMO"/>
+</class:abapClass>`;
+
+const SOURCE = 'CLASS zcl_demo DEFINITION PUBLIC.\nENDCLASS.';
+
+// Serves the source and the object document, recording requested paths
+function createRequestor(paths: string[]): AdtRequestor {
+    return {
+        request: async ({ path }) => {
+            paths.push(path);
+            const body = path.endsWith('/source/main') ? SOURCE : CLASS_DOCUMENT;
+            return [new Response(body, { headers: { 'ETag': '"v2"', 'Last-Modified': 'Fri, 01 Mar 2024 10:15:00 GMT' } }), null];
+        },
+    };
+}
+
+// parseObjectMetadata Tests
+
+describe('parseObjectMetadata', () => {
+    it('should parse package and root attributes', () => {
+        const [metadata, error] = parseObjectMetadata(CLASS_DOCUMENT);
+
+        expect(error).toBeNull();
+        expect(metadata).toEqual({
+            package: 'ZDEMO',
+            description: 'Demo class',
+            responsible: 'DEVELOPER',
+            createdBy: 'CREATOR',
+            createdAt: '2024-01-10T08:00:00Z',
+            modifiedBy: 'DEVELOPER',
+            changedAt: '2024-03-01T10:15:00Z',
+            masterLanguage: 'EN',
+            version: 'active',
+        });
+    });
+
+    it('should omit missing attributes', () => {
+        const [metadata] = parseObjectMetadata('<obj xmlns:adtcore="http://www.sap.com/adt/core" adtcore:name="X"/>');
+
+        expect(metadata).toEqual({ package: '' });
+    });
+});
+
+// readObject Tests
+
+describe('readObject', () => {
+    it('should only read the source by default', async () => {
+        const paths: string[] = [];
+        const [result, error] = await readObject(createRequestor(paths), { name: 'ZCL_DEMO', extension: 'aclass' });
+
+        expect(error).toBeNull();
+        expect(paths).toHaveLength(1);
+        expect(result!.package).toBe('');
+        expect(result!.etag).toBe('"v2"');
+    });
+
+    it('should read the object document with includeMetadata', async () => {
+        const paths: string[] = [];
+        const [result] = await readObject(createRequestor(paths), { name: 'ZCL_DEMO', extension: 'aclass' }, { includeMetadata: true });
+
+        expect(paths).toHaveLength(2);
+        expect(result!.content).toBe(SOURCE);
+        expect(result!.package).toBe('ZDEMO');
+        expect(result!.responsible).toBe('DEVELOPER');
+        expect(result!.changedAt).toBe('2024-03-01T10:15:00Z');
+        expect(result!.modifiedAt).toBe('Fri, 01 Mar 2024 10:15:00 GMT');
+    });
+});
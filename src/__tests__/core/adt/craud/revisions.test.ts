@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Revisions
+ *
+ * Tests version history handling:
+ * - parseRevisionFeed() - versions feed entries, authors and transports
+ * - gitDiffRevisions() - diffing two local revisions
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseRevisionFeed } from '../../../../core/adt/craud/revisions';
+import { gitDiffRevisions } from '../../../../core/adt/craud/gitDiff';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const VERSIONS_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<atom:feed xmlns:atom="http://www.w3.org/2005/Atom">
+  <atom:title>Version List of ZCL_DEMO (CLAS)</atom:title>
+  <atom:entry>
+    <atom:author><atom:name>DEVELOPER</atom:name></atom:author>
+    <atom:content type="text/plain" src="/sap/bc/adt/oo/classes/zcl_demo/includes/main/versions/20240301101500/00002/content"/>
+    <atom:id>00002</atom:id>
+    <atom:title>DEVK900124 : Fix rounding</atom:title>
+    <atom:updated>2024-03-01T10:15:00Z</atom:updated>
+  </atom:entry>
+  <atom:entry>
+    <atom:author><atom:name>OTHER_DEV</atom:name></atom:author>
+    <atom:content type="text/plain" src="/sap/bc/adt/oo/classes/zcl_demo/includes/main/versions/20240115090000/00001/content"/>
+    <atom:id>00001</atom:id>
+    <atom:title>Version 00001</atom:title>
+    <atom:updated>2024-01-15T09:00:00Z</atom:updated>
+  </atom:entry>
+  <atom:entry>
+    <atom:id>00000</atom:id>
+    <atom:title>Entry without content</atom:title>
+  </atom:entry>
+</atom:feed>`;
+
+// Requests are not expected when both sides are local
+const NO_REQUESTS = {} as AdtRequestor;
+
+// parseRevisionFeed Tests
+
+describe('parseRevisionFeed', () => {
+    it('should parse versions newest first', () => {
+        const [revisions, error] = parseRevisionFeed(VERSIONS_FEED);
+
+        expect(error).toBeNull();
+        expect(revisions!.map(r => r.id)).toEqual(['00002', '00001']);
+        expect(revisions![0]).toEqual({
+            id: '00002',
+            uri: '/sap/bc/adt/oo/classes/zcl_demo/includes/main/versions/20240301101500/00002/content',
+            author: 'DEVELOPER',
+            timestamp: '2024-03-01T10:15:00Z',
+            title: 'DEVK900124 : Fix rounding',
+            transport: 'DEVK900124',
+        });
+    });
+
+    it('should omit transport for unreleased versions', () => {
+        const [revisions] = parseRevisionFeed(VERSIONS_FEED);
+
+        expect(revisions![1]!.transport).toBeUndefined();
+        expect(revisions![1]!.author).toBe('OTHER_DEV');
+    });
+
+    it('should return error for malformed XML', () => {
+        const [revisions, error] = parseRevisionFeed('');
+
+        expect(revisions).toBeNull();
+        expect(error).not.toBeNull();
+    });
+});
+
+// gitDiffRevisions Tests
+
+describe('gitDiffRevisions', () => {
+    it('should diff base against target', async () => {
+        const [result, error] = await gitDiffRevisions(
+            NO_REQUESTS,
+            { name: 'ZCL_DEMO', extension: 'aclass' },
+            { content: 'a\nb\nc' },
+            { content: 'a\nB\nc\nd' }
+        );
+
+        expect(error).toBeNull();
+        expect(result!.label).toBe('Class');
+        expect(result!.diffs).toEqual([
+            { type: 'modification', length: 2, diffStart: 1, localStart: 1, changes: [['b'], ['B']] },
+            { type: 'addition', length: 1, diffStart: 4, localStart: 3, changes: ['d'] },
+        ]);
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Column Metadata and Value Help
+ *
+ * Tests:
+ * - parseElementInfo() - fields, key flags, labels and CDS parameters
+ * - getValueHelp() - domain fixed values, check tables with text tables
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseElementInfo } from '../../../../core/adt/data_extraction/columns';
+import { getValueHelp } from '../../../../core/adt/data_extraction/valueHelp';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const entry = (key: string, value: string) => `<abapsource:entry abapsource:key="${key}">${value}</abapsource:entry>`;
+
+const ELEMENT_INFO = `<?xml version="1.0" encoding="utf-8"?>
+<abapsource:elementInfo xmlns:abapsource="http://www.sap.com/adt/abapsource" xmlns:adtcore="http://www.sap.com/adt/core" adtcore:name="ZSNAP_ORDERS" adtcore:type="DDLS/DF">
+    <abapsource:elementInfo adtcore:name="P_DATE" adtcore:type="CDS_PARAMETER">
+        <abapsource:properties>${entry('ddicDataType', 'DATS')}${entry('ddicLength', '8')}</abapsource:properties>
+    </abapsource:elementInfo>
+    <abapsource:elementInfo adtcore:name="OrderId" adtcore:type="CDS_ELEMENT">
+        <abapsource:properties>
+            ${entry('ddicIsKey', 'true')}${entry('ddicDataElement', 'VBELN')}${entry('ddicDataType', 'CHAR')}${entry('ddicLength', '10')}
+            ${entry('ddicLabelShort', 'Order')}${entry('ddicLabelMedium', 'Sales Order')}${entry('ddicLabelLong', 'Sales Document')}
+        </abapsource:properties>
+    </abapsource:elementInfo>
+    <abapsource:elementInfo adtcore:name="NetAmount" adtcore:type="CDS_ELEMENT">
+        <abapsource:properties>${entry('ddicDataType', 'CURR')}${entry('ddicLength', '15')}${entry('ddicDecimals', '2')}</abapsource:properties>
+    </abapsource:elementInfo>
+    <abapsource:elementInfo adtcore:name="_Customer" adtcore:type="CDS_ASSOCIATION"/>
+</abapsource:elementInfo>`;
+
+// Data preview response with string cells
+function previewResponse(columns: string[], rows: string[][]): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview">
+    ${columns.map((name, i) => `<dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="${name}" dataPreview:colType="C"/>
+        <dataPreview:dataSet>${rows.map(r => `<dataPreview:data>${r[i]}</dataPreview:data>`).join('')}</dataPreview:dataSet>
+    </dataPreview:columns>`).join('')}
+</dataPreview:tableData>`;
+}
+
+type Answer = [columns: string[], rows: string[][]];
+
+// Answers DDIC lookups by SQL; records the SQL
+function createRequestor(answer: (sql: string) => Answer): AdtRequestor & { queries: string[] } {
+    const queries: string[] = [];
+    return {
+        queries,
+        request: async ({ body }) => {
+            const sql = String(body);
+            queries.push(sql);
+            const [columns, rows] = answer(sql);
+            return [new Response(previewResponse(columns, rows)), null];
+        },
+    };
+}
+
+// parseElementInfo Tests
+
+describe('parseElementInfo', () => {
+    it('should parse columns with keys and labels', () => {
+        const [result] = parseElementInfo(ELEMENT_INFO, 'view');
+
+        expect(result?.objectName).toBe('ZSNAP_ORDERS');
+        expect(result?.columns).toEqual([
+            {
+                name: 'OrderId', key: true, dataElement: 'VBELN', abapType: 'CHAR', length: 10,
+                labels: { short: 'Order', medium: 'Sales Order', long: 'Sales Document' },
+            },
+            { name: 'NetAmount', key: false, abapType: 'CURR', length: 15, decimals: 2, labels: {} },
+        ]);
+    });
+
+    it('should list CDS parameters separately', () => {
+        const [result] = parseElementInfo(ELEMENT_INFO, 'view');
+        expect(result?.parameters).toEqual([{ name: 'P_DATE', abapType: 'DATS', length: 8 }]);
+    });
+
+    it('should reject other documents', () => {
+        const [, error] = parseElementInfo('<other/>', 'table');
+        expect(error?.message).toContain('elementInfo');
+    });
+});
+
+// getValueHelp Tests
+
+describe('getValueHelp', () => {
+    it('should return domain fixed values', async () => {
+        const requestor = createRequestor((sql): Answer => {
+            if (sql.includes('from DD03L')) return [['DOMNAME', 'CHECKTABLE'], [['ZSTATUS', '']]];
+            return [['DOMVALUE_L', 'DOMVALUE_H', 'DDTEXT'], [['A', '', 'Active'], ['I', '', 'Inactive']]];
+        });
+        const [result, error] = await getValueHelp(requestor, 'ZORDERS', 'STATUS', 'act');
+
+        expect(error).toBeNull();
+        expect(result).toEqual({
+            field: 'STATUS',
+            source: 'fixedValues',
+            domain: 'ZSTATUS',
+            values: [{ value: 'A', description: 'Active' }, { value: 'I', description: 'Inactive' }],
+        });
+        expect(requestor.queries[1]).toContain('left outer join DD07T as t on t~DOMNAME = main~DOMNAME');
+        expect(requestor.queries[1]).toContain("( main~DOMVALUE_L like '%ACT%' or t~DDTEXT like '%act%' )");
+    });
+
+    it('should read the check table with texts', async () => {
+        const requestor = createRequestor((sql): Answer => {
+            if (sql.includes("TABNAME = 'ZORDERS'")) return [['DOMNAME', 'CHECKTABLE'], [['WERKS', 'T001W']]];
+            if (sql.includes('from DD07L')) return [['DOMVALUE_L', 'DOMVALUE_H', 'DDTEXT'], []];
+            if (sql.includes("TABNAME = 'T001W'")) return [['FIELDNAME', 'DOMNAME'], [['MANDT', 'MANDT'], ['WERKS', 'WERKS']]];
+            if (sql.includes('from DD08L')) return [['TABNAME'], [['T001W_T']]];
+            if (sql.includes("TABNAME = 'T001W_T'")) {
+                return [['FIELDNAME', 'KEYFLAG', 'DOMNAME', 'DATATYPE', 'POSITION'], [
+                    ['WERKS', 'X', 'WERKS', 'CHAR', '1'], ['SPRAS', 'X', 'SPRAS', 'LANG', '2'], ['NAME1', '', 'TEXT30', 'CHAR', '3'],
+                ]];
+            }
+            return [['WERKS', 'NAME1'], [['1000', 'Hamburg']]];
+        });
+        const [result, error] = await getValueHelp(requestor, 'ZORDERS', 'WERKS');
+
+        expect(error).toBeNull();
+        expect(result).toEqual({
+            field: 'WERKS',
+            source: 'checkTable',
+            domain: 'WERKS',
+            checkTable: 'T001W',
+            values: [{ value: '1000', description: 'Hamburg' }],
+        });
+        expect(requestor.queries.at(-1)).toContain("left outer join T001W_T as t on t~WERKS = main~WERKS and t~SPRAS = 'E'");
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Structured Data Preview
+ *
+ * Tests previewQuery():
+ * - Single-object queries on the data preview endpoint
+ * - Joined queries on the freestyle endpoint with column sources
+ * - Validation before any request
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { previewQuery } from '../../../../core/adt/data_extraction/dataPreview';
+import type { DataPreviewQuery } from '../../../../core/adt/data_extraction/queryBuilder';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const PREVIEW_RESPONSE = `<?xml version="1.0" encoding="utf-8"?>
+<dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview">
+    <dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="MATNR" dataPreview:colType="C"/>
+        <dataPreview:dataSet><dataPreview:data>A001</dataPreview:data></dataPreview:dataSet>
+    </dataPreview:columns>
+    <dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="MAKTX" dataPreview:colType="C"/>
+        <dataPreview:dataSet><dataPreview:data>Bolt</dataPreview:data></dataPreview:dataSet>
+    </dataPreview:columns>
+</dataPreview:tableData>`;
+
+// Records the path of each request
+function createRequestor(): AdtRequestor & { paths: string[] } {
+    const paths: string[] = [];
+    return {
+        paths,
+        request: async ({ path }) => {
+            paths.push(path);
+            return [new Response(PREVIEW_RESPONSE), null];
+        },
+    };
+}
+
+const QUERY: DataPreviewQuery = {
+    objectName: 'MARA',
+    objectType: 'table',
+    fields: ['MATNR', 'MAKTX'],
+};
+
+// previewQuery Tests
+
+describe('previewQuery', () => {
+    it('should use the data preview endpoint for single objects', async () => {
+        const requestor = createRequestor();
+        const [frame] = await previewQuery(requestor, QUERY);
+
+        expect(requestor.paths).toEqual(['/sap/bc/adt/datapreview/ddic']);
+        expect(frame?.columns[0]?.source).toBeUndefined();
+    });
+
+    it('should use the freestyle endpoint for joins and track column sources', async () => {
+        const requestor = createRequestor();
+        const [frame, error] = await previewQuery(requestor, {
+            ...QUERY,
+            fields: ['MATNR', 't~MAKTX'],
+            joins: [{ type: 'inner', objectName: 'MAKT', alias: 't', on: [{ field: 'MATNR', otherField: 'MATNR' }] }],
+        });
+
+        expect(error).toBeNull();
+        expect(requestor.paths).toEqual(['/sap/bc/adt/datapreview/freestyle']);
+        expect(frame?.columns.map(c => c.source)).toEqual(['main', 't']);
+    });
+
+    it('should fail validation without a request', async () => {
+        const requestor = createRequestor();
+        const [, error] = await previewQuery(requestor, { ...QUERY, fields: ['MATNR FROM USR02'] });
+
+        expect(error?.name).toBe('SqlValidationError');
+        expect(requestor.paths).toHaveLength(0);
+    });
+});
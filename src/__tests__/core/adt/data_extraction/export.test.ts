@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Export Serializers
+ *
+ * Tests serialization of data preview results:
+ * - toCsv() - RFC 4180 quoting, delimiter, BOM and header options
+ * - toNdjson() - one object per row, bigint values as strings
+ * - toColumnar() - values per column, unique keys for duplicate column names
+ * - createExportSerializer() - incremental serialization of pages
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createExportSerializer, toColumnar, toCsv, toNdjson } from '../../../../core/adt/data_extraction/export';
+import type { DataFrame } from '../../../../core/adt/data_extraction/previewParser';
+
+// Test Fixtures
+
+const FRAME: DataFrame = {
+    columns: [{ name: 'MATNR', dataType: 'C' }, { name: 'MAKTX', dataType: 'C' }],
+    rows: [
+        ['A001', 'Bolt, "M8"'],
+        ['A002', 'Line 1\nLine 2'],
+        ['A003', null],
+    ],
+};
+
+// Join result with a duplicate name from an association and one without source
+const JOINED: DataFrame = {
+    columns: [
+        { name: 'NAME', dataType: 'C', source: 'main' },
+        { name: 'NAME', dataType: 'C', source: 'c' },
+        { name: 'NAME', dataType: 'C' },
+    ],
+    rows: [['Order', 'ACME', 'Berlin']],
+};
+
+// toCsv Tests
+
+describe('toCsv', () => {
+    it('should quote fields per RFC 4180', () => {
+        expect(toCsv(FRAME)).toBe(
+            'MATNR,MAKTX\r\n' +
+            'A001,"Bolt, ""M8"""\r\n' +
+            'A002,"Line 1\nLine 2"\r\n' +
+            'A003,\r\n'
+        );
+    });
+
+    it('should use the configured delimiter', () => {
+        const frame: DataFrame = { columns: FRAME.columns, rows: [['A;1', 'Bolt, M8']] };
+        expect(toCsv(frame, { delimiter: ';', header: false })).toBe('"A;1";Bolt, M8\r\n');
+    });
+
+    it('should prefix a BOM on request', () => {
+        expect(toCsv(FRAME, { bom: true }).startsWith('\uFEFFMATNR')).toBe(true);
+        expect(toCsv(FRAME).startsWith('MATNR')).toBe(true);
+    });
+});
+
+// toNdjson Tests
+
+describe('toNdjson', () => {
+    it('should write one object per row', () => {
+        const lines = toNdjson(FRAME).trimEnd().split('\n');
+
+        expect(lines).toHaveLength(3);
+        expect(JSON.parse(lines[0]!)).toEqual({ MATNR: 'A001', MAKTX: 'Bolt, "M8"' });
+        expect(JSON.parse(lines[2]!)).toEqual({ MATNR: 'A003', MAKTX: null });
+    });
+
+    it('should write bigint values as strings', () => {
+        const frame: DataFrame = { columns: [{ name: 'ID', dataType: 'INT8' }], rows: [[9007199254740993n]] };
+
+        expect(toNdjson(frame)).toBe('{"ID":"9007199254740993"}\n');
+    });
+
+    it('should keep duplicate column names apart', () => {
+        const lines = toNdjson(JOINED).trimEnd().split('\n');
+
+        expect(JSON.parse(lines[0]!)).toEqual({ NAME: 'Order', 'c.NAME': 'ACME', NAME_2: 'Berlin' });
+    });
+});
+
+// toColumnar Tests
+
+describe('toColumnar', () => {
+    it('should group values by column', () => {
+        expect(toColumnar(FRAME)).toEqual({
+            columns: FRAME.columns,
+            data: { MATNR: ['A001', 'A002', 'A003'], MAKTX: ['Bolt, "M8"', 'Line 1\nLine 2', null] },
+            rowCount: 3,
+        });
+    });
+
+    it('should key duplicate column names by source, else by number', () => {
+        const columnar = toColumnar(JOINED);
+
+        expect(columnar.data).toEqual({ NAME: ['Order'], 'c.NAME': ['ACME'], NAME_2: ['Berlin'] });
+        expect(columnar.columns.map(c => c.name)).toEqual(['NAME', 'c.NAME', 'NAME_2']);
+        expect(columnar.columns[1]!.source).toBe('c');
+    });
+});
+
+// createExportSerializer Tests
+
+describe('createExportSerializer', () => {
+    it('should serialize pages incrementally', () => {
+        const serializer = createExportSerializer('csv');
+        const text = serializer.begin(FRAME.columns)
+            + serializer.rows([['A001', 'x']])
+            + serializer.rows([['A002', 'y']])
+            + serializer.end();
+
+        expect(text).toBe('MATNR,MAKTX\r\nA001,x\r\nA002,y\r\n');
+    });
+
+    it('should emit columnar output only at the end', () => {
+        const serializer = createExportSerializer('columnar');
+        expect(serializer.begin(FRAME.columns) + serializer.rows(FRAME.rows)).toBe('');
+        expect(JSON.parse(serializer.end()).rowCount).toBe(3);
+    });
+
+    it('should write bigint values of columnar output as strings', () => {
+        const serializer = createExportSerializer('columnar');
+        serializer.begin([{ name: 'ID', dataType: 'INT8' }]);
+        serializer.rows([[9007199254740993n]]);
+
+        expect(JSON.parse(serializer.end()).data).toEqual({ ID: ['9007199254740993'] });
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Paged Preview
+ *
+ * Tests keyset paging over data preview results:
+ * - previewDataPages() - page queries, limits and termination
+ * - keyRangeAfter() - key values of the last row
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { keyRangeAfter, previewDataPages } from '../../../../core/adt/data_extraction/pagedPreview';
+import type { DataFrame } from '../../../../core/adt/data_extraction/previewParser';
+import type { DataPreviewQuery } from '../../../../core/adt/data_extraction/queryBuilder';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const QUERY: DataPreviewQuery = {
+    objectName: 'ZORDERS',
+    objectType: 'table',
+    fields: ['ID', 'NAME'],
+    sortings: [{ field: 'ID', direction: 'ascending' }],
+};
+
+// Data preview response with INT4 IDs and CHAR names
+const previewResponse = (ids: number[]) => `<?xml version="1.0" encoding="utf-8"?>
+<dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview">
+    <dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="ID" dataPreview:colType="INT4"/>
+        <dataPreview:dataSet>${ids.map(id => `<dataPreview:data>${id}</dataPreview:data>`).join('')}</dataPreview:dataSet>
+    </dataPreview:columns>
+    <dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="NAME" dataPreview:colType="C"/>
+        <dataPreview:dataSet>${ids.map(id => `<dataPreview:data>Order ${id}</dataPreview:data>`).join('')}</dataPreview:dataSet>
+    </dataPreview:columns>
+</dataPreview:tableData>`;
+
+// Serves IDs 1..total; records the SQL and row limit of each request
+function createRequestor(total: number): AdtRequestor & { queries: { sql: string; rows: number }[] } {
+    const queries: { sql: string; rows: number }[] = [];
+    return {
+        queries,
+        request: async ({ params, body }) => {
+            const sql = String(body);
+            const rows = Number(params?.['rowNumber']);
+            queries.push({ sql, rows });
+
+            const after = Number(/ID > (\d+)/.exec(sql)?.[1] ?? 0);
+            const ids = Array.from({ length: Math.max(0, Math.min(rows, total - after)) }, (_, i) => after + i + 1);
+            return [new Response(previewResponse(ids)), null];
+        },
+    };
+}
+
+async function collect(pages: AsyncGenerator<[DataFrame, null] | [null, Error]>) {
+    const rows: unknown[][] = [];
+    for await (const [page, error] of pages) {
+        if (error) throw error;
+        rows.push(...page.rows);
+    }
+    return rows;
+}
+
+// previewDataPages Tests
+
+describe('previewDataPages', () => {
+    it('should page through all rows', async () => {
+        const requestor = createRequestor(5);
+        const rows = await collect(previewDataPages(requestor, QUERY, 2));
+
+        expect(rows.map(r => r[0])).toEqual(['1', '2', '3', '4', '5']);
+        expect(requestor.queries).toHaveLength(3);
+        expect(requestor.queries[1]!.sql).toContain('where ( ( ID > 2 ) )');
+    });
+
+    it('should stop at the query limit', async () => {
+        const requestor = createRequestor(100);
+        const rows = await collect(previewDataPages(requestor, { ...QUERY, limit: 5 }, 2));
+
+        expect(rows).toHaveLength(5);
+        expect(requestor.queries.map(q => q.rows)).toEqual([2, 2, 1]);
+    });
+
+    it('should end without an empty page when the last page is full', async () => {
+        const requestor = createRequestor(4);
+        const pages: number[] = [];
+        for await (const [page] of previewDataPages(requestor, QUERY, 2)) pages.push(page!.rows.length);
+
+        expect(pages).toEqual([2, 2]);
+    });
+
+    it('should require sortings', async () => {
+        const first = await previewDataPages(createRequestor(1), { ...QUERY, sortings: [] }).next();
+        const [, error] = first.value!;
+        expect(error?.message).toContain('requires sortings');
+    });
+});
+
+// keyRangeAfter Tests
+
+describe('keyRangeAfter', () => {
+    it('should match view columns case-insensitively', () => {
+        const page: DataFrame = { columns: [{ name: 'OrderId', dataType: 'C' }], rows: [['A1'], ['A2']] };
+        const [filter] = keyRangeAfter(page, [{ field: 'ORDERID', direction: 'ascending' }]);
+
+        expect(filter).toEqual({ type: 'keyRange', keys: [{ field: 'ORDERID', direction: 'ascending' }], after: ['A2'] });
+    });
+
+    it('should keep INT8 keys beyond double precision exact', () => {
+        const page: DataFrame = { columns: [{ name: 'ID', dataType: 'INT8' }], rows: [['9007199254740993']] };
+        const [filter] = keyRangeAfter(page, [{ field: 'ID', direction: 'ascending' }]);
+
+        expect(filter).toEqual({ type: 'keyRange', keys: [{ field: 'ID', direction: 'ascending' }], after: [{ decimal: '9007199254740993' }] });
+    });
+
+    it('should fail for unselected sort fields', () => {
+        const page: DataFrame = { columns: [{ name: 'ID', dataType: 'INT4' }], rows: [[1]] };
+        const [, error] = keyRangeAfter(page, [{ field: 'NAME', direction: 'ascending' }]);
+        expect(error?.message).toContain('NAME');
+    });
+});
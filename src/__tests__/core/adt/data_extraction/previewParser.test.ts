@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for the Preview Parser
+ *
+ * Tests parsing of data preview responses:
+ * - parseDataPreview() - column metadata, raw and typed cells
+ * - createValueConverter() - conversion per ABAP type and initial-value policy
+ * - toAbapValue() - typed cells back to SQL literal values
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createValueConverter, parseDataPreview, toAbapValue } from '../../../../core/adt/data_extraction/previewParser';
+
+// Test Fixtures
+
+const column = (name: string, type: string, values: string[], extra = '') => `
+    <dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="${name}" dataPreview:colType="${type}"${extra}/>
+        <dataPreview:dataSet>${values.map(v => `<dataPreview:data>${v}</dataPreview:data>`).join('')}</dataPreview:dataSet>
+    </dataPreview:columns>`;
+
+const PREVIEW_RESPONSE = `<?xml version="1.0" encoding="utf-8"?>
+<dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview">
+    ${column('MATNR', 'C', ['000000000000000042', 'A1'], ' dataPreview:description="Material" dataPreview:length="18"')}
+    ${column('NETPR', 'P', ['12.50', '3.00-'], ' dataPreview:length="11" dataPreview:decimals="2"')}
+    ${column('ERSDA', 'DATS', ['20240301', '00000000'])}
+    ${column('MENGE', 'INT4', ['7', ''])}
+</dataPreview:tableData>`;
+
+// parseDataPreview Tests
+
+describe('parseDataPreview', () => {
+    it('should capture label, length and decimals', () => {
+        const [frame] = parseDataPreview(PREVIEW_RESPONSE, 100, true);
+
+        expect(frame!.columns[0]).toEqual({ name: 'MATNR', dataType: 'C', label: 'Material', length: 18 });
+        expect(frame!.columns[1]).toEqual({ name: 'NETPR', dataType: 'P', length: 11, decimals: 2 });
+    });
+
+    it('should keep raw strings by default', () => {
+        const [frame] = parseDataPreview(PREVIEW_RESPONSE, 100, true);
+        expect(frame!.rows[0]).toEqual(['000000000000000042', '12.50', '20240301', '7']);
+    });
+
+    it('should convert cells in typed mode', () => {
+        const [frame] = parseDataPreview(PREVIEW_RESPONSE, 100, true, { typed: true });
+
+        expect(frame!.rows).toEqual([
+            ['000000000000000042', 12.5, '2024-03-01', 7],
+            ['A1', -3, '0000-00-00', 0],
+        ]);
+    });
+
+    it('should apply the initial-value policy', () => {
+        const [frame] = parseDataPreview(PREVIEW_RESPONSE, 100, true, { typed: { initialAsNull: true, decimals: 'string' } });
+        expect(frame!.rows[1]).toEqual(['A1', '-3.00', null, null]);
+    });
+});
+
+// createValueConverter Tests
+
+describe('createValueConverter', () => {
+    it('should convert INT8 to decimal strings or bigints', () => {
+        expect(createValueConverter('INT8')('0009007199254740993')).toBe('9007199254740993');
+        expect(createValueConverter('INT8', { int8: 'bigint' })('9007199254740993')).toBe(9007199254740993n);
+    });
+
+    it('should convert initial dates per the initial-value policy', () => {
+        expect(createValueConverter('DATS')('00000000')).toBe('0000-00-00');
+        expect(createValueConverter('D')('')).toBe('0000-00-00');
+        expect(createValueConverter('DATS', { initialAsNull: true })('00000000')).toBeNull();
+        expect(createValueConverter('D', { initialAsNull: true })('')).toBeNull();
+        expect(createValueConverter('DATS', { initialAsNull: true })('20240301')).toBe('2024-03-01');
+    });
+
+    it('should convert times and timestamps', () => {
+        expect(createValueConverter('TIMS')('101500')).toBe('10:15:00');
+        expect(createValueConverter('T')('000000')).toBe('00:00:00');
+        expect(createValueConverter('T', { initialAsNull: true })('000000')).toBeNull();
+        expect(createValueConverter('UTCL')('2024-03-01 10:15:00.1234567')).toBe('2024-03-01T10:15:00.123Z');
+    });
+
+    it('should convert booleans', () => {
+        const convert = createValueConverter('BOOLEAN');
+        expect([convert('X'), convert('')]).toEqual([true, false]);
+    });
+
+    it('should keep NUMC leading zeros', () => {
+        expect(createValueConverter('N')('000123')).toBe('000123');
+    });
+});
+
+// toAbapValue Tests
+
+describe('toAbapValue', () => {
+    it('should convert typed cells back to literals', () => {
+        expect(toAbapValue('2024-03-01', 'DATS')).toBe('20240301');
+        expect(toAbapValue(null, 'DATS')).toBe('00000000');
+        expect(toAbapValue('10:15:00', 'TIMS')).toBe('101500');
+        expect(toAbapValue(12.5, 'P')).toBe(12.5);
+        expect(toAbapValue(7, 'INT4')).toBe(7);
+        expect(toAbapValue(true, 'BOOLEAN')).toBe('X');
+    });
+
+    it('should keep the exact digits of INT8 and packed numbers', () => {
+        expect(toAbapValue('9007199254740993', 'INT8')).toEqual({ decimal: '9007199254740993' });
+        expect(toAbapValue(9007199254740993n, 'INT8')).toEqual({ decimal: '9007199254740993' });
+        expect(toAbapValue('12345678901234567.89-', 'P')).toEqual({ decimal: '-12345678901234567.89' });
+        expect(toAbapValue('', 'P')).toBe(0);
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit Tests for Column Profiling
+ *
+ * Tests profileColumns():
+ * - Statistics query and parsing (counts, min/max, mean, stddev)
+ * - Squared deviations from the mean for the standard deviation
+ * - Histogram buckets of numeric and date columns
+ * - Validation of column names
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { profileColumns } from '../../../../core/adt/data_extraction/profile';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+// Single-row data preview response
+function previewResponse(columns: [name: string, type: string, value: string][]): string {
+    return `<?xml version="1.0" encoding="utf-8"?>
+<dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview">
+    ${columns.map(([name, type, value]) => `<dataPreview:columns>
+        <dataPreview:metadata dataPreview:name="${name}" dataPreview:colType="${type}"/>
+        <dataPreview:dataSet><dataPreview:data>${value}</dataPreview:data></dataPreview:dataSet>
+    </dataPreview:columns>`).join('')}
+</dataPreview:tableData>`;
+}
+
+// NETWR (P): 4 rows 10, 20, 30, 40; ERDAT (DATS): 2024-01-01..2024-01-10, one initial; MATNR (C)
+const STATS: [string, string, string][] = [
+    ['ROW_COUNT', 'I', '4'],
+    ['D0', 'I', '4'], ['N0', 'I', '0'], ['I0', 'I', '0'], ['MIN0', 'P', '10.00'], ['MAX0', 'P', '40.00'], ['AVG0', 'F', '2.5E+01'],
+    ['D1', 'I', '3'], ['N1', 'I', '0'], ['I1', 'I', '1'], ['MIN1', 'D', '20240101'], ['MAX1', 'D', '20240110'],
+    ['D2', 'I', '4'], ['N2', 'I', '0'], ['I2', 'I', '0'], ['MIN2', 'C', 'A1'], ['MAX2', 'C', 'D4'],
+];
+
+function createRequestor(): AdtRequestor & { queries: string[] } {
+    const queries: string[] = [];
+    return {
+        queries,
+        request: async ({ body }) => {
+            const sql = String(body);
+            queries.push(sql);
+            if (sql.includes('COUNT(*)')) return [new Response(previewResponse(STATS)), null];
+            if (sql.includes('AS H0_0')) {
+                // One row per bucket; NETWR deviates from 25 by 15, 5, 5 and 15.
+                const buckets = [...sql.matchAll(/AS (H\d+_\d+)/g)].map(m => [m[1]!, 'I', '1'] as [string, string, string]);
+                const squares: [string, string, string][] = sql.includes('AS SQ0') ? [['SQ0', 'F', '5.0E+02']] : [];
+                return [new Response(previewResponse([...buckets, ...squares])), null];
+            }
+            return [new Response(previewResponse([['NETWR', 'P', '10.00'], ['ERDAT', 'DATS', '20240101'], ['MATNR', 'C', 'A1']])), null];
+        },
+    };
+}
+
+// profileColumns Tests
+
+describe('profileColumns', () => {
+    it('should compute statistics per column', async () => {
+        const requestor = createRequestor();
+        const [profiles, error] = await profileColumns(requestor, 'VBAK', ['NETWR', 'ERDAT', 'MATNR'], [], { buckets: 3 });
+
+        expect(error).toBeNull();
+        expect(profiles?.[0]).toMatchObject({ column: 'NETWR', dataType: 'P', rowCount: 4, distinctCount: 4, min: 10, max: 40, mean: 25 });
+        expect(profiles?.[0]?.stddev).toBeCloseTo(Math.sqrt(125));
+        expect(profiles?.[1]).toMatchObject({ initialCount: 1, min: '2024-01-01', max: '2024-01-10' });
+        expect(profiles?.[2]).toMatchObject({ min: 'A1', max: 'D4' });
+        expect(profiles?.[2]?.mean).toBeUndefined();
+    });
+
+    it('should render aggregates and initial values by type', async () => {
+        const requestor = createRequestor();
+        await profileColumns(requestor, 'VBAK', ['NETWR', 'ERDAT', 'MATNR']);
+
+        const stats = requestor.queries[1]!;
+        expect(stats).toContain('SUM( CASE WHEN NETWR = 0 THEN 1 ELSE 0 END ) AS I0');
+        expect(stats).toContain("MIN( CASE WHEN ERDAT <> '00000000' THEN ERDAT END ) AS MIN1");
+        expect(stats).toContain("SUM( CASE WHEN MATNR = '' THEN 1 ELSE 0 END ) AS I2");
+        expect(stats).toContain('AVG( NETWR AS FLTP ) AS AVG0');
+        expect(stats).not.toContain('AVG( MATNR');
+    });
+
+    it('should sum squared deviations from the mean in a second pass', async () => {
+        const requestor = createRequestor();
+        await profileColumns(requestor, 'VBAK', ['NETWR', 'ERDAT', 'MATNR']);
+
+        const deviation = '( CAST( NETWR AS FLTP ) - CAST( 25 AS FLTP ) )';
+        expect(requestor.queries[1]).not.toContain('AS SQ0');
+        expect(requestor.queries[2]).toContain(`SUM( ${deviation} * ${deviation} ) AS SQ0`);
+        expect(requestor.queries[2]).not.toContain('AS SQ1');
+    });
+
+    it('should bucket numeric and date columns', async () => {
+        const requestor = createRequestor();
+        const [profiles] = await profileColumns(requestor, 'VBAK', ['NETWR', 'ERDAT', 'MATNR'], [], { buckets: 3 });
+
+        expect(profiles?.[0]?.histogram).toEqual([
+            { from: 10, to: 21, count: 1 },
+            { from: 21, to: 32, count: 1 },
+            { from: 32, to: 43, count: 1 },
+        ]);
+        expect(profiles?.[1]?.histogram?.[0]).toEqual({ from: '2024-01-01', to: '2024-01-05', count: 1 });
+        expect(profiles?.[2]?.histogram).toBeUndefined();
+        expect(requestor.queries[2]).toContain("ERDAT >= '20240101' AND ERDAT < '20240105'");
+    });
+
+    it('should reject invalid column names without a request', async () => {
+        const requestor = createRequestor();
+        const [, error] = await profileColumns(requestor, 'VBAK', ['NETWR) FROM USR02 --']);
+
+        expect(error?.name).toBe('SqlValidationError');
+        expect(requestor.queries).toHaveLength(0);
+    });
+});
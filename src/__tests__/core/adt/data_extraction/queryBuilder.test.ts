@@ -5,11 +5,16 @@
  * - Basic filter generation (=, <>, like, etc.)
  * - Between filter generation
  * - List filter generation (IN / NOT IN)
+ * - Key-range filter generation (keyset paging)
+ * - Nested and/or/not filter groups
  * - WHERE clause combination
  * - ORDER BY clause generation
  * - GROUP BY clause generation
  * - Aggregation field definitions
  * - Full query building with validation
+ * - Identifier and literal validation, column whitelisting
+ * - Distinct and count queries
+ * - Joins and CDS association paths
  */
 
 import { describe, it, expect } from 'bun:test';
@@ -20,6 +25,12 @@ import {
     aggregationToFieldDefinition,
     parametersToSQLParams,
     buildSQLQuery,
+    buildDistinctQuery,
+    buildCountQuery,
+    validateQuery,
+    isFreestyleQuery,
+    fieldName,
+    fieldSource,
     type BasicFilter,
     type BetweenFilter,
     type ListFilter,
@@ -28,6 +39,7 @@ import {
     type Aggregation,
     type Parameter,
     type DataPreviewQuery,
+    type Join,
 } from '../../../../core/adt/data_extraction/queryBuilder';
 
 // =============================================================================
@@ -265,6 +277,63 @@ describe('queryFiltersToWhere', () => {
             expect(result).toBe('\nwhere A = 1 and B > 2 and C < 3');
         });
     });
+
+    describe('key-range filters', () => {
+        it('should continue after a compound key', () => {
+            const filter: QueryFilter = {
+                type: 'keyRange',
+                keys: [{ field: 'MANDT', direction: 'ascending' }, { field: 'MATNR', direction: 'ascending' }],
+                after: ['100', 'A002'],
+            };
+            const result = queryFiltersToWhere([filter]);
+            expect(result).toBe("\nwhere ( ( MANDT > '100' ) or ( MANDT = '100' and MATNR > 'A002' ) )");
+        });
+
+        it('should use less-than for descending keys', () => {
+            const filter: QueryFilter = { type: 'keyRange', keys: [{ field: 'ID', direction: 'descending' }], after: [42] };
+            expect(queryFiltersToWhere([filter])).toBe('\nwhere ( ( ID < 42 ) )');
+        });
+
+        it('should escape quotes in key values', () => {
+            const filter: QueryFilter = { type: 'keyRange', keys: [{ field: 'NAME', direction: 'ascending' }], after: ["O'NEIL"] };
+            expect(queryFiltersToWhere([filter])).toBe("\nwhere ( ( NAME > 'O''NEIL' ) )");
+        });
+
+        it('should render exact numeric literals unquoted', () => {
+            const filter: QueryFilter = { type: 'keyRange', keys: [{ field: 'ID', direction: 'ascending' }], after: [{ decimal: '9007199254740993' }] };
+            expect(queryFiltersToWhere([filter])).toBe('\nwhere ( ( ID > 9007199254740993 ) )');
+        });
+    });
+
+    describe('filter groups', () => {
+        it('should render or groups in parentheses', () => {
+            const filters: QueryFilter[] = [
+                { type: 'basic', field: 'MANDT', value: '100', operator: '=' },
+                {
+                    type: 'or',
+                    filters: [
+                        { type: 'basic', field: 'MTART', value: 'FERT', operator: '=' },
+                        { type: 'basic', field: 'MTART', value: 'HALB', operator: '=' },
+                    ],
+                },
+            ];
+            expect(queryFiltersToWhere(filters)).toBe("\nwhere MANDT = '100' and ( MTART = 'FERT' or MTART = 'HALB' )");
+        });
+
+        it('should render nested groups and negation', () => {
+            const filter: QueryFilter = {
+                type: 'not',
+                filter: {
+                    type: 'and',
+                    filters: [
+                        { type: 'list', field: 'WERKS', values: ['1000'], include: true },
+                        { type: 'or', filters: [{ type: 'basic', field: 'LVORM', value: 'X', operator: '=' }] },
+                    ],
+                },
+            };
+            expect(queryFiltersToWhere([filter])).toBe("\nwhere not ( ( WERKS in ( '1000' ) and ( LVORM = 'X' ) ) )");
+        });
+    });
 });
 
 // =============================================================================
@@ -908,3 +977,175 @@ order by GLAccount ascending`
         });
     });
 });
+
+// =============================================================================
+// Validation Tests
+// =============================================================================
+
+describe('validateQuery', () => {
+    const query: DataPreviewQuery = {
+        objectName: 'MARA',
+        objectType: 'table',
+        fields: ['MATNR', 'MTART'],
+    };
+
+    it('should accept plain and namespaced identifiers', () => {
+        expect(validateQuery(query)[1]).toBeNull();
+        expect(validateQuery({ ...query, objectName: '/ABC/ORDERS', fields: ['/ABC/ID'] })[1]).toBeNull();
+    });
+
+    it('should reject injected object and field names', () => {
+        expect(validateQuery({ ...query, objectName: 'MARA; DROP' })[1]?.name).toBe('SqlValidationError');
+        expect(validateQuery({ ...query, fields: ['MATNR, PASSWORD'] })[1]?.message).toContain('Invalid field name');
+        expect(validateQuery({ ...query, parameters: [{ name: "P' OR 1=1", value: 'X' }] })[1]?.message).toContain('Invalid parameter name');
+    });
+
+    it('should reject invalid fields inside nested filters', () => {
+        const [, error] = validateQuery({
+            ...query,
+            filters: [{ type: 'not', filter: { type: 'or', filters: [{ type: 'basic', field: '1=1 --', value: 1, operator: '=' }] } }],
+        });
+        expect(error?.message).toContain('1=1 --');
+    });
+
+    it('should reject empty groups and non-finite numbers', () => {
+        expect(validateQuery({ ...query, filters: [{ type: 'or', filters: [] }] })[1]?.message).toContain('Empty or group');
+        expect(validateQuery({ ...query, filters: [{ type: 'basic', field: 'MATNR', value: NaN, operator: '=' }] })[1]).not.toBeNull();
+        const keys: Sorting[] = [{ field: 'MATNR', direction: 'ascending' }];
+        expect(validateQuery({ ...query, filters: [{ type: 'keyRange', keys, after: [{ decimal: '1 OR 1 = 1' }] }] })[1]?.message).toContain('Invalid number');
+    });
+
+    it('should whitelist fields against column metadata', () => {
+        const columns = [{ name: 'MATNR', dataType: 'C' }, { name: 'MTART', dataType: 'C' }];
+
+        expect(validateQuery({ ...query, fields: ['matnr'] }, columns)[1]).toBeNull();
+        expect(validateQuery({ ...query, fields: ['MATNR', 'MAKTX'] }, columns)[1]?.message).toBe('Unknown field MAKTX on MARA');
+    });
+
+    it('should reject keywords outside the whitelists', () => {
+        const filter = { type: 'basic', field: 'MATNR', value: 'X', operator: "= 'X' OR 1 =" } as unknown as QueryFilter;
+        expect(validateQuery({ ...query, filters: [filter] })[1]?.message).toContain('Invalid operator');
+        expect(validateQuery({ ...query, filters: [{ type: 'raw' } as unknown as QueryFilter] })[1]?.message).toContain('Invalid filter type');
+
+        const sortings = [{ field: 'MATNR', direction: 'ascending, PASSWORD' }] as unknown as Sorting[];
+        expect(validateQuery({ ...query, sortings })[1]?.message).toContain('Invalid sort direction');
+
+        const aggregations = [{ field: 'MATNR', function: 'upper( password ) as x, max' }] as unknown as Aggregation[];
+        expect(validateQuery({ ...query, aggregations })[1]?.message).toContain('Invalid aggregate function');
+
+        const keys = [{ field: 'MATNR', direction: 'descending; DROP' }] as unknown as Sorting[];
+        expect(validateQuery({ ...query, filters: [{ type: 'keyRange', keys, after: ['X'] }] })[1]?.message).toContain('Invalid key direction');
+
+        const joins = [{ type: 'cross join USR02 --', objectName: 'MAKT', alias: 't', on: [{ field: 'MATNR', otherField: 'MATNR' }] }] as unknown as Join[];
+        expect(validateQuery({ ...query, joins })[1]?.message).toContain('Invalid join type');
+    });
+
+    it('should be applied by buildSQLQuery', () => {
+        const [result, error] = buildSQLQuery({ ...query, objectName: 'MARA WHERE 1 = 1' });
+        expect(result).toBeNull();
+        expect(error?.message).toContain('Invalid object name');
+    });
+});
+
+// =============================================================================
+// Distinct and Count Query Tests
+// =============================================================================
+
+describe('buildDistinctQuery', () => {
+    const columns = [{ name: 'MATNR', dataType: 'C' }, { name: 'STATUS', dataType: 'C' }];
+
+    it('should group by the column', () => {
+        const [sql] = buildDistinctQuery('ZSNAP_VIEW', [{ name: 'P_DATE', value: "2024'01" }], 'status', columns);
+        expect(sql).toBe("SELECT STATUS AS value, COUNT(*) AS value_count FROM ZSNAP_VIEW( P_DATE = '2024''01') GROUP BY STATUS ORDER BY value_count DESCENDING");
+    });
+
+    it('should reject invalid column names', () => {
+        const [, error] = buildDistinctQuery('MARA', [], 'MATNR FROM USR02 --', columns);
+        expect(error?.message).toContain('Invalid field name');
+    });
+
+    it('should whitelist the column against column metadata', () => {
+        const [, error] = buildDistinctQuery('MARA', [], 'PASSWORD', columns);
+        expect(error?.message).toBe('Unknown field PASSWORD on MARA');
+    });
+});
+
+describe('buildCountQuery', () => {
+    const columns = [{ name: 'MATNR', dataType: 'C' }];
+
+    it('should count rows', () => {
+        expect(buildCountQuery('MARA', [], columns)[0]).toBe('SELECT COUNT(*) AS row_count FROM MARA');
+    });
+
+    it('should reject invalid object names', () => {
+        expect(buildCountQuery('MARA UNION SELECT', [], columns)[1]).not.toBeNull();
+    });
+
+    it('should reject objects without column metadata', () => {
+        expect(buildCountQuery('MARA', [], [])[1]?.message).toBe('No columns found on MARA');
+    });
+});
+
+// =============================================================================
+// Join and Association Path Tests
+// =============================================================================
+
+describe('joins and association paths', () => {
+    const textJoin: DataPreviewQuery = {
+        objectName: 'MARA',
+        objectType: 'table',
+        fields: ['MATNR', 't~MAKTX'],
+        joins: [{
+            type: 'left outer',
+            objectName: 'MAKT',
+            alias: 't',
+            on: [{ field: 'MATNR', otherField: 'MATNR' }, { field: 'SPRAS', value: 'E' }],
+        }],
+        filters: [{ type: 'basic', field: 'MTART', value: 'FERT', operator: '=' }],
+        sortings: [{ field: 'MATNR', direction: 'ascending' }],
+    };
+
+    it('should render joins and qualify all fields', () => {
+        const [result, error] = buildSQLQuery(textJoin);
+
+        expect(error).toBeNull();
+        expect(result?.sqlQuery).toBe(
+            'select\n\tmain~MATNR,\n\tt~MAKTX\nfrom MARA as main\n' +
+            "left outer join MAKT as t on t~MATNR = main~MATNR and t~SPRAS = 'E'\n" +
+            "\nwhere main~MTART = 'FERT'\norder by main~MATNR ascending"
+        );
+    });
+
+    it('should render association paths on the main view', () => {
+        const query: DataPreviewQuery = {
+            objectName: 'I_SALESORDER',
+            objectType: 'view',
+            fields: ['SalesOrder', '\\_SoldToParty-CustomerName'],
+            filters: [{ type: 'basic', field: '\\_SoldToParty\\_Country-Name', value: 'Germany', operator: '=' }],
+        };
+        const [result] = buildSQLQuery(query);
+
+        expect(isFreestyleQuery(query)).toBe(true);
+        expect(result?.sqlQuery).toContain('\tmain\\_SoldToParty-CustomerName\n');
+        expect(result?.sqlQuery).toContain("where main\\_SoldToParty\\_Country-Name = 'Germany'");
+    });
+
+    it('should reject unknown aliases and invalid joins', () => {
+        expect(validateQuery({ ...textJoin, fields: ['x~MAKTX'] })[1]?.message).toContain('Unknown source x');
+        expect(validateQuery({ ...textJoin, joins: [{ ...textJoin.joins![0]!, alias: 'main' }] })[1]?.message).toContain('Duplicate alias');
+        expect(validateQuery({ ...textJoin, joins: [{ ...textJoin.joins![0]!, on: [] }] })[1]?.message).toContain('ON condition');
+        expect(validateQuery({ ...textJoin, joins: [{ ...textJoin.joins![0]!, on: [{ field: 'MATNR', otherField: 'MATNR OR 1' }] }] })[1]).not.toBeNull();
+    });
+
+    it('should only whitelist fields of the main object', () => {
+        const columns = [{ name: 'MATNR', dataType: 'C' }, { name: 'MTART', dataType: 'C' }];
+        expect(validateQuery(textJoin, columns)[1]).toBeNull();
+        expect(validateQuery({ ...textJoin, fields: ['main~MAKTX'] }, columns)[1]?.message).toContain('Unknown field');
+    });
+
+    it('should split field references into source and name', () => {
+        expect([fieldSource('t~MAKTX'), fieldName('t~MAKTX')]).toEqual(['t', 'MAKTX']);
+        expect([fieldSource('\\_Customer-Name'), fieldName('\\_Customer-Name')]).toEqual(['\\_Customer', 'Name']);
+        expect([fieldSource('MATNR'), fieldName('MATNR')]).toEqual(['main', 'MATNR']);
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for Query Templates
+ *
+ * Tests placeholder handling of saved queries:
+ * - Finding placeholders in filters, parameters and joins
+ * - Template validation (declarations, defaults)
+ * - Binding values with type checks
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { bindTemplate, findPlaceholders, validateTemplate } from '../../../../core/adt/data_extraction/queryTemplate';
+import type { QueryTemplate } from '../../../../core/adt/data_extraction/queryTemplate';
+import { buildSQLQuery } from '../../../../core/adt/data_extraction/queryBuilder';
+import { SqlValidationError } from '../../../../core/utils/sql';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const template: QueryTemplate = {
+    query: {
+        objectName: 'ZSALES',
+        objectType: 'view',
+        fields: ['VBELN', 'ERDAT', 'NETWR'],
+        parameters: [{ name: 'p_currency', value: '{{currency}}' }],
+        filters: [
+            { type: 'basic', field: 'KUNNR', value: '{{customer}}', operator: '=' },
+            {
+                type: 'or',
+                filters: [
+                    { type: 'between', field: 'ERDAT', minimum: '{{since}}', maximum: '20991231' },
+                    { type: 'list', field: 'NETWR', values: ['{{amount}}', 0], include: true },
+                ],
+            },
+        ],
+    },
+    placeholders: [
+        { name: 'customer', type: 'string' },
+        { name: 'since', type: 'date' },
+        { name: 'amount', type: 'number', default: 100 },
+        { name: 'currency', type: 'string', default: 'EUR' },
+    ],
+};
+
+// =============================================================================
+// findPlaceholders Tests
+// =============================================================================
+
+describe('findPlaceholders', () => {
+    it('should find placeholders in filters and parameters', () => {
+        expect(findPlaceholders(template.query).sort()).toEqual(['amount', 'currency', 'customer', 'since']);
+    });
+
+    it('should find placeholders in join conditions', () => {
+        const names = findPlaceholders({
+            objectName: 'MARA',
+            objectType: 'table',
+            fields: ['MATNR', 't~MAKTX'],
+            joins: [{ type: 'left outer', objectName: 'MAKT', alias: 't', on: [{ field: 'SPRAS', value: '{{language}}' }] }],
+        });
+        expect(names).toEqual(['language']);
+    });
+
+    it('should ignore values that only contain braces', () => {
+        const names = findPlaceholders({
+            objectName: 'MARA',
+            objectType: 'table',
+            fields: ['MATNR'],
+            filters: [{ type: 'basic', field: 'MAKTX', value: 'a {{b}}', operator: 'like' }],
+        });
+        expect(names).toEqual([]);
+    });
+});
+
+// =============================================================================
+// validateTemplate Tests
+// =============================================================================
+
+describe('validateTemplate', () => {
+    it('should accept a valid template', () => {
+        const [valid, error] = validateTemplate(template);
+        expect(error).toBeNull();
+        expect(valid).toBe(true);
+    });
+
+    it('should reject undeclared placeholders', () => {
+        const [, error] = validateTemplate({ ...template, placeholders: template.placeholders.slice(1) });
+        expect(error).toBeInstanceOf(SqlValidationError);
+        expect(error?.message).toContain('customer');
+    });
+
+    it('should reject duplicate and invalid names', () => {
+        const [, duplicate] = validateTemplate({ ...template, placeholders: [...template.placeholders, { name: 'since', type: 'date' }] });
+        expect(duplicate?.message).toContain('Duplicate');
+
+        const [, invalid] = validateTemplate({ ...template, placeholders: [...template.placeholders, { name: 'a b', type: 'string' }] });
+        expect(invalid?.message).toContain('Invalid placeholder name');
+    });
+
+    it('should reject defaults of the wrong type', () => {
+        const [, error] = validateTemplate({
+            ...template,
+            placeholders: template.placeholders.map(p => p.name === 'since' ? { ...p, default: 'yesterday' } : p),
+        });
+        expect(error?.message).toContain('Invalid date');
+    });
+});
+
+// =============================================================================
+// bindTemplate Tests
+// =============================================================================
+
+describe('bindTemplate', () => {
+    it('should bind converted values and defaults', () => {
+        const [query, error] = bindTemplate(template, { customer: '0000100001', since: '2024-03-01', amount: '250.5' });
+        expect(error).toBeNull();
+        expect(query?.parameters).toEqual([{ name: 'p_currency', value: 'EUR' }]);
+        expect(query?.filters).toEqual([
+            { type: 'basic', field: 'KUNNR', value: '0000100001', operator: '=' },
+            {
+                type: 'or',
+                filters: [
+                    { type: 'between', field: 'ERDAT', minimum: '20240301', maximum: '20991231' },
+                    { type: 'list', field: 'NETWR', values: [250.5, 0], include: true },
+                ],
+            },
+        ]);
+    });
+
+    it('should not change the template', () => {
+        bindTemplate(template, { customer: '1', since: '20240301' });
+        expect(findPlaceholders(template.query)).toHaveLength(4);
+    });
+
+    it('should build SQL from the bound query', () => {
+        const [query] = bindTemplate(template, { customer: "O'Brien", since: '20240301' });
+        const [sql, error] = buildSQLQuery(query!);
+        expect(error).toBeNull();
+        expect(sql?.sqlQuery).toContain("from ZSALES( p_currency = 'EUR')");
+        expect(sql?.sqlQuery).toContain("KUNNR = 'O''Brien'");
+        expect(sql?.sqlQuery).toContain('NETWR in ( 100, 0 )');
+    });
+
+    it('should reject missing values', () => {
+        const [query, error] = bindTemplate(template, { since: '20240301' });
+        expect(query).toBeNull();
+        expect(error?.message).toBe('Missing value for placeholder: customer');
+    });
+
+    it('should reject unknown values', () => {
+        const [, error] = bindTemplate(template, { customer: '1', since: '20240301', custmer: '2' });
+        expect(error?.message).toBe('Unknown placeholder: custmer');
+    });
+
+    it('should reject values of the wrong type', () => {
+        const [, number] = bindTemplate(template, { customer: '1', since: '20240301', amount: 'ten' });
+        expect(number?.message).toContain('Invalid number');
+
+        const [, empty] = bindTemplate(template, { customer: '1', since: '20240301', amount: ' ' });
+        expect(empty?.message).toContain('Invalid number');
+
+        const [, date] = bindTemplate(template, { customer: '1', since: '2024-02-30' });
+        expect(date?.message).toContain('Invalid date');
+    });
+});
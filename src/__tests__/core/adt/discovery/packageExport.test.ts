@@ -0,0 +1,256 @@
+/**
+ * Unit Tests for Package Export
+ *
+ * Tests the abapGit layout of exported packages:
+ * - File names of objects, class includes and function modules
+ * - Subpackage folders (prefix folder logic)
+ * - Walking the package tree and reading every object
+ * - Yielding parts as they are read
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { abapGitFileName, abapGitObjectFiles, abapGitPackageFolder } from '../../../../core/adt/discovery/abapGit';
+import { exportPackage, exportPackageParts } from '../../../../core/adt/discovery/packageExport';
+import { PackageNotFoundError } from '../../../../core/adt/discovery/tree/packageStats';
+import type { AdtRequestor } from '../../../../core/adt/types';
+import type { ExportPart } from '../../../../core/adt/discovery/packageExport';
+import type { Result } from '../../../../types/result';
+
+// Test Fixtures
+
+interface Folder {
+    facet: string;
+    name: string;
+    text?: string;
+    counter?: number;
+}
+
+interface Item {
+    name: string;
+    type: string;
+    uri: string;
+    text?: string;
+}
+
+function virtualFolders(folders: Folder[], objects: Item[] = []): string {
+    const folderXml = folders.map(f =>
+        `<vfs:virtualFolder facet="${f.facet}" name="${f.name}" displayName="${f.name}" counter="${f.counter ?? 1}" text="${f.text ?? ''}"/>`);
+    const objectXml = objects.map(o =>
+        `<vfs:object name="${o.name}" type="${o.type}" uri="${o.uri}" text="${o.text ?? ''}"/>`);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<vfs:virtualFoldersResult xmlns:vfs="http://www.sap.com/adt/ris/virtualFolders">
+${[...folderXml, ...objectXml].join('\n')}
+</vfs:virtualFoldersResult>`;
+}
+
+// Package ZPKG with class ZCL_DEMO and subpackage ZPKG_UI with program ZDEMO.
+const TREE: Record<string, string> = {
+    'stats:ZPKG': virtualFolders([{ facet: 'PACKAGE', name: 'ZPKG', text: 'Demo & tools' }]),
+    'children:ZPKG': virtualFolders([{ facet: 'PACKAGE', name: 'ZPKG_UI', text: 'UI' }]),
+    'children:ZPKG_UI': virtualFolders([]),
+    'tree:ZPKG': virtualFolders([{ facet: 'GROUP', name: 'SOURCE_LIBRARY' }]),
+    'tree:ZPKG/SOURCE_LIBRARY': virtualFolders([{ facet: 'TYPE', name: 'CLAS' }]),
+    'tree:ZPKG/SOURCE_LIBRARY/CLAS': virtualFolders([], [
+        { name: 'ZCL_DEMO', type: 'CLAS/OC', uri: '/sap/bc/adt/oo/classes/zcl_demo', text: 'Demo class' },
+    ]),
+    'tree:ZPKG_UI': virtualFolders([{ facet: 'GROUP', name: 'SOURCE_LIBRARY' }]),
+    'tree:ZPKG_UI/SOURCE_LIBRARY': virtualFolders([{ facet: 'TYPE', name: 'PROG' }]),
+    'tree:ZPKG_UI/SOURCE_LIBRARY/PROG': virtualFolders([], [
+        { name: 'ZDEMO', type: 'PROG/P', uri: '/sap/bc/adt/programs/programs/zdemo' },
+    ]),
+};
+
+const SOURCES: Record<string, string> = {
+    '/sap/bc/adt/oo/classes/ZCL_DEMO/source/main': 'CLASS zcl_demo DEFINITION. ENDCLASS.',
+    '/sap/bc/adt/oo/classes/ZCL_DEMO/includes/testclasses': 'CLASS ltc_demo DEFINITION FOR TESTING. ENDCLASS.',
+    '/sap/bc/adt/programs/programs/ZDEMO/source/main': 'REPORT zdemo.',
+};
+
+// Answers virtualfolders requests from TREE (keyed by the preselection) and reads from SOURCES
+function treeRequestor() {
+    const reads: string[] = [];
+    const requestor: AdtRequestor = {
+        request: async (options) => {
+            if (options.path.includes('virtualfolders')) {
+                const values = [...(options.body ?? '').matchAll(/<vfs:value>([^<]*)<\/vfs:value>/g)].map(m => m[1]!);
+                const [pkg = '', ...path] = values;
+                const key = values.includes('SRIS_TEST_DATA_VFS_EMPTY') ? `stats:${pkg}`
+                    : pkg.startsWith('..') ? `tree:${[pkg.slice(2), ...path].join('/')}`
+                        : `children:${pkg}`;
+                return [new Response(TREE[key] ?? virtualFolders([])), null];
+            }
+
+            reads.push(options.path);
+            const source = SOURCES[options.path];
+            return [new Response(source ?? 'not found', { status: source ? 200 : 404 }), null];
+        },
+    };
+    return { requestor, reads };
+}
+
+// Layout Tests
+
+describe('abapGit layout', () => {
+    it('should name files after lower case object names', () => {
+        expect(abapGitFileName('ZCL_DEMO')).toBe('zcl_demo');
+        expect(abapGitFileName('/NS/CL_DEMO')).toBe('#ns#cl_demo');
+    });
+
+    it('should name subpackage folders by prefix', () => {
+        expect(abapGitPackageFolder('ZPKG', 'ZPKG_UI')).toBe('ui/');
+        expect(abapGitPackageFolder('ZPKG', 'ZOTHER')).toBe('zother/');
+        expect(abapGitPackageFolder('/NS/PKG', '/NS/PKG_CORE')).toBe('core/');
+    });
+
+    it('should write class includes next to the class', () => {
+        const [files] = abapGitObjectFiles({
+            name: 'ZCL_DEMO',
+            extension: 'aclass',
+            package: 'ZPKG',
+            content: 'main',
+            includes: { implementations: 'locals', testclasses: 'tests' },
+        }, 'src/');
+
+        expect(files?.map(f => f.path)).toEqual([
+            'src/zcl_demo.clas.abap',
+            'src/zcl_demo.clas.locals_imp.abap',
+            'src/zcl_demo.clas.testclasses.abap',
+            'src/zcl_demo.clas.xml',
+        ]);
+    });
+
+    it('should keep the ADT extension of non-ABAP sources', () => {
+        const [files] = abapGitObjectFiles({ name: 'ZI_DEMO', extension: 'asddls', package: 'ZPKG', content: '' }, 'src/');
+        expect(files?.map(f => f.path)).toEqual(['src/zi_demo.ddls.asddls', 'src/zi_demo.ddls.xml']);
+    });
+
+    it('should write function modules into their function group', () => {
+        const [module] = abapGitObjectFiles({ name: 'Z_DEMO', extension: 'asfunc', package: 'ZPKG', parent: 'ZFG', content: '' }, 'src/');
+        expect(module?.map(f => f.path)).toEqual(['src/zfg.fugr.z_demo.abap', 'src/zfg.fugr.z_demo.xml']);
+
+        const [group] = abapGitObjectFiles({ name: 'ZFG', extension: 'asfugr', package: 'ZPKG', content: '' }, 'src/');
+        expect(group?.[0]?.path).toBe('src/zfg.fugr.saplzfg.abap');
+    });
+
+    it('should describe the object in the metadata sidecar', () => {
+        const [files] = abapGitObjectFiles({
+            name: 'ZDEMO',
+            extension: 'asprog',
+            package: 'ZPKG',
+            description: 'Tom & Jerry',
+            content: '',
+        }, 'src/');
+        const sidecar = files?.[1]?.content ?? '';
+
+        expect(sidecar).not.toContain('serializer=');
+        expect(sidecar).toContain('<TYPE>PROG/P</TYPE>');
+        expect(sidecar).toContain('<PACKAGE>ZPKG</PACKAGE>');
+        expect(sidecar).toContain('<DESCRIPTION>Tom &amp; Jerry</DESCRIPTION>');
+        expect(sidecar).not.toContain('<PARENT>');
+    });
+
+    it('should reject unsupported extensions', () => {
+        const [files, error] = abapGitObjectFiles({ name: 'X', extension: 'unknown', package: 'ZPKG', content: '' }, 'src/');
+        expect(files).toBeNull();
+        expect(error?.message).toContain('unknown');
+    });
+});
+
+// Export Tests
+
+describe('exportPackage', () => {
+    it('should export the package and its subpackages', async () => {
+        const { requestor } = treeRequestor();
+        const [exported, error] = await exportPackage(requestor, 'ZPKG');
+
+        expect(error).toBeNull();
+        expect(exported?.packages).toEqual(['ZPKG', 'ZPKG_UI']);
+        expect(exported?.files.map(f => f.path)).toEqual([
+            '.abapgit.xml',
+            'src/package.devc.xml',
+            'src/zcl_demo.clas.abap',
+            'src/zcl_demo.clas.testclasses.abap',
+            'src/zcl_demo.clas.xml',
+            'src/ui/package.devc.xml',
+            'src/ui/zdemo.prog.abap',
+            'src/ui/zdemo.prog.xml',
+        ]);
+        expect(exported?.files[1]?.content).toContain('<CTEXT>Demo &amp; tools</CTEXT>');
+        expect(exported?.files[1]?.content).toContain('serializer="LCL_OBJECT_DEVC"');
+        expect(exported?.files[2]?.content).toBe('CLASS zcl_demo DEFINITION. ENDCLASS.');
+        expect(exported?.objects).toEqual([
+            {
+                name: 'ZCL_DEMO',
+                extension: 'aclass',
+                type: 'CLAS/OC',
+                package: 'ZPKG',
+                description: 'Demo class',
+                files: ['src/zcl_demo.clas.abap', 'src/zcl_demo.clas.testclasses.abap', 'src/zcl_demo.clas.xml'],
+            },
+            {
+                name: 'ZDEMO',
+                extension: 'asprog',
+                type: 'PROG/P',
+                package: 'ZPKG_UI',
+                files: ['src/ui/zdemo.prog.abap', 'src/ui/zdemo.prog.xml'],
+            },
+        ]);
+    });
+
+    it('should skip subpackages when not recursive', async () => {
+        const { requestor } = treeRequestor();
+        const [exported] = await exportPackage(requestor, 'ZPKG', { recursive: false });
+
+        expect(exported?.packages).toEqual(['ZPKG']);
+        expect(exported?.objects.map(o => o.name)).toEqual(['ZCL_DEMO']);
+    });
+
+    it('should only read objects of the requested types', async () => {
+        const { requestor, reads } = treeRequestor();
+        const [exported] = await exportPackage(requestor, 'ZPKG', { types: ['PROG/P'] });
+
+        expect(exported?.objects.map(o => o.name)).toEqual(['ZDEMO']);
+        expect(reads).toEqual(['/sap/bc/adt/programs/programs/ZDEMO/source/main']);
+    });
+
+    it('should reject unsupported types', async () => {
+        const { requestor } = treeRequestor();
+        const [exported, error] = await exportPackage(requestor, 'ZPKG', { types: ['asprog', 'XYZ'] });
+
+        expect(exported).toBeNull();
+        expect(error?.message).toBe('Unsupported object type: XYZ');
+    });
+
+    it('should fail for unknown packages', async () => {
+        const { requestor } = treeRequestor();
+        const [, error] = await exportPackage(requestor, 'ZMISSING');
+
+        expect(error).toBeInstanceOf(PackageNotFoundError);
+        expect(error?.message).toBe('Package ZMISSING not found');
+    });
+});
+
+describe('exportPackageParts', () => {
+    it('should yield each object as soon as it is read', async () => {
+        const { requestor, reads } = treeRequestor();
+        const parts = exportPackageParts(requestor, 'ZPKG');
+
+        const [root]: Result<ExportPart, Error> = (await parts.next()).value;
+        expect(root?.files.map(f => f.path)).toEqual(['.abapgit.xml', 'src/package.devc.xml']);
+        expect(reads).toEqual([]);
+
+        const [object]: Result<ExportPart, Error> = (await parts.next()).value;
+        expect(object?.object?.name).toBe('ZCL_DEMO');
+        expect(reads.every(path => path.startsWith('/sap/bc/adt/oo/classes/ZCL_DEMO/'))).toBe(true);
+        await parts.return(undefined);
+    });
+
+    it('should stop after the first error', async () => {
+        const { requestor } = treeRequestor();
+        const results = [];
+        for await (const result of exportPackageParts(requestor, 'ZMISSING')) results.push(result);
+
+        expect(results).toHaveLength(1);
+        expect(results[0]![1]).toBeInstanceOf(PackageNotFoundError);
+    });
+});
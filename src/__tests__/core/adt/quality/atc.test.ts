@@ -0,0 +1,58 @@
+/**
+ * Unit Tests for ATC Worklist Parsing
+ *
+ * Tests parseAtcWorklist() - flattening worklist objects into findings
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseAtcWorklist } from '../../../../core/adt/quality/atc';
+
+// Test Fixtures
+
+const ATC_WORKLIST = `<?xml version="1.0" encoding="utf-8"?>
+<atcworklist:worklist atcworklist:id="0050569E" atcworklist:timestamp="2024-01-15T10:30:00Z" xmlns:atcworklist="http://www.sap.com/adt/atc/worklist">
+  <atcworklist:objects>
+    <atcobject:object adtcore:uri="/sap/bc/adt/oo/classes/zcl_demo" adtcore:type="CLAS/OC" adtcore:name="ZCL_DEMO" adtcore:packageName="ZDEV" atcobject:author="DEVELOPER" xmlns:adtcore="http://www.sap.com/adt/core" xmlns:atcobject="http://www.sap.com/adt/atc/object">
+      <atcobject:findings>
+        <atcfinding:finding adtcore:uri="/sap/bc/adt/atc/items/1" atcfinding:location="/sap/bc/adt/oo/classes/zcl_demo/source/main#start=5,2" atcfinding:priority="1" atcfinding:checkId="CL_CI_TEST_SELECT" atcfinding:checkTitle="Search problematic statements" atcfinding:messageId="0001" atcfinding:messageTitle="SELECT without WHERE" atcfinding:quickfixInfo="" xmlns:atcfinding="http://www.sap.com/adt/atc/finding">
+          <atcfinding:quickfixes atcfinding:manual="false" atcfinding:automatic="true" atcfinding:pseudo="false"/>
+        </atcfinding:finding>
+        <atcfinding:finding adtcore:uri="/sap/bc/adt/atc/items/2" atcfinding:location="/sap/bc/adt/oo/classes/zcl_demo/source/main#start=9,0" atcfinding:priority="3" atcfinding:checkId="CL_CI_TEST_EXTENDED" atcfinding:checkTitle="Extended program check" atcfinding:messageId="0002" atcfinding:messageTitle="Unused variable" xmlns:atcfinding="http://www.sap.com/adt/atc/finding"/>
+      </atcobject:findings>
+    </atcobject:object>
+  </atcworklist:objects>
+</atcworklist:worklist>`;
+
+describe('parseAtcWorklist', () => {
+    it('should flatten findings with object metadata', () => {
+        const [findings, error] = parseAtcWorklist(ATC_WORKLIST);
+
+        expect(error).toBeNull();
+        expect(findings).toHaveLength(2);
+
+        const first = findings![0]!;
+        expect(first.name).toBe('ZCL_DEMO');
+        expect(first.extension).toBe('aclass');
+        expect(first.objectType).toBe('CLAS/OC');
+        expect(first.package).toBe('ZDEV');
+    });
+
+    it('should parse priority, check and position', () => {
+        const [findings] = parseAtcWorklist(ATC_WORKLIST);
+        const first = findings![0]!;
+
+        expect(first.priority).toBe(1);
+        expect(first.checkId).toBe('CL_CI_TEST_SELECT');
+        expect(first.checkTitle).toBe('Search problematic statements');
+        expect(first.messageTitle).toBe('SELECT without WHERE');
+        expect(first.line).toBe(5);
+        expect(first.column).toBe(2);
+    });
+
+    it('should detect quick fix availability', () => {
+        const [findings] = parseAtcWorklist(ATC_WORKLIST);
+
+        expect(findings![0]!.quickFix).toBe(true);
+        expect(findings![1]!.quickFix).toBe(false);
+    });
+});
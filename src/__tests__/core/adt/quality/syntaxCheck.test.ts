@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Syntax Check Parsing
+ *
+ * Tests parseCheckRunReports() - mapping check messages to objects
+ * Tests checkSyntax() - status by highest message severity
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { checkSyntax, parseCheckRunReports } from '../../../../core/adt/quality/syntaxCheck';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const CHECK_RUN_REPORTS = `<?xml version="1.0" encoding="utf-8"?>
+<chkrun:checkRunReports xmlns:chkrun="http://www.sap.com/adt/checkrun">
+  <chkrun:checkReport chkrun:reporter="abapCheckRun" chkrun:triggeringUri="/sap/bc/adt/oo/classes/ZCL_DEMO" chkrun:status="processed">
+    <chkrun:checkMessageList>
+      <chkrun:checkMessage chkrun:uri="/sap/bc/adt/oo/classes/zcl_demo/source/main#start=12,4" chkrun:type="E" chkrun:shortText="Field &quot;LV_X&quot; is unknown."/>
+      <chkrun:checkMessage chkrun:uri="/sap/bc/adt/oo/classes/zcl_demo/includes/testclasses#start=3,0" chkrun:type="W" chkrun:shortText="Variable is never used."/>
+      <chkrun:checkMessage chkrun:uri="/sap/bc/adt/oo/classes/zcl_demo" chkrun:type="I" chkrun:shortText="Check finished."/>
+    </chkrun:checkMessageList>
+  </chkrun:checkReport>
+  <chkrun:checkReport chkrun:reporter="abapCheckRun" chkrun:triggeringUri="/sap/bc/adt/programs/programs/zdemo" chkrun:status="processed">
+    <chkrun:checkMessageList/>
+  </chkrun:checkReport>
+</chkrun:checkRunReports>`;
+
+describe('parseCheckRunReports', () => {
+    it('should key messages by lowercase triggering URI', () => {
+        const [result, error] = parseCheckRunReports(CHECK_RUN_REPORTS);
+
+        expect(error).toBeNull();
+        expect(result!.get('/sap/bc/adt/oo/classes/zcl_demo')).toHaveLength(3);
+        expect(result!.get('/sap/bc/adt/programs/programs/zdemo')).toEqual([]);
+    });
+
+    it('should map message types and positions', () => {
+        const [result] = parseCheckRunReports(CHECK_RUN_REPORTS);
+        const messages = result!.get('/sap/bc/adt/oo/classes/zcl_demo')!;
+
+        expect(messages[0]).toEqual({ severity: 'error', text: 'Field "LV_X" is unknown.', line: 12, column: 4 });
+        expect(messages[1]).toEqual({ severity: 'warning', text: 'Variable is never used.', line: 3, column: 0 });
+        expect(messages[2]).toEqual({ severity: 'info', text: 'Check finished.' });
+    });
+
+    it('should return error for malformed XML', () => {
+        const [result, error] = parseCheckRunReports('');
+
+        expect(result).toBeNull();
+        expect(error).not.toBeNull();
+    });
+});
+
+describe('checkSyntax', () => {
+    const requestor: AdtRequestor = {
+        request: async () => [new Response(CHECK_RUN_REPORTS), null],
+    };
+
+    it('should derive status from the highest severity', async () => {
+        const [results, error] = await checkSyntax(requestor, [
+            { name: 'ZCL_DEMO', extension: 'aclass', content: 'CLASS zcl_demo DEFINITION.' },
+            { name: 'ZDEMO', extension: 'asprog', content: 'REPORT zdemo.' },
+        ]);
+
+        expect(error).toBeNull();
+        expect(results!.map(r => r.status)).toEqual(['error', 'success']);
+    });
+
+    it('should not report info messages as warnings', async () => {
+        const infoOnly = CHECK_RUN_REPORTS.replace(/chkrun:type="[EW]"/g, 'chkrun:type="I"');
+        const [results] = await checkSyntax({ request: async () => [new Response(infoOnly), null] }, [
+            { name: 'ZCL_DEMO', extension: 'aclass', content: 'CLASS zcl_demo DEFINITION.' },
+        ]);
+
+        expect(results![0]!.messages).toHaveLength(3);
+        expect(results![0]!.status).toBe('success');
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for ABAP Unit Parsers
+ *
+ * Tests XML handling for abapunit/testruns:
+ * - constructRunConfiguration() - building run configuration XML
+ * - parseUnitTestResult() - parsing the result tree
+ * - toJUnitXml() - serializing results for CI
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+    constructRunConfiguration,
+    parseUnitTestResult,
+} from '../../../../../core/adt/quality/unitTests/parsers';
+import { toJUnitXml } from '../../../../../core/adt/quality/unitTests/junit';
+
+// Test Fixtures
+
+const RUN_RESULT = `<?xml version="1.0" encoding="utf-8"?>
+<aunit:runResult xmlns:aunit="http://www.sap.com/adt/aunit">
+  <program adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc" adtcore:type="CLAS/OC" adtcore:name="ZCL_CALC" uriType="semantic" xmlns:adtcore="http://www.sap.com/adt/core">
+    <testClasses>
+      <testClass adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#type=CLAS%2FOCL;name=LTCL_CALC" adtcore:type="CLAS/OCL" adtcore:name="LTCL_CALC" uriType="semantic" durationCategory="short" riskLevel="harmless">
+        <testMethods>
+          <testMethod adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=10,2" adtcore:type="CLAS/OLI" adtcore:name="ADD" executionTime="0.012" uriType="semantic" unit="s"/>
+          <testMethod adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=15,2" adtcore:type="CLAS/OLI" adtcore:name="DIVIDE" executionTime="0.003" uriType="semantic" unit="s">
+            <alerts>
+              <alert kind="failedAssertion" severity="critical">
+                <title>Critical Assertion Error: 'DIVIDE: Assert Equals'</title>
+                <details>
+                  <detail text="Expected [2] but was [3]">
+                    <details>
+                      <detail text="Test 'LTCL_CALC->DIVIDE' in Main Program 'ZCL_CALC=====CP'."/>
+                    </details>
+                  </detail>
+                </details>
+                <stack>
+                  <stackEntry adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=18,0" adtcore:type="CLAS/OCN/testclasses" adtcore:name="ZCL_CALC" adtcore:description="Include: &lt;ZCL_CALC=====CCAU&gt; Line: &lt;18&gt; (DIVIDE)"/>
+                </stack>
+              </alert>
+            </alerts>
+          </testMethod>
+          <testMethod adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=20,2" adtcore:type="CLAS/OLI" adtcore:name="OVERFLOW" executionTime="0.001" uriType="semantic" unit="s">
+            <alerts>
+              <alert kind="exception" severity="critical">
+                <title>Exception Error &lt;CX_SY_ARITHMETIC_OVERFLOW&gt;</title>
+                <details/>
+                <stack/>
+              </alert>
+            </alerts>
+          </testMethod>
+        </testMethods>
+      </testClass>
+    </testClasses>
+  </program>
+</aunit:runResult>`;
+
+const EMPTY_RUN_RESULT = `<?xml version="1.0" encoding="utf-8"?>
+<aunit:runResult xmlns:aunit="http://www.sap.com/adt/aunit"/>`;
+
+// constructRunConfiguration Tests
+
+describe('constructRunConfiguration', () => {
+    it('should include one object reference per URI', () => {
+        const xml = constructRunConfiguration(['/sap/bc/adt/oo/classes/zcl_a', '/sap/bc/adt/packages/zdev']);
+
+        expect(xml).toContain('adtcore:uri="/sap/bc/adt/oo/classes/zcl_a"');
+        expect(xml).toContain('adtcore:uri="/sap/bc/adt/packages/zdev"');
+    });
+
+    it('should enable all risk levels and durations by default', () => {
+        const xml = constructRunConfiguration(['/sap/bc/adt/oo/classes/zcl_a']);
+
+        expect(xml).toContain('harmless="true" dangerous="true" critical="true"');
+        expect(xml).toContain('short="true" medium="true" long="true"');
+    });
+
+    it('should apply risk level and duration filters', () => {
+        const xml = constructRunConfiguration(['/sap/bc/adt/oo/classes/zcl_a'], {
+            riskLevels: ['harmless'],
+            durations: ['short', 'medium'],
+        });
+
+        expect(xml).toContain('harmless="true" dangerous="false" critical="false"');
+        expect(xml).toContain('short="true" medium="true" long="false"');
+    });
+});
+
+// parseUnitTestResult Tests
+
+describe('parseUnitTestResult', () => {
+    it('should parse the program → class → method tree', () => {
+        const [result, error] = parseUnitTestResult(RUN_RESULT);
+
+        expect(error).toBeNull();
+        expect(result!.programs).toHaveLength(1);
+
+        const program = result!.programs[0]!;
+        expect(program.name).toBe('ZCL_CALC');
+        expect(program.type).toBe('CLAS/OC');
+        expect(program.testClasses).toHaveLength(1);
+
+        const testClass = program.testClasses[0]!;
+        expect(testClass.name).toBe('LTCL_CALC');
+        expect(testClass.riskLevel).toBe('harmless');
+        expect(testClass.durationCategory).toBe('short');
+        expect(testClass.methods.map(m => m.name)).toEqual(['ADD', 'DIVIDE', 'OVERFLOW']);
+    });
+
+    it('should derive method status from alerts', () => {
+        const [result] = parseUnitTestResult(RUN_RESULT);
+        const methods = result!.programs[0]!.testClasses[0]!.methods;
+
+        expect(methods.map(m => m.status)).toEqual(['passed', 'failed', 'error']);
+    });
+
+    it('should parse alert details and stack positions', () => {
+        const [result] = parseUnitTestResult(RUN_RESULT);
+        const alert = result!.programs[0]!.testClasses[0]!.methods[1]!.alerts[0]!;
+
+        expect(alert.kind).toBe('failedAssertion');
+        expect(alert.severity).toBe('critical');
+        expect(alert.title).toBe("Critical Assertion Error: 'DIVIDE: Assert Equals'");
+        expect(alert.details).toEqual([
+            'Expected [2] but was [3]',
+            "Test 'LTCL_CALC->DIVIDE' in Main Program 'ZCL_CALC=====CP'.",
+        ]);
+        expect(alert.stack).toHaveLength(1);
+        expect(alert.stack[0]!.line).toBe(18);
+        expect(alert.stack[0]!.description).toBe('Include: <ZCL_CALC=====CCAU> Line: <18> (DIVIDE)');
+    });
+
+    it('should compute summary and durations', () => {
+        const [result] = parseUnitTestResult(RUN_RESULT);
+
+        expect(result!.summary.tests).toBe(3);
+        expect(result!.summary.passed).toBe(1);
+        expect(result!.summary.failed).toBe(1);
+        expect(result!.summary.errors).toBe(1);
+        expect(result!.summary.duration).toBeCloseTo(0.016);
+        expect(result!.programs[0]!.testClasses[0]!.duration).toBeCloseTo(0.016);
+    });
+
+    it('should handle runs without programs', () => {
+        const [result, error] = parseUnitTestResult(EMPTY_RUN_RESULT);
+
+        expect(error).toBeNull();
+        expect(result!.programs).toEqual([]);
+        expect(result!.summary.tests).toBe(0);
+    });
+
+    it('should return error for malformed XML', () => {
+        const [result, error] = parseUnitTestResult('');
+
+        expect(result).toBeNull();
+        expect(error).not.toBeNull();
+    });
+});
+
+// toJUnitXml Tests
+
+describe('toJUnitXml', () => {
+    it('should produce one testsuite per test class', () => {
+        const [result] = parseUnitTestResult(RUN_RESULT);
+        const xml = toJUnitXml(result!);
+
+        expect(xml).toContain('<testsuites name="ABAP Unit" tests="3" failures="1" errors="1" time="0.016">');
+        expect(xml).toContain('<testsuite name="ZCL_CALC.LTCL_CALC" package="ZCL_CALC" tests="3" failures="1" errors="1"');
+    });
+
+    it('should map failed assertions and exceptions', () => {
+        const [result] = parseUnitTestResult(RUN_RESULT);
+        const xml = toJUnitXml(result!);
+
+        expect(xml).toContain('<testcase classname="ZCL_CALC.LTCL_CALC" name="ADD" time="0.012"/>');
+        expect(xml).toContain('<failure message="Critical Assertion Error: &apos;DIVIDE: Assert Equals&apos;" type="failedAssertion">');
+        expect(xml).toContain('<error message="Exception Error &lt;CX_SY_ARITHMETIC_OVERFLOW&gt;" type="exception">');
+        expect(xml).toContain('Expected [2] but was [3]');
+    });
+
+    it('should report class fixture alerts as errors', () => {
+        const [result] = parseUnitTestResult(RUN_RESULT);
+        const testClass = result!.programs[0]!.testClasses[0]!;
+        testClass.alerts.push({ kind: 'exception', severity: 'fatal', title: 'class_setup failed', details: [], stack: [] });
+
+        const xml = toJUnitXml(result!);
+        expect(xml).toContain('name="[class fixture]"');
+        expect(xml).toContain('tests="4" failures="1" errors="2"');
+    });
+});
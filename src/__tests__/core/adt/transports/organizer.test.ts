@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for the Transport Organizer
+ *
+ * Tests transport request handling:
+ * - parseTransportRequests() - requests, tasks and object lists
+ * - toTransportObjectKey() - E071 keys of object references
+ * - parseReleaseReport() - release status and messages
+ * - releaseTransport() - releasing open tasks before the request
+ * - getUserTransports() - status and target filters of a user's requests
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseTransportRequests, toTransportObjectKey } from '../../../../core/adt/transports/organizer';
+import { parseReleaseReport, releaseTransport } from '../../../../core/adt/transports/release';
+import { getUserTransports } from '../../../../core/adt/transports/userTransports';
+import type { AdtRequestor } from '../../../../core/adt/types';
+
+// Test Fixtures
+
+const ORGANIZER_RESPONSE = `<?xml version="1.0" encoding="utf-8"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm" xmlns:adtcore="http://www.sap.com/adt/core">
+    <tm:request tm:number="DEVK900123" tm:owner="DEVELOPER" tm:desc="Rounding fixes" tm:status="D" tm:type="K" tm:target="QAS" tm:lastchanged_timestamp="20240301101500">
+        <tm:abap_object tm:pgmid="R3TR" tm:type="DEVC" tm:name="ZDEMO" tm:obj_desc="Demo package"/>
+        <tm:task tm:number="DEVK900124" tm:owner="DEVELOPER" tm:desc="Rounding fixes" tm:status="D">
+            <tm:abap_object tm:pgmid="R3TR" tm:type="CLAS" tm:name="ZCL_DEMO" tm:obj_desc="Demo class" tm:lock_status="X" adtcore:uri="/sap/bc/adt/oo/classes/zcl_demo"/>
+            <tm:abap_object tm:pgmid="LIMU" tm:type="FUNC" tm:name="Z_DEMO_FM"/>
+        </tm:task>
+        <tm:task tm:number="DEVK900125" tm:owner="DEVELOPER2" tm:desc="Review" tm:status="R"/>
+    </tm:request>
+</tm:root>`;
+
+const releaseResponse = (status: string, messages: string) => `<?xml version="1.0" encoding="utf-8"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm">
+    <tm:releasereports>
+        <chkrun:checkReport xmlns:chkrun="http://www.sap.com/adt/checkrun" chkrun:reporter="transportrelease" chkrun:status="${status}" chkrun:statusText="Status ${status}">
+            <chkrun:checkMessageList>${messages}</chkrun:checkMessageList>
+        </chkrun:checkReport>
+    </tm:releasereports>
+</tm:root>`;
+
+const RELEASED = releaseResponse('released', '<chkrun:checkMessage chkrun:type="I" chkrun:shortText="Export started"/>');
+
+const USER_TRANSPORTS_RESPONSE = `<?xml version="1.0" encoding="utf-8"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm">
+    <tm:workbench>
+        <tm:target tm:name="QAS">
+            <tm:modifiable>
+                <tm:request tm:number="DEVK900201" tm:owner="DEVELOPER" tm:desc="Older" tm:lastchanged_timestamp="20240101080000"/>
+                <tm:request tm:number="DEVK900202" tm:owner="DEVELOPER" tm:desc="Newer" tm:lastchanged_timestamp="20240301080000"/>
+            </tm:modifiable>
+            <tm:released>
+                <tm:request tm:number="DEVK900100" tm:owner="DEVELOPER" tm:desc="Done"/>
+            </tm:released>
+        </tm:target>
+    </tm:workbench>
+    <tm:customizing>
+        <tm:target tm:name="PRD">
+            <tm:modifiable>
+                <tm:request tm:number="DEVK900300" tm:owner="DEVELOPER" tm:desc="Settings"/>
+            </tm:modifiable>
+        </tm:target>
+    </tm:customizing>
+</tm:root>`;
+
+// parseTransportRequests Tests
+
+describe('parseTransportRequests', () => {
+    it('should parse request attributes', () => {
+        const [requests] = parseTransportRequests(ORGANIZER_RESPONSE);
+        const request = requests![0]!;
+
+        expect(request.id).toBe('DEVK900123');
+        expect(request.status).toBe('modifiable');
+        expect(request.type).toBe('workbench');
+        expect(request.target).toBe('QAS');
+        expect(request.lastChanged).toBe('2024-03-01T10:15:00Z');
+    });
+
+    it('should take status, type and target from containers', () => {
+        const [requests] = parseTransportRequests(USER_TRANSPORTS_RESPONSE);
+
+        expect(requests!.map(r => [r.id, r.status, r.type, r.target])).toEqual([
+            ['DEVK900201', 'modifiable', 'workbench', 'QAS'],
+            ['DEVK900202', 'modifiable', 'workbench', 'QAS'],
+            ['DEVK900100', 'released', 'workbench', 'QAS'],
+            ['DEVK900300', 'modifiable', 'customizing', 'PRD'],
+        ]);
+    });
+
+    it('should keep task objects apart from request objects', () => {
+        const [requests] = parseTransportRequests(ORGANIZER_RESPONSE);
+        const request = requests![0]!;
+
+        expect(request.objects.map(o => o.name)).toEqual(['ZDEMO']);
+        expect(request.tasks.map(t => [t.id, t.status])).toEqual([['DEVK900124', 'modifiable'], ['DEVK900125', 'released']]);
+        expect(request.tasks[0]!.objects[0]).toEqual({
+            pgmid: 'R3TR',
+            type: 'CLAS',
+            name: 'ZCL_DEMO',
+            description: 'Demo class',
+            uri: '/sap/bc/adt/oo/classes/zcl_demo',
+            locked: true,
+        });
+    });
+});
+
+// toTransportObjectKey Tests
+
+describe('toTransportObjectKey', () => {
+    it('should map object references to whole-object entries', () => {
+        expect(toTransportObjectKey({ name: 'zcl_demo', extension: 'aclass' })).toEqual([{ pgmid: 'R3TR', type: 'CLAS', name: 'ZCL_DEMO' }, null]);
+    });
+
+    it('should map function modules to LIMU FUNC', () => {
+        const [key] = toTransportObjectKey({ name: 'Z_DEMO_FM', extension: 'asfunc', parent: 'ZDEMO_FG' });
+        expect(key).toEqual({ pgmid: 'LIMU', type: 'FUNC', name: 'Z_DEMO_FM' });
+    });
+});
+
+// parseReleaseReport Tests
+
+describe('parseReleaseReport', () => {
+    it('should parse status and messages', () => {
+        const xml = releaseResponse('abortrelapifail', '<chkrun:checkMessage chkrun:type="E" chkrun:shortText="Object ZCL_DEMO is inactive"/>');
+        const [report] = parseReleaseReport(xml, 'devk900124');
+
+        expect(report).toEqual({
+            id: 'DEVK900124',
+            released: false,
+            status: 'abortrelapifail',
+            statusText: 'Status abortrelapifail',
+            messages: [{ severity: 'error', text: 'Object ZCL_DEMO is inactive' }],
+        });
+    });
+});
+
+// releaseTransport Tests
+
+describe('releaseTransport', () => {
+    it('should release open tasks before the request', async () => {
+        const paths: string[] = [];
+        const requestor: AdtRequestor = {
+            request: async ({ method, path }) => {
+                paths.push(`${method} ${path}`);
+                return [new Response(method === 'GET' ? ORGANIZER_RESPONSE : RELEASED), null];
+            },
+        };
+        const [reports, error] = await releaseTransport(requestor, 'DEVK900123');
+
+        expect(error).toBeNull();
+        expect(reports!.map(r => r.id)).toEqual(['DEVK900124', 'DEVK900123']);
+        expect(paths.slice(1)).toEqual([
+            'POST /sap/bc/adt/cts/transportrequests/DEVK900124/newreleasejobs',
+            'POST /sap/bc/adt/cts/transportrequests/DEVK900123/newreleasejobs',
+        ]);
+    });
+
+    it('should leave the request open when a task fails', async () => {
+        const failed = releaseResponse('abortrelapifail', '');
+        const requestor: AdtRequestor = {
+            request: async ({ method }) => [new Response(method === 'GET' ? ORGANIZER_RESPONSE : failed), null],
+        };
+        const [reports] = await releaseTransport(requestor, 'DEVK900123');
+
+        expect(reports!.map(r => [r.id, r.released])).toEqual([['DEVK900124', false]]);
+    });
+});
+
+// getUserTransports Tests
+
+describe('getUserTransports', () => {
+    it('should request the user\'s transports', async () => {
+        let params: Record<string, string | number> | undefined;
+        const requestor: AdtRequestor = {
+            request: async (options) => {
+                params = options.params;
+                return [new Response(USER_TRANSPORTS_RESPONSE), null];
+            },
+        };
+        await getUserTransports(requestor, 'developer');
+
+        expect(params).toEqual({ user: 'DEVELOPER', targets: 'true' });
+    });
+
+    it('should filter by status and target, newest first', async () => {
+        const requestor: AdtRequestor = {
+            request: async () => [new Response(USER_TRANSPORTS_RESPONSE), null],
+        };
+        const [transports, error] = await getUserTransports(requestor, 'DEVELOPER', { status: 'modifiable', targetSystem: 'qas' });
+
+        expect(error).toBeNull();
+        expect(transports!.map(t => t.id)).toEqual(['DEVK900202', 'DEVK900201']);
+    });
+});
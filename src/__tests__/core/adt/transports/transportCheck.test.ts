@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for the Transport Check
+ *
+ * Tests transport requirements of object writes:
+ * - parseTransportCheck() - local packages, valid requests and lock holders
+ * - checkTransportRequirement() - querying with the real object URI
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { checkTransportRequirement, parseTransportCheck } from '../../../../core/adt/transports/transportCheck';
+import type { AdtRequestor } from '../../../../core/adt/types';
+import type { ObjectRef } from '../../../../types/requests';
+
+// Test Fixtures
+
+const CLASS: ObjectRef = { name: 'zcl_demo', extension: 'aclass' };
+
+const header = (id: string, owner: string, text: string) =>
+    `<REQ_HEADER><TRKORR>${id}</TRKORR><AS4USER>${owner}</AS4USER><AS4TEXT>${text}</AS4TEXT></REQ_HEADER>`;
+
+const checkResponse = (fields: string) => `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+    <asx:values>
+        <DATA>${fields}</DATA>
+    </asx:values>
+</asx:abap>`;
+
+const TRANSPORTABLE = checkResponse(`
+    <RESULT>S</RESULT><RECORDING>X</RECORDING><DLVUNIT>HOME</DLVUNIT>
+    <REQUESTS>
+        <CTS_REQUEST>${header('DEVK900123', 'DEVELOPER', 'Rounding fixes')}</CTS_REQUEST>
+        <CTS_REQUEST>${header('DEVK900130', 'DEVELOPER', 'Reports')}</CTS_REQUEST>
+    </REQUESTS>`);
+
+const LOCKED = checkResponse(`
+    <RESULT>S</RESULT><RECORDING>X</RECORDING><DLVUNIT>HOME</DLVUNIT>
+    <LOCKS><CTS_OBJECT_LOCK><LOCK_HOLDER>${header('DEVK900123', 'DEVELOPER', 'Rounding fixes')}</LOCK_HOLDER></CTS_OBJECT_LOCK></LOCKS>`);
+
+// parseTransportCheck Tests
+
+describe('parseTransportCheck', () => {
+    it('should list valid requests of transportable packages', () => {
+        const [requirement] = parseTransportCheck(TRANSPORTABLE, CLASS, 'zdemo');
+
+        expect(requirement!.local).toBe(false);
+        expect(requirement!.package).toBe('ZDEMO');
+        expect(requirement!.transports.map(t => t.id)).toEqual(['DEVK900123', 'DEVK900130']);
+        expect(requirement!.lockingTransport).toBeUndefined();
+    });
+
+    it('should report the request locking the object', () => {
+        const [requirement] = parseTransportCheck(LOCKED, CLASS, 'ZDEMO');
+
+        expect(requirement!.lockingTransport).toEqual({ id: 'DEVK900123', owner: 'DEVELOPER', description: 'Rounding fixes' });
+        expect(requirement!.transports).toEqual([]);
+    });
+
+    it('should recognize local packages', () => {
+        const [requirement] = parseTransportCheck(checkResponse('<RESULT>S</RESULT><DLVUNIT>LOCAL</DLVUNIT>'), CLASS, '$TMP');
+        expect(requirement!.local).toBe(true);
+    });
+
+    it('should report failed checks', () => {
+        const xml = checkResponse('<RESULT>E</RESULT><MESSAGES><CTS_MESSAGE><TEXT>Package ZNONE does not exist</TEXT></CTS_MESSAGE></MESSAGES>');
+        const [, error] = parseTransportCheck(xml, CLASS, 'ZNONE');
+        expect(error?.message).toContain('Package ZNONE does not exist');
+    });
+});
+
+// checkTransportRequirement Tests
+
+describe('checkTransportRequirement', () => {
+    it('should query with the object URI', async () => {
+        let body = '';
+        const requestor: AdtRequestor = {
+            request: async (options) => {
+                body = String(options.body);
+                return [new Response(TRANSPORTABLE), null];
+            },
+        };
+        const [, error] = await checkTransportRequirement(requestor, CLASS, 'zdemo');
+
+        expect(error).toBeNull();
+        expect(body).toContain('<URI>/sap/bc/adt/oo/classes/zcl_demo</URI>');
+        expect(body).toContain('<DEVCLASS>ZDEMO</DEVCLASS>');
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for Session Cleanup
+ *
+ * Tests startCleanupTask():
+ * - Async callbacks awaited, failures logged instead of rejected
+ * - No overlapping runs while callbacks are pending
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { SessionManager } from '../../../core/session/manager';
+import { startCleanupTask } from '../../../core/session/cleanup';
+import type { SessionConfig } from '../../../core/session/types';
+
+// Test Fixtures
+
+// Every session is expired; cleanup runs every 10ms
+const CONFIG: SessionConfig = { sessionTimeout: -1, samlSessionTimeout: -1, cleanupInterval: 0.01 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// startCleanupTask Tests
+
+describe('startCleanupTask', () => {
+    it('should not start a run while callbacks are pending', async () => {
+        const manager = new SessionManager<string>();
+        manager.createSession('H1', 'client', 'basic');
+
+        let active = 0;
+        let maxActive = 0;
+        let runs = 0;
+        const cleanup = startCleanupTask(manager, CONFIG, async () => {
+            runs++;
+            active++;
+            maxActive = Math.max(maxActive, active);
+            manager.createSession('H1', 'client', 'basic');
+            await sleep(35);
+            active--;
+        });
+
+        await sleep(120);
+        cleanup.stop();
+
+        expect(runs).toBeGreaterThan(0);
+        expect(maxActive).toBe(1);
+    });
+
+    it('should log failing callbacks and continue with other sessions', async () => {
+        const manager = new SessionManager<string>();
+        manager.createSession('H1', 'first', 'basic');
+        manager.createSession('H2', 'second', 'basic');
+
+        const expired: string[] = [];
+        const logged: unknown[] = [];
+        const consoleError = console.error;
+        console.error = (...args: unknown[]) => { logged.push(args[0]); };
+
+        const cleanup = startCleanupTask(manager, CONFIG, async (_, entry) => {
+            expired.push(entry.client);
+            if (entry.client === 'first') throw new Error('Release failed');
+        });
+        await sleep(40);
+        cleanup.stop();
+        console.error = consoleError;
+
+        expect(expired).toEqual(['first', 'second']);
+        expect(logged).toHaveLength(1);
+        expect(manager.getAllSessions()).toHaveLength(0);
+    });
+});
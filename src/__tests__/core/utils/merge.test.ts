@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for Three-Way Merge
+ *
+ * Tests conflict detection used by upsert:
+ * - mergeThreeWay() - clean merges, identical changes, conflicts and line endings
+ * - findConflicts() - conflicts without a common base
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { findConflicts, mergeThreeWay } from '../../../core/utils/merge';
+
+// Test Fixtures
+
+const BASE = ['CLASS zcl_demo IMPLEMENTATION.', '  METHOD a.', '    x = 1.', '  ENDMETHOD.', '  METHOD b.', '    y = 2.', '  ENDMETHOD.', 'ENDCLASS.'].join('\n');
+
+const edit = (line: number, text: string) => {
+    const lines = BASE.split('\n');
+    lines[line] = text;
+    return lines.join('\n');
+};
+
+// mergeThreeWay Tests
+
+describe('mergeThreeWay', () => {
+    it('should merge non-overlapping changes of both sides', () => {
+        const local = edit(2, '    x = 10.');
+        const server = edit(5, '    y = 20.');
+
+        const result = mergeThreeWay(BASE, local, server);
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.content).toBe(edit(2, '    x = 10.').replace('    y = 2.', '    y = 20.'));
+    });
+
+    it('should take one-sided changes as-is', () => {
+        const server = `${BASE}\n* appended on server`;
+
+        expect(mergeThreeWay(BASE, BASE, server).content).toBe(server);
+        expect(mergeThreeWay(BASE, server, BASE).content).toBe(server);
+    });
+
+    it('should keep the CRLF line endings of the base', () => {
+        const crlf = (text: string) => text.replace(/\n/g, '\r\n');
+
+        const result = mergeThreeWay(crlf(BASE), crlf(edit(2, '    x = 10.')), edit(5, '    y = 20.'));
+
+        expect(result.content).toBe(crlf(edit(2, '    x = 10.').replace('    y = 2.', '    y = 20.')));
+    });
+
+    it('should accept identical changes on both sides', () => {
+        const changed = edit(2, '    x = 10.');
+
+        expect(mergeThreeWay(BASE, changed, changed)).toEqual({ content: changed, conflicts: [] });
+    });
+
+    it('should report overlapping changes as conflicts', () => {
+        const result = mergeThreeWay(BASE, edit(2, '    x = 10.'), edit(2, '    x = 99.'));
+
+        expect(result.content).toBeNull();
+        expect(result.conflicts).toEqual([
+            { baseStart: 2, base: ['    x = 1.'], local: ['    x = 10.'], server: ['    x = 99.'] },
+        ]);
+    });
+
+    it('should report insertions at the same position as conflicts', () => {
+        const lines = BASE.split('\n');
+        const local = [...lines.slice(0, 4), '  METHOD c.', '  ENDMETHOD.', ...lines.slice(4)].join('\n');
+        const server = [...lines.slice(0, 4), '  METHOD d.', '  ENDMETHOD.', ...lines.slice(4)].join('\n');
+
+        const result = mergeThreeWay(BASE, local, server);
+
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]!.baseStart).toBe(4);
+        expect(result.conflicts[0]!.base).toEqual([]);
+    });
+});
+
+// findConflicts Tests
+
+describe('findConflicts', () => {
+    it('should report every differing region without base lines', () => {
+        const conflicts = findConflicts(edit(2, '    x = 10.'), BASE);
+
+        expect(conflicts).toEqual([{ baseStart: 2, local: ['    x = 10.'], server: ['    x = 1.'] }]);
+    });
+
+    it('should return no conflicts for equal content', () => {
+        expect(findConflicts(BASE, BASE)).toEqual([]);
+    });
+});
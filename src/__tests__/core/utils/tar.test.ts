@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Tar Encoding
+ *
+ * Tests ustar archive encoding:
+ * - Header fields and checksum
+ * - Content padding and end of archive marker
+ * - Long paths (prefix field) and invalid paths
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createTar, tarEntry } from '../../../core/utils/tar';
+
+// Test Fixtures
+
+const decoder = new TextDecoder();
+
+// Text of a header field (up to the first NUL)
+function field(block: Uint8Array, offset: number, length: number): string {
+    return decoder.decode(block.subarray(offset, offset + length)).split('\0')[0]!;
+}
+
+const mtime = new Date('2024-01-01T00:00:00Z');
+
+// Tar Tests
+
+describe('tarEntry', () => {
+    it('should write the header fields', () => {
+        const [entry, error] = tarEntry({ path: 'src/zdemo.prog.abap', content: 'REPORT zdemo.', mtime });
+
+        expect(error).toBeNull();
+        expect(field(entry!, 0, 100)).toBe('src/zdemo.prog.abap');
+        expect(field(entry!, 100, 8)).toBe('0000644');
+        expect(parseInt(field(entry!, 124, 12), 8)).toBe(13);
+        expect(parseInt(field(entry!, 136, 12), 8)).toBe(mtime.getTime() / 1000);
+        expect(field(entry!, 156, 1)).toBe('0');
+        expect(field(entry!, 257, 6)).toBe('ustar');
+    });
+
+    it('should write a valid checksum', () => {
+        const [entry] = tarEntry({ path: 'a.txt', content: 'a', mtime });
+        const header = entry!.slice(0, 512);
+        const stored = parseInt(field(header, 148, 8), 8);
+
+        header.fill(32, 148, 156);
+        expect(stored).toBe(header.reduce((sum, byte) => sum + byte, 0));
+    });
+
+    it('should pad content to full blocks', () => {
+        const [entry] = tarEntry({ path: 'a.txt', content: 'ä'.repeat(300), mtime });
+
+        expect(entry).toHaveLength(512 + 1024);
+        expect(parseInt(field(entry!, 124, 12), 8)).toBe(600);
+    });
+
+    it('should split long paths into prefix and name', () => {
+        const path = `${'folder/'.repeat(20)}zcl_demo.clas.abap`;
+        const [entry, error] = tarEntry({ path, content: '' });
+
+        expect(error).toBeNull();
+        expect(`${field(entry!, 345, 155)}/${field(entry!, 0, 100)}`).toBe(path);
+    });
+
+    it('should reject invalid paths', () => {
+        expect(tarEntry({ path: '/etc/passwd', content: '' })[1]?.message).toContain('Invalid archive path');
+        expect(tarEntry({ path: 'src/../x', content: '' })[1]?.message).toContain('Invalid archive path');
+        expect(tarEntry({ path: 'x'.repeat(120), content: '' })[1]?.message).toContain('too long');
+    });
+});
+
+describe('createTar', () => {
+    it('should end the archive with two zero blocks', () => {
+        const [archive, error] = createTar([
+            { path: 'a.txt', content: 'a', mtime },
+            { path: 'b.txt', content: new Uint8Array([1, 2]), mtime },
+        ]);
+
+        expect(error).toBeNull();
+        expect(archive).toHaveLength(4 * 512 + 1024);
+        expect(field(archive!, 1024, 100)).toBe('b.txt');
+        expect(archive!.subarray(4 * 512).every(byte => byte === 0)).toBe(true);
+    });
+});
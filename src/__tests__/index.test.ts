@@ -15,9 +15,13 @@ import {
     getAllExtensions,
     getAllTypes,
     isExtensionSupported,
+    registerObjectType,
+    unregisterObjectType,
     OBJECT_CONFIG_MAP,
     ObjectTypeLabel,
 } from '../core/adt/types';
+import type { ObjectConfig } from '../core/adt/types';
+import { buildObjectUri, buildSourceUri, extractParentName } from '../core/adt/helpers';
 
 // =============================================================================
 // Client Creation Tests
@@ -291,6 +295,9 @@ describe('getConfigByType', () => {
         expect(getConfigByType('TABL/DT')?.extension).toBe('astabldt');
         expect(getConfigByType('CLAS/OC')?.extension).toBe('aclass');
         expect(getConfigByType('PROG/P')?.extension).toBe('asprog');
+        expect(getConfigByType('FUGR/FF')?.extension).toBe('asfunc');
+        expect(getConfigByType('INTF/OI')?.extension).toBe('aint');
+        expect(getConfigByType('SRVB/SVB')?.extension).toBe('assrvb');
     });
 });
 
@@ -298,7 +305,7 @@ describe('getAllExtensions', () => {
     it('should return array of extensions', () => {
         const extensions = getAllExtensions();
         expect(Array.isArray(extensions)).toBe(true);
-        expect(extensions.length).toBe(5);
+        expect(extensions.length).toBe(15);
     });
 
     it('should include all configured extensions', () => {
@@ -308,6 +315,16 @@ describe('getAllExtensions', () => {
         expect(extensions).toContain('astabldt');
         expect(extensions).toContain('aclass');
         expect(extensions).toContain('asprog');
+        expect(extensions).toContain('asfugr');
+        expect(extensions).toContain('asfunc');
+        expect(extensions).toContain('aint');
+        expect(extensions).toContain('asdtel');
+        expect(extensions).toContain('asdoma');
+        expect(extensions).toContain('astablds');
+        expect(extensions).toContain('asmsag');
+        expect(extensions).toContain('asbdef');
+        expect(extensions).toContain('assrvd');
+        expect(extensions).toContain('assrvb');
     });
 });
 
@@ -315,7 +332,7 @@ describe('getAllTypes', () => {
     it('should return array of ADT types', () => {
         const types = getAllTypes();
         expect(Array.isArray(types)).toBe(true);
-        expect(types.length).toBe(5);
+        expect(types.length).toBe(15);
     });
 
     it('should include all configured types', () => {
@@ -353,6 +370,120 @@ describe('isExtensionSupported', () => {
     });
 });
 
+// =============================================================================
+// Object Type Registry Tests
+// =============================================================================
+
+const TABLE_TYPE_CONFIG: ObjectConfig = {
+    endpoint: 'ddic/tabletypes',
+    nameSpace: 'xmlns:ttyp="http://www.sap.com/adt/ddic/tabletypes"',
+    rootName: 'ttyp:tableType',
+    type: 'TTYP/DA',
+    label: 'Table Type',
+    extension: 'asttyp',
+    sourcePath: '',
+    contentType: 'application/vnd.sap.adt.tabletype.v1+xml',
+};
+
+describe('registerObjectType', () => {
+    it('should register a custom object type', () => {
+        const [config, error] = registerObjectType(TABLE_TYPE_CONFIG);
+        expect(error).toBeNull();
+        expect(config?.extension).toBe('asttyp');
+        expect(isExtensionSupported('asttyp')).toBe(true);
+        expect(getConfigByType('TTYP/DA')?.extension).toBe('asttyp');
+        expect(getAllExtensions()).toContain('asttyp');
+
+        expect(unregisterObjectType('asttyp')).toBe(true);
+        expect(isExtensionSupported('asttyp')).toBe(false);
+    });
+
+    it('should reject invalid extensions', () => {
+        const [config, error] = registerObjectType({ ...TABLE_TYPE_CONFIG, extension: 'AS TTYP' });
+        expect(config).toBeNull();
+        expect(error?.message).toContain('extension');
+    });
+
+    it('should reject parent endpoints without a parent type', () => {
+        const [, error] = registerObjectType({
+            ...TABLE_TYPE_CONFIG,
+            endpoint: 'ddic/tabletypes/{parent}/items',
+        });
+        expect(error).not.toBeNull();
+    });
+
+    it('should reject an ADT type mapped to another extension', () => {
+        const [, error] = registerObjectType({ ...TABLE_TYPE_CONFIG, type: 'CLAS/OC' });
+        expect(error?.message).toContain('aclass');
+    });
+
+    it('should restore built-in types when unregistered', () => {
+        const [, error] = registerObjectType({ ...OBJECT_CONFIG_MAP['asprog'], label: 'Report' });
+        expect(error).toBeNull();
+        expect(getConfigByExtension('asprog')?.label).toBe('Report');
+
+        expect(unregisterObjectType('asprog')).toBe(true);
+        expect(getConfigByExtension('asprog')?.label).toBe('ABAP Program');
+    });
+
+    it('should return false when unregistering unknown types', () => {
+        expect(unregisterObjectType('unknown')).toBe(false);
+        expect(unregisterObjectType('toString')).toBe(false);
+    });
+});
+
+describe('object URIs', () => {
+    it('should build object and source URIs', () => {
+        const config = OBJECT_CONFIG_MAP['aclass'];
+        const [uri] = buildObjectUri(config, { name: 'zcl_demo', extension: 'aclass' });
+        expect(uri).toBe('/sap/bc/adt/oo/classes/zcl_demo');
+
+        const [sourceUri] = buildSourceUri(config, { name: 'zcl_demo', extension: 'aclass' });
+        expect(sourceUri).toBe('/sap/bc/adt/oo/classes/zcl_demo/source/main');
+    });
+
+    it('should build include URIs for classes', () => {
+        const config = OBJECT_CONFIG_MAP['aclass'];
+        const [uri] = buildSourceUri(config, { name: 'zcl_demo', extension: 'aclass', include: 'testclasses' });
+        expect(uri).toBe('/sap/bc/adt/oo/classes/zcl_demo/includes/testclasses');
+
+        const [mainUri] = buildSourceUri(config, { name: 'zcl_demo', extension: 'aclass', include: 'main' });
+        expect(mainUri).toBe('/sap/bc/adt/oo/classes/zcl_demo/source/main');
+    });
+
+    it('should reject includes on types without includes', () => {
+        const config = OBJECT_CONFIG_MAP['asprog'];
+        const [uri, error] = buildSourceUri(config, { name: 'zdemo', extension: 'asprog', include: 'macros' });
+        expect(uri).toBeNull();
+        expect(error?.message).toContain('macros');
+    });
+
+    it('should omit the source path for XML-based types', () => {
+        const config = OBJECT_CONFIG_MAP['asdtel'];
+        const [sourceUri] = buildSourceUri(config, { name: 'zdemo_dtel', extension: 'asdtel' });
+        expect(sourceUri).toBe('/sap/bc/adt/ddic/dataelements/zdemo_dtel');
+    });
+
+    it('should substitute the parent for nested types', () => {
+        const config = OBJECT_CONFIG_MAP['asfunc'];
+        const [uri] = buildObjectUri(config, { name: 'z_demo_fm', extension: 'asfunc', parent: 'ZDEMO_FG' });
+        expect(uri).toBe('/sap/bc/adt/functions/groups/zdemo_fg/fmodules/z_demo_fm');
+    });
+
+    it('should require a parent for nested types', () => {
+        const config = OBJECT_CONFIG_MAP['asfunc'];
+        const [uri, error] = buildObjectUri(config, { name: 'z_demo_fm', extension: 'asfunc' });
+        expect(uri).toBeNull();
+        expect(error).not.toBeNull();
+    });
+
+    it('should extract the parent name from an object URI', () => {
+        const config = OBJECT_CONFIG_MAP['asfunc'];
+        expect(extractParentName(config, '/sap/bc/adt/functions/groups/zdemo_fg/fmodules/z_demo_fm')).toBe('ZDEMO_FG');
+        expect(extractParentName(OBJECT_CONFIG_MAP['aclass'], '/sap/bc/adt/oo/classes/zcl_demo')).toBeUndefined();
+    });
+});
+
 // =============================================================================
 // Object Type Labels Tests
 // =============================================================================
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Running Saved Queries
+ *
+ * Tests POST /queries/:id/run:
+ * - Row limit capped at 50000 (request and saved limits)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Hono } from 'hono';
+import type { ADTClient } from '../../../../client';
+import type { DataPreviewQuery } from '../../../../core/adt';
+import { ApiError } from '../../../../server/middleware';
+import { runQueryHandler } from '../../../../server/routes/queries';
+import type { SessionContext } from '../../../../server/routes/types';
+import { QueryStore } from '../../../../server/utils';
+
+// Test Fixtures
+
+const OWNER = { system: 'sap.example.com:44300', client: '100', user: 'DEVELOPER' };
+
+let directory: string;
+let app: Hono<SessionContext>;
+let queried: DataPreviewQuery[];
+let savedId: string;
+let largeId: string;
+
+beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'queries-'));
+    const [store] = QueryStore.load(join(directory, 'saved-queries.json'));
+    const query: DataPreviewQuery = { objectName: 'VBAK', objectType: 'table', fields: ['VBELN'] };
+    savedId = store!.create(OWNER, { name: 'Orders', template: { query, placeholders: [] } })[0]!.id;
+    largeId = store!.create(OWNER, { name: 'All orders', template: { query: { ...query, limit: 60000 }, placeholders: [] } })[0]!.id;
+
+    queried = [];
+    const client = {
+        session: { sessionId: 'S1', username: 'developer', expiresAt: Date.now() + 60000 },
+        system: { url: 'https://sap.example.com:44300', client: '100' },
+        previewQuery: async (q: DataPreviewQuery) => {
+            queried.push(q);
+            return [{ columns: [], rows: [], totalRows: 0 }, null];
+        },
+    } as unknown as ADTClient;
+
+    app = new Hono<SessionContext>();
+    app.onError((error, c) => error instanceof ApiError
+        ? c.json({ success: false, error: error.message, code: error.code }, error.statusCode as 400)
+        : c.json({ success: false, error: error.message }, 500));
+    app.use('*', async (c, next) => {
+        c.set('client', client);
+        await next();
+    });
+    app.post('/queries/:id/run', runQueryHandler(store!));
+});
+
+afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+});
+
+function run(id: string, body: unknown): Promise<Response> {
+    return Promise.resolve(app.request(`/queries/${id}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    }));
+}
+
+// Limit Tests
+
+describe('runQueryHandler', () => {
+    it('should run with a limit up to 50000', async () => {
+        const response = await run(savedId, { limit: 50000 });
+
+        expect(response.status).toBe(200);
+        expect(queried.at(-1)?.limit).toBe(50000);
+    });
+
+    it('should reject limits above 50000 with 400', async () => {
+        const count = queried.length;
+        const response = await run(savedId, { limit: 50001 });
+        const body = await response.json() as { code: string };
+
+        expect(response.status).toBe(400);
+        expect(body.code).toBe('VALIDATION_ERROR');
+        expect(queried).toHaveLength(count);
+    });
+
+    it('should reject saved limits above 50000 with 400', async () => {
+        const response = await run(largeId, {});
+
+        expect(response.status).toBe(400);
+    });
+});
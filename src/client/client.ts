@@ -15,7 +15,9 @@ import type { ClientConfig } from '../types/config';
 import type {
     ObjectRef,
     ObjectContent,
+    ReadOptions,
     TreeQuery,
+    PackageExportOptions,
     PreviewSQL,
 } from '../types/requests';
 import type { Session, ExportableSessionState } from '../core/session/types';
@@ -24,21 +26,44 @@ import type {
     ObjectWithContent,
     UpsertResult,
     ActivationResult,
+    InactiveObject,
     TreeResponse,
     PackageNode,
+    PackageExport,
+    ExportPart,
     Transport,
     Package,
     DataFrame,
+    DataPreviewQuery,
     DistinctResult,
+    ObjectColumns,
+    ValueHelpOptions,
+    ValueHelpResult,
+    ColumnProfile,
+    ProfileOptions,
     SearchResult,
     Dependency,
     TransportConfig,
+    TransportDetails,
+    TransportObjectKey,
+    TransportReleaseReport,
+    TransportRequirement,
+    UserTransportQuery,
     DiffResult,
+    DiffSource,
+    DiffOptions,
+    Revision,
+    ObjectLock,
+    LockStatus,
     ObjectConfig,
     Parameter,
     AdtRequestor,
+    UnitTestOptions,
+    UnitTestRunResult,
+    SyntaxCheckResult,
+    AtcFinding,
 } from '../core/adt';
-import type { AsyncResult } from '../types/result';
+import type { AsyncResult, Result } from '../types/result';
 import { createAuthStrategy } from '../core/auth/factory';
 import type { ClientState, ClientContext, RequestOptions, SsoCerts } from './types';
 
@@ -46,24 +71,39 @@ import type { ClientState, ClientContext, RequestOptions, SsoCerts } from './typ
 import * as lifecycleMethods from './methods/lifecycle';
 import * as sessionMethods from './methods/session';
 import * as craudMethods from './methods/craud';
+import * as lockMethods from './methods/lock';
 import * as discoveryMethods from './methods/discovery';
 import * as previewMethods from './methods/preview';
 import * as searchMethods from './methods/search';
 import * as transportMethods from './methods/transport';
 import * as diffMethods from './methods/diff';
+import * as qualityMethods from './methods/quality';
 import * as configMethods from './methods/config';
 import {
     storeCookies,
     buildCookieHeader,
     createAutoRefresh,
+    createResultCache,
     executeRequest,
 } from './methods/internal';
-import type { AutoRefreshManager } from './methods/internal';
+import type { AutoRefreshManager, CacheOptions, CacheStats } from './methods/internal';
+
+// Transport request operations (client.transports)
+export interface TransportOperations {
+    get(transportId: string): AsyncResult<TransportDetails>;
+    addObject(transportId: string, object: ObjectRef | TransportObjectKey): AsyncResult<void>;
+    removeObject(transportId: string, object: ObjectRef | TransportObjectKey): AsyncResult<void>;
+    setOwner(transportId: string, user: string): AsyncResult<void>;
+    setDescription(transportId: string, description: string): AsyncResult<void>;
+    release(transportId: string): AsyncResult<TransportReleaseReport[]>;
+}
 
 // ADT Client interface - provides all operations for interacting with SAP ADT servers
 export interface ADTClient {
     /** Current session info (null if not logged in) */
     readonly session: Session | null;
+    /** SAP system of the client: server URL and client number */
+    readonly system: { url: string; client: string };
 
     // Lifecycle
     login(): AsyncResult<Session>;
@@ -75,34 +115,65 @@ export interface ADTClient {
     importSessionState(state: ExportableSessionState): AsyncResult<boolean>;
 
     // CRAUD Operations
-    read(objects: ObjectRef[]): AsyncResult<ObjectWithContent[]>;
+    read(objects: ObjectRef[], options?: ReadOptions): AsyncResult<ObjectWithContent[]>;
     create(object: ObjectContent, packageName: string, transport?: string): AsyncResult<void>;
     update(object: ObjectContent, transport?: string): AsyncResult<void>;
     upsert(objects: ObjectContent[], packageName: string, transport?: string): AsyncResult<UpsertResult[]>;
     activate(objects: ObjectRef[]): AsyncResult<ActivationResult[]>;
+    getInactiveObjects(): AsyncResult<InactiveObject[]>;
+    activateInactiveObjects(): AsyncResult<ActivationResult[]>;
     delete(objects: ObjectRef[], transport?: string): AsyncResult<void>;
+    getRevisions(object: ObjectRef): AsyncResult<Revision[]>;
+    readRevision(object: ObjectRef, versionId: string): AsyncResult<string>;
+
+    // Locks (held across requests in a stateful session until released)
+    acquireLock(objects: ObjectRef[]): AsyncResult<ObjectLock[]>;
+    releaseLock(objects?: ObjectRef[]): AsyncResult<void>;
+    withLock<T>(objects: ObjectRef[], fn: (locks: ObjectLock[]) => AsyncResult<T>): AsyncResult<T>;
+    getLockStatus(objects: ObjectRef[]): AsyncResult<LockStatus[]>;
 
     // Discovery
     getPackages(filter?: string): AsyncResult<Package[]>;
-    getTree(query: TreeQuery): AsyncResult<TreeResponse>;
-    getPackageStats(packageName: string): AsyncResult<PackageNode>;
-    getPackageStats(packageNames: string[]): AsyncResult<PackageNode[]>;
-    getTransports(packageName: string): AsyncResult<Transport[]>;
+    getTree(query: TreeQuery, options?: CacheOptions): AsyncResult<TreeResponse>;
+    getPackageStats(packageName: string, options?: CacheOptions): AsyncResult<PackageNode>;
+    getPackageStats(packageNames: string[], options?: CacheOptions): AsyncResult<PackageNode[]>;
+    getTransports(packageName: string, options?: CacheOptions): AsyncResult<Transport[]>;
+    getUserTransports(query?: UserTransportQuery): AsyncResult<TransportDetails[]>;
+    exportPackage(packageName: string, options?: PackageExportOptions): AsyncResult<PackageExport>;
+    exportPackageIterator(packageName: string, options?: Omit<PackageExportOptions, 'directory'>): AsyncGenerator<Result<ExportPart>>;
 
     // Data Preview
-    previewData(query: PreviewSQL): AsyncResult<DataFrame>;
+    previewData(query: PreviewSQL, options?: CacheOptions): AsyncResult<DataFrame>;
+    previewQuery(query: DataPreviewQuery, options?: CacheOptions): AsyncResult<DataFrame>;
+    previewDataIterator(query: DataPreviewQuery, pageSize?: number): AsyncGenerator<Result<DataFrame>>;
     getDistinctValues(objectName: string, parameters: Parameter[], column: string, objectType?: 'table' | 'view'): AsyncResult<DistinctResult>;
     countRows(objectName: string, objectType: 'table' | 'view', parameters?: Parameter[]): AsyncResult<number>;
+    getColumns(objectName: string, objectType: 'table' | 'view'): AsyncResult<ObjectColumns>;
+    getValueHelp(objectName: string, field: string, searchTerm?: string, options?: ValueHelpOptions): AsyncResult<ValueHelpResult>;
+    profileColumns(objectName: string, columns: string[], parameters?: Parameter[], options?: ProfileOptions): AsyncResult<ColumnProfile[]>;
 
     // Search
-    search(query: string, types?: string[]): AsyncResult<SearchResult[]>;
+    search(query: string, types?: string[], options?: CacheOptions): AsyncResult<SearchResult[]>;
     whereUsed(object: ObjectRef): AsyncResult<Dependency[]>;
 
     // Transport Management
     createTransport(config: TransportConfig): AsyncResult<string>;
+    checkTransportRequirement(object: ObjectRef, packageName: string): AsyncResult<TransportRequirement>;
+    readonly transports: TransportOperations;
 
     // Diff Operations
-    gitDiff(objects: ObjectContent[]): AsyncResult<DiffResult[]>;
+    gitDiff(objects: ObjectContent[], options?: DiffOptions): AsyncResult<DiffResult[]>;
+    gitDiff(object: ObjectRef, base: DiffSource, target: DiffSource, options?: DiffOptions): AsyncResult<DiffResult>;
+    applyPatch(object: ObjectRef, patch: string): AsyncResult<ObjectContent>;
+
+    // Quality
+    runUnitTests(target: ObjectRef[] | string, options?: UnitTestOptions): AsyncResult<UnitTestRunResult>;
+    checkSyntax(objects: ObjectContent[]): AsyncResult<SyntaxCheckResult[]>;
+    runAtc(objects: ObjectRef[], variant?: string): AsyncResult<AtcFinding[]>;
+
+    // Result cache (tree, package stats, search, preview, transports)
+    getCacheStats(): CacheStats;
+    clearCache(): void;
 
     // Configuration
     getObjectConfig(): ObjectConfig[];
@@ -117,6 +188,7 @@ export class ADTClientImpl implements ADTClient {
     private requestor: AdtRequestor;
     private ssoCerts: SsoCerts | undefined;
     private autoRefresh: AutoRefreshManager;
+    readonly transports: TransportOperations;
 
     constructor(config: ClientConfig) {
         // Create auth strategy from config
@@ -135,11 +207,23 @@ export class ADTClientImpl implements ADTClient {
             csrfToken: null,
             cookies: new Map(),
             authStrategy,
+            locks: new Map(),
+            cache: createResultCache(config.cache),
         };
 
         // Bind request method for use as requestor
         this.requestor = { request: this.request.bind(this) };
 
+        // Bind transport request operations
+        this.transports = {
+            get: (transportId) => transportMethods.getTransport(this.state, this.requestor, transportId),
+            addObject: (transportId, object) => transportMethods.addTransportObject(this.state, this.requestor, transportId, object),
+            removeObject: (transportId, object) => transportMethods.removeTransportObject(this.state, this.requestor, transportId, object),
+            setOwner: (transportId, user) => transportMethods.setTransportOwner(this.state, this.requestor, transportId, user),
+            setDescription: (transportId, description) => transportMethods.setTransportDescription(this.state, this.requestor, transportId, description),
+            release: (transportId) => transportMethods.releaseTransport(this.state, this.requestor, transportId),
+        };
+
         // Initialize auto-refresh manager
         this.autoRefresh = createAutoRefresh(
             () => this.state.session,
@@ -151,6 +235,10 @@ export class ADTClientImpl implements ADTClient {
         return this.state.session;
     }
 
+    get system(): { url: string; client: string } {
+        return { url: this.state.config.url, client: this.state.config.client };
+    }
+
     // --- Private helpers (one-line delegations) ---
 
     private storeCookies(response: Response): void {
@@ -224,8 +312,8 @@ export class ADTClientImpl implements ADTClient {
 
     // --- CRAUD Operations ---
 
-    async read(objects: ObjectRef[]): AsyncResult<ObjectWithContent[]> {
-        return craudMethods.read(this.state, this.requestor, objects);
+    async read(objects: ObjectRef[], options?: ReadOptions): AsyncResult<ObjectWithContent[]> {
+        return craudMethods.read(this.state, this.requestor, objects, options);
     }
 
     async create(object: ObjectContent, packageName: string, transport?: string): AsyncResult<void> {
@@ -244,34 +332,88 @@ export class ADTClientImpl implements ADTClient {
         return craudMethods.activate(this.state, this.requestor, objects);
     }
 
+    async getInactiveObjects(): AsyncResult<InactiveObject[]> {
+        return craudMethods.getInactiveObjects(this.state, this.requestor);
+    }
+
+    async activateInactiveObjects(): AsyncResult<ActivationResult[]> {
+        return craudMethods.activateInactive(this.state, this.requestor);
+    }
+
     async delete(objects: ObjectRef[], transport?: string): AsyncResult<void> {
         return craudMethods.deleteObjects(this.state, this.requestor, objects, transport);
     }
 
+    async getRevisions(object: ObjectRef): AsyncResult<Revision[]> {
+        return craudMethods.getRevisions(this.state, this.requestor, object);
+    }
+
+    async readRevision(object: ObjectRef, versionId: string): AsyncResult<string> {
+        return craudMethods.readRevision(this.state, this.requestor, object, versionId);
+    }
+
+    // --- Locks ---
+
+    async acquireLock(objects: ObjectRef[]): AsyncResult<ObjectLock[]> {
+        return lockMethods.acquireLock(this.state, this.requestor, objects);
+    }
+
+    async releaseLock(objects?: ObjectRef[]): AsyncResult<void> {
+        return lockMethods.releaseLock(this.state, this.requestor, objects);
+    }
+
+    async withLock<T>(objects: ObjectRef[], fn: (locks: ObjectLock[]) => AsyncResult<T>): AsyncResult<T> {
+        return lockMethods.withLock(this.state, this.requestor, objects, fn);
+    }
+
+    async getLockStatus(objects: ObjectRef[]): AsyncResult<LockStatus[]> {
+        return lockMethods.getLockStatus(this.state, this.requestor, objects);
+    }
+
     // --- Discovery ---
 
     async getPackages(filter?: string): AsyncResult<Package[]> {
         return discoveryMethods.getPackages(this.state, this.requestor, filter);
     }
 
-    async getTree(query: TreeQuery): AsyncResult<TreeResponse> {
-        return discoveryMethods.getTree(this.state, this.requestor, query);
+    async getTree(query: TreeQuery, options?: CacheOptions): AsyncResult<TreeResponse> {
+        return discoveryMethods.getTree(this.state, this.requestor, query, options);
+    }
+
+    async getPackageStats(packageName: string, options?: CacheOptions): AsyncResult<PackageNode>;
+    async getPackageStats(packageNames: string[], options?: CacheOptions): AsyncResult<PackageNode[]>;
+    async getPackageStats(packageNames: string | string[], options?: CacheOptions): AsyncResult<PackageNode | PackageNode[]> {
+        return discoveryMethods.getPackageStats(this.state, this.requestor, packageNames as string & string[], options);
+    }
+
+    async getTransports(packageName: string, options?: CacheOptions): AsyncResult<Transport[]> {
+        return discoveryMethods.getTransports(this.state, this.requestor, packageName, options);
     }
 
-    async getPackageStats(packageName: string): AsyncResult<PackageNode>;
-    async getPackageStats(packageNames: string[]): AsyncResult<PackageNode[]>;
-    async getPackageStats(packageNames: string | string[]): AsyncResult<PackageNode | PackageNode[]> {
-        return discoveryMethods.getPackageStats(this.state, this.requestor, packageNames as string & string[]);
+    async getUserTransports(query?: UserTransportQuery): AsyncResult<TransportDetails[]> {
+        return discoveryMethods.getUserTransports(this.state, this.requestor, query);
     }
 
-    async getTransports(packageName: string): AsyncResult<Transport[]> {
-        return discoveryMethods.getTransports(this.state, this.requestor, packageName);
+    async exportPackage(packageName: string, options?: PackageExportOptions): AsyncResult<PackageExport> {
+        return discoveryMethods.exportPackage(this.state, this.requestor, packageName, options);
+    }
+
+    exportPackageIterator(packageName: string, options?: Omit<PackageExportOptions, 'directory'>): AsyncGenerator<Result<ExportPart>> {
+        return discoveryMethods.exportPackageIterator(this.state, this.requestor, packageName, options);
     }
 
     // --- Data Preview ---
 
-    async previewData(query: PreviewSQL): AsyncResult<DataFrame> {
-        return previewMethods.previewData(this.state, this.requestor, query);
+    async previewData(query: PreviewSQL, options?: CacheOptions): AsyncResult<DataFrame> {
+        return previewMethods.previewData(this.state, this.requestor, query, options);
+    }
+
+    async previewQuery(query: DataPreviewQuery, options?: CacheOptions): AsyncResult<DataFrame> {
+        return previewMethods.previewQuery(this.state, this.requestor, query, options);
+    }
+
+    previewDataIterator(query: DataPreviewQuery, pageSize?: number): AsyncGenerator<Result<DataFrame>> {
+        return previewMethods.previewDataIterator(this.state, this.requestor, query, pageSize);
     }
 
     async getDistinctValues(objectName: string, parameters: Parameter[], column: string, objectType: 'table' | 'view' = 'view'): AsyncResult<DistinctResult> {
@@ -282,10 +424,22 @@ export class ADTClientImpl implements ADTClient {
         return previewMethods.countRows(this.state, this.requestor, objectName, objectType, parameters);
     }
 
+    async getColumns(objectName: string, objectType: 'table' | 'view'): AsyncResult<ObjectColumns> {
+        return previewMethods.getColumns(this.state, this.requestor, objectName, objectType);
+    }
+
+    async getValueHelp(objectName: string, field: string, searchTerm?: string, options?: ValueHelpOptions): AsyncResult<ValueHelpResult> {
+        return previewMethods.getValueHelp(this.state, this.requestor, objectName, field, searchTerm, options);
+    }
+
+    async profileColumns(objectName: string, columns: string[], parameters: Parameter[] = [], options?: ProfileOptions): AsyncResult<ColumnProfile[]> {
+        return previewMethods.profileColumns(this.state, this.requestor, objectName, columns, parameters, options);
+    }
+
     // --- Search ---
 
-    async search(query: string, types?: string[]): AsyncResult<SearchResult[]> {
-        return searchMethods.search(this.state, this.requestor, query, types);
+    async search(query: string, types?: string[], options?: CacheOptions): AsyncResult<SearchResult[]> {
+        return searchMethods.search(this.state, this.requestor, query, types, options);
     }
 
     async whereUsed(object: ObjectRef): AsyncResult<Dependency[]> {
@@ -298,10 +452,52 @@ export class ADTClientImpl implements ADTClient {
         return transportMethods.createTransport(this.state, this.requestor, transportConfig);
     }
 
+    async checkTransportRequirement(object: ObjectRef, packageName: string): AsyncResult<TransportRequirement> {
+        return transportMethods.checkTransportRequirement(this.state, this.requestor, object, packageName);
+    }
+
     // --- Diff Operations ---
 
-    async gitDiff(objects: ObjectContent[]): AsyncResult<DiffResult[]> {
-        return diffMethods.gitDiff(this.state, this.requestor, objects);
+    async gitDiff(objects: ObjectContent[], options?: DiffOptions): AsyncResult<DiffResult[]>;
+    async gitDiff(object: ObjectRef, base: DiffSource, target: DiffSource, options?: DiffOptions): AsyncResult<DiffResult>;
+    async gitDiff(
+        objects: ObjectContent[] | ObjectRef,
+        baseOrOptions?: DiffSource | DiffOptions,
+        target?: DiffSource,
+        options?: DiffOptions
+    ): AsyncResult<DiffResult[] | DiffResult> {
+        if (!Array.isArray(objects)) {
+            return diffMethods.gitDiffRevisions(this.state, this.requestor, objects, (baseOrOptions ?? {}) as DiffSource, target ?? {}, options);
+        }
+        return diffMethods.gitDiff(this.state, this.requestor, objects, baseOrOptions as DiffOptions | undefined);
+    }
+
+    async applyPatch(object: ObjectRef, patch: string): AsyncResult<ObjectContent> {
+        return diffMethods.applyPatch(this.state, this.requestor, object, patch);
+    }
+
+    // --- Quality ---
+
+    async runUnitTests(target: ObjectRef[] | string, options?: UnitTestOptions): AsyncResult<UnitTestRunResult> {
+        return qualityMethods.runUnitTests(this.state, this.requestor, target, options);
+    }
+
+    async checkSyntax(objects: ObjectContent[]): AsyncResult<SyntaxCheckResult[]> {
+        return qualityMethods.checkSyntax(this.state, this.requestor, objects);
+    }
+
+    async runAtc(objects: ObjectRef[], variant?: string): AsyncResult<AtcFinding[]> {
+        return qualityMethods.runAtc(this.state, this.requestor, objects, variant);
+    }
+
+    // --- Result Cache ---
+
+    getCacheStats(): CacheStats {
+        return this.state.cache.stats();
+    }
+
+    clearCache(): void {
+        this.state.cache.clear();
     }
 
     // --- Configuration ---
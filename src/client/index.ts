@@ -9,9 +9,10 @@ import type { Result } from '../types/result';
 import { ok, err } from '../types/result';
 import { clientConfigSchema } from '../types/config';
 import { ADTClientImpl } from './client';
-import type { ADTClient } from './client';
+import type { ADTClient, TransportOperations } from './client';
+import type { CacheOptions, CacheStats, CacheOperationStats } from './methods/internal';
 
-export type { ADTClient };
+export type { ADTClient, TransportOperations, CacheOptions, CacheStats, CacheOperationStats };
 
 // Create a new ADT client - validates config and returns client instance
 export function createClient(config: ClientConfig): Result<ADTClient, Error> {
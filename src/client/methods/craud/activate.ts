@@ -8,6 +8,7 @@ import type { AdtRequestor, ActivationResult } from '../../../core/adt';
 import type { ClientState } from '../../types';
 import { err } from '../../../types/result';
 import * as adt from '../../../core/adt';
+import { invalidateObjects } from '../internal';
 
 export async function activate(
     state: ClientState,
@@ -15,5 +16,9 @@ export async function activate(
     objects: ObjectRef[]
 ): AsyncResult<ActivationResult[]> {
     if (!state.session) return err(new Error('Not logged in'));
-    return adt.activateObjects(requestor, objects);
+
+    // Activation changes the active version read by search and preview
+    const result = await adt.activateObjects(requestor, objects);
+    invalidateObjects(state, objects.map(obj => obj.name));
+    return result;
 }
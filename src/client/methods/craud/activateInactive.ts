@@ -0,0 +1,22 @@
+/**
+ * Activate all inactive objects method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, ActivationResult } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { invalidateObjects } from '../internal';
+
+export async function activateInactive(
+    state: ClientState,
+    requestor: AdtRequestor
+): AsyncResult<ActivationResult[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+
+    // The activated objects are not known up front
+    const result = await adt.activateInactiveObjects(requestor);
+    invalidateObjects(state);
+    return result;
+}
@@ -3,11 +3,13 @@
  */
 
 import type { AsyncResult } from '../../../types/result';
-import type { ObjectRef, ObjectContent } from '../../../types/requests';
+import type { ObjectContent } from '../../../types/requests';
 import type { AdtRequestor } from '../../../core/adt';
 import type { ClientState } from '../../types';
-import { ok, err } from '../../../types/result';
+import { err } from '../../../types/result';
 import * as adt from '../../../core/adt';
+import { invalidateObjects } from '../internal';
+import { collectSources, markMissing, readServerIncludes, writeSources } from './sources';
 
 export async function create(
     state: ClientState,
@@ -22,19 +24,14 @@ export async function create(
     const [, createErr] = await adt.createObject(requestor, object, packageName, transport, state.session.username);
     if (createErr) return err(createErr);
 
-    // Step 2: Populate content via lock → update → unlock
-    const objRef: ObjectRef = { name: object.name, extension: object.extension };
+    // Step 2: Populate content (and includes) via lock → update → unlock
+    // (writeSources drops cached listings once the content is written)
+    const [serverIncludes, readErr] = await readServerIncludes(requestor, object);
+    if (readErr) {
+        invalidateObjects(state, [object.name]);
+        return err(readErr);
+    }
+    const sections = markMissing(collectSources(object), serverIncludes);
 
-    const [lockHandle, lockErr] = await adt.lockObject(requestor, objRef);
-    if (lockErr) return err(lockErr);
-
-    const [, updateErr] = await adt.updateObject(requestor, object, lockHandle, transport);
-
-    // Always unlock after update attempt
-    const [, unlockErr] = await adt.unlockObject(requestor, objRef, lockHandle);
-
-    if (updateErr) return err(updateErr);
-    if (unlockErr) return err(unlockErr);
-
-    return ok(undefined);
+    return writeSources(state, requestor, object, sections, transport);
 }
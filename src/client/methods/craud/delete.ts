@@ -8,6 +8,8 @@ import type { AdtRequestor } from '../../../core/adt';
 import type { ClientState } from '../../types';
 import { ok, err } from '../../../types/result';
 import * as adt from '../../../core/adt';
+import { acquireLock, findLock, forgetLock, releaseLock } from '../lock';
+import { invalidateObjects } from '../internal';
 
 export async function deleteObjects(
     state: ClientState,
@@ -18,17 +20,22 @@ export async function deleteObjects(
     if (!state.session) return err(new Error('Not logged in'));
 
     for (const obj of objects) {
-        // Lock object before deletion
-        const [lockHandle, lockErr] = await adt.lockObject(requestor, obj);
+        // Lock object before deletion (unless the caller holds its lock)
+        const wasLocked = findLock(state, obj) !== null;
+        const [locks, lockErr] = await acquireLock(state, requestor, [obj]);
         if (lockErr) return err(lockErr);
 
         // Delete object
-        const [, deleteErr] = await adt.deleteObject(requestor, obj, lockHandle, transport);
+        const [, deleteErr] = await adt.deleteObject(requestor, obj, locks[0]!.handle, transport);
         if (deleteErr) {
             // Attempt to unlock on failure
-            await adt.unlockObject(requestor, obj, lockHandle);
+            if (!wasLocked) await releaseLock(state, requestor, [obj]);
             return err(deleteErr);
         }
+
+        // The lock went away with the object
+        forgetLock(state, obj);
+        invalidateObjects(state, [obj.name]);
     }
     return ok(undefined);
 }
@@ -0,0 +1,19 @@
+/**
+ * Get revisions method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, Revision } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function getRevisions(
+    state: ClientState,
+    requestor: AdtRequestor,
+    object: ObjectRef
+): AsyncResult<Revision[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.getRevisions(requestor, object);
+}
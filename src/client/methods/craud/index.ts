@@ -7,4 +7,8 @@ export { create } from './create';
 export { update } from './update';
 export { upsert, upsertSingle } from './upsert';
 export { activate } from './activate';
+export { getInactiveObjects } from './getInactiveObjects';
+export { activateInactive } from './activateInactive';
 export { deleteObjects } from './delete';
+export { getRevisions } from './getRevisions';
+export { readRevision } from './readRevision';
@@ -3,23 +3,41 @@
  */
 
 import type { AsyncResult } from '../../../types/result';
-import type { ObjectRef } from '../../../types/requests';
+import type { ObjectRef, ReadOptions } from '../../../types/requests';
 import type { ObjectWithContent, AdtRequestor } from '../../../core/adt';
 import type { ClientState } from '../../types';
 import { ok, err } from '../../../types/result';
 import * as adt from '../../../core/adt';
+import { getLockStatus } from '../lock';
 
 export async function read(
     state: ClientState,
     requestor: AdtRequestor,
-    objects: ObjectRef[]
+    objects: ObjectRef[],
+    options: ReadOptions = {}
 ): AsyncResult<ObjectWithContent[]> {
     if (!state.session) return err(new Error('Not logged in'));
 
     const results: ObjectWithContent[] = [];
     for (const obj of objects) {
-        const [result, readErr] = await adt.readObject(requestor, obj);
+        const [result, readErr] = await adt.readObject(requestor, obj, { includeMetadata: !!options.includeMetadata });
         if (readErr) return err(readErr);
+
+        // Attach every include as a bundle for multi-include objects
+        const config = adt.getConfigByExtension(obj.extension);
+        if (options.includes && config?.includes && !obj.include) {
+            const [includes, includesErr] = await adt.readIncludes(requestor, obj);
+            if (includesErr) return err(includesErr);
+            result.includes = includes;
+        }
+
+        // Lock status belongs to the metadata (held locks come from the client state)
+        if (options.includeMetadata) {
+            const [statuses, statusErr] = await getLockStatus(state, requestor, [obj]);
+            if (statusErr) return err(statusErr);
+            if (statuses[0]) result.lock = statuses[0];
+        }
+
         results.push(result);
     }
     return ok(results);
@@ -0,0 +1,195 @@
+/**
+ * Source section helpers for multi-include objects (internal)
+ *
+ * An object's content is split into sections: the main source (or the
+ * include selected via `include`) plus any entries in `includes`.
+ * All sections of one object are written under a single lock.
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef, ObjectContent, ClassInclude } from '../../../types/requests';
+import type { AdtRequestor, ObjectWithContent, UpsertConflict } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { ok, err } from '../../../types/result';
+import { findConflicts, mergeThreeWay, normalizeContent } from '../../../core/utils';
+import * as adt from '../../../core/adt';
+import { withLock } from '../lock';
+import { invalidateObjects } from '../internal';
+
+/** A single source section of an object */
+export interface SourceSection {
+    include: ClassInclude;
+    content: string;
+    /** Include must be created before it can be written (e.g., first test class) */
+    create?: boolean;
+}
+
+/** Server content per include (missing includes are absent) */
+export type ServerSources = Partial<Record<ClassInclude, string>>;
+
+// Reference to the object itself (without include selector)
+export function toObjectRef(object: ObjectRef): ObjectRef {
+    const objRef: ObjectRef = { name: object.name, extension: object.extension };
+    if (object.parent) objRef.parent = object.parent;
+    return objRef;
+}
+
+// Whether the object targets anything besides the main source
+export function isMultiInclude(object: ObjectContent): boolean {
+    return !!object.includes || (!!object.include && object.include !== 'main');
+}
+
+// Split object content into the sections to write
+export function collectSources(object: ObjectContent): SourceSection[] {
+    const sections: SourceSection[] = [{ include: object.include ?? 'main', content: object.content }];
+    for (const [include, content] of Object.entries(object.includes ?? {})) {
+        sections.push({ include: include as ClassInclude, content });
+    }
+    return sections;
+}
+
+// Read the server content of secondary includes (skipped for main-only objects)
+export async function readServerIncludes(
+    requestor: AdtRequestor,
+    object: ObjectContent
+): AsyncResult<ServerSources> {
+    if (!isMultiInclude(object)) return ok({});
+
+    const [includes, includesErr] = await adt.readIncludes(requestor, toObjectRef(object));
+    if (includesErr) return err(includesErr);
+    return ok(includes);
+}
+
+// Flag secondary sections whose include does not exist on the server yet
+export function markMissing(sections: SourceSection[], server: ServerSources): SourceSection[] {
+    return sections.map(section => section.include !== 'main' && server[section.include] === undefined
+        ? { ...section, create: true }
+        : section);
+}
+
+/** Sections reconciled with server changes since the base version */
+export interface ReconciledSources {
+    sections: SourceSection[];
+    conflicts: UpsertConflict[];
+    /** At least one section had server changes merged in */
+    merged: boolean;
+}
+
+/**
+ * Reconcile local sections with server changes made since `object.base`
+ *
+ * Sections with base content are merged three-way. Sections without base
+ * content conflict if the server version changed (ETag/last-modified
+ * mismatch) and differs from the local content.
+ */
+export function reconcileSources(
+    object: ObjectContent,
+    sections: SourceSection[],
+    server: ServerSources,
+    existing: ObjectWithContent
+): ReconciledSources {
+    const base = object.base;
+    if (!base) return { sections, conflicts: [], merged: false };
+
+    // Version markers belong to the main source, which `existing` was read from.
+    const primary = object.include ?? 'main';
+    const stale = primary === 'main' && (
+        (!!base.etag && !!existing.etag && base.etag !== existing.etag) ||
+        (!!base.lastModified && !!existing.modifiedAt && !sameTimestamp(base.lastModified, existing.modifiedAt))
+    );
+    const withInclude = (include: ClassInclude) => isMultiInclude(object) ? { include } : {};
+
+    const result: ReconciledSources = { sections: [], conflicts: [], merged: false };
+    for (const section of sections) {
+        const serverContent = server[section.include] ?? '';
+        const baseContent = section.include === primary
+            ? base.content
+            : base.includes?.[section.include as Exclude<ClassInclude, 'main'>];
+
+        // No base content: only detect that the server moved on.
+        if (baseContent === undefined) {
+            if (stale && normalizeContent(serverContent) !== normalizeContent(section.content)) {
+                result.conflicts.push(...findConflicts(section.content, serverContent)
+                    .map(conflict => ({ ...conflict, ...withInclude(section.include) })));
+            }
+            result.sections.push(section);
+            continue;
+        }
+
+        // Server unchanged since base: local content wins.
+        if (normalizeContent(serverContent) === normalizeContent(baseContent)) {
+            result.sections.push(section);
+            continue;
+        }
+
+        // Both changed: merge three-way.
+        const merge = mergeThreeWay(baseContent, section.content, serverContent);
+        if (merge.content === null) {
+            result.conflicts.push(...merge.conflicts.map(conflict => ({ ...conflict, ...withInclude(section.include) })));
+            result.sections.push(section);
+            continue;
+        }
+        result.sections.push({ ...section, content: merge.content });
+        result.merged = true;
+    }
+    return result;
+}
+
+// Compare timestamps by instant (HTTP date vs. ISO), falling back to the raw strings
+function sameTimestamp(a: string, b: string): boolean {
+    const [timeA, timeB] = [Date.parse(a), Date.parse(b)];
+    if (Number.isNaN(timeA) || Number.isNaN(timeB)) return a === b;
+    return Math.floor(timeA / 1000) === Math.floor(timeB / 1000);
+}
+
+/**
+ * Write source sections of an object locked by the caller
+ *
+ * Stops at the first failing section. Callers drop cached results of
+ * the object afterwards (see invalidateObjects).
+ */
+export async function writeLockedSources(
+    requestor: AdtRequestor,
+    object: ObjectRef,
+    sections: SourceSection[],
+    lockHandle: string,
+    transport?: string
+): AsyncResult<void> {
+    const objRef = toObjectRef(object);
+    for (const section of sections) {
+        if (section.create && section.include !== 'main') {
+            const [, createErr] = await adt.createInclude(requestor, objRef, section.include, lockHandle, transport);
+            if (createErr) return err(createErr);
+        }
+
+        const content: ObjectContent = { ...objRef, include: section.include, content: section.content };
+        const [, updateErr] = await adt.updateObject(requestor, content, lockHandle, transport);
+        if (updateErr) return err(updateErr);
+    }
+    return ok(undefined);
+}
+
+/**
+ * Write source sections of an object under a single lock
+ *
+ * Reuses a lock already held by the client (and keeps it); otherwise
+ * locks for the write and always unlocks, even when a write fails.
+ */
+export async function writeSources(
+    state: ClientState,
+    requestor: AdtRequestor,
+    object: ObjectRef,
+    sections: SourceSection[],
+    transport?: string
+): AsyncResult<void> {
+    const objRef = toObjectRef(object);
+
+    const result = await withLock(state, requestor, [objRef], ([lock]) =>
+        writeLockedSources(requestor, objRef, sections, lock!.handle, transport)
+    );
+
+    // Dropped once the write is done, so reads during the write cannot cache the old
+    // version (also after failures: sections before the failing one were written)
+    invalidateObjects(state, [objRef.name]);
+    return result;
+}
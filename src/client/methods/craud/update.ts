@@ -3,11 +3,11 @@
  */
 
 import type { AsyncResult } from '../../../types/result';
-import type { ObjectRef, ObjectContent } from '../../../types/requests';
+import type { ObjectContent } from '../../../types/requests';
 import type { AdtRequestor } from '../../../core/adt';
 import type { ClientState } from '../../types';
-import { ok, err } from '../../../types/result';
-import * as adt from '../../../core/adt';
+import { err } from '../../../types/result';
+import { collectSources, markMissing, readServerIncludes, writeSources } from './sources';
 
 export async function update(
     state: ClientState,
@@ -17,21 +17,11 @@ export async function update(
 ): AsyncResult<void> {
     if (!state.session) return err(new Error('Not logged in'));
 
-    const objRef: ObjectRef = { name: object.name, extension: object.extension };
+    // Find includes that must be created before writing
+    const [serverIncludes, readErr] = await readServerIncludes(requestor, object);
+    if (readErr) return err(readErr);
+    const sections = markMissing(collectSources(object), serverIncludes);
 
-    // Lock object before update
-    const [lockHandle, lockErr] = await adt.lockObject(requestor, objRef);
-    if (lockErr) return err(lockErr);
-
-    // Update object content
-    const [, updateErr] = await adt.updateObject(requestor, object, lockHandle, transport);
-
-    // Always unlock after update attempt
-    const [, unlockErr] = await adt.unlockObject(requestor, objRef, lockHandle);
-
-    // Return first error encountered
-    if (updateErr) return err(updateErr);
-    if (unlockErr) return err(unlockErr);
-
-    return ok(undefined);
+    // Write every section under one lock
+    return writeSources(state, requestor, object, sections, transport);
 }
@@ -3,14 +3,17 @@
  */
 
 import type { AsyncResult } from '../../../types/result';
-import type { ObjectRef, ObjectContent } from '../../../types/requests';
-import type { AdtRequestor, UpsertResult } from '../../../core/adt';
+import type { ObjectContent } from '../../../types/requests';
+import type { AdtRequestor, Transport, UpsertResult } from '../../../core/adt';
 import type { ClientState } from '../../types';
 import { ok, err, resolveAllAsync } from '../../../types/result';
 import { normalizeContent } from '../../../core/utils';
 import * as adt from '../../../core/adt';
+import { withLock } from '../lock';
+import { invalidateObjects } from '../internal';
 import { create } from './create';
-import { update } from './update';
+import { collectSources, isMultiInclude, markMissing, readServerIncludes, reconcileSources, toObjectRef, writeLockedSources } from './sources';
+import type { ServerSources } from './sources';
 
 export async function upsertSingle(
     state: ClientState,
@@ -21,9 +24,10 @@ export async function upsertSingle(
 ): AsyncResult<UpsertResult> {
     if (!state.session) return err(new Error('Not logged in'));
 
-    // Try to read existing object
-    const objRef: ObjectRef = { name: object.name, extension: object.extension };
+    // Try to read existing object (read again under the lock before updating)
+    const objRef = toObjectRef(object);
     const [existing] = await adt.readObject(requestor, objRef);
+    const multiInclude = isMultiInclude(object);
 
     // Object doesn't exist - create it
     if (!existing) {
@@ -36,33 +40,57 @@ export async function upsertSingle(
             status: 'created',
         };
         if (transport) result.transport = transport;
+        if (multiInclude) result.includes = collectSources(object).map(section => section.include);
         return ok(result);
     }
 
-    // Compare normalized content to avoid unnecessary updates
-    const serverContent = normalizeContent(existing.content);
-    const localContent = normalizeContent(object.content);
+    // Lock before reading the server version, so no change can slip in
+    // between the conflict check and the write
+    let written = false;
+    const [result, upsertErr] = await withLock(state, requestor, [objRef], async ([lock]): AsyncResult<UpsertResult> => {
+        const [current, readErr] = await adt.readObject(requestor, objRef);
+        if (readErr) return err(readErr);
 
-    if (serverContent === localContent) {
-        const result: UpsertResult = {
-            name: object.name,
-            extension: object.extension,
-            status: 'unchanged',
-        };
+        // Read server includes (for multi-include objects)
+        const [serverIncludes, includesErr] = await readServerIncludes(requestor, object);
+        if (includesErr) return err(includesErr);
+        const serverSources: ServerSources = { ...serverIncludes, main: current.content };
+
+        const result: UpsertResult = { name: object.name, extension: object.extension, status: 'unchanged' };
         if (transport) result.transport = transport;
-        return ok(result);
-    }
 
-    // Content differs - update it
-    const [, updateErr] = await update(state, requestor, object, transport);
-    if (updateErr) return err(updateErr);
+        // Merge server changes made since the base version (if given)
+        const reconciled = reconcileSources(object, collectSources(object), serverSources, current);
+        if (reconciled.conflicts.length > 0) {
+            result.status = 'conflict';
+            result.conflicts = reconciled.conflicts;
+            if (multiInclude) result.includes = [];
+            return ok(result);
+        }
+
+        // Compare normalized content per include to avoid unnecessary updates
+        const changed = reconciled.sections.filter(section =>
+            normalizeContent(serverSources[section.include] ?? '') !== normalizeContent(section.content)
+        );
+        if (changed.length === 0) {
+            if (multiInclude) result.includes = [];
+            return ok(result);
+        }
+
+        // Content differs - write changed includes under the lock
+        written = true;
+        const [, updateErr] = await writeLockedSources(requestor, objRef, markMissing(changed, serverSources), lock!.handle, transport);
+        if (updateErr) return err(updateErr);
+
+        result.status = 'updated';
+        if (reconciled.merged) result.merged = true;
+        if (multiInclude) result.includes = changed.map(section => section.include);
+        return ok(result);
+    });
 
-    const result: UpsertResult = {
-        name: object.name,
-        extension: object.extension,
-        status: 'updated',
-    };
-    if (transport) result.transport = transport;
+    // Drop cached results once the write is done (also after partial writes)
+    if (written) invalidateObjects(state, [objRef.name]);
+    if (upsertErr) return err(upsertErr);
     return ok(result);
 }
 
@@ -77,15 +105,53 @@ export async function upsert(
     if (!state.session) return err(new Error('Not logged in'));
     if (objects.length === 0) return ok([]);
 
+    const validObjects = objects.filter(obj => obj.name && obj.extension);
+
+    // Resolve transports up front so nothing is written when one is missing.
+    const [transports, transportErr] = transport
+        ? [validObjects.map(() => transport), null]
+        : await resolveTransports(requestor, validObjects, packageName);
+    if (transportErr) return err(transportErr);
+
     // Dispatch all upserts in sync.
-    const asyncResults: AsyncResult<UpsertResult>[] = [];
-    for (const obj of objects) {
-        if (!obj.name || !obj.extension) continue;
-        asyncResults.push(upsertSingle(state, requestor, obj, packageName, transport));
-    }
+    const asyncResults = validObjects.map((obj, i) =>
+        upsertSingle(state, requestor, obj, packageName, transports[i])
+    );
 
     // Await all responses.
     const [results, error] = await resolveAllAsync(asyncResults);
     if (error) return err(error);
     return ok(results);
 }
+
+// Transport of each object when none was given: none in local packages,
+// otherwise the request already locking the object.
+async function resolveTransports(
+    requestor: AdtRequestor,
+    objects: ObjectContent[],
+    packageName: string
+): AsyncResult<(string | undefined)[]> {
+    // $-packages are local by definition.
+    if (packageName.startsWith('$')) return ok(objects.map(() => undefined));
+
+    const [requirements, checkErr] = await resolveAllAsync(
+        objects.map(obj => adt.checkTransportRequirement(requestor, toObjectRef(obj), packageName))
+    );
+    if (checkErr) return err(checkErr);
+
+    const missing = requirements.filter(r => !r.local && !r.lockingTransport);
+    if (missing.length > 0) {
+        const candidates = new Map<string, Transport>();
+        for (const requirement of missing) {
+            for (const candidate of requirement.transports) candidates.set(candidate.id, candidate);
+        }
+        const names = missing.map(r => r.object.name).join(', ');
+        return err(new adt.TransportRequiredError(
+            `Transport required for ${names} in package ${packageName}`,
+            packageName,
+            [...candidates.values()]
+        ));
+    }
+
+    return ok(requirements.map(r => r.lockingTransport?.id));
+}
@@ -0,0 +1,20 @@
+/**
+ * Apply patch method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef, ObjectContent } from '../../../types/requests';
+import type { AdtRequestor } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function applyPatch(
+    state: ClientState,
+    requestor: AdtRequestor,
+    object: ObjectRef,
+    patch: string
+): AsyncResult<ObjectContent> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.applyPatch(requestor, object, patch);
+}
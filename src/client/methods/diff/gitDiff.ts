@@ -4,7 +4,7 @@
 
 import type { AsyncResult } from '../../../types/result';
 import type { ObjectContent } from '../../../types/requests';
-import type { AdtRequestor, DiffResult } from '../../../core/adt';
+import type { AdtRequestor, DiffResult, DiffOptions } from '../../../core/adt';
 import type { ClientState } from '../../types';
 import { ok, err } from '../../../types/result';
 import * as adt from '../../../core/adt';
@@ -12,14 +12,23 @@ import * as adt from '../../../core/adt';
 export async function gitDiff(
     state: ClientState,
     requestor: AdtRequestor,
-    objects: ObjectContent[]
+    objects: ObjectContent[],
+    options?: DiffOptions
 ): AsyncResult<DiffResult[]> {
     if (!state.session) return err(new Error('Not logged in'));
     if (objects.length === 0) return ok([]);
 
     const results: DiffResult[] = [];
     for (const obj of objects) {
-        const [result, diffErr] = await adt.gitDiff(requestor, obj);
+        // Diff each include separately for multi-include objects
+        if (obj.includes) {
+            const [includeResults, diffErr] = await adt.gitDiffIncludes(requestor, obj, options);
+            if (diffErr) return err(diffErr);
+            results.push(...includeResults);
+            continue;
+        }
+
+        const [result, diffErr] = await adt.gitDiff(requestor, obj, options);
         if (diffErr) return err(diffErr);
         results.push(result);
     }
@@ -0,0 +1,22 @@
+/**
+ * Git diff between revisions method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, DiffResult, DiffSource, DiffOptions } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function gitDiffRevisions(
+    state: ClientState,
+    requestor: AdtRequestor,
+    object: ObjectRef,
+    base: DiffSource,
+    target: DiffSource,
+    options?: DiffOptions
+): AsyncResult<DiffResult> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.gitDiffRevisions(requestor, object, base, target, options);
+}
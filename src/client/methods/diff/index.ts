@@ -3,3 +3,5 @@
  */
 
 export { gitDiff } from './gitDiff';
+export { gitDiffRevisions } from './gitDiffRevisions';
+export { applyPatch } from './applyPatch';
@@ -0,0 +1,46 @@
+/**
+ * Export package method
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { AsyncResult } from '../../../types/result';
+import type { PackageExportOptions } from '../../../types/requests';
+import type { AdtRequestor, PackageExport } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { ok, err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function exportPackage(
+    state: ClientState,
+    requestor: AdtRequestor,
+    packageName: string,
+    options: PackageExportOptions = {}
+): AsyncResult<PackageExport> {
+    if (!state.session) return err(new Error('Not logged in'));
+
+    // Write each part below the target directory as soon as it is read
+    const { directory, ...exportOptions } = options;
+    const exported: PackageExport = { package: '', packages: [], objects: [], files: [] };
+    for await (const [part, partErr] of adt.exportPackageParts(requestor, packageName, exportOptions)) {
+        if (partErr) return err(partErr);
+        if (part.object) exported.objects.push(part.object);
+        else exported.packages.push(part.package);
+        exported.files.push(...part.files);
+
+        if (!directory) continue;
+        try {
+            for (const file of part.files) {
+                const path = join(directory, file.path);
+                await mkdir(dirname(path), { recursive: true });
+                await writeFile(path, file.content, 'utf-8');
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return err(new Error(`Failed to write export of ${packageName} to ${directory}: ${message}`));
+        }
+    }
+
+    exported.package = exported.packages[0] ?? packageName;
+    return ok(exported);
+}
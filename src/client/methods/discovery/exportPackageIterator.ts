@@ -0,0 +1,23 @@
+/**
+ * Export package iterator method (one part per package or object)
+ */
+
+import type { Result } from '../../../types/result';
+import type { PackageExportOptions } from '../../../types/requests';
+import type { AdtRequestor, ExportPart } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function* exportPackageIterator(
+    state: ClientState,
+    requestor: AdtRequestor,
+    packageName: string,
+    options: Omit<PackageExportOptions, 'directory'> = {}
+): AsyncGenerator<Result<ExportPart>> {
+    if (!state.session) {
+        yield err(new Error('Not logged in'));
+        return;
+    }
+    yield* adt.exportPackageParts(requestor, packageName, options);
+}
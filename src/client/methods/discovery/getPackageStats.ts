@@ -5,30 +5,35 @@
 import type { AsyncResult } from '../../../types/result';
 import type { AdtRequestor, PackageNode } from '../../../core/adt';
 import type { ClientState } from '../../types';
+import type { CacheOptions } from '../internal';
 import { err } from '../../../types/result';
+import { withCache } from '../internal';
 import * as adt from '../../../core/adt';
 
 // Single package overload
 export async function getPackageStats(
     state: ClientState,
     requestor: AdtRequestor,
-    packageName: string
+    packageName: string,
+    options?: CacheOptions
 ): AsyncResult<PackageNode>;
 
 // Multiple packages overload
 export async function getPackageStats(
     state: ClientState,
     requestor: AdtRequestor,
-    packageNames: string[]
+    packageNames: string[],
+    options?: CacheOptions
 ): AsyncResult<PackageNode[]>;
 
 // Implementation
 export async function getPackageStats(
     state: ClientState,
     requestor: AdtRequestor,
-    packageNames: string | string[]
+    packageNames: string | string[],
+    options?: CacheOptions
 ): AsyncResult<PackageNode | PackageNode[]> {
     if (!state.session) return err(new Error('Not logged in'));
     // Type assertion needed because TS can't infer overload from union
-    return adt.getPackageStats(requestor, packageNames as string & string[]);
+    return withCache(state, 'packageStats', packageNames, options, () => adt.getPackageStats(requestor, packageNames as string & string[]));
 }
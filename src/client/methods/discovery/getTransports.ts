@@ -5,14 +5,17 @@
 import type { AsyncResult } from '../../../types/result';
 import type { AdtRequestor, Transport } from '../../../core/adt';
 import type { ClientState } from '../../types';
+import type { CacheOptions } from '../internal';
 import { err } from '../../../types/result';
+import { withCache } from '../internal';
 import * as adt from '../../../core/adt';
 
 export async function getTransports(
     state: ClientState,
     requestor: AdtRequestor,
-    packageName: string
+    packageName: string,
+    options?: CacheOptions
 ): AsyncResult<Transport[]> {
     if (!state.session) return err(new Error('Not logged in'));
-    return adt.getTransports(requestor, packageName);
+    return withCache(state, 'transports', packageName, options, () => adt.getTransports(requestor, packageName));
 }
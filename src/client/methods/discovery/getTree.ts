@@ -6,14 +6,17 @@ import type { AsyncResult } from '../../../types/result';
 import type { TreeQuery } from '../../../types/requests';
 import type { AdtRequestor, TreeResponse } from '../../../core/adt';
 import type { ClientState } from '../../types';
+import type { CacheOptions } from '../internal';
 import { err } from '../../../types/result';
+import { withCache } from '../internal';
 import * as adt from '../../../core/adt';
 
 export async function getTree(
     state: ClientState,
     requestor: AdtRequestor,
-    query: TreeQuery
+    query: TreeQuery,
+    options?: CacheOptions
 ): AsyncResult<TreeResponse> {
     if (!state.session) return err(new Error('Not logged in'));
-    return adt.getTree(requestor, query);
+    return withCache(state, 'tree', query, options, () => adt.getTree(requestor, query));
 }
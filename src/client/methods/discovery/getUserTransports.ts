@@ -0,0 +1,21 @@
+/**
+ * Get user transports method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, TransportDetails, UserTransportQuery } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function getUserTransports(
+    state: ClientState,
+    requestor: AdtRequestor,
+    query: UserTransportQuery = {}
+): AsyncResult<TransportDetails[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+
+    // Default to the logged-in user
+    const { user = state.session.username, ...filters } = query;
+    return adt.getUserTransports(requestor, user, filters);
+}
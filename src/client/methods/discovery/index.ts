@@ -6,3 +6,6 @@ export { getPackages } from './getPackages';
 export { getTree } from './getTree';
 export { getPackageStats } from './getPackageStats';
 export { getTransports } from './getTransports';
+export { getUserTransports } from './getUserTransports';
+export { exportPackage } from './exportPackage';
+export { exportPackageIterator } from './exportPackageIterator';
@@ -5,9 +5,11 @@
 export * from './lifecycle';
 export * from './session';
 export * from './craud';
+export * from './lock';
 export * from './discovery';
 export * from './preview';
 export * from './search';
 export * from './transport';
 export * from './diff';
+export * from './quality';
 export * from './config';
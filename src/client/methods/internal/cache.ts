@@ -0,0 +1,212 @@
+/**
+ * Result cache for repeated read operations
+ *
+ * Opt-in (`cache.enabled` in the client configuration). Successful results
+ * are kept per session and normalized request for a time-to-live per operation type. Write operations invalidate the entries
+ * they may have changed (see invalidateObjects / invalidateTransports).
+ */
+
+import type { CacheConfig, CacheOperation } from '../../../types/config';
+import type { AsyncResult } from '../../../types/result';
+import type { ClientState } from '../../types';
+
+/**
+ * Per-call cache options
+ */
+export interface CacheOptions {
+    /** Skip cached results (the fresh result is cached) */
+    bypassCache?: boolean;
+}
+
+/**
+ * Counters of one operation type
+ */
+export interface CacheOperationStats {
+    entries: number;
+    hits: number;
+    misses: number;
+}
+
+/**
+ * Cache statistics of a client
+ */
+export interface CacheStats {
+    enabled: boolean;
+    entries: number;
+    hits: number;
+    misses: number;
+    /** Entries removed by write operations */
+    invalidations: number;
+    /** Entries dropped to stay within maxEntries */
+    evictions: number;
+    operations: Record<CacheOperation, CacheOperationStats>;
+}
+
+/**
+ * Cacheable request
+ */
+export interface CacheRequest {
+    operation: CacheOperation;
+    /** Session identity (entries of other sessions are never returned) */
+    session: string;
+    /** Request arguments (normalized into the key) */
+    request: unknown;
+    /** Names for targeted invalidation (e.g., object names) */
+    tags?: string[];
+    bypass?: boolean;
+}
+
+export interface ResultCache {
+    cached<T>(request: CacheRequest, load: () => AsyncResult<T>): AsyncResult<T>;
+    invalidate(filter: { operations?: CacheOperation[]; tags?: string[] }): number;
+    clear(): void;
+    stats(): CacheStats;
+}
+
+/** Default time-to-live per operation in milliseconds */
+export const DEFAULT_CACHE_TTL: Record<CacheOperation, number> = {
+    tree: 30_000,
+    packageStats: 60_000,
+    search: 30_000,
+    preview: 10_000,
+    transports: 30_000,
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+const OPERATIONS = Object.keys(DEFAULT_CACHE_TTL) as CacheOperation[];
+
+interface CacheEntry {
+    operation: CacheOperation;
+    tags: string[];
+    value: unknown;
+    expiresAt: number;
+}
+
+export function createResultCache(config?: CacheConfig): ResultCache {
+    const enabled = config?.enabled ?? false;
+    const ttl = { ...DEFAULT_CACHE_TTL, ...config?.ttlMs };
+    const maxEntries = config?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+    // Map order is least recently used first
+    const entries = new Map<string, CacheEntry>();
+    const counters = Object.fromEntries(OPERATIONS.map(op => [op, { hits: 0, misses: 0 }])) as Record<CacheOperation, { hits: number; misses: number }>;
+    let invalidations = 0;
+    let evictions = 0;
+
+    const store = (key: string, entry: CacheEntry) => {
+        entries.delete(key);
+        entries.set(key, entry);
+        for (const oldest of entries.keys()) {
+            if (entries.size <= maxEntries) break;
+            entries.delete(oldest);
+            evictions++;
+        }
+    };
+
+    return {
+        async cached<T>(request: CacheRequest, load: () => AsyncResult<T>): AsyncResult<T> {
+            const lifetime = ttl[request.operation];
+            if (!enabled || lifetime <= 0) return load();
+
+            const key = `${request.session}|${request.operation}|${normalizeKey(request.request)}`;
+            const entry = entries.get(key);
+            if (entry && !request.bypass && entry.expiresAt > Date.now()) {
+                counters[request.operation].hits++;
+                store(key, entry);
+                return [structuredClone(entry.value) as T, null];
+            }
+
+            counters[request.operation].misses++;
+            const result = await load();
+            if (result[1] === null) {
+                store(key, {
+                    operation: request.operation,
+                    tags: (request.tags ?? []).map(tag => tag.toUpperCase()),
+                    value: structuredClone(result[0]),
+                    expiresAt: Date.now() + lifetime,
+                });
+            } else if (entry) {
+                entries.delete(key);
+            }
+            return result;
+        },
+
+        invalidate(filter) {
+            const tags = new Set(filter.tags?.map(tag => tag.toUpperCase()));
+            let removed = 0;
+            for (const [key, entry] of entries) {
+                if (filter.operations?.includes(entry.operation) || entry.tags.some(tag => tags.has(tag))) {
+                    entries.delete(key);
+                    removed++;
+                }
+            }
+            invalidations += removed;
+            return removed;
+        },
+
+        clear() {
+            entries.clear();
+        },
+
+        stats() {
+            const now = Date.now();
+            const live = [...entries.values()].filter(entry => entry.expiresAt > now);
+            const operations = Object.fromEntries(OPERATIONS.map(op => [op, {
+                entries: live.filter(entry => entry.operation === op).length,
+                ...counters[op],
+            }])) as Record<CacheOperation, CacheOperationStats>;
+
+            return {
+                enabled,
+                entries: live.length,
+                hits: OPERATIONS.reduce((sum, op) => sum + counters[op].hits, 0),
+                misses: OPERATIONS.reduce((sum, op) => sum + counters[op].misses, 0),
+                invalidations,
+                evictions,
+                operations,
+            };
+        },
+    };
+}
+
+// JSON with sorted object keys, so equal requests share a key.
+function normalizeKey(value: unknown): string {
+    return JSON.stringify(value, (_, v: unknown) => {
+        if (!v || typeof v !== 'object' || Array.isArray(v)) return v;
+        return Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)));
+    }) ?? '';
+}
+
+// Run a read operation through the client's cache.
+export function withCache<T>(
+    state: ClientState,
+    operation: CacheOperation,
+    request: unknown,
+    options: CacheOptions | undefined,
+    load: () => AsyncResult<T>,
+    tags: string[] = []
+): AsyncResult<T> {
+    return state.cache.cached({
+        operation,
+        session: state.session?.sessionId ?? '',
+        request,
+        tags,
+        bypass: options?.bypassCache === true,
+    }, load);
+}
+
+// Objects were written: package contents, search results and their previews
+// changed (all previews when the objects are not known).
+export function invalidateObjects(state: ClientState, objectNames?: string[]): void {
+    if (!objectNames) {
+        state.cache.invalidate({ operations: ['tree', 'packageStats', 'search', 'preview'] });
+        return;
+    }
+    state.cache.invalidate({ operations: ['tree', 'packageStats', 'search'], tags: objectNames });
+}
+
+// Transport requests were created or changed.
+export function invalidateTransports(state: ClientState): void {
+    state.cache.invalidate({ operations: ['transports'] });
+}
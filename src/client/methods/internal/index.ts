@@ -7,3 +7,5 @@ export { createAutoRefresh } from './autoRefresh';
 export type { AutoRefreshManager } from './autoRefresh';
 export { executeRequest } from './request';
 export type { RequestDependencies } from './request';
+export { createResultCache, withCache, invalidateObjects, invalidateTransports, DEFAULT_CACHE_TTL } from './cache';
+export type { ResultCache, CacheOptions, CacheStats, CacheOperationStats } from './cache';
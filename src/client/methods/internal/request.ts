@@ -119,6 +119,9 @@ export async function executeRequest(
 
             // Attempt session reset
             const [, resetErr] = await sessionOps.sessionReset(state, selfRequest);
+
+            // Locks ended with the old server session
+            state.locks.clear();
             if (resetErr) {
                 return err(new Error(`Session reset failed: ${resetErr.message}`));
             }
@@ -5,8 +5,17 @@
 import type { AsyncResult } from '../../../types/result';
 import type { ClientContext } from '../../types';
 import * as sessionOps from '../../../core/session';
+import { releaseLock } from '../lock';
 
 export async function logout(ctx: ClientContext): AsyncResult<void> {
     ctx.stopAutoRefresh();
+
+    // Release leaked locks while the session still exists
+    if (ctx.state.session && ctx.state.locks.size > 0) {
+        await releaseLock(ctx.state, { request: ctx.request });
+    }
+
+    // Cached results belong to the ending session
+    ctx.state.cache.clear();
     return sessionOps.logout(ctx.state, ctx.request);
 }
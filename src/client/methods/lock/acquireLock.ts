@@ -0,0 +1,47 @@
+/**
+ * Acquire object locks method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, ObjectLock } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { ok, err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { findLock, lockKey } from './locks';
+import { releaseLock } from './releaseLock';
+
+export async function acquireLock(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objects: ObjectRef[]
+): AsyncResult<ObjectLock[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+
+    const locks: ObjectLock[] = [];
+    const acquired: ObjectRef[] = [];
+    for (const obj of objects) {
+        // Objects locked earlier keep their handle
+        const held = findLock(state, obj);
+        if (held) {
+            locks.push(held);
+            continue;
+        }
+
+        const [handle, lockErr] = await adt.lockObject(requestor, obj);
+        if (lockErr) {
+            // All or nothing: release what this call acquired
+            await releaseLock(state, requestor, acquired);
+            return err(lockErr);
+        }
+
+        const object: ObjectRef = { name: obj.name, extension: obj.extension };
+        if (obj.parent) object.parent = obj.parent;
+
+        const lock: ObjectLock = { object, handle, acquiredAt: new Date().toISOString() };
+        state.locks.set(lockKey(obj), lock);
+        locks.push(lock);
+        acquired.push(obj);
+    }
+    return ok(locks);
+}
@@ -0,0 +1,34 @@
+/**
+ * Get lock status method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, LockStatus } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { ok, err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { findLock } from './locks';
+
+export async function getLockStatus(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objects: ObjectRef[]
+): AsyncResult<LockStatus[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+
+    const statuses: LockStatus[] = [];
+    for (const obj of objects) {
+        // Locks held by this client are known without asking the server.
+        const held = findLock(state, obj);
+        if (held) {
+            statuses.push({ object: obj, locked: true, held: true, owner: state.session.username, lockedAt: held.acquiredAt });
+            continue;
+        }
+
+        const [status, statusErr] = await adt.getLockStatus(requestor, obj, state.session.username);
+        if (statusErr) return err(statusErr);
+        statuses.push(status);
+    }
+    return ok(statuses);
+}
@@ -0,0 +1,9 @@
+/**
+ * Lock methods barrel exports
+ */
+
+export { acquireLock } from './acquireLock';
+export { releaseLock } from './releaseLock';
+export { withLock } from './withLock';
+export { getLockStatus } from './getLockStatus';
+export { findLock, forgetLock } from './locks';
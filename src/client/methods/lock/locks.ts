@@ -0,0 +1,21 @@
+/**
+ * Held lock bookkeeping
+ */
+
+import type { ObjectRef } from '../../../types/requests';
+import type { ObjectLock } from '../../../core/adt';
+import type { ClientState } from '../../types';
+
+// One lock covers every include, so includes share the key of their object
+export function lockKey(object: ObjectRef): string {
+    return `${object.extension}:${(object.parent ?? '').toUpperCase()}:${object.name.toUpperCase()}`;
+}
+
+export function findLock(state: ClientState, object: ObjectRef): ObjectLock | null {
+    return state.locks.get(lockKey(object)) ?? null;
+}
+
+// Drop a lock the server no longer holds (e.g., after deleting the object)
+export function forgetLock(state: ClientState, object: ObjectRef): void {
+    state.locks.delete(lockKey(object));
+}
@@ -0,0 +1,36 @@
+/**
+ * Release object locks method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, ObjectLock } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { ok, err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { findLock, forgetLock } from './locks';
+
+export async function releaseLock(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objects?: ObjectRef[]
+): AsyncResult<void> {
+    if (!state.session) return err(new Error('Not logged in'));
+
+    // Without objects, release every held lock
+    const locks = objects
+        ? objects.map(obj => findLock(state, obj)).filter((lock): lock is ObjectLock => lock !== null)
+        : [...state.locks.values()];
+
+    let firstErr: Error | null = null;
+    for (const lock of locks) {
+        const [, unlockErr] = await adt.unlockObject(requestor, lock.object, lock.handle);
+
+        // Forget the lock either way; a failed unlock usually means the server already dropped it
+        forgetLock(state, lock.object);
+        if (unlockErr && !firstErr) firstErr = unlockErr;
+    }
+
+    if (firstErr) return err(firstErr);
+    return ok(undefined);
+}
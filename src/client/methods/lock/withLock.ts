@@ -0,0 +1,38 @@
+/**
+ * Run a function while holding object locks
+ */
+
+import type { AsyncResult, Result } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, ObjectLock } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import { findLock } from './locks';
+import { acquireLock } from './acquireLock';
+import { releaseLock } from './releaseLock';
+
+export async function withLock<T>(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objects: ObjectRef[],
+    fn: (locks: ObjectLock[]) => AsyncResult<T>
+): AsyncResult<T> {
+    // Locks held before the call stay held afterwards
+    const acquired = objects.filter(obj => !findLock(state, obj));
+
+    const [locks, lockErr] = await acquireLock(state, requestor, objects);
+    if (lockErr) return err(lockErr);
+
+    let result: Result<T>;
+    try {
+        result = await fn(locks);
+    } catch (error) {
+        await releaseLock(state, requestor, acquired);
+        throw error;
+    }
+
+    // Report an unlock failure only if the function itself succeeded
+    const [, releaseErr] = await releaseLock(state, requestor, acquired);
+    if (releaseErr && !result[1]) return err(releaseErr);
+    return result;
+}
@@ -0,0 +1,19 @@
+/**
+ * Get columns method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, ObjectColumns } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function getColumns(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objectName: string,
+    objectType: 'table' | 'view'
+): AsyncResult<ObjectColumns> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.getColumns(requestor, objectName, objectType);
+}
@@ -0,0 +1,21 @@
+/**
+ * Get value help method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, ValueHelpOptions, ValueHelpResult } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function getValueHelp(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objectName: string,
+    field: string,
+    searchTerm?: string,
+    options?: ValueHelpOptions
+): AsyncResult<ValueHelpResult> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.getValueHelp(requestor, objectName, field, searchTerm, options);
+}
@@ -3,5 +3,10 @@
  */
 
 export { previewData } from './previewData';
+export { previewQuery } from './previewQuery';
+export { previewDataIterator } from './previewDataIterator';
 export { getDistinctValues } from './getDistinctValues';
 export { countRows } from './countRows';
+export { getColumns } from './getColumns';
+export { getValueHelp } from './getValueHelp';
+export { profileColumns } from './profileColumns';
@@ -6,14 +6,25 @@ import type { AsyncResult } from '../../../types/result';
 import type { PreviewSQL } from '../../../types/requests';
 import type { AdtRequestor, DataFrame } from '../../../core/adt';
 import type { ClientState } from '../../types';
+import type { CacheOptions } from '../internal';
 import { err } from '../../../types/result';
+import { withCache } from '../internal';
 import * as adt from '../../../core/adt';
 
 export async function previewData(
     state: ClientState,
     requestor: AdtRequestor,
-    query: PreviewSQL
+    query: PreviewSQL,
+    options?: CacheOptions
 ): AsyncResult<DataFrame> {
     if (!state.session) return err(new Error('Not logged in'));
-    return adt.previewData(requestor, query);
+
+    // Whitespace outside of literals does not change the query.
+    const request = { ...query, sqlQuery: normalizeWhitespace(query.sqlQuery) };
+    return withCache(state, 'preview', request, options, () => adt.previewData(requestor, query), [query.objectName]);
+}
+
+// Collapse whitespace, keeping literals ('...' and `...`, quotes doubled inside) as they are.
+function normalizeWhitespace(sql: string): string {
+    return sql.replace(/('(?:[^']|'')*'|`(?:[^`]|``)*`)|\s+/g, (match, literal?: string) => literal ?? ' ').trim();
 }
@@ -0,0 +1,29 @@
+/**
+ * Preview data iterator method (paged)
+ */
+
+import type { Result } from '../../../types/result';
+import type { AdtRequestor, DataFrame, DataPreviewQuery } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function* previewDataIterator(
+    state: ClientState,
+    requestor: AdtRequestor,
+    query: DataPreviewQuery,
+    pageSize?: number
+): AsyncGenerator<Result<DataFrame>> {
+    if (!state.session) {
+        yield err(new Error('Not logged in'));
+        return;
+    }
+
+    // Whitelist fields against the object's columns before the first page.
+    const [columns, columnsErr] = await adt.getPreviewColumns(requestor, query.objectName, query.objectType, query.parameters);
+    if (columnsErr) {
+        yield err(columnsErr);
+        return;
+    }
+    yield* adt.previewDataPages(requestor, query, pageSize, columns);
+}
@@ -0,0 +1,27 @@
+/**
+ * Preview query method (structured query, fields whitelisted against the object's columns)
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, DataFrame, DataPreviewQuery } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import type { CacheOptions } from '../internal';
+import { err } from '../../../types/result';
+import { withCache } from '../internal';
+import * as adt from '../../../core/adt';
+
+export async function previewQuery(
+    state: ClientState,
+    requestor: AdtRequestor,
+    query: DataPreviewQuery,
+    options?: CacheOptions
+): AsyncResult<DataFrame> {
+    if (!state.session) return err(new Error('Not logged in'));
+
+    const objectNames = [query.objectName, ...(query.joins ?? []).map(join => join.objectName)];
+    return withCache(state, 'preview', query, options, async () => {
+        const [columns, columnsErr] = await adt.getPreviewColumns(requestor, query.objectName, query.objectType, query.parameters);
+        if (columnsErr) return err(columnsErr);
+        return adt.previewQuery(requestor, query, columns);
+    }, objectNames);
+}
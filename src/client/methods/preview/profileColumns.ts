@@ -0,0 +1,21 @@
+/**
+ * Profile columns method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, ColumnProfile, Parameter, ProfileOptions } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function profileColumns(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objectName: string,
+    columns: string[],
+    parameters: Parameter[] = [],
+    options?: ProfileOptions
+): AsyncResult<ColumnProfile[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.profileColumns(requestor, objectName, columns, parameters, options);
+}
@@ -0,0 +1,19 @@
+/**
+ * Check syntax method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectContent } from '../../../types/requests';
+import type { AdtRequestor, SyntaxCheckResult } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function checkSyntax(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objects: ObjectContent[]
+): AsyncResult<SyntaxCheckResult[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.checkSyntax(requestor, objects);
+}
@@ -0,0 +1,7 @@
+/**
+ * Quality methods barrel exports
+ */
+
+export { runUnitTests } from './runUnitTests';
+export { checkSyntax } from './checkSyntax';
+export { runAtc } from './runAtc';
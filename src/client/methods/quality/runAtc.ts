@@ -0,0 +1,20 @@
+/**
+ * Run ATC method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, AtcFinding } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function runAtc(
+    state: ClientState,
+    requestor: AdtRequestor,
+    objects: ObjectRef[],
+    variant?: string
+): AsyncResult<AtcFinding[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.runAtc(requestor, objects, variant);
+}
@@ -0,0 +1,20 @@
+/**
+ * Run unit tests method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, UnitTestOptions, UnitTestRunResult } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function runUnitTests(
+    state: ClientState,
+    requestor: AdtRequestor,
+    target: ObjectRef[] | string,
+    options?: UnitTestOptions
+): AsyncResult<UnitTestRunResult> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.runUnitTests(requestor, target, options);
+}
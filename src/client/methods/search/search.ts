@@ -5,15 +5,18 @@
 import type { AsyncResult } from '../../../types/result';
 import type { AdtRequestor, SearchResult } from '../../../core/adt';
 import type { ClientState } from '../../types';
+import type { CacheOptions } from '../internal';
 import { err } from '../../../types/result';
+import { withCache } from '../internal';
 import * as adt from '../../../core/adt';
 
 export async function search(
     state: ClientState,
     requestor: AdtRequestor,
     query: string,
-    types?: string[]
+    types?: string[],
+    options?: CacheOptions
 ): AsyncResult<SearchResult[]> {
     if (!state.session) return err(new Error('Not logged in'));
-    return adt.searchObjects(requestor, query, types);
+    return withCache(state, 'search', { query, types }, options, () => adt.searchObjects(requestor, query, types));
 }
@@ -0,0 +1,23 @@
+/**
+ * Add transport object method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, TransportObjectKey } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { invalidateTransports } from '../internal';
+
+export async function addTransportObject(
+    state: ClientState,
+    requestor: AdtRequestor,
+    transportId: string,
+    object: ObjectRef | TransportObjectKey
+): AsyncResult<void> {
+    if (!state.session) return err(new Error('Not logged in'));
+    const result = await adt.addTransportObject(requestor, transportId, object);
+    invalidateTransports(state);
+    return result;
+}
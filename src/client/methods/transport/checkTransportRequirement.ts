@@ -0,0 +1,20 @@
+/**
+ * Check transport requirement method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor, TransportRequirement } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function checkTransportRequirement(
+    state: ClientState,
+    requestor: AdtRequestor,
+    object: ObjectRef,
+    packageName: string
+): AsyncResult<TransportRequirement> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.checkTransportRequirement(requestor, object, packageName);
+}
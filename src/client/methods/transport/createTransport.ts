@@ -7,6 +7,7 @@ import type { AdtRequestor, TransportConfig } from '../../../core/adt';
 import type { ClientState } from '../../types';
 import { err } from '../../../types/result';
 import * as adt from '../../../core/adt';
+import { invalidateTransports } from '../internal';
 
 export async function createTransport(
     state: ClientState,
@@ -14,5 +15,7 @@ export async function createTransport(
     transportConfig: TransportConfig
 ): AsyncResult<string> {
     if (!state.session) return err(new Error('Not logged in'));
-    return adt.createTransport(requestor, transportConfig);
+    const result = await adt.createTransport(requestor, transportConfig);
+    invalidateTransports(state);
+    return result;
 }
@@ -0,0 +1,18 @@
+/**
+ * Get transport details method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, TransportDetails } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+
+export async function getTransport(
+    state: ClientState,
+    requestor: AdtRequestor,
+    transportId: string
+): AsyncResult<TransportDetails> {
+    if (!state.session) return err(new Error('Not logged in'));
+    return adt.getTransportDetails(requestor, transportId);
+}
@@ -3,3 +3,10 @@
  */
 
 export { createTransport } from './createTransport';
+export { checkTransportRequirement } from './checkTransportRequirement';
+export { getTransport } from './getTransport';
+export { addTransportObject } from './addTransportObject';
+export { removeTransportObject } from './removeTransportObject';
+export { setTransportOwner } from './setTransportOwner';
+export { setTransportDescription } from './setTransportDescription';
+export { releaseTransport } from './releaseTransport';
@@ -0,0 +1,21 @@
+/**
+ * Release transport method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor, TransportReleaseReport } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { invalidateTransports } from '../internal';
+
+export async function releaseTransport(
+    state: ClientState,
+    requestor: AdtRequestor,
+    transportId: string
+): AsyncResult<TransportReleaseReport[]> {
+    if (!state.session) return err(new Error('Not logged in'));
+    const result = await adt.releaseTransport(requestor, transportId);
+    invalidateTransports(state);
+    return result;
+}
@@ -0,0 +1,22 @@
+/**
+ * Set transport description method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { invalidateTransports } from '../internal';
+
+export async function setTransportDescription(
+    state: ClientState,
+    requestor: AdtRequestor,
+    transportId: string,
+    description: string
+): AsyncResult<void> {
+    if (!state.session) return err(new Error('Not logged in'));
+    const result = await adt.setTransportDescription(requestor, transportId, description);
+    invalidateTransports(state);
+    return result;
+}
@@ -0,0 +1,22 @@
+/**
+ * Set transport owner method
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import type { AdtRequestor } from '../../../core/adt';
+import type { ClientState } from '../../types';
+import { err } from '../../../types/result';
+import * as adt from '../../../core/adt';
+import { invalidateTransports } from '../internal';
+
+export async function setTransportOwner(
+    state: ClientState,
+    requestor: AdtRequestor,
+    transportId: string,
+    user: string
+): AsyncResult<void> {
+    if (!state.session) return err(new Error('Not logged in'));
+    const result = await adt.setTransportOwner(requestor, transportId, user);
+    invalidateTransports(state);
+    return result;
+}
@@ -6,6 +6,8 @@ import type { ClientConfig } from '../types/config';
 import type { Session } from '../core/session/types';
 import type { AuthStrategy } from '../core/auth/types';
 import type { AsyncResult } from '../types/result';
+import type { ObjectLock } from '../core/adt';
+import type { ResultCache } from './methods/internal/cache';
 
 // HTTP request options for Node.js http/https modules
 export interface HttpRequestOptions {
@@ -43,6 +45,10 @@ export interface ClientState {
     csrfToken: string | null;
     cookies: Map<string, string>;
     authStrategy: AuthStrategy;
+    // Locks held across requests, keyed by lockKey()
+    locks: Map<string, ObjectLock>;
+    // Cached results of read operations
+    cache: ResultCache;
 }
 
 // Context object passed to extracted method functions
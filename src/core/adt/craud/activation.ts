@@ -4,8 +4,9 @@ import type { Result, AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { ObjectRef } from '../../../types/requests';
 import type { AdtRequestor } from '../types';
-import { getConfigByExtension } from '../types';
-import { extractError, safeParseXml } from '../../utils/xml';
+import { buildObjectUri, requireConfig, toSeverity } from '../helpers';
+import { getInactiveObjects, parseInactiveObjectList } from './inactiveObjects';
+import { escapeXml, extractError, safeParseXml } from '../../utils/xml';
 import { debug } from '../../utils/logging';
 
 /**
@@ -16,6 +17,8 @@ export interface ActivationResult {
     extension: string;
     status: 'success' | 'warning' | 'error';
     messages: ActivationMessage[];
+    /** Inactive dependent that was activated along with the requested objects */
+    dependent?: boolean;
 }
 
 export interface ActivationMessage {
@@ -25,6 +28,31 @@ export interface ActivationMessage {
     column?: number;
 }
 
+/**
+ * Object included in an activation request (internal)
+ */
+export interface ActivationTarget {
+    name: string;
+    extension: string;
+    type: string;
+    uri: string;
+    dependent: boolean;
+}
+
+const ADTCORE_NS = 'http://www.sap.com/adt/core';
+
+/**
+ * Activate objects
+ *
+ * Objects of different types can be activated together (e.g., a class,
+ * its CDS view and the view's access control). When the server reports
+ * inactive dependents, they are activated in the same run and returned
+ * with `dependent: true`.
+ *
+ * @param client - ADT client
+ * @param objects - Objects to activate
+ * @returns One result per activated object or error
+ */
 export async function activateObjects(
     client: AdtRequestor,
     objects: ObjectRef[]
@@ -34,28 +62,90 @@ export async function activateObjects(
         return ok([]);
     }
 
-    // Validate object extension is supported.
-    const extension = objects[0]!.extension;
-    const config = getConfigByExtension(extension);
-    if (!config) return err(new Error(`Unsupported extension: ${extension}`));
-
-    // Verify all objects have same extension for batch activation.
+    // Resolve type and URI of every object.
+    const targets: ActivationTarget[] = [];
     for (const obj of objects) {
-        if (obj.extension !== extension) {
-            return err(new Error('All objects must have the same extension for batch activation'));
-        }
+        const [config, configErr] = requireConfig(obj.extension);
+        if (configErr) return err(configErr);
+
+        const [uri, uriErr] = buildObjectUri(config, { ...obj, name: obj.name.toLowerCase() });
+        if (uriErr) return err(uriErr);
+        targets.push({ name: obj.name, extension: obj.extension, type: config.type, uri, dependent: false });
     }
 
+    return activateTargets(client, targets);
+}
+
+/**
+ * Activate every inactive object of the logged-in user
+ *
+ * Sub-objects listed separately in the worklist (e.g., class includes)
+ * are activated through their main object.
+ *
+ * @param client - ADT client
+ * @returns One result per activated object or error
+ */
+export async function activateInactiveObjects(
+    client: AdtRequestor
+): AsyncResult<ActivationResult[], Error> {
+    // Read the user's inactive objects.
+    const [inactive, inactiveErr] = await getInactiveObjects(client);
+    if (inactiveErr) return err(inactiveErr);
+
+    // Keep main objects only; their activation covers sub-objects.
+    const uris = inactive.map(obj => obj.uri.toLowerCase());
+    const targets: ActivationTarget[] = inactive
+        .filter(obj => !uris.some(uri => obj.uri.toLowerCase().startsWith(`${uri}/`)))
+        .map(obj => ({ name: obj.name, extension: obj.extension, type: obj.objectType, uri: obj.uri, dependent: false }));
+
+    if (targets.length === 0) return ok([]);
+    return activateTargets(client, targets);
+}
+
+// Activate resolved targets, including inactive dependents reported by the pre-audit.
+async function activateTargets(
+    client: AdtRequestor,
+    targets: ActivationTarget[]
+): AsyncResult<ActivationResult[], Error> {
+    // Activate with pre-audit; the server answers with the inactive objects
+    // (requested ones and dependents) instead of activating if there are any.
+    const [text, activateErr] = await postActivation(client, targets, true);
+    if (activateErr) return err(activateErr);
+
+    const [dependents, dependentsErr] = parseInactiveObjects(text, targets);
+    if (dependentsErr) return err(dependentsErr);
+
+    // Confirm the activation of requested objects together with their inactive
+    // dependents, also when the list holds no dependents.
+    let responseText = text;
+    const allTargets = [...targets, ...dependents];
+    if (isInactiveObjectList(text)) {
+        debug(`Activation: including ${dependents.length} inactive dependent(s)`);
+
+        const [retryText, retryErr] = await postActivation(client, allTargets, false);
+        if (retryErr) return err(retryErr);
+        responseText = retryText;
+    }
+
+    // Parse activation messages from response.
+    return parseActivationMessages(responseText, allTargets);
+}
+
+// Post an activation request for the given targets.
+async function postActivation(
+    client: AdtRequestor,
+    targets: ActivationTarget[],
+    preAudit: boolean
+): AsyncResult<string, Error> {
     // Build XML request body with object references.
-    const objectRefs = objects.map(obj => `<adtcore:objectReference
-                adtcore:uri="/sap/bc/adt/${config.endpoint}/${obj.name.toLowerCase()}"
-                adtcore:type="${config.type}"
-                adtcore:name="${obj.name}"
-                adtcore:description="*"/>`).join('\n            ');
+    const refElements = targets.map(target => `<adtcore:objectReference
+                adtcore:uri="${escapeXml(target.uri)}"
+                adtcore:type="${escapeXml(target.type)}"
+                adtcore:name="${escapeXml(target.name)}"/>`);
 
     const body = `<?xml version="1.0" encoding="UTF-8"?>
-            <adtcore:objectReferences xmlns:adtcore="http://www.sap.com/adt/core">
-            ${objectRefs}
+            <adtcore:objectReferences xmlns:adtcore="${ADTCORE_NS}">
+            ${refElements.join('\n            ')}
             </adtcore:objectReferences>`;
 
     // Execute activation request.
@@ -64,7 +154,7 @@ export async function activateObjects(
         path: '/sap/bc/adt/activation',
         params: {
             'method': 'activate',
-            'preAuditRequested': 'true',
+            'preAuditRequested': String(preAudit),
         },
         headers: {
             'Content-Type': 'application/xml',
@@ -83,96 +173,128 @@ export async function activateObjects(
         return err(new Error(`Activation failed: ${errorMsg}`));
     }
 
-    // Parse activation results from response.
-    const [results, parseErr] = extractActivationErrors(objects, text, extension);
-    if (parseErr) { return err(parseErr); }
-    return ok(results);
+    return ok(text);
 }
 
-// Parse activation response XML for errors
-function extractActivationErrors(
-    objects: ObjectRef[],
-    xml: string,
-    _extension: string
-): Result<ActivationResult[], Error> {
-    // Parse XML response.
-    const [doc, parseErr] = safeParseXml(xml);
+/**
+ * Parse inactive dependents listed in a pre-audit activation response
+ *
+ * @param xml - Activation response
+ * @param requested - Objects already part of the activation
+ * @returns Dependents not yet requested (empty if the response has none)
+ */
+export function parseInactiveObjects(xml: string, requested: ActivationTarget[]): Result<ActivationTarget[], Error> {
+    const [inactive, parseErr] = parseInactiveObjectList(xml);
     if (parseErr) { return err(parseErr); }
 
-    // Initialize error map with empty arrays for each object.
-    const errorMap: Map<string, ActivationMessage[]> = new Map();
-    objects.forEach(obj => errorMap.set(obj.name.toLowerCase(), []));
-
-    // Extract message elements and prepare regex for position parsing.
-    const msgElements = doc.getElementsByTagName('msg');
-    const startRegex = /#start=(\d+),(\d+)/;
-
-    // Process each message element.
-    for (let i = 0; i < msgElements.length; i++) {
-        const msg = msgElements[i];
-        if (!msg) continue;
-
-        // Skip warning messages (type 'W').
-        const type = msg.getAttribute('type');
-        if (type === 'W') continue;
-
-        // Extract object description and href for position info.
-        const objDescr = msg.getAttribute('objDescr');
-        const href = msg.getAttribute('href');
-        if (!objDescr || !href) continue;
-
-        // Parse line and column from href.
-        let line: number | undefined;
-        let column: number | undefined;
-        const match = startRegex.exec(href);
-        if (match && match[1] && match[2]) {
-            line = parseInt(match[1], 10);
-            column = parseInt(match[2], 10);
-        }
-        if (!line || !column) continue;
-
-        // Find matching object by name.
-        const matchingObj = objects.find(obj =>
-            objDescr.toLowerCase().includes(obj.name.toLowerCase())
-        );
-        if (!matchingObj) continue;
-
-        // Extract message text elements.
-        const shortTextElements = msg.getElementsByTagName('txt');
-        for (let j = 0; j < shortTextElements.length; j++) {
-            const txt = shortTextElements[j];
-            if (!txt) continue;
-
-            const text = txt.textContent;
-            if (!text) continue;
-
-            // Build activation message with severity and position.
-            const message: ActivationMessage = {
-                severity: type === 'E' ? 'error' : 'warning',
-                text,
-                line,
-                column,
-            };
-
-            // Add message to object's error list.
-            const messages = errorMap.get(matchingObj.name.toLowerCase()) || [];
-            messages.push(message);
-            errorMap.set(matchingObj.name.toLowerCase(), messages);
+    const known = new Set(requested.map(target => target.uri.toLowerCase()));
+    const dependents: ActivationTarget[] = [];
+    for (const obj of inactive) {
+        // Skip requested objects and their sub-objects (e.g., class includes).
+        const lowerUri = obj.uri.toLowerCase();
+        if (known.has(lowerUri) || [...known].some(k => lowerUri.startsWith(`${k}/`))) continue;
+        known.add(lowerUri);
+
+        dependents.push({
+            name: obj.name,
+            extension: obj.extension,
+            type: obj.objectType,
+            uri: obj.uri,
+            dependent: true,
+        });
+    }
+
+    return ok(dependents);
+}
+
+/**
+ * Parse activation messages of every severity and assign them to objects
+ *
+ * Messages are matched by their href (object URI) first, then by the object
+ * name in their description. Messages that match no object (e.g., "Activation
+ * cancelled") are reported on every requested object.
+ */
+export function parseActivationMessages(xml: string, targets: ActivationTarget[]): Result<ActivationResult[], Error> {
+    // Initialize message map with empty arrays for each object.
+    const messageMap: Map<ActivationTarget, ActivationMessage[]> = new Map();
+    targets.forEach(target => messageMap.set(target, []));
+
+    // Empty responses mean a clean activation.
+    if (xml.trim()) {
+        // Parse XML response.
+        const [doc, parseErr] = safeParseXml(xml);
+        if (parseErr) { return err(parseErr); }
+
+        // Longest names first so 'ZVIEW_EXT' is not claimed by 'ZVIEW'.
+        const byNameLength = [...targets].sort((a, b) => b.name.length - a.name.length);
+        const startRegex = /#start=(\d+),(\d+)/;
+
+        // Process each message element.
+        const msgElements = doc.getElementsByTagName('msg');
+        for (let i = 0; i < msgElements.length; i++) {
+            const msg = msgElements[i];
+            if (!msg) continue;
+
+            const type = msg.getAttribute('type') || '';
+            const objDescr = (msg.getAttribute('objDescr') || '').toLowerCase();
+            const href = msg.getAttribute('href') || '';
+            const hrefPath = href.split('#')[0]!.toLowerCase();
+
+            // Parse line and column from href (optional).
+            let line: number | undefined;
+            let column: number | undefined;
+            const match = startRegex.exec(href);
+            if (match && match[1] && match[2]) {
+                line = parseInt(match[1], 10);
+                column = parseInt(match[2], 10);
+            }
+
+            // Find the object the message belongs to.
+            const owner =
+                byNameLength.find(t => hrefPath && (hrefPath === t.uri.toLowerCase() || hrefPath.startsWith(`${t.uri.toLowerCase()}/`))) ??
+                byNameLength.find(t => objDescr.includes(t.name.toLowerCase()));
+            const owners = owner ? [owner] : targets.filter(t => !t.dependent);
+
+            // Extract message text elements.
+            const textElements = msg.getElementsByTagName('txt');
+            for (let j = 0; j < textElements.length; j++) {
+                const text = textElements[j]?.textContent;
+                if (!text) continue;
+
+                // Build activation message with severity and optional position.
+                const message: ActivationMessage = { severity: toSeverity(type), text };
+                if (line !== undefined) message.line = line;
+                if (column !== undefined) message.column = column;
+
+                for (const target of owners) {
+                    messageMap.get(target)!.push(message);
+                }
+            }
         }
     }
 
     // Build final results with status based on message severity.
-    const results: ActivationResult[] = objects.map(obj => {
-        const messages = errorMap.get(obj.name.toLowerCase()) || [];
+    const results: ActivationResult[] = targets.map(target => {
+        const messages = messageMap.get(target) ?? [];
         const hasErrors = messages.some(m => m.severity === 'error');
+        const hasWarnings = messages.some(m => m.severity === 'warning');
 
-        return {
-            name: obj.name,
-            extension: obj.extension,
-            status: hasErrors ? 'error' : messages.length > 0 ? 'warning' : 'success',
+        const result: ActivationResult = {
+            name: target.name,
+            extension: target.extension,
+            status: hasErrors ? 'error' : hasWarnings ? 'warning' : 'success',
             messages,
         };
+        if (target.dependent) result.dependent = true;
+        return result;
     });
 
     return ok(results);
 }
+
+// Whether a pre-audit response is an inactive objects list (<ioc:inactiveObjects>).
+function isInactiveObjectList(xml: string): boolean {
+    if (!xml.trim()) return false;
+    const [doc] = safeParseXml(xml);
+    return doc?.documentElement?.localName === 'inactiveObjects';
+}
@@ -7,7 +7,7 @@ import { ok, err } from '../../../types/result';
 import type { ObjectContent } from '../../../types/requests';
 import type { AdtRequestor } from '../types';
 import { escapeXml } from '../../utils/xml';
-import { checkResponse, requireConfig } from '../helpers';
+import { buildContainerUri, buildObjectUri, checkResponse, requireConfig } from '../helpers';
 
 /**
  * Create a new object in SAP
@@ -30,9 +30,20 @@ export async function createObject(
     const [config, configErr] = requireConfig(object.extension);
     if (configErr) return err(configErr);
 
+    // Resolve the collection URI the object is created in.
+    const [objectUri, uriErr] = buildObjectUri(config, object);
+    if (uriErr) return err(uriErr);
+    const collectionUri = objectUri.substring(0, objectUri.lastIndexOf('/'));
+
     // Default empty description if not provided.
     const description = object.description ?? '';
 
+    // Nested objects reference their container; everything else references the package.
+    const containerUri = object.parent ? buildContainerUri(config, object.parent) : null;
+    const reference = object.parent && containerUri && config.parentType
+        ? `<adtcore:containerRef adtcore:name="${object.parent.toUpperCase()}" adtcore:type="${config.parentType}" adtcore:uri="${containerUri}"/>`
+        : `<adtcore:packageRef adtcore:name="${packageName}"/>`;
+
     // Build XML request body with object metadata.
     const body = `<?xml version="1.0" encoding="UTF-8"?>
 <${config.rootName} ${config.nameSpace}
@@ -43,7 +54,7 @@ export async function createObject(
     adtcore:type="${config.type}"
     adtcore:responsible="${username.toUpperCase()}">
 
-    <adtcore:packageRef adtcore:name="${packageName}"/>
+    ${reference}
 
 </${config.rootName}>`;
 
@@ -56,7 +67,7 @@ export async function createObject(
     // Execute create request.
     const [response, requestErr] = await client.request({
         method: 'POST',
-        path: `/sap/bc/adt/${config.endpoint}`,
+        path: collectionUri,
         params,
         headers: { 'Content-Type': 'application/*' },
         body: body.trim(),
@@ -6,7 +6,7 @@ import type { AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { ObjectRef } from '../../../types/requests';
 import type { AdtRequestor } from '../types';
-import { checkResponse, requireConfig } from '../helpers';
+import { buildMainSourceUri, checkResponse, requireConfig } from '../helpers';
 
 /**
  * Delete an object from SAP
@@ -27,6 +27,10 @@ export async function deleteObject(
     const [config, configErr] = requireConfig(object.extension);
     if (configErr) return err(configErr);
 
+    // Resolve source URI (source/main or the XML object document).
+    const [sourceUri, uriErr] = buildMainSourceUri(config, object);
+    if (uriErr) return err(uriErr);
+
     // Build request parameters with lock handle.
     const params: Record<string, string> = {
         'lockHandle': lockHandle,
@@ -38,7 +42,7 @@ export async function deleteObject(
     // Execute delete request.
     const [response, requestErr] = await client.request({
         method: 'DELETE',
-        path: `/sap/bc/adt/${config.endpoint}/${object.name}/source/main`,
+        path: sourceUri,
         params,
         headers: { 'Accept': 'text/plain' },
     });
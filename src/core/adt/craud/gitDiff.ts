@@ -1,15 +1,18 @@
 /**
- * Git Diff — Compare local content with server content
+ * Git Diff — Compare local content with server content or revisions
  *
  * Uses Myers diff algorithm to compute line-by-line differences.
  */
 
 import { diffArrays, type ChangeObject } from 'diff';
-import type { AsyncResult } from '../../../types/result';
+import type { Result, AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { AdtRequestor } from '../types';
-import type { ObjectContent } from '../../../types/requests';
+import type { ObjectRef, ObjectContent, ClassInclude } from '../../../types/requests';
 import { readObject } from './read';
+import { readIncludes } from './includes';
+import { readRevision } from './revisions';
+import { buildPatchUri, createUnifiedDiff } from './patch';
 import { getConfigByExtension } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -48,9 +51,30 @@ export interface DiffResult {
     name: string;
     extension: string;
     label: string;
+    /** Include the diff applies to (only set for multi-include objects) */
+    include?: ClassInclude;
     diffs: DiffHunk[];
+    /** Unified diff text (only set with `format: 'unified'`) */
+    patch?: string;
 }
 
+/** Diff output options */
+export interface DiffOptions {
+    /** Add unified diff text to each result (default: 'hunks') */
+    format?: 'hunks' | 'unified';
+    /** Context lines in unified diffs (default: 3) */
+    context?: number;
+}
+
+/**
+ * One side of a revision diff
+ *
+ * - `{ content }` — local content
+ * - `{ revision }` — stored server version (ID from `getRevisions`)
+ * - `{}` — current server source
+ */
+export type DiffSource = { content: string } | { revision?: string };
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Implementation
 // ─────────────────────────────────────────────────────────────────────────────
@@ -139,17 +163,16 @@ function computeDiff(serverLines: string[], localLines: string[]): DiffHunk[] {
  *
  * @param client - ADT client
  * @param object - Object with local content to compare
+ * @param options - Output options
  * @returns Diff result or error
  */
 export async function gitDiff(
     client: AdtRequestor,
-    object: ObjectContent
+    object: ObjectContent,
+    options: DiffOptions = {}
 ): AsyncResult<DiffResult, Error> {
     // Read current server content.
-    const [serverObj, readErr] = await readObject(client, {
-        name: object.name,
-        extension: object.extension,
-    });
+    const [serverObj, readErr] = await readObject(client, object);
 
     if (readErr) {
         return err(new Error(`${object.name} does not exist on server`));
@@ -166,10 +189,125 @@ export async function gitDiff(
     // Compute diff.
     const diffs = computeDiff(serverLines, localLines);
 
-    return ok({
+    const result: DiffResult = {
         name: serverObj.name,
         extension: serverObj.extension,
         label,
         diffs,
-    });
+    };
+    if (object.include) result.include = object.include;
+    return withPatch(result, object, serverObj.content, object.content, options);
+}
+
+/**
+ * Compare the main source and every provided include with the server
+ *
+ * Includes missing on the server are compared against empty content.
+ *
+ * @param client - ADT client
+ * @param object - Object with local main content and `includes`
+ * @param options - Output options
+ * @returns One diff result per include (main first) or error
+ */
+export async function gitDiffIncludes(
+    client: AdtRequestor,
+    object: ObjectContent,
+    options: DiffOptions = {}
+): AsyncResult<DiffResult[], Error> {
+    // Diff main source.
+    const [mainDiff, mainErr] = await gitDiff(client, { ...object, include: 'main' }, options);
+    if (mainErr) return err(mainErr);
+    const results: DiffResult[] = [mainDiff];
+
+    // Read server includes once.
+    const [serverIncludes, includesErr] = await readIncludes(client, object);
+    if (includesErr) return err(includesErr);
+
+    // Diff each local include.
+    for (const [include, content] of Object.entries(object.includes ?? {})) {
+        const name = include as keyof typeof serverIncludes;
+        const serverContent = serverIncludes[name] ?? '';
+        const [includeDiff, patchErr] = withPatch({
+            name: mainDiff.name,
+            extension: mainDiff.extension,
+            label: mainDiff.label,
+            include: name,
+            diffs: computeDiff(serverContent.split('\n'), content.split('\n')),
+        }, { ...object, include: name }, serverContent, content, options);
+        if (patchErr) return err(patchErr);
+        results.push(includeDiff);
+    }
+
+    return ok(results);
+}
+
+/**
+ * Compare two revisions of an object
+ *
+ * Either side can be local content, a stored server version or the current
+ * server source. Hunks read `base` as the server side and `target` as the
+ * local side.
+ *
+ * @param client - ADT client
+ * @param object - Object reference (`include` selects a class include)
+ * @param base - Older side of the comparison
+ * @param target - Newer side of the comparison
+ * @param options - Output options
+ * @returns Diff result or error
+ */
+export async function gitDiffRevisions(
+    client: AdtRequestor,
+    object: ObjectRef,
+    base: DiffSource,
+    target: DiffSource,
+    options: DiffOptions = {}
+): AsyncResult<DiffResult, Error> {
+    // Resolve both sides.
+    const [baseContent, baseErr] = await resolveDiffSource(client, object, base);
+    if (baseErr) return err(baseErr);
+    const [targetContent, targetErr] = await resolveDiffSource(client, object, target);
+    if (targetErr) return err(targetErr);
+
+    // Get label from config.
+    const config = getConfigByExtension(object.extension);
+    const label = config?.label ?? object.extension;
+
+    const result: DiffResult = {
+        name: object.name,
+        extension: object.extension,
+        label,
+        diffs: computeDiff(baseContent.split('\n'), targetContent.split('\n')),
+    };
+    if (object.include) result.include = object.include;
+    return withPatch(result, object, baseContent, targetContent, options);
+}
+
+// Load the content of one diff side.
+async function resolveDiffSource(
+    client: AdtRequestor,
+    object: ObjectRef,
+    source: DiffSource
+): AsyncResult<string, Error> {
+    if ('content' in source) return ok(source.content);
+    if (source.revision) return readRevision(client, object, source.revision);
+
+    const [serverObj, readErr] = await readObject(client, object);
+    if (readErr) return err(readErr);
+    return ok(serverObj.content);
+}
+
+// Add unified diff text when requested.
+function withPatch(
+    result: DiffResult,
+    object: ObjectRef,
+    serverContent: string,
+    localContent: string,
+    options: DiffOptions
+): Result<DiffResult, Error> {
+    if (options.format !== 'unified') return ok(result);
+
+    const [uri, uriErr] = buildPatchUri(object);
+    if (uriErr) return err(uriErr);
+    result.patch = createUnifiedDiff(uri, serverContent, localContent, options.context);
+    return ok(result);
 }
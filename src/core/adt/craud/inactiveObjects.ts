@@ -0,0 +1,115 @@
+/**
+ * Inactive Objects — List the current user's inactive objects (activation worklist)
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { AdtRequestor } from '../types';
+import { getConfigByType } from '../types';
+import { checkResponse } from '../helpers';
+import { safeParseXml } from '../../utils/xml';
+
+/**
+ * Inactive object entry
+ */
+export interface InactiveObject {
+    name: string;
+    /** File extension (empty if the object type is not configured) */
+    extension: string;
+    /** ADT object type (e.g., 'CLAS/OC') */
+    objectType: string;
+    uri: string;
+    /** User owning the inactive version */
+    user: string;
+    /** Inactive version is a deletion */
+    deleted: boolean;
+    /** Transport the inactive version is recorded on */
+    transport?: string;
+}
+
+const ADTCORE_NS = 'http://www.sap.com/adt/core';
+
+/**
+ * Get inactive objects of the logged-in user
+ *
+ * @param client - ADT client
+ * @returns Inactive objects or error
+ */
+export async function getInactiveObjects(
+    client: AdtRequestor
+): AsyncResult<InactiveObject[], Error> {
+    // Execute GET request for the inactive objects feed.
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: '/sap/bc/adt/activation/inactiveobjects',
+        headers: { 'Accept': 'application/vnd.sap.adt.inactivectsobjects.v1+xml, application/xml;q=0.8' },
+    });
+
+    // Validate successful response.
+    const [text, checkErr] = await checkResponse(response, requestErr, 'Failed to get inactive objects');
+    if (checkErr) return err(checkErr);
+
+    return parseInactiveObjectList(text);
+}
+
+/**
+ * Parse an inactive objects list (<ioc:inactiveObjects>)
+ *
+ * Used by the inactive objects feed and the activation pre-audit response.
+ */
+export function parseInactiveObjectList(xml: string): Result<InactiveObject[], Error> {
+    // Empty responses mean no inactive objects.
+    if (!xml.trim()) return ok([]);
+
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const refAttr = (ref: Element, name: string) =>
+        ref.getAttributeNS(ADTCORE_NS, name) || ref.getAttribute(`adtcore:${name}`) || '';
+
+    // Each <ioc:entry> holds an <ioc:object> and optionally an <ioc:transport>, both with an <ioc:ref>.
+    const objects: InactiveObject[] = [];
+    const entries = doc.getElementsByTagNameNS('*', 'entry');
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (!entry) continue;
+
+        const objectElement = childElement(entry, 'object');
+        const objectRef = objectElement ? childElement(objectElement, 'ref') : null;
+        if (!objectElement || !objectRef) continue;
+
+        const name = refAttr(objectRef, 'name');
+        const type = refAttr(objectRef, 'type');
+        const uri = refAttr(objectRef, 'uri');
+        if (!name || !type || !uri) continue;
+
+        const inactive: InactiveObject = {
+            name,
+            extension: getConfigByType(type)?.extension ?? '',
+            objectType: type,
+            uri,
+            user: objectElement.getAttribute('ioc:user') || '',
+            deleted: objectElement.getAttribute('ioc:deleted') === 'true',
+        };
+
+        const transportElement = childElement(entry, 'transport');
+        const transportRef = transportElement ? childElement(transportElement, 'ref') : null;
+        const transport = transportRef ? refAttr(transportRef, 'name') : '';
+        if (transport) inactive.transport = transport;
+
+        objects.push(inactive);
+    }
+
+    return ok(objects);
+}
+
+// First direct child element with the given local name.
+function childElement(element: Element, localName: string): Element | null {
+    for (let node = element.firstChild; node; node = node.nextSibling) {
+        if (node.nodeType === 1 && (node as Element).localName === localName) {
+            return node as Element;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Includes — Read and create secondary source includes of multi-include objects (classes)
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ObjectRef, ClassInclude, ClassIncludeContents } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import { buildObjectUri, buildSourceUri, checkResponse, requireConfig } from '../helpers';
+
+/**
+ * Read every secondary include of an object
+ *
+ * Includes that do not exist on the server (e.g., a class without
+ * test classes) are omitted from the result.
+ *
+ * @param client - ADT client
+ * @param object - Object reference (name + extension)
+ * @returns Include contents keyed by include name or error
+ */
+export async function readIncludes(
+    client: AdtRequestor,
+    object: ObjectRef
+): AsyncResult<ClassIncludeContents, Error> {
+    // Validate object extension is supported.
+    const [config, configErr] = requireConfig(object.extension);
+    if (configErr) return err(configErr);
+
+    const contents: ClassIncludeContents = {};
+    for (const include of config.includes ?? []) {
+        const [includeUri, uriErr] = buildSourceUri(config, { ...object, include });
+        if (uriErr) return err(uriErr);
+
+        // Execute GET request for include source.
+        const [response, requestErr] = await client.request({
+            method: 'GET',
+            path: includeUri,
+            headers: { 'Accept': 'text/plain' },
+        });
+
+        // Missing include - skip it.
+        if (response?.status === 404) continue;
+
+        // Validate successful response and extract content.
+        const [content, checkErr] = await checkResponse(
+            response,
+            requestErr,
+            `Failed to read ${include} include of ${config.label} ${object.name}`
+        );
+        if (checkErr) return err(checkErr);
+        contents[include] = content;
+    }
+
+    return ok(contents);
+}
+
+/**
+ * Create a secondary include that does not exist yet (e.g., test classes)
+ *
+ * @param client - ADT client
+ * @param object - Object reference (name + extension)
+ * @param include - Include to create
+ * @param lockHandle - Lock handle from lockObject()
+ * @param transport - Transport request (required for non-$TMP packages)
+ * @returns void or error
+ */
+export async function createInclude(
+    client: AdtRequestor,
+    object: ObjectRef,
+    include: Exclude<ClassInclude, 'main'>,
+    lockHandle: string,
+    transport: string | undefined
+): AsyncResult<void, Error> {
+    // Validate object extension is supported.
+    const [config, configErr] = requireConfig(object.extension);
+    if (configErr) return err(configErr);
+
+    const [objectUri, uriErr] = buildObjectUri(config, object);
+    if (uriErr) return err(uriErr);
+
+    // Build request parameters with lock handle.
+    const params: Record<string, string> = {
+        'lockHandle': lockHandle,
+    };
+    if (transport) {
+        params['corrNr'] = transport;
+    }
+
+    const body = `<?xml version="1.0" encoding="UTF-8"?>
+<class:abapClassInclude xmlns:class="http://www.sap.com/adt/oo/classes"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    adtcore:name="${object.name.toUpperCase()}"
+    class:includeType="${include}"/>`;
+
+    // Execute create request.
+    const [response, requestErr] = await client.request({
+        method: 'POST',
+        path: `${objectUri}/includes`,
+        params,
+        headers: { 'Content-Type': 'application/*' },
+        body,
+    });
+
+    // Validate successful response.
+    const [_, checkErr] = await checkResponse(
+        response,
+        requestErr,
+        `Failed to create ${include} include of ${config.label} ${object.name}`
+    );
+    if (checkErr) return err(checkErr);
+
+    return ok(undefined);
+}
@@ -6,16 +6,64 @@ import type { AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { ObjectRef } from '../../../types/requests';
 import type { AdtRequestor } from '../types';
-import { extractLockHandle } from '../../utils/xml';
-import { checkResponse, requireConfig } from '../helpers';
+import { extractLockHandle, safeParseXml } from '../../utils/xml';
+import { buildMainSourceUri, checkResponse, requireConfig } from '../helpers';
 import { debug } from '../../utils/logging';
+import { checkTransportRequirement } from '../transports/transportCheck';
+
+/**
+ * Lock held by a client (see `ADTClient.acquireLock`)
+ */
+export interface ObjectLock {
+    object: ObjectRef;
+    /** Lock handle passed to write requests */
+    handle: string;
+    /** ISO timestamp of when the lock was acquired */
+    acquiredAt: string;
+}
+
+/**
+ * Lock status of an object (see `ADTClient.getLockStatus`)
+ */
+export interface LockStatus {
+    object: ObjectRef;
+    /** Object is locked (editing is only possible if `held`) */
+    locked: boolean;
+    /** Lock is held by this client */
+    held: boolean;
+    /** User holding the lock */
+    owner?: string;
+    /** Transport request the object is locked in */
+    transport?: string;
+    /** When the lock was acquired (if reported) */
+    lockedAt?: string;
+}
+
+/**
+ * Object is locked by another user
+ */
+export class ObjectLockedError extends Error {
+    constructor(
+        message: string,
+        public owner: string,
+        public transport?: string,
+        public lockedAt?: string
+    ) {
+        super(message);
+        this.name = 'ObjectLockedError';
+    }
+}
+
+const TRANSPORT_REGEX = /\b[A-Z0-9]{3}K\d{6}\b/;
+const OWNER_REGEX = /\buser\s+([A-Z0-9_.$@-]+)/i;
+const TIMESTAMP_REGEX = /\b(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})\b|\b(\d{2})\.(\d{2})\.(\d{4}) (\d{2}):(\d{2}):(\d{2})\b/;
 
 /**
  * Lock an object for editing
  *
  * @param client - ADT client
  * @param object - Object reference (name + extension)
- * @returns Lock handle string or error
+ * @returns Lock handle string, ObjectLockedError if another user holds the lock, or error
  */
 export async function lockObject(
     client: AdtRequestor,
@@ -25,10 +73,14 @@ export async function lockObject(
     const [config, configErr] = requireConfig(object.extension);
     if (configErr) return err(configErr);
 
+    // Resolve main source URI (the lock covers every include).
+    const [sourceUri, uriErr] = buildMainSourceUri(config, object);
+    if (uriErr) return err(uriErr);
+
     // Execute lock request.
     const [response, requestErr] = await client.request({
         method: 'POST',
-        path: `/sap/bc/adt/${config.endpoint}/${object.name}/source/main`,
+        path: sourceUri,
         params: {
             '_action': 'LOCK',
             'accessMode': 'MODIFY',
@@ -38,6 +90,12 @@ export async function lockObject(
         },
     });
 
+    // Report lock conflicts with their owner.
+    if (response && !response.ok) {
+        const conflict = parseLockConflict(await response.clone().text());
+        if (conflict) return err(conflict);
+    }
+
     // Validate successful response.
     const [text, checkErr] = await checkResponse(
         response,
@@ -73,10 +131,14 @@ export async function unlockObject(
     const [config, configErr] = requireConfig(object.extension);
     if (configErr) return err(configErr);
 
+    // Resolve main source URI (the lock covers every include).
+    const [sourceUri, uriErr] = buildMainSourceUri(config, object);
+    if (uriErr) return err(uriErr);
+
     // Execute unlock request.
     const [response, requestErr] = await client.request({
         method: 'POST',
-        path: `/sap/bc/adt/${config.endpoint}/${object.name}/source/main`,
+        path: sourceUri,
         params: {
             '_action': 'UNLOCK',
             'lockHandle': lockHandle,
@@ -93,3 +155,98 @@ export async function unlockObject(
 
     return ok(undefined);
 }
+
+/**
+ * Get the lock status of an object
+ *
+ * Transport locks come from the transport check, which reports the request
+ * the object is locked in and its owner. Edit locks of open editors (enqueue
+ * locks without a transport) are only visible by requesting a lock, so the
+ * object is probed with a lock that is released right away.
+ *
+ * @param client - ADT client (stateful, as for lockObject)
+ * @param object - Object reference (name + extension)
+ * @param user - User of the session (requests of this user do not block editing)
+ * @returns Lock status or error
+ */
+export async function getLockStatus(
+    client: AdtRequestor,
+    object: ObjectRef,
+    user: string
+): AsyncResult<LockStatus, Error> {
+    // The server derives the package from the object URI.
+    const [requirement, checkErr] = await checkTransportRequirement(client, object, '');
+    if (checkErr) return err(checkErr);
+
+    const status: LockStatus = { object, locked: false, held: false };
+    const lockingTransport = requirement.lockingTransport;
+    if (lockingTransport) {
+        status.locked = lockingTransport.owner.toUpperCase() !== user.toUpperCase();
+        status.owner = lockingTransport.owner;
+        status.transport = lockingTransport.id;
+    }
+    if (status.locked) return ok(status);
+
+    // Probe the enqueue lock.
+    const [handle, lockErr] = await lockObject(client, object);
+    if (lockErr instanceof ObjectLockedError) {
+        status.locked = true;
+        if (lockErr.owner) status.owner = lockErr.owner;
+        const transport = lockErr.transport ?? status.transport;
+        if (transport) status.transport = transport;
+        if (lockErr.lockedAt) status.lockedAt = lockErr.lockedAt;
+        return ok(status);
+    }
+    if (lockErr) return err(lockErr);
+
+    const [, unlockErr] = await unlockObject(client, object, handle);
+    if (unlockErr) return err(unlockErr);
+
+    return ok(status);
+}
+
+/**
+ * Parse a lock conflict from a failed lock response
+ *
+ * Conflicts are recognized by their message ("User X is currently editing Y",
+ * "... is locked in request DEVK900123 of user X") or by the enqueue
+ * message key EU 510, whose first variable is the lock owner.
+ *
+ * @param xml - Exception XML of the lock response
+ * @returns ObjectLockedError, or null if the response is no lock conflict
+ */
+export function parseLockConflict(xml: string): ObjectLockedError | null {
+    if (!xml.trim()) return null;
+
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return null;
+
+    const message = doc.getElementsByTagName('message')[0]?.textContent?.trim() ?? '';
+
+    // Exception properties (<entry key="T100KEY-V1">...</entry>)
+    const properties = new Map<string, string>();
+    const entries = doc.getElementsByTagName('entry');
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const key = entry?.getAttribute('key');
+        if (key) properties.set(key, entry?.textContent?.trim() ?? '');
+    }
+
+    const isEnqueueConflict = properties.get('T100KEY-ID') === 'EU' && properties.get('T100KEY-NO') === '510';
+    if (!isEnqueueConflict && !/currently editing|is locked|locked by/i.test(message)) return null;
+
+    const owner = (isEnqueueConflict ? properties.get('T100KEY-V1') : undefined) ?? OWNER_REGEX.exec(message)?.[1] ?? '';
+    const variables = [...properties.values()].join(' ');
+    const transport = TRANSPORT_REGEX.exec(message)?.[0] ?? TRANSPORT_REGEX.exec(variables)?.[0];
+    const lockedAt = parseTimestamp(message);
+
+    return new ObjectLockedError(message || `Object is locked by ${owner}`, owner, transport, lockedAt);
+}
+
+// ISO timestamp from 'YYYY-MM-DD hh:mm:ss' or 'DD.MM.YYYY hh:mm:ss' (server time, no zone).
+function parseTimestamp(text: string): string | undefined {
+    const match = TIMESTAMP_REGEX.exec(text);
+    if (!match) return undefined;
+    if (match[1]) return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+    return `${match[9]}-${match[8]}-${match[7]}T${match[10]}:${match[11]}:${match[12]}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Patch — Unified diff output and patch application
+ *
+ * Patch headers use the object's source URI (`a/sap/bc/adt/...`), so
+ * patches can be exchanged with ordinary git tooling.
+ */
+
+import { applyPatch as applyUnifiedPatch, parsePatch, structuredPatch } from 'diff';
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ObjectRef, ObjectContent } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import { buildSourceUri, requireConfig } from '../helpers';
+import { readObject } from './read';
+
+/** Default number of context lines around each hunk */
+export const DEFAULT_PATCH_CONTEXT = 3;
+
+/**
+ * Create unified diff text for an object source
+ *
+ * @param uri - Source URI used in the `---`/`+++` headers
+ * @param serverContent - Old content
+ * @param localContent - New content
+ * @param context - Context lines around each hunk
+ * @returns Unified diff (empty string if the contents are equal)
+ */
+export function createUnifiedDiff(
+    uri: string,
+    serverContent: string,
+    localContent: string,
+    context: number = DEFAULT_PATCH_CONTEXT
+): string {
+    const patch = structuredPatch(`a${uri}`, `b${uri}`, serverContent, localContent, undefined, undefined, { context });
+    if (patch.hunks.length === 0) return '';
+
+    const lines = [`--- ${patch.oldFileName}`, `+++ ${patch.newFileName}`];
+    for (const hunk of patch.hunks) {
+        // Empty ranges start one line earlier (unified diff convention).
+        const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+        const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+        lines.push(`@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`, ...hunk.lines);
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Build the source URI used in patch headers
+ */
+export function buildPatchUri(object: ObjectRef): Result<string, Error> {
+    const [config, configErr] = requireConfig(object.extension);
+    if (configErr) return err(configErr);
+    return buildSourceUri(config, object);
+}
+
+/**
+ * Apply a unified patch to the server content of an object
+ *
+ * Multi-file patches are matched to the object by the source URI in their
+ * headers. Nothing is written to the server.
+ *
+ * @param client - ADT client
+ * @param object - Object the patch applies to (`include` selects a class include)
+ * @param patch - Unified diff text
+ * @returns Object with patched content or error
+ */
+export async function applyPatch(
+    client: AdtRequestor,
+    object: ObjectRef,
+    patch: string
+): AsyncResult<ObjectContent, Error> {
+    // Select the file patch for this object.
+    const [uri, uriErr] = buildPatchUri(object);
+    if (uriErr) return err(uriErr);
+
+    let filePatches;
+    try {
+        filePatches = parsePatch(patch);
+    } catch (error) {
+        return err(new Error(`Invalid patch: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    const stripPrefix = (name: string | undefined) => (name ?? '').replace(/^[ab]\//, '/').toLowerCase();
+    const filePatch = filePatches.length === 1
+        ? filePatches[0]
+        : filePatches.find(p => stripPrefix(p.oldFileName) === uri.toLowerCase() || stripPrefix(p.newFileName) === uri.toLowerCase());
+    if (!filePatch) return err(new Error(`Patch contains no changes for ${uri}`));
+
+    // Read current server content.
+    const [serverObj, readErr] = await readObject(client, object);
+    if (readErr) return err(readErr);
+
+    // Apply hunks.
+    const patched = applyUnifiedPatch(serverObj.content, filePatch);
+    if (patched === false) {
+        return err(new Error(`Patch does not apply to the server version of ${object.name}`));
+    }
+
+    const result: ObjectContent = {
+        name: object.name,
+        extension: object.extension,
+        content: patched,
+    };
+    if (object.parent) result.parent = object.parent;
+    if (object.include) result.include = object.include;
+    return ok(result);
+}
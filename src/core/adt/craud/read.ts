@@ -2,11 +2,14 @@
  * POST /objects/read — Read object source content
  */
 
-import type { AsyncResult } from '../../../types/result';
+import type { Result, AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
-import type { ObjectRef } from '../../../types/requests';
-import type { AdtRequestor } from '../types';
-import { checkResponse, requireConfig } from '../helpers';
+import type { ObjectRef, ClassInclude, ClassIncludeContents } from '../../../types/requests';
+import type { AdtRequestor, ObjectConfig } from '../types';
+import { DEFAULT_SOURCE_PATH } from '../types';
+import { buildObjectUri, buildSourceUri, checkResponse, requireConfig } from '../helpers';
+import { safeParseXml } from '../../utils/xml';
+import type { LockStatus } from './lock';
 
 /**
  * Object metadata
@@ -15,18 +18,41 @@ export interface ObjectMetadata {
     name: string;
     extension: string;
     package: string;
+    parent?: string;
+    include?: ClassInclude;
     description?: string;
+    /** Responsible user (only set when reading with `includeMetadata: true`) */
+    responsible?: string;
     createdBy?: string;
     createdAt?: string;
+    /** Last changing user (object document) */
     modifiedBy?: string;
+    /** HTTP Last-Modified of the read source (pass back as `base.lastModified` on upsert) */
     modifiedAt?: string;
+    /** Last change of the object (object document) */
+    changedAt?: string;
+    /** ETag of the read version (pass back as `base.etag` on upsert) */
+    etag?: string;
+    /** Original language (e.g., 'EN') */
+    masterLanguage?: string;
+    /** Version the metadata describes ('active' or 'inactive') */
+    version?: string;
+    /** Lock status (only set when reading with `includeMetadata: true`, see `ADTClient.getLockStatus`) */
+    lock?: LockStatus;
 }
 
+/** Metadata fields read from the object document */
+type DocumentMetadata = Omit<ObjectMetadata, 'name' | 'extension' | 'parent' | 'include' | 'etag' | 'modifiedAt' | 'lock'>;
+
+const ADTCORE_NS = 'http://www.sap.com/adt/core';
+
 /**
  * Object with content (read response)
  */
 export interface ObjectWithContent extends ObjectMetadata {
     content: string;
+    /** Secondary class includes (only set when reading with `includes: true`) */
+    includes?: ClassIncludeContents;
 }
 
 /**
@@ -34,21 +60,27 @@ export interface ObjectWithContent extends ObjectMetadata {
  *
  * @param client - ADT client
  * @param object - Object reference (name + extension)
+ * @param options - `includeMetadata` also reads the object document (package, owner, timestamps)
  * @returns Object with content or error
  */
 export async function readObject(
     client: AdtRequestor,
-    object: ObjectRef
+    object: ObjectRef,
+    options: { includeMetadata?: boolean } = {}
 ): AsyncResult<ObjectWithContent, Error> {
     // Validate object extension is supported.
     const [config, configErr] = requireConfig(object.extension);
     if (configErr) return err(configErr);
 
+    // Resolve source URI (source/main or the XML object document).
+    const [sourceUri, uriErr] = buildSourceUri(config, object);
+    if (uriErr) return err(uriErr);
+
     // Execute GET request for object source content.
     const [response, requestErr] = await client.request({
         method: 'GET',
-        path: `/sap/bc/adt/${config.endpoint}/${object.name}/source/main`,
-        headers: { 'Accept': 'text/plain' },
+        path: sourceUri,
+        headers: { 'Accept': config.contentType ?? 'text/plain' },
     });
 
     // Validate successful response and extract content.
@@ -66,6 +98,82 @@ export async function readObject(
         package: '',
         content,
     };
+    if (object.parent) result.parent = object.parent;
+    if (object.include) result.include = object.include;
+
+    // Version markers for conflict detection.
+    const etag = response?.headers.get('etag');
+    const lastModified = response?.headers.get('last-modified');
+    if (etag) result.etag = etag;
+    if (lastModified) result.modifiedAt = lastModified;
+
+    // Fill metadata from the object document (XML-only objects already returned it).
+    if (options.includeMetadata) {
+        const xmlOnly = !(config.sourcePath ?? DEFAULT_SOURCE_PATH);
+        const [documentXml, documentErr] = xmlOnly
+            ? [content, null]
+            : await readObjectDocument(client, config, object);
+        if (documentErr) return err(documentErr);
+
+        const [metadata, parseErr] = parseObjectMetadata(documentXml);
+        if (parseErr) return err(parseErr);
+        Object.assign(result, metadata);
+    }
 
     return ok(result);
 }
+
+// Read the object document holding the metadata attributes.
+async function readObjectDocument(
+    client: AdtRequestor,
+    config: ObjectConfig,
+    object: ObjectRef
+): AsyncResult<string, Error> {
+    const [objectUri, uriErr] = buildObjectUri(config, object);
+    if (uriErr) return err(uriErr);
+
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: objectUri,
+        headers: { 'Accept': 'application/*' },
+    });
+    return checkResponse(response, requestErr, `Failed to read metadata of ${config.label} ${object.name}`);
+}
+
+/**
+ * Parse metadata attributes of an ADT object document
+ *
+ * Only attributes present in the document are returned.
+ */
+export function parseObjectMetadata(xml: string): Result<DocumentMetadata, Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const root = doc.documentElement;
+    if (!root) return err(new Error('Object document has no root element'));
+
+    const attr = (element: Element, name: string) =>
+        element.getAttributeNS(ADTCORE_NS, name) || element.getAttribute(`adtcore:${name}`) || '';
+
+    // Package is a child reference, everything else lives on the root element.
+    const packageRef = doc.getElementsByTagNameNS(ADTCORE_NS, 'packageRef')[0];
+    const metadata: DocumentMetadata = { package: packageRef ? attr(packageRef, 'name') : '' };
+
+    const fields: Array<[keyof DocumentMetadata, string]> = [
+        ['description', 'description'],
+        ['responsible', 'responsible'],
+        ['createdBy', 'createdBy'],
+        ['createdAt', 'createdAt'],
+        ['modifiedBy', 'changedBy'],
+        ['changedAt', 'changedAt'],
+        ['masterLanguage', 'masterLanguage'],
+        ['version', 'version'],
+    ];
+    for (const [field, attribute] of fields) {
+        const value = attr(root, attribute);
+        if (value) metadata[field] = value;
+    }
+
+    return ok(metadata);
+}
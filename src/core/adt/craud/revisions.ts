@@ -0,0 +1,152 @@
+/**
+ * Revisions — Version history of object sources
+ *
+ * Built on the ADT versions feed (`<source>/versions`), an Atom feed with
+ * one entry per stored version.
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import { buildObjectUri, buildSourceUri, checkResponse, requireConfig } from '../helpers';
+import { safeParseXml } from '../../utils/xml';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types (colocated - only used by this function)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Stored version of an object source */
+export interface Revision {
+    /** Version ID (used with `readRevision`) */
+    id: string;
+    /** URI of the version content */
+    uri: string;
+    /** User who created the version */
+    author: string;
+    /** ISO timestamp of the version */
+    timestamp: string;
+    /** Version title as shown in the version history */
+    title: string;
+    /** Transport the version was released with */
+    transport?: string;
+}
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const TRANSPORT_REGEX = /\b[A-Z0-9]{3}K\d{6}\b/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Implementation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Get the version history of an object source (newest first)
+ *
+ * @param client - ADT client
+ * @param object - Object reference (`include` selects a class include)
+ * @returns Revisions or error
+ */
+export async function getRevisions(
+    client: AdtRequestor,
+    object: ObjectRef
+): AsyncResult<Revision[], Error> {
+    // Resolve versions feed URI.
+    const [feedUri, uriErr] = buildVersionsUri(object);
+    if (uriErr) return err(uriErr);
+
+    // Execute GET request for the versions feed.
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: feedUri,
+        headers: { 'Accept': 'application/atom+xml;type=feed' },
+    });
+    const [text, checkErr] = await checkResponse(response, requestErr, `Failed to get revisions of ${object.name}`);
+    if (checkErr) return err(checkErr);
+
+    return parseRevisionFeed(text);
+}
+
+/**
+ * Read the source of a stored version
+ *
+ * @param client - ADT client
+ * @param object - Object reference (`include` selects a class include)
+ * @param versionId - Version ID from `getRevisions`
+ * @returns Source content or error
+ */
+export async function readRevision(
+    client: AdtRequestor,
+    object: ObjectRef,
+    versionId: string
+): AsyncResult<string, Error> {
+    // Resolve the content URI from the version history.
+    const [revisions, revisionsErr] = await getRevisions(client, object);
+    if (revisionsErr) return err(revisionsErr);
+
+    const revision = revisions.find(r => r.id === versionId);
+    if (!revision) return err(new Error(`${object.name} has no version ${versionId}`));
+
+    // Execute GET request for the version content.
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: revision.uri,
+        headers: { 'Accept': 'text/plain' },
+    });
+    return checkResponse(response, requestErr, `Failed to read version ${versionId} of ${object.name}`);
+}
+
+// Class includes keep their history under /includes/<name>, including the main source.
+function buildVersionsUri(object: ObjectRef): Result<string, Error> {
+    const [config, configErr] = requireConfig(object.extension);
+    if (configErr) return err(configErr);
+
+    if (config.includes) {
+        const [objectUri, uriErr] = buildObjectUri(config, object);
+        if (uriErr) return err(uriErr);
+        return ok(`${objectUri}/includes/${object.include ?? 'main'}/versions`);
+    }
+
+    const [sourceUri, uriErr] = buildSourceUri(config, object);
+    if (uriErr) return err(uriErr);
+    return ok(`${sourceUri}/versions`);
+}
+
+/**
+ * Parse an ADT versions feed
+ */
+export function parseRevisionFeed(xml: string): Result<Revision[], Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const childText = (element: Element, name: string) =>
+        element.getElementsByTagNameNS(ATOM_NS, name)[0]?.textContent?.trim() ?? '';
+
+    const revisions: Revision[] = [];
+    const entries = doc.getElementsByTagNameNS(ATOM_NS, 'entry');
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (!entry) continue;
+
+        // Entries without content cannot be read back.
+        const uri = entry.getElementsByTagNameNS(ATOM_NS, 'content')[0]?.getAttribute('src') || '';
+        if (!uri) continue;
+
+        const title = childText(entry, 'title');
+        const revision: Revision = {
+            id: childText(entry, 'id'),
+            uri,
+            author: childText(entry, 'name'),
+            timestamp: childText(entry, 'updated'),
+            title,
+        };
+
+        // Released versions carry their transport in the title (e.g., 'DEVK900123 : Fix rounding').
+        const transport = TRANSPORT_REGEX.exec(title)?.[0];
+        if (transport) revision.transport = transport;
+
+        revisions.push(revision);
+    }
+
+    return ok(revisions);
+}
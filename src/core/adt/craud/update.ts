@@ -6,7 +6,7 @@ import type { AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { ObjectContent } from '../../../types/requests';
 import type { AdtRequestor } from '../types';
-import { checkResponse, requireConfig } from '../helpers';
+import { buildSourceUri, checkResponse, requireConfig } from '../helpers';
 import { debug } from '../../utils/logging';
 
 /**
@@ -28,6 +28,10 @@ export async function updateObject(
     const [config, configErr] = requireConfig(object.extension);
     if (configErr) return err(configErr);
 
+    // Resolve source URI (source/main or the XML object document).
+    const [sourceUri, uriErr] = buildSourceUri(config, object);
+    if (uriErr) return err(uriErr);
+
     // Build request parameters with lock handle.
     const params: Record<string, string> = {
         'lockHandle': lockHandle,
@@ -40,9 +44,9 @@ export async function updateObject(
     debug(`Update ${object.name}: content length=${object.content?.length ?? 0}`);
     const [response, requestErr] = await client.request({
         method: 'PUT',
-        path: `/sap/bc/adt/${config.endpoint}/${object.name}/source/main`,
+        path: sourceUri,
         params,
-        headers: { 'Content-Type': '*/*' },
+        headers: { 'Content-Type': config.contentType ?? '*/*' },
         body: object.content,
     });
     debug(`Update response: ${response?.status ?? 'no response'}, err=${requestErr?.message ?? 'none'}`);
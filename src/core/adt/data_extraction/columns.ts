@@ -0,0 +1,172 @@
+/**
+ * Columns — Column metadata of tables and CDS views
+ *
+ * Built on the DDIC element info service (the source of the hover info in
+ * ADT), which describes fields and CDS parameters without reading data.
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { AdtRequestor } from '../types';
+import { checkResponse } from '../helpers';
+import { safeParseXml } from '../../utils/xml';
+
+/**
+ * Field labels (data element texts)
+ */
+export interface FieldLabels {
+    short?: string;
+    medium?: string;
+    long?: string;
+    heading?: string;
+}
+
+/**
+ * Column of a table or view
+ */
+export interface ColumnMetadata {
+    name: string;
+    /** Part of the primary key */
+    key: boolean;
+    dataElement?: string;
+    /** ABAP dictionary type (e.g., 'CHAR', 'DATS', 'CURR') */
+    abapType: string;
+    length?: number;
+    decimals?: number;
+    labels: FieldLabels;
+}
+
+/**
+ * Parameter of a CDS view
+ */
+export interface ParameterMetadata {
+    name: string;
+    dataElement?: string;
+    abapType: string;
+    length?: number;
+    decimals?: number;
+}
+
+/**
+ * Columns and parameters of a table or view
+ */
+export interface ObjectColumns {
+    objectName: string;
+    objectType: 'table' | 'view';
+    columns: ColumnMetadata[];
+    parameters: ParameterMetadata[];
+}
+
+/**
+ * Get the columns of a table or CDS view
+ *
+ * @param client - ADT client
+ * @param objectName - Table or CDS view name
+ * @param objectType - 'table' or 'view'
+ * @returns Columns and parameters or error
+ */
+export async function getColumns(
+    client: AdtRequestor,
+    objectName: string,
+    objectType: 'table' | 'view'
+): AsyncResult<ObjectColumns, Error> {
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: '/sap/bc/adt/ddic/ddl/elementinfo',
+        params: {
+            path: objectName.toLowerCase(),
+            getTargetForAssociation: 'false',
+            getExtensionViews: 'false',
+            getSecondaryObjects: 'false',
+        },
+        headers: { 'Accept': 'application/vnd.sap.adt.ddic.elementinfo.v1+xml' },
+    });
+    const [text, checkErr] = await checkResponse(response, requestErr, `Failed to get columns of ${objectName}`);
+    if (checkErr) return err(checkErr);
+
+    return parseElementInfo(text, objectType);
+}
+
+/**
+ * Parse an element info response
+ *
+ * The root element describes the object; its child elements are fields,
+ * CDS parameters (type containing 'PARAM') and associations (skipped).
+ */
+export function parseElementInfo(xml: string, objectType: 'table' | 'view'): Result<ObjectColumns, Error> {
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const root = doc.documentElement;
+    if (!root || root.localName !== 'elementInfo') {
+        return err(new Error('Invalid element info response: elementInfo element missing'));
+    }
+
+    const result: ObjectColumns = {
+        objectName: root.getAttribute('adtcore:name') ?? '',
+        objectType,
+        columns: [],
+        parameters: [],
+    };
+
+    for (const element of childElements(root, 'elementInfo')) {
+        const name = element.getAttribute('adtcore:name');
+        const type = element.getAttribute('adtcore:type') ?? '';
+        const props = properties(element);
+        if (!name || /ASSOC/i.test(type)) continue;
+
+        const field: ParameterMetadata = { name, abapType: props.get('ddicDataType') ?? '' };
+        const [dataElement, length, decimals] = [props.get('ddicDataElement'), toNumber(props.get('ddicLength')), toNumber(props.get('ddicDecimals'))];
+        if (dataElement) field.dataElement = dataElement;
+        if (length !== undefined) field.length = length;
+        if (decimals !== undefined) field.decimals = decimals;
+
+        if (/PARAM/i.test(type)) {
+            result.parameters.push(field);
+            continue;
+        }
+
+        const column: ColumnMetadata = { ...field, key: props.get('ddicIsKey') === 'true', labels: {} };
+        for (const [label, key] of LABEL_KEYS) {
+            const value = props.get(key);
+            if (value) column.labels[label] = value;
+        }
+        result.columns.push(column);
+    }
+
+    return ok(result);
+}
+
+const LABEL_KEYS: [keyof FieldLabels, string][] = [
+    ['short', 'ddicLabelShort'],
+    ['medium', 'ddicLabelMedium'],
+    ['long', 'ddicLabelLong'],
+    ['heading', 'ddicHeading'],
+];
+
+// Direct child elements with the given local name.
+function childElements(element: Element, name: string): Element[] {
+    const children: Element[] = [];
+    for (let node = element.firstChild; node; node = node.nextSibling) {
+        if (node.nodeType === 1 && (node as Element).localName === name) children.push(node as Element);
+    }
+    return children;
+}
+
+// Property entries (abapsource:entry key="...") of an element.
+function properties(element: Element): Map<string, string> {
+    const props = new Map<string, string>();
+    for (const list of childElements(element, 'properties')) {
+        for (const entry of childElements(list, 'entry')) {
+            const key = entry.getAttribute('abapsource:key');
+            const value = entry.textContent?.trim();
+            if (key && value) props.set(key, value);
+        }
+    }
+    return props;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return isNaN(parsed) ? undefined : parsed;
+}
@@ -6,20 +6,26 @@ import type { AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { AdtRequestor } from '../types';
 import { freestyleQuery } from './freestyle';
-import { type Parameter, parametersToSQLParams } from './queryBuilder';
+import { getPreviewColumns } from './dataPreview';
+import { type Parameter, buildCountQuery } from './queryBuilder';
 
 /**
  * Count total rows in a table or view
  *
- * Uses the freestyle endpoint which supports COUNT(*) aggregation.
+ * Uses the freestyle endpoint which supports COUNT(*) aggregation. The object
+ * must have column metadata (read from a one-row preview) first.
  */
 export async function countRows(
     client: AdtRequestor,
     objectName: string,
-    _objectType: 'table' | 'view',
+    objectType: 'table' | 'view',
     parameters: Parameter[] = []
 ): AsyncResult<number, Error> {
-    const sqlQuery = `SELECT COUNT(*) AS row_count FROM ${objectName}${parametersToSQLParams(parameters)}`;
+    const [columns, columnsErr] = await getPreviewColumns(client, objectName, objectType, parameters);
+    if (columnsErr) return err(columnsErr);
+
+    const [sqlQuery, buildErr] = buildCountQuery(objectName, parameters, columns);
+    if (buildErr) return err(buildErr);
 
     const [dataFrame, error] = await freestyleQuery(client, sqlQuery, 1);
 
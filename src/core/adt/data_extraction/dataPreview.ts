@@ -6,11 +6,14 @@ import type { AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { PreviewSQL } from '../../../types/requests';
 import type { AdtRequestor } from '../types';
-import type { DataFrame } from './previewParser';
+import type { ColumnInfo, DataFrame } from './previewParser';
+import type { DataPreviewQuery, Parameter } from './queryBuilder';
+import { freestyleQuery } from './freestyle';
 import { getConfigByExtension } from '../types';
 import { extractError } from '../../utils/xml';
 import { debug } from '../../utils/logging';
 import { parseDataPreview } from './previewParser';
+import { buildSampleQuery, buildSQLQuery, fieldSource, isFreestyleQuery } from './queryBuilder';
 
 /**
  * Execute SQL query against table/view data
@@ -60,7 +63,62 @@ export async function previewData(
 
     // Parse response.
     const text = await response.text();
-    const [dataFrame, parseErr] = parseDataPreview(text, limit, query.objectType === 'table');
+    const options = query.typed ? { typed: query.typed } : {};
+    const [dataFrame, parseErr] = parseDataPreview(text, limit, query.objectType === 'table', options);
     if (parseErr) { return err(parseErr); }
     return ok(dataFrame);
 }
+
+/**
+ * Execute a structured query
+ *
+ * Queries with joins or association paths run on the freestyle endpoint;
+ * their columns carry the source of each field.
+ *
+ * @param client - ADT client
+ * @param query - Structured query (rendered by the query builder)
+ * @param columns - Column metadata to whitelist field names against (see getPreviewColumns)
+ * @returns DataFrame or error
+ */
+export async function previewQuery(
+    client: AdtRequestor,
+    query: DataPreviewQuery,
+    columns?: ColumnInfo[]
+): AsyncResult<DataFrame, Error> {
+    const [sql, buildErr] = buildSQLQuery(query, columns);
+    if (buildErr) return err(buildErr);
+    if (!isFreestyleQuery(query)) return previewData(client, sql);
+
+    const options = query.typed ? { typed: query.typed } : {};
+    const [dataFrame, queryErr] = await freestyleQuery(client, sql.sqlQuery, sql.limit, options);
+    if (queryErr) return err(queryErr);
+
+    // Columns come back in select list order.
+    if (dataFrame.columns.length === query.fields.length) {
+        dataFrame.columns = dataFrame.columns.map((column, i) => ({ ...column, source: fieldSource(query.fields[i]!) }));
+    }
+    return ok(dataFrame);
+}
+
+/**
+ * Get the column metadata of a table or view from a one-row preview
+ *
+ * @param client - ADT client
+ * @param objectName - Table or CDS view name
+ * @param objectType - 'table' or 'view'
+ * @param parameters - CDS view parameters
+ * @returns Columns or error
+ */
+export async function getPreviewColumns(
+    client: AdtRequestor,
+    objectName: string,
+    objectType: 'table' | 'view',
+    parameters: Parameter[] = []
+): AsyncResult<ColumnInfo[], Error> {
+    const [sqlQuery, buildErr] = buildSampleQuery(objectName, parameters);
+    if (buildErr) return err(buildErr);
+
+    const [dataFrame, previewErr] = await previewData(client, { objectName, objectType, sqlQuery, limit: 1 });
+    if (previewErr) return err(previewErr);
+    return ok(dataFrame.columns);
+}
@@ -6,7 +6,8 @@ import type { AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { AdtRequestor } from '../types';
 import { freestyleQuery } from './freestyle';
-import { type Parameter, parametersToSQLParams } from './queryBuilder';
+import { getPreviewColumns } from './dataPreview';
+import { type Parameter, buildDistinctQuery } from './queryBuilder';
 
 /**
  * Distinct values result
@@ -24,17 +25,21 @@ const MAX_ROW_COUNT = 50000;
 /**
  * Get distinct values for a column with counts, ordered by count descending
  *
- * Uses the freestyle endpoint which supports COUNT(*) and GROUP BY.
+ * Uses the freestyle endpoint which supports COUNT(*) and GROUP BY. The column
+ * is checked against the object's column metadata first.
  */
 export async function getDistinctValues(
     client: AdtRequestor,
     objectName: string,
     parameters: Parameter[],
     column: string,
-    _objectType: 'table' | 'view' = 'view'
+    objectType: 'table' | 'view' = 'view'
 ): AsyncResult<DistinctResult, Error> {
-    const columnName = column.toUpperCase();
-    const sqlQuery = `SELECT ${columnName} AS value, COUNT(*) AS value_count FROM ${objectName}${parametersToSQLParams(parameters)} GROUP BY ${columnName} ORDER BY value_count DESCENDING`;
+    const [columns, columnsErr] = await getPreviewColumns(client, objectName, objectType, parameters);
+    if (columnsErr) return err(columnsErr);
+
+    const [sqlQuery, buildErr] = buildDistinctQuery(objectName, parameters, column, columns);
+    if (buildErr) return err(buildErr);
 
     const [dataFrame, error] = await freestyleQuery(client, sqlQuery, MAX_ROW_COUNT);
 
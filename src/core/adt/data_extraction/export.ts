@@ -0,0 +1,182 @@
+/**
+ * Export — Serialize data preview results for download
+ *
+ * Serializers write a header, row chunks and a footer, so paged results
+ * can be streamed without holding the whole result. Formats:
+ * - csv: RFC 4180 (CRLF line breaks, quoted where needed), optional BOM
+ * - ndjson: one JSON object per row, keyed by column name
+ * - columnar: `{ columns, data: { [column]: values[] }, rowCount }` (buffers all rows)
+ *
+ * JSON formats write bigint values as decimal strings and key duplicate
+ * column names of joins by their source (`t.NAME`, else `NAME_2`).
+ */
+
+import type { ColumnInfo, DataFrame } from './previewParser';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'columnar';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'ndjson', 'columnar'];
+
+/**
+ * CSV options
+ */
+export interface CsvOptions {
+    /** Field delimiter (default: ',') */
+    delimiter?: string;
+    /** Prefix a UTF-8 byte order mark (lets Excel detect the encoding) */
+    bom?: boolean;
+    /** Write a header line with the column names (default: true) */
+    header?: boolean;
+}
+
+/**
+ * Column-oriented result (columnar export)
+ */
+export interface ColumnarFrame {
+    /** Columns, named by their key in `data` */
+    columns: ColumnInfo[];
+    /** Values per column name */
+    data: Record<string, unknown[]>;
+    rowCount: number;
+}
+
+/**
+ * Incremental serializer for one export
+ */
+export interface ExportSerializer {
+    format: ExportFormat;
+    contentType: string;
+    fileExtension: string;
+    /** Whether rows are written as they arrive (columnar output waits for end()) */
+    streaming: boolean;
+    begin(columns: ColumnInfo[]): string;
+    rows(rows: unknown[][]): string;
+    end(): string;
+}
+
+/**
+ * Create a serializer for an export format
+ *
+ * @param format - Export format
+ * @param options - CSV options (ignored by other formats)
+ * @returns Serializer (use a new one per export)
+ */
+export function createExportSerializer(format: ExportFormat, options: CsvOptions = {}): ExportSerializer {
+    if (format === 'csv') return createCsvSerializer(options);
+    if (format === 'ndjson') return createNdjsonSerializer();
+    return createColumnarSerializer();
+}
+
+/**
+ * Serialize a DataFrame as RFC 4180 CSV
+ */
+export function toCsv(frame: DataFrame, options: CsvOptions = {}): string {
+    return serialize(createCsvSerializer(options), frame);
+}
+
+/**
+ * Serialize a DataFrame as NDJSON (one object per row)
+ */
+export function toNdjson(frame: DataFrame): string {
+    return serialize(createNdjsonSerializer(), frame);
+}
+
+/**
+ * Convert a DataFrame to column-oriented form
+ */
+export function toColumnar(frame: DataFrame): ColumnarFrame {
+    const names = uniqueNames(frame.columns);
+    const columns = frame.columns.map((column, i) => (column.name === names[i] ? column : { ...column, name: names[i]! }));
+    const data: Record<string, unknown[]> = {};
+    names.forEach((name, i) => {
+        data[name] = frame.rows.map(row => row[i] ?? null);
+    });
+    return { columns, data, rowCount: frame.rows.length };
+}
+
+function serialize(serializer: ExportSerializer, frame: DataFrame): string {
+    return serializer.begin(frame.columns) + serializer.rows(frame.rows) + serializer.end();
+}
+
+function createCsvSerializer(options: CsvOptions): ExportSerializer {
+    const delimiter = options.delimiter ?? ',';
+    const line = (values: unknown[]) => `${values.map(v => csvField(v, delimiter)).join(delimiter)}\r\n`;
+
+    return {
+        format: 'csv',
+        contentType: 'text/csv; charset=utf-8',
+        fileExtension: 'csv',
+        streaming: true,
+        begin: (columns) => (options.bom ? '\uFEFF' : '') + (options.header === false ? '' : line(columns.map(c => c.name))),
+        rows: (rows) => rows.map(line).join(''),
+        end: () => '',
+    };
+}
+
+function createNdjsonSerializer(): ExportSerializer {
+    let names: string[] = [];
+
+    return {
+        format: 'ndjson',
+        contentType: 'application/x-ndjson; charset=utf-8',
+        fileExtension: 'ndjson',
+        streaming: true,
+        begin: (columns) => {
+            names = uniqueNames(columns);
+            return '';
+        },
+        rows: (rows) => rows.map(row => `${JSON.stringify(rowObject(names, row), jsonValue)}\n`).join(''),
+        end: () => '',
+    };
+}
+
+function createColumnarSerializer(): ExportSerializer {
+    let frame: DataFrame = { columns: [], rows: [] };
+
+    return {
+        format: 'columnar',
+        contentType: 'application/json; charset=utf-8',
+        fileExtension: 'json',
+        streaming: false,
+        begin: (columns) => {
+            frame = { columns, rows: [] };
+            return '';
+        },
+        rows: (rows) => {
+            for (const row of rows) frame.rows.push(row);
+            return '';
+        },
+        end: () => JSON.stringify(toColumnar(frame), jsonValue),
+    };
+}
+
+// Quote fields containing the delimiter, quotes or line breaks (RFC 4180).
+function csvField(value: unknown, delimiter: string): string {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (text.includes(delimiter) || /["\r\n]/.test(text)) return `"${text.replace(/"/g, '""')}"`;
+    return text;
+}
+
+// JSON has no bigint (typed INT8 values); write its exact digits as a string.
+function jsonValue(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+// Unique keys for columns: later duplicates are qualified by their source, else numbered.
+function uniqueNames(columns: ColumnInfo[]): string[] {
+    const used = new Set<string>();
+    return columns.map(({ name, source }) => {
+        let unique = name;
+        if (used.has(unique) && source) unique = `${source}.${name}`;
+        for (let n = 2; used.has(unique); n++) unique = `${name}_${n}`;
+        used.add(unique);
+        return unique;
+    });
+}
+
+function rowObject(names: string[], row: unknown[]): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    names.forEach((name, i) => { object[name] = row[i] ?? null; });
+    return object;
+}
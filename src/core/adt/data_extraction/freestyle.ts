@@ -8,7 +8,7 @@
 import type { AsyncResult } from '../../../types/result';
 import { ok, err } from '../../../types/result';
 import type { AdtRequestor } from '../types';
-import type { DataFrame } from './previewParser';
+import type { DataFrame, PreviewParseOptions } from './previewParser';
 import { extractError } from '../../utils/xml';
 import { debug } from '../../utils/logging';
 import { parseDataPreview } from './previewParser';
@@ -21,12 +21,14 @@ const DEFAULT_ROW_LIMIT = 100;
  * @param client - ADT client
  * @param sqlQuery - OpenSQL SELECT statement
  * @param limit - Max rows to return (default 100)
+ * @param options - Parse options (typed values)
  * @returns DataFrame or error
  */
 export async function freestyleQuery(
     client: AdtRequestor,
     sqlQuery: string,
-    limit = DEFAULT_ROW_LIMIT
+    limit = DEFAULT_ROW_LIMIT,
+    options: PreviewParseOptions = {}
 ): AsyncResult<DataFrame, Error> {
     debug(`Freestyle query: ${sqlQuery}`);
 
@@ -53,7 +55,7 @@ export async function freestyleQuery(
     }
 
     const text = await response.text();
-    const [dataFrame, parseErr] = parseDataPreview(text, limit, true);
+    const [dataFrame, parseErr] = parseDataPreview(text, limit, true, options);
     if (parseErr) return err(parseErr);
 
     return ok(dataFrame);
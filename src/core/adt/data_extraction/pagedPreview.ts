@@ -0,0 +1,98 @@
+/**
+ * Paged Preview — Walk large tables page by page (keyset paging)
+ *
+ * The data preview endpoint has no offset, so each page continues after
+ * the last row of the previous one with a key-range predicate on the
+ * query's sort fields. The sort fields must identify rows uniquely
+ * (e.g., the table key), or rows with equal keys at page borders are skipped.
+ */
+
+import type { Result } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { AdtRequestor } from '../types';
+import type { ColumnInfo, DataFrame } from './previewParser';
+import type { DataPreviewQuery, DecimalLiteral, QueryFilter, Sorting } from './queryBuilder';
+import { fieldName, fieldSource } from './queryBuilder';
+import { previewQuery } from './dataPreview';
+import { toAbapValue } from './previewParser';
+
+/** Default rows per page */
+export const DEFAULT_PAGE_SIZE = 1000;
+
+/** Maximum rows per page (data preview row limit) */
+export const MAX_PAGE_SIZE = 50000;
+
+/**
+ * Iterate over the result of a query page by page
+ *
+ * Yields one DataFrame per page and stops after the last page, after
+ * `query.limit` rows (if set) or after the first error.
+ *
+ * @param client - ADT client
+ * @param query - Query with sortings on unique key fields
+ * @param pageSize - Rows per page (default: 1000)
+ * @param columns - Column metadata to whitelist field names against
+ * @returns Async iterator of pages or errors
+ */
+export async function* previewDataPages(
+    client: AdtRequestor,
+    query: DataPreviewQuery,
+    pageSize: number = DEFAULT_PAGE_SIZE,
+    columns?: ColumnInfo[]
+): AsyncGenerator<Result<DataFrame, Error>> {
+    const sortings = query.sortings ?? [];
+    if (sortings.length === 0) {
+        yield err(new Error('Paged preview requires sortings on key fields'));
+        return;
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        yield err(new Error(`Page size must be between 1 and ${MAX_PAGE_SIZE}`));
+        return;
+    }
+
+    let remaining = query.limit ?? Infinity;
+    let after: QueryFilter | null = null;
+
+    while (remaining > 0) {
+        // Build the next page's query.
+        const filters = after ? [...(query.filters ?? []), after] : query.filters ?? [];
+        const [page, previewErr] = await previewQuery(client, { ...query, filters, limit: Math.min(pageSize, remaining) }, columns);
+        if (previewErr) {
+            yield err(previewErr);
+            return;
+        }
+
+        if (page.rows.length > 0) yield ok(page);
+        if (page.rows.length < Math.min(pageSize, remaining)) return;
+        remaining -= page.rows.length;
+
+        // Continue after the last row.
+        const [keyRange, keyErr] = keyRangeAfter(page, sortings);
+        if (keyErr) {
+            yield err(keyErr);
+            return;
+        }
+        after = keyRange;
+    }
+}
+
+/**
+ * Key-range filter selecting the rows after the last row of a page
+ */
+export function keyRangeAfter(page: DataFrame, keys: Sorting[]): Result<QueryFilter, Error> {
+    const lastRow = page.rows[page.rows.length - 1];
+    if (!lastRow) return err(new Error('Cannot continue after an empty page'));
+
+    const after: (string | number | DecimalLiteral)[] = [];
+    for (const key of keys) {
+        // View columns use camel case names; joined fields are qualified.
+        const [name, source] = [fieldName(key.field).toUpperCase(), fieldSource(key.field)];
+        const index = page.columns.findIndex(c => c.name.toUpperCase() === name && (c.source ?? source) === source);
+        if (index < 0) return err(new Error(`Sort field ${key.field} is not selected`));
+
+        // Typed cells are converted back to ABAP literals.
+        after.push(toAbapValue(lastRow[index], page.columns[index]!.dataType));
+    }
+
+    return ok({ type: 'keyRange', keys, after });
+}
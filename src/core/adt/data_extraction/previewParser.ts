@@ -6,7 +6,9 @@
 
 import type { Result } from '../../../types/result';
 import { ok, err } from '../../../types/result';
+import type { TypedValueOptions } from '../../../types/requests';
 import { safeParseXml } from '../../utils/xml';
+import type { DecimalLiteral } from './queryBuilder';
 
 /**
  * Data preview result (columnar format)
@@ -21,8 +23,36 @@ export interface ColumnInfo {
     name: string;
     dataType: string;
     label?: string;
+    /** Field length (characters or digits) */
+    length?: number;
+    /** Decimal places of packed numbers */
+    decimals?: number;
+    /** Source in joined queries: alias (`main`, `t`) or association path (`\_Customer`) */
+    source?: string;
 }
 
+/**
+ * Parse options
+ */
+export interface PreviewParseOptions {
+    /** Convert cells to JS values by ABAP type (default: raw trimmed strings) */
+    typed?: boolean | TypedValueOptions;
+}
+
+/** Value category of an ABAP type */
+export type AbapValueKind = 'integer' | 'int8' | 'decimal' | 'float' | 'date' | 'time' | 'timestamp' | 'boolean' | 'string';
+
+const VALUE_KINDS: Record<string, AbapValueKind> = {
+    I: 'integer', INT1: 'integer', INT2: 'integer', INT4: 'integer', B: 'integer', S: 'integer',
+    INT8: 'int8',
+    P: 'decimal', DEC: 'decimal', CURR: 'decimal', QUAN: 'decimal', D16N: 'decimal', D34N: 'decimal', DECFLOAT16: 'decimal', DECFLOAT34: 'decimal',
+    F: 'float', FLTP: 'float',
+    D: 'date', DATS: 'date', DATN: 'date',
+    T: 'time', TIMS: 'time', TIMN: 'time',
+    UTCL: 'timestamp', UTCLONG: 'timestamp',
+    BOOLEAN: 'boolean',
+};
+
 /**
  * Parse data preview XML response
  *
@@ -33,12 +63,14 @@ export interface ColumnInfo {
  * @param xml - XML response from SAP
  * @param maxRows - Maximum rows to parse
  * @param isTable - Whether source is a table (affects column name attribute)
+ * @param options - Typed value conversion (see TypedValueOptions)
  * @returns DataFrame or error
  */
 export function parseDataPreview(
     xml: string,
     maxRows: number,
-    isTable: boolean
+    isTable: boolean,
+    options: PreviewParseOptions = {}
 ): Result<DataFrame, Error> {
     // Parse XML response.
     const [doc, parseErr] = safeParseXml(xml);
@@ -60,7 +92,14 @@ export function parseDataPreview(
         const dataType = meta.getAttributeNS(namespace, 'colType') || meta.getAttribute('colType');
         if (!name || !dataType) continue;
 
-        columns.push({ name, dataType });
+        const column: ColumnInfo = { name, dataType };
+        const label = meta.getAttributeNS(namespace, 'description') || meta.getAttribute('description');
+        if (label) column.label = label;
+        const length = parseInt(meta.getAttributeNS(namespace, 'length') || meta.getAttribute('length') || '', 10);
+        if (!isNaN(length)) column.length = length;
+        const decimals = parseInt(meta.getAttributeNS(namespace, 'decimals') || meta.getAttribute('decimals') || '', 10);
+        if (!isNaN(decimals)) column.decimals = decimals;
+        columns.push(column);
     }
 
     // Extract data values organized by column.
@@ -101,12 +140,17 @@ export function parseDataPreview(
     }
 
     // Transform column-oriented data into row-oriented format.
+    const typed = options.typed === true ? {} : options.typed || null;
+    const converters = columns.map(column => typed ? createValueConverter(column.dataType, typed) : null);
+
     const rows: unknown[][] = [];
     const rowCount = columnData[0]?.length || 0;
     for (let i = 0; i < Math.min(rowCount, maxRows); i++) {
         const row: unknown[] = [];
         for (let j = 0; j < columns.length; j++) {
-            row.push(columnData[j]![i]);
+            const value = columnData[j]![i];
+            const convert = converters[j];
+            row.push(convert && value !== undefined ? convert(value) : value);
         }
         rows.push(row);
     }
@@ -120,3 +164,102 @@ export function parseDataPreview(
 
     return ok(dataFrame);
 }
+
+/**
+ * Value category of an ABAP type (case-insensitive)
+ */
+export function abapValueKind(dataType: string): AbapValueKind {
+    return VALUE_KINDS[dataType.toUpperCase()] ?? 'string';
+}
+
+/**
+ * Create a converter from raw preview strings to typed values
+ *
+ * @param dataType - ABAP type of the column
+ * @param options - Conversion options
+ * @returns Converter for single cells
+ */
+export function createValueConverter(dataType: string, options: TypedValueOptions = {}): (raw: string) => unknown {
+    const kind = abapValueKind(dataType);
+    const initialAsNull = options.initialAsNull ?? false;
+
+    switch (kind) {
+        case 'integer':
+        case 'float':
+            return (raw) => {
+                const value = Number(normalizeSign(raw) || 0);
+                return value === 0 && initialAsNull ? null : value;
+            };
+        case 'int8':
+            return (raw) => {
+                const digits = normalizeSign(raw).replace(/^(-?)0+(?=\d)/, '$1') || '0';
+                if (digits === '0' && initialAsNull) return null;
+                return options.int8 === 'bigint' ? BigInt(digits) : digits;
+            };
+        case 'decimal':
+            return (raw) => {
+                const decimal = normalizeSign(raw) || '0';
+                if (Number(decimal) === 0 && initialAsNull) return null;
+                return options.decimals === 'string' ? decimal : Number(decimal);
+            };
+        case 'date':
+            return (raw) => {
+                const digits = raw.replace(/-/g, '') || '00000000';
+                if (!/^\d{8}$/.test(digits)) return null;
+                if (digits === '00000000' && initialAsNull) return null;
+                return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+            };
+        case 'time':
+            return (raw) => {
+                const digits = raw.replace(/:/g, '');
+                if (!/^\d{6}$/.test(digits)) return null;
+                if (digits === '000000' && initialAsNull) return null;
+                return `${digits.slice(0, 2)}:${digits.slice(2, 4)}:${digits.slice(4, 6)}`;
+            };
+        case 'timestamp':
+            return (raw) => {
+                const date = new Date(raw.replace(' ', 'T').replace(/(\d)$/, '$1Z').replace(/,/, '.'));
+                return raw === '' || isNaN(date.getTime()) ? null : date.toISOString();
+            };
+        case 'boolean':
+            return (raw) => {
+                const value = raw === 'X' || raw.toLowerCase() === 'true';
+                return !value && initialAsNull ? null : value;
+            };
+        default:
+            return (raw) => (raw === '' && initialAsNull ? null : raw);
+    }
+}
+
+/**
+ * Convert a (typed or raw) cell back to an ABAP SQL literal value
+ *
+ * Used to build key-range predicates from preview rows. INT8 and packed
+ * numbers keep their exact digits (raw cells, or typed with `int8: 'string'`
+ * or `decimals: 'string'`); typed numbers are rendered as they are.
+ */
+export function toAbapValue(value: unknown, dataType: string): string | number | DecimalLiteral {
+    const kind = abapValueKind(dataType);
+
+    if (kind === 'integer' || kind === 'float' || kind === 'decimal' || kind === 'int8') {
+        if (value === null || value === undefined || value === '') return 0;
+        if (typeof value === 'number') return value;
+        const exact = kind === 'int8' || kind === 'decimal';
+        return exact ? { decimal: normalizeSign(String(value)) } : Number(normalizeSign(String(value)));
+    }
+    if (value === null || value === undefined) {
+        if (kind === 'date') return '00000000';
+        if (kind === 'time') return '000000';
+        return '';
+    }
+    if (kind === 'date') return String(value).replace(/-/g, '');
+    if (kind === 'time') return String(value).replace(/:/g, '');
+    if (typeof value === 'boolean') return value ? 'X' : '';
+    return String(value);
+}
+
+// Move trailing minus signs (ABAP output format '12.50-') to the front.
+function normalizeSign(raw: string): string {
+    const trimmed = raw.trim();
+    return trimmed.endsWith('-') ? `-${trimmed.slice(0, -1)}` : trimmed;
+}
@@ -0,0 +1,264 @@
+/**
+ * Column Profile — Statistics and histograms of table/view columns
+ *
+ * Uses the freestyle endpoint for aggregates: one query reads the column
+ * types, one computes the statistics of all columns, and one counts the
+ * histogram buckets of numeric and date columns and sums the squared
+ * deviations of numeric columns from their mean.
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { AdtRequestor } from '../types';
+import type { AbapValueKind, DataFrame } from './previewParser';
+import type { Parameter } from './queryBuilder';
+import { abapValueKind, createValueConverter } from './previewParser';
+import { isIdentifier, parametersToSQLParams, quoteString, validateQuery } from './queryBuilder';
+import { freestyleQuery } from './freestyle';
+import { SqlValidationError } from '../../utils/sql';
+
+/**
+ * Histogram bucket: values from `from` (inclusive) to `to` (exclusive)
+ */
+export interface HistogramBucket {
+    /** Number, or ISO date for date columns */
+    from: number | string;
+    to: number | string;
+    count: number;
+}
+
+/**
+ * Profile of one column
+ */
+export interface ColumnProfile {
+    column: string;
+    dataType: string;
+    rowCount: number;
+    nullCount: number;
+    /** Rows with the initial value of the type ('', 0, 00000000) */
+    initialCount: number;
+    distinctCount: number;
+    /** Smallest value (typed; dates ignore initial dates) */
+    min?: unknown;
+    /** Largest value (typed) */
+    max?: unknown;
+    /** Mean of numeric columns */
+    mean?: number;
+    /** Population standard deviation of numeric columns */
+    stddev?: number;
+    /** Buckets of numeric and date columns */
+    histogram?: HistogramBucket[];
+}
+
+/**
+ * Profile options
+ */
+export interface ProfileOptions {
+    /** Maximum histogram buckets (default: 10) */
+    buckets?: number;
+}
+
+const DEFAULT_BUCKETS = 10;
+
+const NUMERIC_KINDS: AbapValueKind[] = ['integer', 'int8', 'decimal', 'float'];
+
+// Bucket with its SQL condition
+type Bucket = HistogramBucket & { condition: string };
+
+/**
+ * Profile columns of a table or view
+ *
+ * @param client - ADT client
+ * @param objectName - Table or CDS view name
+ * @param columns - Columns to profile
+ * @param parameters - CDS view parameters
+ * @param options - Histogram options
+ * @returns One profile per column or error
+ */
+export async function profileColumns(
+    client: AdtRequestor,
+    objectName: string,
+    columns: string[],
+    parameters: Parameter[] = [],
+    options: ProfileOptions = {}
+): AsyncResult<ColumnProfile[], Error> {
+    const [, validationErr] = validateQuery({ objectName, objectType: 'view', fields: columns, parameters });
+    if (validationErr) return err(validationErr);
+
+    // Only plain columns of the object itself.
+    const invalid = columns.find(c => !isIdentifier(c));
+    if (invalid) return err(new SqlValidationError(`Invalid column name: ${invalid}`));
+
+    const source = `${objectName}${parametersToSQLParams(parameters)}`;
+    const bucketCount = options.buckets ?? DEFAULT_BUCKETS;
+
+    // Column types from a one-row select.
+    const [sample, sampleErr] = await freestyleQuery(client, `SELECT ${columns.join(', ')} FROM ${source}`, 1);
+    if (sampleErr) return err(new Error(`Profile query failed: ${sampleErr.message}`));
+    const dataTypes = columns.map((_, i) => sample.columns[i]?.dataType ?? 'C');
+
+    // Statistics of all columns in one row.
+    const [stats, statsErr] = await freestyleQuery(client, buildStatsQuery(source, columns, dataTypes), 1);
+    if (statsErr) return err(new Error(`Profile query failed: ${statsErr.message}`));
+
+    const row = firstRow(stats);
+    const profiles = columns.map((column, i) => toProfile(column, dataTypes[i]!, row, i));
+
+    // Histograms of numeric and date columns, deviations of numeric columns.
+    const buckets = profiles.map((profile, i) => histogramBuckets(columns[i]!, profile, row, i, bucketCount));
+    const shifts = profiles.map(profile => profile.mean === undefined ? null : meanShift(profile.mean));
+    const selections = [
+        ...buckets.flatMap((list, i) => list.map((bucket, j) => `SUM( CASE WHEN ${bucket.condition} THEN 1 ELSE 0 END ) AS H${i}_${j}`)),
+        ...shifts.flatMap((shift, i) => shift === null ? [] : [deviationSelection(columns[i]!, shift, i)]),
+    ];
+    if (selections.length === 0) return ok(profiles);
+
+    const [distribution, distributionErr] = await freestyleQuery(client, `SELECT ${selections.join(', ')} FROM ${source}`, 1);
+    if (distributionErr) return err(new Error(`Profile query failed: ${distributionErr.message}`));
+
+    const counts = firstRow(distribution);
+    buckets.forEach((list, i) => {
+        if (list.length === 0) return;
+        profiles[i]!.histogram = list.map(({ from, to }, j) => ({ from, to, count: toInt(counts[`H${i}_${j}`]) }));
+    });
+    shifts.forEach((shift, i) => {
+        if (shift === null) return;
+        const profile = profiles[i]!;
+        const squares = parseFloat(counts[`SQ${i}`] ?? '');
+        const values = profile.rowCount - profile.nullCount;
+        const offset = profile.mean! - shift;
+        if (!isNaN(squares)) profile.stddev = Math.sqrt(Math.max(0, squares / values - offset * offset));
+    });
+    return ok(profiles);
+}
+
+function buildStatsQuery(source: string, columns: string[], dataTypes: string[]): string {
+    const selections = ['COUNT(*) AS ROW_COUNT'];
+    columns.forEach((column, i) => {
+        const kind = abapValueKind(dataTypes[i]!);
+        selections.push(
+            `COUNT( DISTINCT ${column} ) AS D${i}`,
+            `SUM( CASE WHEN ${column} IS NULL THEN 1 ELSE 0 END ) AS N${i}`,
+            `SUM( CASE WHEN ${column} = ${initialLiteral(kind)} THEN 1 ELSE 0 END ) AS I${i}`
+        );
+
+        // Initial dates would always be the minimum.
+        const min = kind === 'date' ? `CASE WHEN ${column} <> '00000000' THEN ${column} END` : column;
+        selections.push(`MIN( ${min} ) AS MIN${i}`, `MAX( ${column} ) AS MAX${i}`);
+
+        if (NUMERIC_KINDS.includes(kind)) {
+            selections.push(`AVG( ${column} AS FLTP ) AS AVG${i}`);
+        }
+    });
+    return `SELECT ${selections.join(', ')} FROM ${source}`;
+}
+
+function initialLiteral(kind: AbapValueKind): string {
+    if (NUMERIC_KINDS.includes(kind)) return '0';
+    if (kind === 'date') return "'00000000'";
+    if (kind === 'time') return "'000000'";
+    return "''";
+}
+
+function toProfile(column: string, dataType: string, row: Record<string, string>, i: number): ColumnProfile {
+    const profile: ColumnProfile = {
+        column,
+        dataType,
+        rowCount: toInt(row['ROW_COUNT']),
+        nullCount: toInt(row[`N${i}`]),
+        initialCount: toInt(row[`I${i}`]),
+        distinctCount: toInt(row[`D${i}`]),
+    };
+
+    const convert = createValueConverter(dataType);
+    const [min, max] = [row[`MIN${i}`], row[`MAX${i}`]];
+    if (min) profile.min = convert(min);
+    if (max) profile.max = convert(max);
+
+    const values = profile.rowCount - profile.nullCount;
+    const mean = parseFloat(row[`AVG${i}`] ?? '');
+    if (!isNaN(mean) && values > 0) profile.mean = mean;
+    return profile;
+}
+
+// Whole number near the mean to measure deviations from (ABAP SQL has no
+// decimal literals); what remains of the mean is at most 0.5.
+function meanShift(mean: number): number {
+    const shift = Math.round(mean);
+    return Number.isSafeInteger(shift) ? shift : 0;
+}
+
+// Sum of squared deviations from the shift. Population variance is their mean
+// minus the squared offset of the mean from the shift; unlike the mean of
+// squares minus the squared mean, this does not cancel out for large values.
+function deviationSelection(column: string, shift: number, i: number): string {
+    const deviation = `( CAST( ${column} AS FLTP ) - CAST( ${shift} AS FLTP ) )`;
+    return `SUM( ${deviation} * ${deviation} ) AS SQ${i}`;
+}
+
+// Equal-width buckets with whole-number bounds (ABAP SQL has no decimal literals).
+function histogramBuckets(column: string, profile: ColumnProfile, row: Record<string, string>, i: number, count: number): Bucket[] {
+    const kind = abapValueKind(profile.dataType);
+    const [min, max] = [row[`MIN${i}`], row[`MAX${i}`]];
+    if (!min || !max || count < 1) return [];
+
+    if (NUMERIC_KINDS.includes(kind)) {
+        return integerBuckets(Number(normalizeNumber(min)), Number(normalizeNumber(max)), count)
+            .map(([from, to]) => ({ from, to, count: 0, condition: `${column} >= ${quoteString(from)} AND ${column} < ${quoteString(to)}` }));
+    }
+    if (kind === 'date') {
+        const [first, last] = [toDay(min), toDay(max)];
+        if (first === null || last === null) return [];
+        return integerBuckets(first, last, count).map(([from, to]) => ({
+            from: isoDate(from),
+            to: isoDate(to),
+            count: 0,
+            condition: `${column} >= ${quoteString(abapDate(from))} AND ${column} < ${quoteString(abapDate(to))}`,
+        }));
+    }
+    return [];
+}
+
+// Half-open [from, to) ranges covering min..max, at most `count` of them.
+function integerBuckets(min: number, max: number, count: number): [number, number][] {
+    if (!Number.isFinite(min) || !Number.isFinite(max)) return [];
+
+    const start = Math.floor(min);
+    const width = Math.floor((max - start) / count) + 1;
+    const buckets: [number, number][] = [];
+    for (let from = start; from <= max; from += width) buckets.push([from, from + width]);
+    return buckets;
+}
+
+// ABAP numbers may carry a trailing sign (e.g., '12.50-').
+function normalizeNumber(raw: string): string {
+    const value = raw.trim();
+    return value.endsWith('-') ? `-${value.slice(0, -1)}` : value;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function toDay(raw: string): number | null {
+    const match = /^(\d{4})(\d{2})(\d{2})$/.exec(raw.trim());
+    if (!match) return null;
+    return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY;
+}
+
+function isoDate(day: number): string {
+    return new Date(day * DAY).toISOString().slice(0, 10);
+}
+
+function abapDate(day: number): string {
+    return isoDate(day).replace(/-/g, '');
+}
+
+function firstRow(frame: DataFrame): Record<string, string> {
+    const record: Record<string, string> = {};
+    frame.columns.forEach((column, i) => { record[column.name.toUpperCase()] = String(frame.rows[0]?.[i] ?? ''); });
+    return record;
+}
+
+function toInt(value: string | undefined): number {
+    const parsed = parseInt(value ?? '', 10);
+    return isNaN(parsed) ? 0 : parsed;
+}
@@ -1,12 +1,62 @@
 /**
- * Query Builder — Optional helper for building SQL queries for data preview
+ * Query Builder — Structured queries rendered to OpenSQL for data preview
+ *
+ * Queries are validated before rendering: object, field and parameter
+ * names must be plain ABAP identifiers (optionally namespaced, `/ABC/NAME`),
+ * and with column metadata the fields must exist on the object. Literals
+ * are always escaped, so no user input reaches the SQL text unchecked.
+ *
+ * Fields of the main object are plain names (`MATNR`). Queries with joins
+ * qualify fields of joined sources with their alias (`t~MAKTX`), and CDS
+ * association paths follow the main view's associations (`\_Customer-Name`).
+ * Such queries only run on the freestyle endpoint (see isFreestyleQuery).
  */
 
 import { type Result, ok, err } from '../../../types/result';
-import type { PreviewSQL } from '../../../types/requests';
+import type { PreviewSQL, TypedValueOptions } from '../../../types/requests';
+import type { ColumnInfo } from './previewParser';
+import { SqlValidationError } from '../../utils/sql';
 
-export function quoteString(value: string | number): string {
-    return typeof value == "string" ? "'" + value + "'" : "" + value;
+// Exact numeric literal, rendered from its decimal text (INT8 and packed numbers beyond double precision)
+export type DecimalLiteral = { decimal: string };
+
+export function quoteString(value: string | number | DecimalLiteral): string {
+    if (typeof value == "object") return value.decimal;
+    return typeof value == "string" ? "'" + value.replace(/'/g, "''") + "'" : "" + value;
+}
+
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+// Identifiers: NAME or /NAMESPACE/NAME
+const IDENTIFIER = /^(\/[A-Za-z0-9_]+\/)?[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isIdentifier(name: string): boolean {
+    return IDENTIFIER.test(name);
+}
+
+// Field references: alias~FIELD (qualified) or \_Assoc[\_Assoc...]-FIELD (association path)
+const QUALIFIED_FIELD = /^([A-Za-z_][A-Za-z0-9_]*)~(.+)$/;
+const PATH_FIELD = /^((?:\\[A-Za-z_][A-Za-z0-9_]*)+)-([A-Za-z_][A-Za-z0-9_]*)$/;
+
+/**
+ * Column name of a field reference (`t~MAKTX` and `\_Material-MAKTX` are both MAKTX)
+ */
+export function fieldName(field: string): string {
+    return QUALIFIED_FIELD.exec(field)?.[2] ?? PATH_FIELD.exec(field)?.[2] ?? field;
+}
+
+/**
+ * Source of a field reference: the alias (`main` for plain fields) or the association path
+ */
+export function fieldSource(field: string): string {
+    return QUALIFIED_FIELD.exec(field)?.[1] ?? PATH_FIELD.exec(field)?.[1] ?? "main";
+}
+
+// Fully qualified form for the select list and joined queries.
+function qualifiedField(field: string): string {
+    if (PATH_FIELD.test(field)) return `main${field}`;
+    if (QUALIFIED_FIELD.test(field)) return field;
+    return `main~${field}`;
 }
 
 // Where Clause Types and Converters
@@ -17,6 +67,8 @@ export type BasicFilter = {
     operator: "=" | "<>" | "<" | "<=" | ">" | ">=" | "like" | "not like";
 }
 
+const OPERATORS: ReadonlySet<string> = new Set<BasicFilter["operator"]>(["=", "<>", "<", "<=", ">", ">=", "like", "not like"]);
+
 export function basicFilterToWhere(filter: BasicFilter): string {
     return `${filter.field} ${filter.operator} ${quoteString(filter.value)}`;
 }
@@ -43,12 +95,52 @@ export function listFilterToWhere(filter: ListFilter): string {
     return `${filter.field} ${filter.include ? "" : "not "}in ( ${filter.values.map(quoteString).join(", ")} )`;
 }
 
-export type QueryFilter = BasicFilter | BetweenFilter | ListFilter;
+// Rows after a key position in sort order (keyset paging)
+export type KeyRangeFilter = {
+    type: "keyRange";
+    keys: Sorting[];
+    after: (string | number | DecimalLiteral)[];
+}
+
+export function keyRangeFilterToWhere(filter: KeyRangeFilter): string {
+    // (k1 > v1) or (k1 = v1 and k2 > v2) or ...
+    const alternatives = filter.keys.map((key, i) => {
+        const equal = filter.keys.slice(0, i).map((k, j) => `${k.field} = ${quoteString(filter.after[j]!)}`);
+        const operator = key.direction === "descending" ? "<" : ">";
+        return [...equal, `${key.field} ${operator} ${quoteString(filter.after[i]!)}`].join(" and ");
+    });
+    return `( ${alternatives.map(a => `( ${a} )`).join(" or ")} )`;
+}
+
+// Nested conditions: all (and) or any (or) of the filters, or the negation of one
+export type FilterGroup = {
+    type: "and" | "or";
+    filters: QueryFilter[];
+}
+
+export type NotFilter = {
+    type: "not";
+    filter: QueryFilter;
+}
+
+export type QueryFilter = BasicFilter | BetweenFilter | ListFilter | KeyRangeFilter | FilterGroup | NotFilter;
 
 function queryFilterToWhere(filter: QueryFilter): string {
-    if (filter.type === "list") return listFilterToWhere(filter);
-    if (filter.type === "between") return betweenFilterToWhere(filter);
-    return basicFilterToWhere(filter);
+    switch (filter.type) {
+        case "and":
+        case "or":
+            return `( ${filter.filters.map(queryFilterToWhere).join(` ${filter.type} `)} )`;
+        case "not":
+            return `not ( ${queryFilterToWhere(filter.filter)} )`;
+        case "keyRange":
+            return keyRangeFilterToWhere(filter);
+        case "list":
+            return listFilterToWhere(filter);
+        case "between":
+            return betweenFilterToWhere(filter);
+        case "basic":
+            return basicFilterToWhere(filter);
+    }
 }
 
 export function queryFiltersToWhere(filters: QueryFilter[]): string {
@@ -62,6 +154,8 @@ export type Sorting = {
     direction: "ascending" | "descending";
 }
 
+const DIRECTIONS: ReadonlySet<string> = new Set<Sorting["direction"]>(["ascending", "descending"]);
+
 export function sortingsToOrderBy(sortings: Sorting[]): string {
     if (sortings.length === 0) return "";
     return `\norder by ${sortings.map(s => `${s.field} ${s.direction}`).join(", ")}`;
@@ -73,16 +167,19 @@ export type Aggregation = {
     function: "count" | "sum" | "avg" | "min" | "max";
 }
 
+const AGGREGATE_FUNCTIONS: ReadonlySet<string> = new Set<Aggregation["function"]>(["count", "sum", "avg", "min", "max"]);
+
 export function fieldsToGroupbyClause(fields: string[]): string {
     if (fields.length === 0) return "";
     return `\ngroup by ${fields.join(", ")}`;
 }
 
 export function aggregationToFieldDefinition(aggregation: Aggregation): string {
+    const [field, name] = [qualifiedField(aggregation.field), fieldName(aggregation.field)];
     if (aggregation.function === "count") {
-        return `count( distinct main~${aggregation.field} ) as ${aggregation.field}`;
+        return `count( distinct ${field} ) as ${name}`;
     }
-    return `${aggregation.function}( main~${aggregation.field} ) as ${aggregation.field}`;
+    return `${aggregation.function}( ${field} ) as ${name}`;
 }
 
 // Parameter Types
@@ -96,6 +193,32 @@ export function parametersToSQLParams(params: Parameter[]): string {
     return `( ${params.map(p => `${p.name} = ${quoteString(p.value)}`).join(", ")})`;
 }
 
+// Join Types and Converters
+export type JoinType = "inner" | "left outer" | "right outer";
+
+const JOIN_TYPES: ReadonlySet<string> = new Set<JoinType>(["inner", "left outer", "right outer"]);
+
+// ON condition: a field of the joined source equals a field of another source or a literal
+export type JoinCondition =
+    | { field: string; otherField: string }
+    | { field: string; value: string | number };
+
+export type Join = {
+    type: JoinType;
+    objectName: string;
+    alias: string;
+    on: JoinCondition[];
+    parameters?: Parameter[];
+}
+
+export function joinToClause(join: Join): string {
+    const conditions = join.on.map(c => {
+        const right = "otherField" in c ? qualifiedField(c.otherField) : quoteString(c.value);
+        return `${join.alias}~${c.field} = ${right}`;
+    });
+    return `${join.type} join ${join.objectName}${parametersToSQLParams(join.parameters ?? [])} as ${join.alias} on ${conditions.join(" and ")}\n`;
+}
+
 // Query Type
 export type DataPreviewQuery = {
     objectName: string;
@@ -103,20 +226,205 @@ export type DataPreviewQuery = {
     limit?: number;
 
     fields: string[];
+    joins?: Join[];
     parameters?: Parameter[];
     filters?: QueryFilter[];
     sortings?: Sorting[];
     aggregations?: Aggregation[];
+    typed?: boolean | TypedValueOptions;
+}
+
+/**
+ * Whether a query needs the freestyle endpoint (joins or association paths)
+ */
+export function isFreestyleQuery(query: DataPreviewQuery): boolean {
+    return (query.joins?.length ?? 0) > 0 || query.fields.some(f => PATH_FIELD.test(f));
+}
+
+/**
+ * Validate a query before rendering
+ *
+ * Keywords (operators, sort directions, aggregate functions, join types) are
+ * checked at runtime as well, since they are rendered into the SQL text.
+ *
+ * @param query - Structured query
+ * @param columns - Column metadata of the object (whitelists field names, case-insensitive)
+ * @returns true or SqlValidationError
+ */
+export function validateQuery(query: DataPreviewQuery, columns?: ColumnInfo[]): Result<true, SqlValidationError> {
+    const sourceErr = checkSource(query.objectName, query.parameters ?? []);
+    if (sourceErr) return err(sourceErr);
+    if (query.fields.length === 0) {
+        return err(new SqlValidationError("At least one field must be selected."));
+    }
+
+    const [aliases, joinErr] = checkJoins(query.joins ?? []);
+    if (joinErr) return err(joinErr);
+
+    // Only fields of the main object can be checked against its columns.
+    const known = columns ? new Set(columns.map(c => c.name.toUpperCase())) : null;
+    const checkField = (field: string): SqlValidationError | null => {
+        if (PATH_FIELD.test(field)) return null;
+
+        const name = fieldName(field);
+        const source = fieldSource(field);
+        if (!isIdentifier(name)) return new SqlValidationError(`Invalid field name: ${field}`);
+        if (source !== "main" && !aliases.has(source.toUpperCase())) {
+            return new SqlValidationError(`Unknown source ${source} of field ${field}`);
+        }
+        if (source === "main" && known && !known.has(name.toUpperCase())) {
+            return new SqlValidationError(`Unknown field ${field} on ${query.objectName}`);
+        }
+        return null;
+    };
+
+    for (const sorting of query.sortings ?? []) {
+        if (!DIRECTIONS.has(sorting.direction)) return err(new SqlValidationError(`Invalid sort direction: ${sorting.direction}`));
+    }
+    for (const aggregation of query.aggregations ?? []) {
+        if (!AGGREGATE_FUNCTIONS.has(aggregation.function)) {
+            return err(new SqlValidationError(`Invalid aggregate function: ${aggregation.function}`));
+        }
+    }
+
+    const fields = [
+        ...query.fields,
+        ...(query.sortings ?? []).map(s => s.field),
+        ...(query.aggregations ?? []).map(a => a.field),
+    ];
+    for (const field of fields) {
+        const fieldErr = checkField(field);
+        if (fieldErr) return err(fieldErr);
+    }
+    for (const filter of query.filters ?? []) {
+        const filterErr = checkFilter(filter, checkField);
+        if (filterErr) return err(filterErr);
+    }
+    for (const join of query.joins ?? []) {
+        for (const condition of join.on) {
+            const conditionErr = "otherField" in condition
+                ? firstError([checkField(`${join.alias}~${condition.field}`), checkField(condition.otherField)])
+                : firstError([checkField(`${join.alias}~${condition.field}`), checkLiteral(condition.value)]);
+            if (conditionErr) return err(conditionErr);
+        }
+    }
+
+    if ((query.sortings ?? []).some(s => !query.fields.includes(s.field))) {
+        return err(new SqlValidationError("Sorting fields must be included in the selected fields."));
+    }
+    return ok(true);
+}
+
+function checkSource(objectName: string, parameters: Parameter[]): SqlValidationError | null {
+    if (!isIdentifier(objectName)) return new SqlValidationError(`Invalid object name: ${objectName}`);
+    for (const parameter of parameters) {
+        if (!isIdentifier(parameter.name)) return new SqlValidationError(`Invalid parameter name: ${parameter.name}`);
+        const literalErr = checkLiteral(parameter.value);
+        if (literalErr) return literalErr;
+    }
+    return null;
+}
+
+// Joined sources need unique aliases (other than main) and at least one ON condition.
+function checkJoins(joins: Join[]): Result<Set<string>, SqlValidationError> {
+    const aliases = new Set<string>();
+    for (const join of joins) {
+        const sourceErr = checkSource(join.objectName, join.parameters ?? []);
+        if (sourceErr) return err(sourceErr);
+        if (!JOIN_TYPES.has(join.type)) return err(new SqlValidationError(`Invalid join type: ${join.type}`));
+        if (!isIdentifier(join.alias) || join.alias.includes("/")) {
+            return err(new SqlValidationError(`Invalid alias: ${join.alias}`));
+        }
+
+        const alias = join.alias.toUpperCase();
+        if (alias === "MAIN" || aliases.has(alias)) return err(new SqlValidationError(`Duplicate alias: ${join.alias}`));
+        if (join.on.length === 0) return err(new SqlValidationError(`Join of ${join.objectName} needs an ON condition`));
+        aliases.add(alias);
+    }
+    return ok(aliases);
+}
+
+// Apply a field mapping to every field of a filter.
+function mapFilterFields(filter: QueryFilter, map: (field: string) => string): QueryFilter {
+    switch (filter.type) {
+        case "and":
+        case "or":
+            return { ...filter, filters: filter.filters.map(f => mapFilterFields(f, map)) };
+        case "not":
+            return { ...filter, filter: mapFilterFields(filter.filter, map) };
+        case "keyRange":
+            return { ...filter, keys: filter.keys.map(k => ({ ...k, field: map(k.field) })) };
+        default:
+            return { ...filter, field: map(filter.field) };
+    }
+}
+
+function checkFilter(filter: QueryFilter, checkField: (field: string) => SqlValidationError | null): SqlValidationError | null {
+    switch (filter.type) {
+        case "and":
+        case "or":
+            if (filter.filters.length === 0) return new SqlValidationError(`Empty ${filter.type} group`);
+            for (const nested of filter.filters) {
+                const nestedErr = checkFilter(nested, checkField);
+                if (nestedErr) return nestedErr;
+            }
+            return null;
+        case "not":
+            return checkFilter(filter.filter, checkField);
+        case "keyRange":
+            if (filter.keys.length === 0 || filter.keys.length !== filter.after.length) {
+                return new SqlValidationError("Key range needs one value per key");
+            }
+            if (filter.keys.some(k => !DIRECTIONS.has(k.direction))) return new SqlValidationError("Invalid key direction");
+            return firstError([...filter.keys.map(k => checkField(k.field)), ...filter.after.map(checkLiteral)]);
+        case "list":
+            if (filter.values.length === 0) return new SqlValidationError(`Empty value list for ${filter.field}`);
+            return firstError([checkField(filter.field), ...filter.values.map(checkLiteral)]);
+        case "between":
+            return firstError([checkField(filter.field), checkLiteral(filter.minimum), checkLiteral(filter.maximum)]);
+        case "basic":
+            if (!OPERATORS.has(filter.operator)) return new SqlValidationError(`Invalid operator: ${filter.operator}`);
+            if (filter.operator.endsWith("like") && typeof filter.value !== "string") {
+                return new SqlValidationError(`Pattern for ${filter.field} must be a string`);
+            }
+            return firstError([checkField(filter.field), checkLiteral(filter.value)]);
+        default:
+            return new SqlValidationError(`Invalid filter type: ${String((filter as { type: unknown }).type)}`);
+    }
+}
+
+// Numbers are rendered unquoted, so they must be plain finite numbers.
+function checkLiteral(value: string | number | DecimalLiteral): SqlValidationError | null {
+    if (typeof value === "number" && !Number.isFinite(value)) return new SqlValidationError(`Invalid number: ${value}`);
+    if (typeof value === "object" && !DECIMAL.test(value.decimal)) return new SqlValidationError(`Invalid number: ${value.decimal}`);
+    return null;
 }
 
-export function buildSQLQuery(query: DataPreviewQuery): Result<PreviewSQL> {
+function firstError(errors: (SqlValidationError | null)[]): SqlValidationError | null {
+    return errors.find(e => e !== null) ?? null;
+}
+
+/**
+ * Render a structured query to OpenSQL
+ *
+ * @param query - Structured query
+ * @param columns - Column metadata of the object; fields not on the object are rejected
+ * @returns Preview query or SqlValidationError
+ */
+export function buildSQLQuery(query: DataPreviewQuery, columns?: ColumnInfo[]): Result<PreviewSQL> {
+    const [, validationErr] = validateQuery(query, columns);
+    if (validationErr) return err(validationErr);
+
     // Isolate filters, sortings, and aggregations with defaults.
-    const [parameters, filters, sortings, aggregations] = [query.parameters ?? [], query.filters ?? [], query.sortings ?? [], query.aggregations ?? []];
-    const groupingFields = query.fields.filter(f => !aggregations.find(a => a.field === f));
+    const [parameters, joins, aggregations] = [query.parameters ?? [], query.joins ?? [], query.aggregations ?? []];
+    let [filters, sortings] = [query.filters ?? [], query.sortings ?? []];
+    let groupingFields = query.fields.filter(f => !aggregations.find(a => a.field === f));
 
-    // Do some validation.
-    if (sortings.filter(s => !query.fields.includes(s.field)).length > 0) {
-        return err(new Error("Sorting fields must be included in the selected fields."));
+    // Qualify all fields when other sources are involved.
+    if (isFreestyleQuery(query)) {
+        filters = filters.map(f => mapFilterFields(f, qualifiedField));
+        sortings = sortings.map(s => ({ ...s, field: qualifiedField(s.field) }));
+        groupingFields = groupingFields.map(qualifiedField);
     }
 
     // Build main field selection.
@@ -129,9 +437,10 @@ export function buildSQLQuery(query: DataPreviewQuery): Result<PreviewSQL> {
             fieldSelections.push(`\t${aggregationToFieldDefinition(aggregation)}`);
             continue;
         }
-        fieldSelections.push(`\tmain~${field}`);
+        fieldSelections.push(`\t${qualifiedField(field)}`);
     }
     selectClause += fieldSelections.join(",\n") + `\nfrom ${query.objectName}${parametersToSQLParams(parameters)} as main\n`;
+    selectClause += joins.map(joinToClause).join("");
 
     // Build the rest of the clauses.
     const [whereClause, groupbyClause, orderbyClause] = [queryFiltersToWhere(filters), aggregations.length ? fieldsToGroupbyClause(groupingFields) : "", sortingsToOrderBy(sortings)];
@@ -142,5 +451,46 @@ export function buildSQLQuery(query: DataPreviewQuery): Result<PreviewSQL> {
         sqlQuery: `${selectClause}${whereClause}${groupbyClause}${orderbyClause}`,
     };
     if (query.limit !== undefined) result.limit = query.limit;
+    if (query.typed !== undefined) result.typed = query.typed;
     return ok(result);
 }
+
+/**
+ * Render a distinct-values query (value and count per value, most frequent first)
+ *
+ * @param columns - Column metadata of the object; the column must be one of them
+ */
+export function buildDistinctQuery(objectName: string, parameters: Parameter[], column: string, columns: ColumnInfo[]): Result<string> {
+    const sourceErr = checkSource(objectName, parameters);
+    if (sourceErr) return err(sourceErr);
+    if (!isIdentifier(column)) return err(new SqlValidationError(`Invalid field name: ${column}`));
+
+    const columnName = column.toUpperCase();
+    if (!columns.some(c => c.name.toUpperCase() === columnName)) {
+        return err(new SqlValidationError(`Unknown field ${column} on ${objectName}`));
+    }
+    return ok(`SELECT ${columnName} AS value, COUNT(*) AS value_count FROM ${objectName}${parametersToSQLParams(parameters)} GROUP BY ${columnName} ORDER BY value_count DESCENDING`);
+}
+
+/**
+ * Render a row count query
+ *
+ * @param columns - Column metadata of the object; objects without columns are rejected
+ */
+export function buildCountQuery(objectName: string, parameters: Parameter[], columns: ColumnInfo[]): Result<string> {
+    const sourceErr = checkSource(objectName, parameters);
+    if (sourceErr) return err(sourceErr);
+    if (columns.length === 0) return err(new SqlValidationError(`No columns found on ${objectName}`));
+
+    return ok(`SELECT COUNT(*) AS row_count FROM ${objectName}${parametersToSQLParams(parameters)}`);
+}
+
+/**
+ * Render a query selecting all columns (used to read column metadata)
+ */
+export function buildSampleQuery(objectName: string, parameters: Parameter[]): Result<string> {
+    const sourceErr = checkSource(objectName, parameters);
+    if (sourceErr) return err(sourceErr);
+
+    return ok(`SELECT * FROM ${objectName}${parametersToSQLParams(parameters)}`);
+}
@@ -0,0 +1,185 @@
+/**
+ * Query Template — Structured queries with named placeholders
+ *
+ * A placeholder is a value written as `{{name}}`: a filter value (basic,
+ * between bounds, list entries), a CDS parameter value or a join condition
+ * value. Values are bound when the query runs and checked against the
+ * declared placeholder types before the query is built.
+ */
+
+import type { Result } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { DataPreviewQuery, Join, Parameter, QueryFilter } from './queryBuilder';
+import { isIdentifier } from './queryBuilder';
+import { SqlValidationError } from '../../utils/sql';
+
+/**
+ * Placeholder value type
+ *
+ * - string: any value (numbers are converted)
+ * - number: finite number or numeric string
+ * - date: 'YYYY-MM-DD' or 'YYYYMMDD', bound as 'YYYYMMDD'
+ */
+export type PlaceholderType = 'string' | 'number' | 'date';
+
+/**
+ * Declared placeholder of a template
+ */
+export interface Placeholder {
+    name: string;
+    type: PlaceholderType;
+    /** Value used when none is bound; placeholders without default are required */
+    default?: string | number;
+    description?: string;
+}
+
+/**
+ * Structured query with placeholders
+ */
+export interface QueryTemplate {
+    query: DataPreviewQuery;
+    placeholders: Placeholder[];
+}
+
+/**
+ * Values bound to placeholders by name
+ */
+export type PlaceholderValues = Record<string, string | number>;
+
+type Value = string | number;
+
+const PLACEHOLDER = /^\{\{([A-Za-z_][A-Za-z0-9_]*)\}\}$/;
+
+/**
+ * Names of the placeholders used in a query
+ */
+export function findPlaceholders(query: DataPreviewQuery): string[] {
+    const names = new Set<string>();
+    mapValues(query, value => {
+        const name = placeholderName(value);
+        if (name) names.add(name);
+        return value;
+    });
+    return [...names];
+}
+
+/**
+ * Validate a template: placeholders are declared once with valid names and
+ * defaults of their type, and every placeholder used in the query is declared
+ */
+export function validateTemplate(template: QueryTemplate): Result<true, SqlValidationError> {
+    const declared = new Set<string>();
+    for (const placeholder of template.placeholders) {
+        if (!isIdentifier(placeholder.name)) {
+            return err(new SqlValidationError(`Invalid placeholder name: ${placeholder.name}`));
+        }
+        if (declared.has(placeholder.name)) {
+            return err(new SqlValidationError(`Duplicate placeholder: ${placeholder.name}`));
+        }
+        declared.add(placeholder.name);
+
+        if (placeholder.default !== undefined) {
+            const [, defaultErr] = convertValue(placeholder, placeholder.default);
+            if (defaultErr) return err(defaultErr);
+        }
+    }
+
+    const undeclared = findPlaceholders(template.query).find(name => !declared.has(name));
+    if (undeclared) return err(new SqlValidationError(`Undeclared placeholder: ${undeclared}`));
+
+    return ok(true);
+}
+
+/**
+ * Bind values to the placeholders of a template
+ *
+ * @param template - Query template
+ * @param values - Values by placeholder name
+ * @returns Query without placeholders or validation error
+ */
+export function bindTemplate(template: QueryTemplate, values: PlaceholderValues = {}): Result<DataPreviewQuery, SqlValidationError> {
+    const [, templateErr] = validateTemplate(template);
+    if (templateErr) return err(templateErr);
+
+    const placeholders = new Map(template.placeholders.map(p => [p.name, p]));
+    const unknown = Object.keys(values).find(name => !placeholders.has(name));
+    if (unknown) return err(new SqlValidationError(`Unknown placeholder: ${unknown}`));
+
+    // Convert each bound value once.
+    const bound = new Map<string, Value>();
+    for (const placeholder of placeholders.values()) {
+        const value = values[placeholder.name] ?? placeholder.default;
+        if (value === undefined) continue;
+
+        const [converted, convertErr] = convertValue(placeholder, value);
+        if (convertErr) return err(convertErr);
+        bound.set(placeholder.name, converted);
+    }
+
+    const missing = findPlaceholders(template.query).find(name => !bound.has(name));
+    if (missing) return err(new SqlValidationError(`Missing value for placeholder: ${missing}`));
+
+    return ok(mapValues(template.query, value => {
+        const name = placeholderName(value);
+        return name ? bound.get(name)! : value;
+    }));
+}
+
+function placeholderName(value: Value): string | null {
+    if (typeof value !== 'string') return null;
+    return PLACEHOLDER.exec(value)?.[1] ?? null;
+}
+
+function convertValue(placeholder: Placeholder, value: Value): Result<Value, SqlValidationError> {
+    const invalid = () => err(new SqlValidationError(`Invalid ${placeholder.type} for placeholder ${placeholder.name}: ${value}`));
+
+    switch (placeholder.type) {
+        case 'string':
+            return ok(String(value));
+        case 'number': {
+            const number = typeof value === 'number' ? value : Number(value.trim() || NaN);
+            return Number.isFinite(number) ? ok(number) : invalid();
+        }
+        case 'date': {
+            const match = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(String(value));
+            if (!match) return invalid();
+            const date = `${match[1]}-${match[2]}-${match[3]}`;
+            // Reject impossible dates such as 2024-02-30.
+            if (isNaN(Date.parse(date)) || new Date(date).toISOString().slice(0, 10) !== date) return invalid();
+            return ok(`${match[1]}${match[2]}${match[3]}`);
+        }
+    }
+}
+
+// Copy of a query with every placeholder-capable value mapped.
+function mapValues(query: DataPreviewQuery, map: (value: Value) => Value): DataPreviewQuery {
+    const mapParameters = (parameters: Parameter[]) => parameters.map(p => ({ ...p, value: map(p.value) }));
+    const mapJoin = (join: Join): Join => {
+        const result: Join = { ...join, on: join.on.map(c => 'value' in c ? { ...c, value: map(c.value) } : c) };
+        if (join.parameters) result.parameters = mapParameters(join.parameters);
+        return result;
+    };
+    const mapFilter = (filter: QueryFilter): QueryFilter => {
+        switch (filter.type) {
+            case 'basic':
+                return { ...filter, value: map(filter.value) };
+            case 'between':
+                return { ...filter, minimum: map(filter.minimum), maximum: map(filter.maximum) };
+            case 'list':
+                return { ...filter, values: filter.values.map(map) };
+            case 'keyRange':
+                return filter;
+            case 'and':
+            case 'or':
+                return { ...filter, filters: filter.filters.map(mapFilter) };
+            case 'not':
+                return { ...filter, filter: mapFilter(filter.filter) };
+        }
+    };
+
+    const result: DataPreviewQuery = { ...query };
+    if (query.parameters) result.parameters = mapParameters(query.parameters);
+    if (query.joins) result.joins = query.joins.map(mapJoin);
+    if (query.filters) result.filters = query.filters.map(mapFilter);
+    return result;
+}
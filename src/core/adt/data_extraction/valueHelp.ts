@@ -0,0 +1,266 @@
+/**
+ * Value Help — Allowed values of a field with descriptions
+ *
+ * Values come from the DDIC, read through the data preview:
+ * 1. Fixed values of the field's domain (DD07L, texts in DD07T)
+ * 2. Otherwise the check table of the field (DD03L) or the value table
+ *    of the domain (DD01L), with descriptions from its text table (DD08L)
+ *
+ * Table fields are looked up in DD03L; CDS view fields through their data
+ * element (DD04L).
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { AdtRequestor } from '../types';
+import type { DataPreviewQuery, QueryFilter } from './queryBuilder';
+import { previewQuery } from './dataPreview';
+import { getColumns } from './columns';
+
+/**
+ * Value help options
+ */
+export interface ValueHelpOptions {
+    /** Language of the descriptions (default: 'E') */
+    language?: string;
+    /** Maximum values to return (default: 100) */
+    maxRows?: number;
+}
+
+/**
+ * Allowed value of a field
+ */
+export interface ValueHelpValue {
+    value: string;
+    /** Upper bound of a fixed value interval */
+    high?: string;
+    description?: string;
+}
+
+/**
+ * Value help of a field
+ */
+export interface ValueHelpResult {
+    field: string;
+    /** Where the values come from ('none' if the field has neither) */
+    source: 'fixedValues' | 'checkTable' | 'none';
+    domain?: string;
+    checkTable?: string;
+    values: ValueHelpValue[];
+}
+
+const DEFAULT_MAX_ROWS = 100;
+
+// Field of a DDIC table (DD03L)
+type FieldInfo = { domain: string; checkTable: string };
+
+/**
+ * Get the allowed values of a field
+ *
+ * @param client - ADT client
+ * @param objectName - Table or CDS view name
+ * @param field - Field name
+ * @param searchTerm - Substring of the value or description (optional)
+ * @param options - Language and row limit
+ * @returns Value help or error
+ */
+export async function getValueHelp(
+    client: AdtRequestor,
+    objectName: string,
+    field: string,
+    searchTerm = '',
+    options: ValueHelpOptions = {}
+): AsyncResult<ValueHelpResult, Error> {
+    const language = options.language ?? 'E';
+    const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+
+    const [info, infoErr] = await getFieldInfo(client, objectName, field);
+    if (infoErr) return err(infoErr);
+
+    const result: ValueHelpResult = { field, source: 'none', values: [] };
+    if (!info.domain && !info.checkTable) return ok(result);
+    if (info.domain) result.domain = info.domain;
+
+    // Fixed values of the domain.
+    if (info.domain) {
+        const [values, valuesErr] = await getFixedValues(client, info.domain, searchTerm, language, maxRows);
+        if (valuesErr) return err(valuesErr);
+        if (values.length > 0) return ok({ ...result, source: 'fixedValues', values });
+    }
+
+    // Check table of the field, or value table of the domain.
+    let checkTable = info.checkTable;
+    if (!checkTable && info.domain) {
+        const [rows, rowsErr] = await select(client, 'DD01L', ['ENTITYTAB'], [
+            eq('DOMNAME', info.domain), eq('AS4LOCAL', 'A'),
+        ]);
+        if (rowsErr) return err(rowsErr);
+        checkTable = rows[0]?.['ENTITYTAB'] ?? '';
+    }
+    if (!checkTable || checkTable === '*') return ok(result);
+
+    const [values, valuesErr] = await getCheckTableValues(client, checkTable, info.domain, searchTerm, language, maxRows);
+    if (valuesErr) return err(valuesErr);
+    return ok({ ...result, source: 'checkTable', checkTable, values });
+}
+
+// Domain and check table of a table field (DD03L), or domain of a view field's data element.
+async function getFieldInfo(client: AdtRequestor, objectName: string, field: string): AsyncResult<FieldInfo, Error> {
+    const [rows, rowsErr] = await select(client, 'DD03L', ['DOMNAME', 'CHECKTABLE'], [
+        eq('TABNAME', objectName.toUpperCase()), eq('FIELDNAME', field.toUpperCase()), eq('AS4LOCAL', 'A'),
+    ]);
+    if (rowsErr) return err(rowsErr);
+    if (rows[0]) return ok({ domain: rows[0]['DOMNAME'] ?? '', checkTable: rows[0]['CHECKTABLE'] ?? '' });
+
+    // CDS view fields are not in DD03L.
+    const [columns, columnsErr] = await getColumns(client, objectName, 'view');
+    if (columnsErr) return err(columnsErr);
+
+    const column = columns.columns.find(c => c.name.toUpperCase() === field.toUpperCase());
+    if (!column) return err(new Error(`Unknown field ${field} on ${objectName}`));
+    if (!column.dataElement) return ok({ domain: '', checkTable: '' });
+
+    const [elements, elementsErr] = await select(client, 'DD04L', ['DOMNAME'], [
+        eq('ROLLNAME', column.dataElement), eq('AS4LOCAL', 'A'),
+    ]);
+    if (elementsErr) return err(elementsErr);
+    return ok({ domain: elements[0]?.['DOMNAME'] ?? '', checkTable: '' });
+}
+
+async function getFixedValues(
+    client: AdtRequestor,
+    domain: string,
+    searchTerm: string,
+    language: string,
+    maxRows: number
+): AsyncResult<ValueHelpValue[], Error> {
+    const [rows, rowsErr] = await select(client, 'DD07L', ['DOMVALUE_L', 'DOMVALUE_H', 't~DDTEXT'], [
+        eq('DOMNAME', domain),
+        eq('AS4LOCAL', 'A'),
+        ...search('DOMVALUE_L', 't~DDTEXT', searchTerm),
+    ], {
+        joins: [{
+            type: 'left outer',
+            objectName: 'DD07T',
+            alias: 't',
+            on: [
+                { field: 'DOMNAME', otherField: 'DOMNAME' },
+                { field: 'VALPOS', otherField: 'VALPOS' },
+                { field: 'AS4LOCAL', otherField: 'AS4LOCAL' },
+                { field: 'DDLANGUAGE', value: language },
+            ],
+        }],
+        sortings: [{ field: 'DOMVALUE_L', direction: 'ascending' }],
+        limit: maxRows,
+    });
+    if (rowsErr) return err(rowsErr);
+
+    return ok(rows.map(row => toValue(row['DOMVALUE_L'], row['DDTEXT'], row['DOMVALUE_H'])));
+}
+
+async function getCheckTableValues(
+    client: AdtRequestor,
+    checkTable: string,
+    domain: string,
+    searchTerm: string,
+    language: string,
+    maxRows: number
+): AsyncResult<ValueHelpValue[], Error> {
+    // Check field: key field of the check table with the field's domain.
+    const [keys, keysErr] = await select(client, 'DD03L', ['FIELDNAME', 'DOMNAME'], [
+        eq('TABNAME', checkTable), eq('AS4LOCAL', 'A'), eq('KEYFLAG', 'X'),
+    ], { sortings: [{ field: 'FIELDNAME', direction: 'ascending' }] });
+    if (keysErr) return err(keysErr);
+
+    const checkField = keys.find(k => k['DOMNAME'] === domain)?.['FIELDNAME']
+        ?? keys.filter(k => k['FIELDNAME'] !== 'MANDT').pop()?.['FIELDNAME'];
+    if (!checkField) return err(new Error(`No check field found in ${checkTable}`));
+
+    const [textTable, textErr] = await getTextTable(client, checkTable, domain);
+    if (textErr) return err(textErr);
+
+    const query: Partial<DataPreviewQuery> = { sortings: [{ field: checkField, direction: 'ascending' }], limit: maxRows };
+    const fields = [checkField];
+    if (textTable) {
+        fields.push(`t~${textTable.textField}`);
+        query.joins = [{
+            type: 'left outer',
+            objectName: textTable.name,
+            alias: 't',
+            on: [{ field: textTable.keyField, otherField: checkField }, { field: textTable.languageField, value: language }],
+        }];
+    }
+
+    const filters = textTable
+        ? search(checkField, `t~${textTable.textField}`, searchTerm)
+        : search(checkField, null, searchTerm);
+    const [rows, rowsErr] = await select(client, checkTable, fields, filters, query);
+    if (rowsErr) return err(rowsErr);
+
+    return ok(rows.map(row => toValue(row[checkField], textTable ? row[textTable.textField] : undefined)));
+}
+
+// Text table of a check table (DD08L) with its key, language and first text field (DD03L).
+async function getTextTable(
+    client: AdtRequestor,
+    checkTable: string,
+    domain: string
+): AsyncResult<{ name: string; keyField: string; languageField: string; textField: string } | null, Error> {
+    const [tables, tablesErr] = await select(client, 'DD08L', ['TABNAME'], [
+        eq('CHECKTABLE', checkTable), eq('FRKART', 'TEXT'), eq('AS4LOCAL', 'A'),
+    ]);
+    if (tablesErr) return err(tablesErr);
+
+    const name = tables[0]?.['TABNAME'];
+    if (!name) return ok(null);
+
+    const [fields, fieldsErr] = await select(client, 'DD03L', ['FIELDNAME', 'KEYFLAG', 'DOMNAME', 'DATATYPE', 'POSITION'], [
+        eq('TABNAME', name), eq('AS4LOCAL', 'A'),
+    ], { sortings: [{ field: 'POSITION', direction: 'ascending' }] });
+    if (fieldsErr) return err(fieldsErr);
+
+    const keyField = fields.find(f => f['KEYFLAG'] === 'X' && f['DOMNAME'] === domain)?.['FIELDNAME'];
+    const languageField = fields.find(f => f['KEYFLAG'] === 'X' && f['DATATYPE'] === 'LANG')?.['FIELDNAME'];
+    const textField = fields.find(f => f['KEYFLAG'] !== 'X' && f['DATATYPE'] === 'CHAR')?.['FIELDNAME'];
+    if (!keyField || !languageField || !textField) return ok(null);
+
+    return ok({ name, keyField, languageField, textField });
+}
+
+// Run a query and return rows keyed by column name.
+async function select(
+    client: AdtRequestor,
+    objectName: string,
+    fields: string[],
+    filters: QueryFilter[],
+    query: Partial<DataPreviewQuery> = {}
+): AsyncResult<Record<string, string>[], Error> {
+    const [frame, frameErr] = await previewQuery(client, { objectName, objectType: 'table', fields, filters, limit: 1000, ...query });
+    if (frameErr) return err(frameErr);
+
+    return ok(frame.rows.map(row => {
+        const record: Record<string, string> = {};
+        frame.columns.forEach((column, i) => { record[column.name.toUpperCase()] = String(row[i] ?? ''); });
+        return record;
+    }));
+}
+
+function eq(field: string, value: string): QueryFilter {
+    return { type: 'basic', field, value, operator: '=' };
+}
+
+// Values containing the search term (upper case), or descriptions containing it as typed.
+function search(valueField: string, textField: string | null, searchTerm: string): QueryFilter[] {
+    if (!searchTerm) return [];
+
+    const value: QueryFilter = { type: 'basic', field: valueField, value: `%${searchTerm.toUpperCase()}%`, operator: 'like' };
+    if (!textField) return [value];
+    return [{ type: 'or', filters: [value, { type: 'basic', field: textField, value: `%${searchTerm}%`, operator: 'like' }] }];
+}
+
+function toValue(value: string | undefined, description?: string, high?: string): ValueHelpValue {
+    const result: ValueHelpValue = { value: value ?? '' };
+    if (high) result.high = high;
+    if (description) result.description = description;
+    return result;
+}
@@ -0,0 +1,184 @@
+/**
+ * abapGit — File layout of exported packages
+ *
+ * Files follow abapGit's naming with prefix folder logic:
+ * - `.abapgit.xml` repository settings, sources below `src/`
+ * - `package.devc.xml` per package; a subpackage lives in a folder named after
+ *   the part of its name following the parent's name (`ZPKG_UI` → `ui/`)
+ * - `<name>.<type>.abap` for ABAP sources (programs, classes, interfaces,
+ *   function groups), `<name>.<type>.<extension>` for other sources and
+ *   XML-only objects (e.g., `zview.ddls.asddls`, `zdtel.dtel.asdtel`)
+ * - `<name>.<type>.xml` metadata sidecar with name, type, package and description;
+ *   it names no abapGit serializer, since it holds no serializer payload
+ *
+ * Object names are lower case with `/` written as `#` (`/NS/OBJ` → `#ns#obj`).
+ */
+
+import type { Result } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ClassInclude } from '../../../types/requests';
+import type { ObjectWithContent } from '../craud/read';
+import { getConfigByExtension } from '../types';
+import { escapeXml } from '../../utils/xml';
+
+/**
+ * File of an exported package (path relative to the export root)
+ */
+export interface ExportFile {
+    path: string;
+    content: string;
+}
+
+/** Folder of the root package */
+export const SOURCE_FOLDER = 'src/';
+
+// Source file extensions used by abapGit (other types keep their ADT extension)
+const SOURCE_EXTENSIONS: Record<string, string> = {
+    PROG: 'abap',
+    CLAS: 'abap',
+    INTF: 'abap',
+    FUGR: 'abap',
+    SRVD: 'srvdsrv',
+};
+
+// abapGit file suffixes of secondary class includes
+const CLASS_INCLUDE_FILES: Record<Exclude<ClassInclude, 'main'>, string> = {
+    definitions: 'locals_def',
+    implementations: 'locals_imp',
+    macros: 'macros',
+    testclasses: 'testclasses',
+};
+
+/**
+ * File name of an object name (`/NS/OBJ` → `#ns#obj`)
+ */
+export function abapGitFileName(name: string): string {
+    return name.toLowerCase().replace(/\//g, '#');
+}
+
+/**
+ * Folder of a subpackage relative to its parent package's folder
+ *
+ * Prefix logic: the part of the name following `<parent>_`; subpackages
+ * without the parent prefix keep their full name.
+ */
+export function abapGitPackageFolder(parentPackage: string, packageName: string): string {
+    const prefix = `${parentPackage}_`.toUpperCase();
+    const name = packageName.toUpperCase();
+    const folder = name.startsWith(prefix) && name.length > prefix.length
+        ? name.slice(prefix.length)
+        : name;
+    return `${abapGitFileName(folder)}/`;
+}
+
+/**
+ * Repository settings file (`.abapgit.xml`)
+ */
+export function abapGitRepositoryFile(): ExportFile {
+    return {
+        path: '.abapgit.xml',
+        content: `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+ <asx:values>
+  <DATA>
+   <MASTER_LANGUAGE>E</MASTER_LANGUAGE>
+   <STARTING_FOLDER>/${SOURCE_FOLDER}</STARTING_FOLDER>
+   <FOLDER_LOGIC>PREFIX</FOLDER_LOGIC>
+  </DATA>
+ </asx:values>
+</asx:abap>
+`,
+    };
+}
+
+/**
+ * Package file (`package.devc.xml`) of a package folder
+ *
+ * @param folder - Package folder (e.g., 'src/ui/')
+ * @param description - Package description
+ */
+export function abapGitPackageFile(folder: string, description = ''): ExportFile {
+    return {
+        path: `${folder}package.devc.xml`,
+        content: abapGitXml(`   <DEVC>
+    <CTEXT>${escapeXml(description)}</CTEXT>
+   </DEVC>`, 'DEVC'),
+    };
+}
+
+/**
+ * Files of an object: its sources and the metadata sidecar
+ *
+ * Function modules are written into their function group
+ * (`<group>.fugr.<module>.abap`), as abapGit does.
+ *
+ * @param object - Read object with `package` (and `includes` for classes)
+ * @param folder - Folder of the object's package (e.g., 'src/')
+ * @returns Files or error for unsupported object types
+ */
+export function abapGitObjectFiles(object: ObjectWithContent, folder: string): Result<ExportFile[], Error> {
+    const config = getConfigByExtension(object.extension);
+    if (!config) return err(new Error(`Unsupported extension: ${object.extension}`));
+
+    const objectType = config.type.split('/')[0]!;
+    const type = objectType.toLowerCase();
+    const sourceExtension = SOURCE_EXTENSIONS[objectType] ?? config.extension;
+
+    // Nested objects are files of their container (function modules of a function group).
+    const container = config.parentType && object.parent
+        ? `${abapGitFileName(object.parent)}.${config.parentType.split('/')[0]!.toLowerCase()}.${abapGitFileName(object.name)}`
+        : null;
+    const base = container ?? `${abapGitFileName(object.name)}.${type}`;
+    const source = container
+        ? `${container}.abap`
+        : objectType === 'FUGR'
+            ? `${base}.${abapGitFileName(mainProgramName(object.name))}.abap`
+            : `${base}.${sourceExtension}`;
+
+    const files: ExportFile[] = [{ path: `${folder}${source}`, content: object.content }];
+    for (const [include, suffix] of Object.entries(CLASS_INCLUDE_FILES) as [Exclude<ClassInclude, 'main'>, string][]) {
+        const content = object.includes?.[include];
+        if (content) files.push({ path: `${folder}${base}.${suffix}.abap`, content });
+    }
+
+    // Metadata sidecar.
+    const values: [string, string | undefined][] = [
+        ['NAME', object.name],
+        ['TYPE', config.type],
+        ['EXTENSION', config.extension],
+        ['PACKAGE', object.package],
+        ['DESCRIPTION', object.description],
+        ['PARENT', object.parent],
+    ];
+    const fields = values
+        .filter((entry): entry is [string, string] => !!entry[1])
+        .map(([key, value]) => `    <${key}>${escapeXml(value)}</${key}>`)
+        .join('\n');
+    files.push({
+        path: `${folder}${base}.xml`,
+        content: abapGitXml(`   <OBJECT>\n${fields}\n   </OBJECT>`),
+    });
+
+    return ok(files);
+}
+
+// Main program of a function group (`ZFG` → `SAPLZFG`, `/NS/FG` → `/NS/SAPLFG`).
+function mainProgramName(group: string): string {
+    const match = /^(\/[^/]+\/)?(.*)$/.exec(group);
+    return `${match?.[1] ?? ''}SAPL${match?.[2] ?? group}`;
+}
+
+// abapGit XML envelope around serialized values; the serializer is only
+// named for payloads in its format (package.devc.xml).
+function abapGitXml(values: string, objectType?: string): string {
+    const serializer = objectType ? ` serializer="LCL_OBJECT_${objectType}" serializer_version="v1.0.0"` : '';
+    return `<?xml version="1.0" encoding="utf-8"?>
+<abapGit version="v1.0.0"${serializer}>
+ <asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+  <asx:values>
+${values}
+  </asx:values>
+ </asx:abap>
+</abapGit>
+`;
+}
@@ -0,0 +1,251 @@
+/**
+ * PackageExport — Export the objects of a package in abapGit layout
+ *
+ * Walks the package tree (groups → types → objects, then subpackages),
+ * reads every supported object and lays the sources out as abapGit files
+ * (see abapGit.ts). Parts are yielded as soon as they are read, so exports
+ * can be streamed without holding every file in memory.
+ */
+
+import type { AsyncResult, Result } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { PackageExportOptions } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import { getConfigByExtension, getConfigByType } from '../types';
+import { readObject } from '../craud/read';
+import { readIncludes } from '../craud/includes';
+import { getTree } from './tree';
+import type { ObjectNode, TreeResponse } from './tree';
+import { getPackageStats } from './tree/packageStats';
+import type { ExportFile } from './abapGit';
+import {
+    SOURCE_FOLDER,
+    abapGitObjectFiles,
+    abapGitPackageFile,
+    abapGitPackageFolder,
+    abapGitRepositoryFile,
+} from './abapGit';
+
+/**
+ * Object written by an export
+ */
+export interface ExportedObject {
+    name: string;
+    extension: string;
+    /** ADT type (e.g., 'CLAS/OC') */
+    type: string;
+    package: string;
+    description?: string;
+    parent?: string;
+    /** Paths of the object's files */
+    files: string[];
+}
+
+/**
+ * Exported package
+ */
+export interface PackageExport {
+    package: string;
+    /** Exported packages (the package and its subpackages when recursive) */
+    packages: string[];
+    objects: ExportedObject[];
+    /** Every file of the export, starting with `.abapgit.xml` */
+    files: ExportFile[];
+}
+
+/**
+ * Part of an export: a package (its `package.devc.xml`) or an object with its files
+ *
+ * The first part is the root package, also carrying `.abapgit.xml`.
+ */
+export interface ExportPart {
+    /** Exported package, or the package of the object */
+    package: string;
+    /** Object of the part (not set for packages) */
+    object?: ExportedObject;
+    files: ExportFile[];
+}
+
+// Tree levels below a package: groups, then types.
+const FOLDER_DEPTH = 2;
+
+/**
+ * Export the objects of a package
+ *
+ * Objects are read one after another; the first failing read fails the export.
+ *
+ * @param client - ADT client
+ * @param packageName - Package to export
+ * @param options - `recursive` (default: true) and `types` filter
+ * @returns Exported files or error
+ */
+export async function exportPackage(
+    client: AdtRequestor,
+    packageName: string,
+    options: Omit<PackageExportOptions, 'directory'> = {}
+): AsyncResult<PackageExport, Error> {
+    const result: PackageExport = { package: '', packages: [], objects: [], files: [] };
+    for await (const [part, partErr] of exportPackageParts(client, packageName, options)) {
+        if (partErr) return err(partErr);
+        if (part.object) result.objects.push(part.object);
+        else result.packages.push(part.package);
+        result.files.push(...part.files);
+    }
+
+    result.package = result.packages[0] ?? packageName;
+    return ok(result);
+}
+
+/**
+ * Iterate over the parts of a package export
+ *
+ * Yields the root package first, then its objects, then each subpackage
+ * followed by its objects. Stops after the first error.
+ *
+ * @param client - ADT client
+ * @param packageName - Package to export
+ * @param options - `recursive` (default: true) and `types` filter
+ * @returns Async iterator of parts or errors
+ */
+export async function* exportPackageParts(
+    client: AdtRequestor,
+    packageName: string,
+    options: Omit<PackageExportOptions, 'directory'> = {}
+): AsyncGenerator<Result<ExportPart, Error>> {
+    const [extensions, typesErr] = resolveTypes(options.types);
+    if (typesErr) {
+        yield err(typesErr);
+        return;
+    }
+
+    // The package must exist; its description goes into package.devc.xml.
+    const [root, rootErr] = await getPackageStats(client, packageName);
+    if (rootErr) {
+        yield err(rootErr);
+        return;
+    }
+
+    const exported = new Set<string>();
+    const pending = [{ name: root.name, description: root.description, folder: SOURCE_FOLDER }];
+
+    while (pending.length > 0) {
+        const pkg = pending.shift()!;
+        exported.add(pkg.name);
+        const files = [abapGitPackageFile(pkg.folder, pkg.description)];
+        yield ok({ package: pkg.name, files: pkg.name === root.name ? [abapGitRepositoryFile(), ...files] : files });
+
+        const [tree, treeErr] = await getTree(client, { package: pkg.name });
+        if (treeErr) {
+            yield err(treeErr);
+            return;
+        }
+
+        if (options.recursive !== false) {
+            for (const child of tree.packages) {
+                if (exported.has(child.name) || pending.some(p => p.name === child.name)) continue;
+                pending.push({
+                    name: child.name,
+                    description: child.description,
+                    folder: `${pkg.folder}${abapGitPackageFolder(pkg.name, child.name)}`,
+                });
+            }
+        }
+
+        const [objects, objectsErr] = await listObjects(client, pkg.name, tree);
+        if (objectsErr) {
+            yield err(objectsErr);
+            return;
+        }
+
+        for (const node of objects) {
+            if (extensions && !extensions.has(node.extension)) continue;
+
+            const [part, exportErr] = await exportObject(client, node, pkg.name, pkg.folder);
+            if (exportErr) {
+                yield err(exportErr);
+                return;
+            }
+            yield ok(part);
+        }
+    }
+}
+
+// Extensions of the requested types (null for all types).
+function resolveTypes(types: string[] | undefined): Result<Set<string> | null, Error> {
+    if (!types) return ok(null);
+
+    const extensions = new Set<string>();
+    for (const type of types) {
+        const config = getConfigByExtension(type) ?? getConfigByType(type.toUpperCase());
+        if (!config) return err(new Error(`Unsupported object type: ${type}`));
+        extensions.add(config.extension);
+    }
+    return ok(extensions);
+}
+
+// Objects directly assigned to a package, collected from every tree folder.
+async function listObjects(
+    client: AdtRequestor,
+    packageName: string,
+    tree: TreeResponse
+): AsyncResult<ObjectNode[], Error> {
+    const objects = new Map<string, ObjectNode>();
+    const add = (nodes: ObjectNode[]) => {
+        for (const node of nodes) objects.set(`${node.extension}|${node.parent ?? ''}|${node.name}`, node);
+    };
+
+    add(tree.objects);
+    let paths = tree.folders.filter(f => f.numContents > 0).map(f => f.name);
+    for (let depth = 1; depth <= FOLDER_DEPTH && paths.length > 0; depth++) {
+        const next: string[] = [];
+        for (const path of paths) {
+            const [level, levelErr] = await getTree(client, { package: packageName, path });
+            if (levelErr) return err(levelErr);
+
+            add(level.objects);
+            next.push(...level.folders.filter(f => f.numContents > 0).map(f => `${path}/${f.name}`));
+        }
+        paths = next;
+    }
+
+    return ok([...objects.values()]);
+}
+
+// Read an object (with its includes) and lay out its files.
+async function exportObject(
+    client: AdtRequestor,
+    node: ObjectNode,
+    packageName: string,
+    folder: string
+): AsyncResult<ExportPart, Error> {
+    const ref = node.parent
+        ? { name: node.name, extension: node.extension, parent: node.parent }
+        : { name: node.name, extension: node.extension };
+
+    const [read, readErr] = await readObject(client, ref);
+    if (readErr) return err(readErr);
+    read.package = packageName;
+    if (node.description) read.description = node.description;
+
+    const config = getConfigByExtension(node.extension);
+    if (config?.includes) {
+        const [includes, includesErr] = await readIncludes(client, ref);
+        if (includesErr) return err(includesErr);
+        read.includes = includes;
+    }
+
+    const [files, filesErr] = abapGitObjectFiles(read, folder);
+    if (filesErr) return err(filesErr);
+
+    const object: ExportedObject = {
+        name: node.name,
+        extension: node.extension,
+        type: config?.type ?? '',
+        package: packageName,
+        files: files.map(f => f.path),
+    };
+    if (node.description) object.description = node.description;
+    if (node.parent) object.parent = node.parent;
+
+    return ok({ package: packageName, object, files });
+}
@@ -15,9 +15,12 @@ export interface SearchResult {
     package: string;
     description?: string;
     objectType: string;
+    /** Parent container for nested object types (e.g., function group) */
+    parent?: string;
 }
 
 import { getConfigByType, getAllTypes } from '../types';
+import { extractParentName } from '../helpers';
 import { extractError, safeParseXml } from '../../utils/xml';
 
 /**
@@ -115,6 +118,9 @@ function parseSearchResults(xml: string): Result<SearchResult[], Error> {
         if (description) {
             result.description = description;
         }
+        const uri = obj.getAttributeNS('http://www.sap.com/adt/core', 'uri') || obj.getAttribute('adtcore:uri');
+        const parent = extractParentName(config, uri);
+        if (parent) result.parent = parent;
         results.push(result);
     }
 
@@ -12,6 +12,16 @@ import type { AdtRequestor } from '../../types';
 import type { PackageNode } from './types';
 import { extractError, safeParseXml } from '../../../utils/xml';
 
+/**
+ * Package does not exist
+ */
+export class PackageNotFoundError extends Error {
+    constructor(public packageName: string) {
+        super(`Package ${packageName} not found`);
+        this.name = 'PackageNotFoundError';
+    }
+}
+
 /**
  * Construct request body for fetching specific packages by name.
  *
@@ -136,7 +146,7 @@ export async function getPackageStats(
     // Match the return type to the input type.
     if (isSingle) {
         if (packages.length === 0) {
-            return err(new Error(`Package ${packageNames} not found`));
+            return err(new PackageNotFoundError(packageNames));
         }
         return ok(packages[0]!);
     }
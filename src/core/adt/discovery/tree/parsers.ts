@@ -5,6 +5,7 @@
 import type { Result } from '../../../../types/result';
 import { ok, err } from '../../../../types/result';
 import { getConfigByType } from '../../types';
+import { extractParentName } from '../../helpers';
 import { safeParseXml } from '../../../utils/xml';
 import type {
     TreeResponse,
@@ -169,6 +170,8 @@ export function parseTreeXml(xml: string): Result<ParseResult, Error> {
             extension: config.extension,
         };
         if (text) parsedObj.description = text;
+        const parent = extractParentName(config, obj.getAttribute('uri'));
+        if (parent) parsedObj.parent = parent;
         objects.push(parsedObj);
     }
 
@@ -208,6 +211,7 @@ export function transformToTreeResponse(parsed: ParseResult, queryPackage: strin
             extension: obj.extension,
         };
         if (obj.description) node.description = obj.description;
+        if (obj.parent) node.parent = obj.parent;
         return node;
     });
 
@@ -27,6 +27,8 @@ export interface ObjectNode {
     objectType: string;
     extension: string;
     description?: string;
+    /** Parent container for nested object types (e.g., function group) */
+    parent?: string;
 }
 
 // Internal types
@@ -56,6 +58,7 @@ export interface ParsedObject {
     objectType: string;
     extension: string;
     description?: string;
+    parent?: string;
 }
 
 export interface ParseResult {
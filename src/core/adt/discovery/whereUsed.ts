@@ -15,9 +15,12 @@ export interface Dependency {
     extension: string;
     package: string;
     usageType: string;
+    /** Parent container for nested object types (e.g., function group) */
+    parent?: string;
 }
 
 import { getConfigByType, getConfigByExtension } from '../types';
+import { buildObjectUri, extractParentName } from '../helpers';
 import { extractError, safeParseXml } from '../../utils/xml';
 
 /**
@@ -38,7 +41,8 @@ export async function findWhereUsed(
     }
 
     // Build object URI and request body.
-    const uri = `/sap/bc/adt/${config.endpoint}/${object.name}`;
+    const [uri, uriErr] = buildObjectUri(config, object);
+    if (uriErr) return err(uriErr);
     const body = `<?xml version="1.0" encoding="UTF-8"?>
     <usagereferences:usageReferenceRequest xmlns:usagereferences="http://www.sap.com/adt/ris/usageReferences">
       <usagereferences:affectedObjects/>
@@ -115,12 +119,16 @@ function parseWhereUsed(xml: string): Result<Dependency[], Error> {
             : '';
 
         // Build dependency object.
-        dependencies.push({
+        const dependency: Dependency = {
             name,
             extension: config.extension,
             package: packageName || '',
             usageType: 'reference',
-        });
+        };
+        const uri = adtObject.getAttributeNS('http://www.sap.com/adt/core', 'uri') || adtObject.getAttribute('adtcore:uri');
+        const parent = extractParentName(config, uri);
+        if (parent) dependency.parent = parent;
+        dependencies.push(dependency);
     }
 
     return ok(dependencies);
@@ -5,9 +5,11 @@
  * Not exported from the adt/ barrel.
  */
 
-import type { AsyncResult } from '../../types/result';
+import type { Result, AsyncResult } from '../../types/result';
+import { ok, err } from '../../types/result';
+import type { ObjectRef } from '../../types/requests';
 import { extractError } from '../utils/xml';
-import { getConfigByExtension } from './types';
+import { getConfigByExtension, DEFAULT_SOURCE_PATH, PARENT_PLACEHOLDER } from './types';
 import type { ObjectConfig } from './types';
 
 /**
@@ -48,3 +50,101 @@ export function requireConfig(extension: string): [ObjectConfig, null] | [null,
     // Return valid configuration.
     return [config, null];
 }
+
+/**
+ * Build the ADT URI of an object (e.g., '/sap/bc/adt/oo/classes/ZCL_FOO')
+ *
+ * Resolves the `{parent}` placeholder for objects nested in a container
+ * (e.g., function modules inside a function group).
+ */
+export function buildObjectUri(config: ObjectConfig, object: ObjectRef): Result<string, Error> {
+    let endpoint = config.endpoint;
+
+    // Substitute parent container name if the endpoint requires one.
+    if (endpoint.includes(PARENT_PLACEHOLDER)) {
+        if (!object.parent) {
+            return err(new Error(`${config.label} ${object.name} requires a parent ${config.parentType ?? 'object'}`));
+        }
+        endpoint = endpoint.replace(PARENT_PLACEHOLDER, object.parent.toLowerCase());
+    }
+
+    return ok(`/sap/bc/adt/${endpoint}/${object.name}`);
+}
+
+/**
+ * Build the URI of an object's main source content
+ *
+ * Source-based objects use a sub-resource (default 'source/main');
+ * XML-only objects use the object URI itself. Locks always target this
+ * URI, so a single lock covers every include of a class.
+ */
+export function buildMainSourceUri(config: ObjectConfig, object: ObjectRef): Result<string, Error> {
+    const [objectUri, uriErr] = buildObjectUri(config, object);
+    if (uriErr) return err(uriErr);
+
+    const sourcePath = config.sourcePath ?? DEFAULT_SOURCE_PATH;
+    return ok(sourcePath ? `${objectUri}/${sourcePath}` : objectUri);
+}
+
+/**
+ * Build the URI of an object's source content
+ *
+ * Resolves the include selector for multi-include objects
+ * (e.g., '/sap/bc/adt/oo/classes/ZCL_FOO/includes/testclasses').
+ */
+export function buildSourceUri(config: ObjectConfig, object: ObjectRef): Result<string, Error> {
+    if (!object.include || object.include === 'main') {
+        return buildMainSourceUri(config, object);
+    }
+
+    // Validate the include is supported by this object type.
+    if (!config.includes?.includes(object.include)) {
+        return err(new Error(`${config.label} ${object.name} has no include ${object.include}`));
+    }
+
+    const [objectUri, uriErr] = buildObjectUri(config, object);
+    if (uriErr) return err(uriErr);
+    return ok(`${objectUri}/includes/${object.include}`);
+}
+
+/**
+ * Build the ADT URI of the container for nested objects (e.g., the function group)
+ *
+ * @returns Container URI or null if the object type has no container
+ */
+export function buildContainerUri(config: ObjectConfig, parent: string): string | null {
+    const index = config.endpoint.indexOf(`/${PARENT_PLACEHOLDER}`);
+    if (index === -1) return null;
+    return `/sap/bc/adt/${config.endpoint.substring(0, index)}/${parent.toLowerCase()}`;
+}
+
+/**
+ * Extract the parent container name from an object URI
+ *
+ * Used when parsing search, where-used and tree responses for nested objects.
+ *
+ * @returns Parent name (uppercase) or undefined if not applicable
+ */
+export function extractParentName(config: ObjectConfig, uri: string | null | undefined): string | undefined {
+    if (!uri || !config.endpoint.includes(PARENT_PLACEHOLDER)) return undefined;
+
+    // Turn 'functions/groups/{parent}/fmodules' into a capturing pattern.
+    const [before, after] = config.endpoint.split(PARENT_PLACEHOLDER) as [string, string];
+    const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`/sap/bc/adt/${escape(before)}([^/]+)${escape(after)}/`, 'i');
+
+    const match = pattern.exec(uri);
+    if (!match?.[1]) return undefined;
+    return decodeURIComponent(match[1]).toUpperCase();
+}
+
+/**
+ * Map an ADT message type to its severity
+ *
+ * E, A and X are errors, W warnings; anything else (I, S, ...) is info.
+ */
+export function toSeverity(type: string): 'error' | 'warning' | 'info' {
+    if (type === 'E' || type === 'A' || type === 'X') return 'error';
+    if (type === 'W') return 'warning';
+    return 'info';
+}
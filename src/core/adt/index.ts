@@ -6,15 +6,20 @@
  * - Discovery: Packages, tree browsing, transports
  * - Data preview: Table/view queries
  * - Search: Object search, where-used analysis
+ * - Quality: ABAP Unit test runs, syntax check, ATC
  *
  * One function per file pattern.
  */
 
 // Types and configuration (shared across module)
-export type { AdtRequestor, ObjectConfig, ConfiguredExtension, UpsertResult } from './types';
+export type { AdtRequestor, ObjectConfig, ConfiguredExtension, BuiltinExtension, UpsertResult, UpsertConflict } from './types';
 export {
     OBJECT_CONFIG_MAP,
     ObjectTypeLabel,
+    objectConfigSchema,
+    registerObjectType,
+    unregisterObjectType,
+    isBuiltinExtension,
     getConfigByExtension,
     getConfigByType,
     getAllExtensions,
@@ -28,22 +33,34 @@ export type { ObjectMetadata, ObjectWithContent } from './craud/read';
 
 // Activation
 export type { ActivationResult, ActivationMessage } from './craud/activation';
+export type { InactiveObject } from './craud/inactiveObjects';
 
 // Discovery types
 export type { TreeResponse, PackageNode, FolderNode, ObjectNode } from './discovery/tree';
 export type { Package } from './discovery/packages';
 export type { Transport } from './transports/transports';
+export type { PackageExport, ExportedObject, ExportPart } from './discovery/packageExport';
+export type { ExportFile } from './discovery/abapGit';
 
 // Preview types
-export type { DataFrame, ColumnInfo } from './data_extraction/previewParser';
+export type { DataFrame, ColumnInfo, PreviewParseOptions, AbapValueKind } from './data_extraction/previewParser';
+export { abapValueKind, createValueConverter, toAbapValue } from './data_extraction/previewParser';
 export type { DistinctResult } from './data_extraction/distinct';
+export type { ObjectColumns, ColumnMetadata, ParameterMetadata, FieldLabels } from './data_extraction/columns';
+export type { ValueHelpResult, ValueHelpValue, ValueHelpOptions } from './data_extraction/valueHelp';
+export type { ColumnProfile, HistogramBucket, ProfileOptions } from './data_extraction/profile';
+export type { QueryTemplate, Placeholder, PlaceholderType, PlaceholderValues } from './data_extraction/queryTemplate';
 
 // Search types
 export type { SearchResult } from './discovery/searchObjects';
 export type { Dependency } from './discovery/whereUsed';
 
+// Multi-include objects (classes)
+export { readIncludes, createInclude } from './craud/includes';
+
 // Lock management
-export { lockObject, unlockObject } from './craud/lock';
+export { lockObject, unlockObject, getLockStatus, parseLockConflict, ObjectLockedError } from './craud/lock';
+export type { ObjectLock, LockStatus } from './craud/lock';
 
 // Write operations
 export { createObject } from './craud/create';
@@ -51,22 +68,32 @@ export { updateObject } from './craud/update';
 export { deleteObject } from './craud/delete';
 
 // Activation
-export { activateObjects } from './craud/activation';
+export { activateObjects, activateInactiveObjects } from './craud/activation';
+export { getInactiveObjects } from './craud/inactiveObjects';
 
 // Discovery operations
 export { getPackages } from './discovery/packages';
 export { getTree } from './discovery/tree';
-export { getPackageStats } from './discovery/tree/packageStats';
+export { getPackageStats, PackageNotFoundError } from './discovery/tree/packageStats';
+export { exportPackage, exportPackageParts } from './discovery/packageExport';
+export { abapGitObjectFiles, abapGitPackageFolder, abapGitFileName } from './discovery/abapGit';
 export { getTransports } from './transports/transports';
 
 // Data preview operations
-export { previewData } from './data_extraction/dataPreview';
+export { previewData, previewQuery, getPreviewColumns } from './data_extraction/dataPreview';
+export { previewDataPages, keyRangeAfter, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './data_extraction/pagedPreview';
+export { createExportSerializer, toCsv, toNdjson, toColumnar, EXPORT_FORMATS } from './data_extraction/export';
+export type { ExportFormat, ExportSerializer, CsvOptions, ColumnarFrame } from './data_extraction/export';
 export { getDistinctValues } from './data_extraction/distinct';
 export { countRows } from './data_extraction/count';
+export { getColumns, parseElementInfo } from './data_extraction/columns';
+export { getValueHelp } from './data_extraction/valueHelp';
+export { profileColumns } from './data_extraction/profile';
+export { bindTemplate, validateTemplate, findPlaceholders } from './data_extraction/queryTemplate';
 
 // Query builder (optional helper)
-export { buildSQLQuery, queryFiltersToWhere, sortingsToOrderBy, fieldsToGroupbyClause } from './data_extraction/queryBuilder';
-export type { DataPreviewQuery, QueryFilter, BasicFilter, BetweenFilter, ListFilter, Sorting, Aggregation, Parameter } from './data_extraction/queryBuilder';
+export { buildSQLQuery, validateQuery, isIdentifier, isFreestyleQuery, fieldName, fieldSource, queryFiltersToWhere, sortingsToOrderBy, fieldsToGroupbyClause } from './data_extraction/queryBuilder';
+export type { DataPreviewQuery, QueryFilter, BasicFilter, BetweenFilter, ListFilter, KeyRangeFilter, DecimalLiteral, FilterGroup, NotFilter, Join, JoinCondition, JoinType, Sorting, Aggregation, Parameter } from './data_extraction/queryBuilder';
 
 // Search operations
 export { searchObjects } from './discovery/searchObjects';
@@ -75,7 +102,51 @@ export { findWhereUsed } from './discovery/whereUsed';
 // Transport management
 export { createTransport } from './transports/createTransport';
 export type { TransportConfig } from './transports/createTransport';
+export { checkTransportRequirement, parseTransportCheck, TransportRequiredError } from './transports/transportCheck';
+export type { TransportRequirement } from './transports/transportCheck';
+export {
+    getTransportDetails,
+    setTransportOwner,
+    setTransportDescription,
+    addTransportObject,
+    removeTransportObject,
+} from './transports/organizer';
+export type {
+    TransportDetails,
+    TransportTask,
+    TransportObject,
+    TransportObjectKey,
+    TransportStatus,
+} from './transports/organizer';
+export { releaseTransport } from './transports/release';
+export { getUserTransports } from './transports/userTransports';
+export type { UserTransportQuery } from './transports/userTransports';
+export type { TransportReleaseReport, TransportReleaseMessage } from './transports/release';
+
+// Quality checks
+export { runUnitTests, toJUnitXml } from './quality/unitTests';
+export type {
+    UnitTestOptions,
+    UnitTestRiskLevel,
+    UnitTestDuration,
+    UnitTestRunResult,
+    UnitTestSummary,
+    UnitTestProgram,
+    UnitTestClass,
+    UnitTestMethod,
+    UnitTestAlert,
+    UnitTestStackEntry,
+} from './quality/unitTests';
+export { checkSyntax } from './quality/syntaxCheck';
+export type { SyntaxCheckResult } from './quality/syntaxCheck';
+export { runAtc } from './quality/atc';
+export type { AtcFinding } from './quality/atc';
 
 // Diff operations
-export { gitDiff } from './craud/gitDiff';
-export type { DiffResult, DiffHunk, SimpleDiffHunk, ModifiedDiffHunk } from './craud/gitDiff';
+export { gitDiff, gitDiffIncludes, gitDiffRevisions } from './craud/gitDiff';
+export type { DiffResult, DiffHunk, SimpleDiffHunk, ModifiedDiffHunk, DiffSource, DiffOptions } from './craud/gitDiff';
+export { applyPatch, createUnifiedDiff } from './craud/patch';
+
+// Version history
+export { getRevisions, readRevision } from './craud/revisions';
+export type { Revision } from './craud/revisions';
@@ -0,0 +1,222 @@
+/**
+ * ATC — Run ABAP Test Cockpit checks and collect findings
+ *
+ * Flow: create worklist for the check variant → run ATC on the objects →
+ * fetch the worklist with its findings.
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import { getConfigByType } from '../types';
+import { buildObjectUri, checkResponse, requireConfig } from '../helpers';
+import { escapeXml, safeParseXml } from '../../utils/xml';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types (colocated - only used by this function)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Single ATC finding */
+export interface AtcFinding {
+    /** Object the finding belongs to */
+    name: string;
+    /** Object extension (empty if the object type is not configured) */
+    extension: string;
+    /** ADT object type (e.g., 'CLAS/OC') */
+    objectType: string;
+    package?: string;
+    /** 1 (error) to 4 (information) */
+    priority: number;
+    checkId: string;
+    checkTitle: string;
+    messageId: string;
+    messageTitle: string;
+    /** Source location URI */
+    location: string;
+    line?: number;
+    column?: number;
+    /** Whether the finding offers a quick fix */
+    quickFix: boolean;
+}
+
+const ADTCORE_NS = 'http://www.sap.com/adt/core';
+const ATCOBJECT_NS = 'http://www.sap.com/adt/atc/object';
+const ATCFINDING_NS = 'http://www.sap.com/adt/atc/finding';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Implementation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run ATC checks on objects
+ *
+ * @param client - ADT client
+ * @param objects - Objects to check
+ * @param variant - ATC check variant (default: the system check variant)
+ * @returns Findings of all objects or error
+ */
+export async function runAtc(
+    client: AdtRequestor,
+    objects: ObjectRef[],
+    variant?: string
+): AsyncResult<AtcFinding[], Error> {
+    // Handle empty input.
+    if (objects.length === 0) return ok([]);
+
+    // Build object references.
+    const references: string[] = [];
+    for (const object of objects) {
+        const [config, configErr] = requireConfig(object.extension);
+        if (configErr) return err(configErr);
+        const [uri, uriErr] = buildObjectUri(config, { ...object, name: object.name.toLowerCase() });
+        if (uriErr) return err(uriErr);
+        references.push(`<adtcore:objectReference adtcore:uri="${escapeXml(uri)}"/>`);
+    }
+
+    // Resolve check variant.
+    let checkVariant = variant;
+    if (!checkVariant) {
+        const [systemVariant, variantErr] = await getSystemCheckVariant(client);
+        if (variantErr) return err(variantErr);
+        checkVariant = systemVariant;
+    }
+
+    // Step 1: Create worklist.
+    const [worklistResponse, worklistReqErr] = await client.request({
+        method: 'POST',
+        path: '/sap/bc/adt/atc/worklists',
+        params: { 'checkVariant': checkVariant },
+        headers: { 'Accept': 'text/plain' },
+    });
+    const [worklistId, worklistErr] = await checkResponse(worklistResponse, worklistReqErr, 'Failed to create ATC worklist');
+    if (worklistErr) return err(worklistErr);
+
+    // Step 2: Run ATC on the objects.
+    const body = `<?xml version="1.0" encoding="UTF-8"?>
+<atc:run maximumVerdicts="100" xmlns:atc="http://www.sap.com/adt/atc">
+    <objectSets xmlns:adtcore="${ADTCORE_NS}">
+        <objectSet kind="inclusive">
+            <adtcore:objectReferences>
+                ${references.join('\n                ')}
+            </adtcore:objectReferences>
+        </objectSet>
+    </objectSets>
+</atc:run>`;
+
+    const [runResponse, runReqErr] = await client.request({
+        method: 'POST',
+        path: '/sap/bc/adt/atc/runs',
+        params: { 'worklistId': worklistId.trim() },
+        headers: {
+            'Content-Type': 'application/xml',
+            'Accept': 'application/xml',
+        },
+        body,
+    });
+    const [, runErr] = await checkResponse(runResponse, runReqErr, 'ATC run failed');
+    if (runErr) return err(runErr);
+
+    // Step 3: Fetch worklist findings.
+    const [findingsResponse, findingsReqErr] = await client.request({
+        method: 'GET',
+        path: `/sap/bc/adt/atc/worklists/${encodeURIComponent(worklistId.trim())}`,
+        params: { 'includeExemptedFindings': 'false' },
+        headers: { 'Accept': 'application/atc.worklist.v1+xml' },
+    });
+    const [text, findingsErr] = await checkResponse(findingsResponse, findingsReqErr, 'Failed to read ATC findings');
+    if (findingsErr) return err(findingsErr);
+
+    return parseAtcWorklist(text);
+}
+
+// Read the system check variant from ATC customizing.
+async function getSystemCheckVariant(client: AdtRequestor): AsyncResult<string, Error> {
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: '/sap/bc/adt/atc/customizing',
+        headers: { 'Accept': 'application/xml' },
+    });
+    const [text, checkErr] = await checkResponse(response, requestErr, 'Failed to read ATC customizing');
+    if (checkErr) return err(checkErr);
+
+    const [doc, parseErr] = safeParseXml(text);
+    if (parseErr) return err(parseErr);
+
+    const properties = doc.getElementsByTagName('property');
+    for (let i = 0; i < properties.length; i++) {
+        const property = properties[i];
+        if (property?.getAttribute('name') === 'systemCheckVariant') {
+            const value = property.getAttribute('value');
+            if (value) return ok(value);
+        }
+    }
+    return err(new Error('No ATC check variant given and no system check variant configured'));
+}
+
+/**
+ * Parse an ATC worklist into a flat list of findings
+ */
+export function parseAtcWorklist(xml: string): Result<AtcFinding[], Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const adtAttr = (element: Element, name: string) =>
+        element.getAttributeNS(ADTCORE_NS, name) || element.getAttribute(`adtcore:${name}`) || '';
+    const findingAttr = (element: Element, name: string) =>
+        element.getAttributeNS(ATCFINDING_NS, name) || element.getAttribute(`atcfinding:${name}`) || '';
+
+    const findings: AtcFinding[] = [];
+    const objectElements = doc.getElementsByTagNameNS(ATCOBJECT_NS, 'object');
+    for (let i = 0; i < objectElements.length; i++) {
+        const objectElement = objectElements[i];
+        if (!objectElement) continue;
+
+        // Object metadata shared by all its findings.
+        const name = adtAttr(objectElement, 'name');
+        const objectType = adtAttr(objectElement, 'type');
+        const packageName = adtAttr(objectElement, 'packageName');
+        const extension = getConfigByType(objectType)?.extension ?? '';
+
+        const findingElements = objectElement.getElementsByTagNameNS(ATCFINDING_NS, 'finding');
+        for (let j = 0; j < findingElements.length; j++) {
+            const element = findingElements[j];
+            if (!element) continue;
+
+            const location = findingAttr(element, 'location');
+            const finding: AtcFinding = {
+                name,
+                extension,
+                objectType,
+                priority: parseInt(findingAttr(element, 'priority'), 10) || 0,
+                checkId: findingAttr(element, 'checkId'),
+                checkTitle: findingAttr(element, 'checkTitle'),
+                messageId: findingAttr(element, 'messageId'),
+                messageTitle: findingAttr(element, 'messageTitle'),
+                location,
+                quickFix: hasQuickFix(element, findingAttr(element, 'quickfixInfo')),
+            };
+            if (packageName) finding.package = packageName;
+
+            const match = /#start=(\d+),(\d+)/.exec(location);
+            if (match?.[1] && match[2]) {
+                finding.line = parseInt(match[1], 10);
+                finding.column = parseInt(match[2], 10);
+            }
+            findings.push(finding);
+        }
+    }
+
+    return ok(findings);
+}
+
+// Quick fixes are announced via <atcfinding:quickfixes automatic|manual="true"> or quickfixInfo.
+function hasQuickFix(finding: Element, quickfixInfo: string): boolean {
+    if (quickfixInfo) return true;
+    const quickfixes = finding.getElementsByTagNameNS(ATCFINDING_NS, 'quickfixes')[0];
+    if (!quickfixes) return false;
+    const flag = (name: string) =>
+        (quickfixes.getAttributeNS(ATCFINDING_NS, name) || quickfixes.getAttribute(`atcfinding:${name}`)) === 'true';
+    return flag('automatic') || flag('manual');
+}
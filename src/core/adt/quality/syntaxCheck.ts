@@ -0,0 +1,161 @@
+/**
+ * Syntax Check — Check unsaved local content via the ADT checkrun endpoint
+ *
+ * The content is sent inline as an inactive artifact, so the server copy
+ * is never touched.
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ObjectContent } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import type { ActivationMessage } from '../craud/activation';
+import { buildObjectUri, buildSourceUri, checkResponse, requireConfig, toSeverity } from '../helpers';
+import { escapeXml, safeParseXml } from '../../utils/xml';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types (colocated - only used by this function)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Result of checking a single object */
+export interface SyntaxCheckResult {
+    name: string;
+    extension: string;
+    status: 'success' | 'warning' | 'error';
+    messages: ActivationMessage[];
+}
+
+const CHKRUN_NS = 'http://www.sap.com/adt/checkrun';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Implementation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check syntax of local (unsaved) object content
+ *
+ * @param client - ADT client
+ * @param objects - Objects with local content (class includes are checked together)
+ * @returns One result per object or error
+ */
+export async function checkSyntax(
+    client: AdtRequestor,
+    objects: ObjectContent[]
+): AsyncResult<SyntaxCheckResult[], Error> {
+    // Handle empty input.
+    if (objects.length === 0) return ok([]);
+
+    // Build one check object per object, with one artifact per include.
+    const objectUris: string[] = [];
+    const checkObjects: string[] = [];
+    for (const object of objects) {
+        const [config, configErr] = requireConfig(object.extension);
+        if (configErr) return err(configErr);
+
+        const [objectUri, uriErr] = buildObjectUri(config, object);
+        if (uriErr) return err(uriErr);
+        objectUris.push(objectUri);
+
+        const sources: Array<[ObjectContent['include'], string]> = [[object.include, object.content]];
+        for (const [include, content] of Object.entries(object.includes ?? {})) {
+            sources.push([include as ObjectContent['include'], content]);
+        }
+
+        const artifacts: string[] = [];
+        for (const [include, content] of sources) {
+            const [sourceUri, sourceErr] = buildSourceUri(config, include ? { ...object, include } : object);
+            if (sourceErr) return err(sourceErr);
+            artifacts.push(`<chkrun:artifact chkrun:contentType="${escapeXml(config.contentType ?? 'text/plain; charset=utf-8')}" chkrun:uri="${escapeXml(sourceUri)}">
+                <chkrun:content>${Buffer.from(content, 'utf-8').toString('base64')}</chkrun:content>
+            </chkrun:artifact>`);
+        }
+
+        checkObjects.push(`<chkrun:checkObject adtcore:uri="${escapeXml(objectUri)}" chkrun:version="inactive">
+        <chkrun:artifacts>
+            ${artifacts.join('\n            ')}
+        </chkrun:artifacts>
+    </chkrun:checkObject>`);
+    }
+
+    const body = `<?xml version="1.0" encoding="UTF-8"?>
+<chkrun:checkObjectList xmlns:adtcore="http://www.sap.com/adt/core" xmlns:chkrun="${CHKRUN_NS}">
+    ${checkObjects.join('\n    ')}
+</chkrun:checkObjectList>`;
+
+    // Execute check run.
+    const [response, requestErr] = await client.request({
+        method: 'POST',
+        path: '/sap/bc/adt/checkruns',
+        params: { 'reporters': 'abapCheckRun' },
+        headers: {
+            'Content-Type': 'application/vnd.sap.adt.checkobjects+xml',
+            'Accept': 'application/vnd.sap.adt.checkmessages+xml',
+        },
+        body,
+    });
+
+    // Validate successful response.
+    const [text, checkErr] = await checkResponse(response, requestErr, 'Syntax check failed');
+    if (checkErr) return err(checkErr);
+
+    // Parse check messages and assign them to objects.
+    const [messagesByUri, parseErr] = parseCheckRunReports(text);
+    if (parseErr) return err(parseErr);
+
+    const results = objects.map((object, index): SyntaxCheckResult => {
+        const messages = messagesByUri.get(objectUris[index]!.toLowerCase()) ?? [];
+        const hasErrors = messages.some(m => m.severity === 'error');
+        const hasWarnings = messages.some(m => m.severity === 'warning');
+        return {
+            name: object.name,
+            extension: object.extension,
+            status: hasErrors ? 'error' : hasWarnings ? 'warning' : 'success',
+            messages,
+        };
+    });
+    return ok(results);
+}
+
+/**
+ * Parse check run reports into messages keyed by (lowercase) triggering object URI
+ */
+export function parseCheckRunReports(xml: string): Result<Map<string, ActivationMessage[]>, Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const attr = (element: Element, name: string) =>
+        element.getAttributeNS(CHKRUN_NS, name) || element.getAttribute(`chkrun:${name}`) || '';
+
+    const result = new Map<string, ActivationMessage[]>();
+    const reports = doc.getElementsByTagNameNS(CHKRUN_NS, 'checkReport');
+    for (let i = 0; i < reports.length; i++) {
+        const report = reports[i];
+        if (!report) continue;
+
+        const triggeringUri = attr(report, 'triggeringUri').toLowerCase();
+        const messages = result.get(triggeringUri) ?? [];
+
+        // Extract each message with its position.
+        const messageElements = report.getElementsByTagNameNS(CHKRUN_NS, 'checkMessage');
+        for (let j = 0; j < messageElements.length; j++) {
+            const element = messageElements[j];
+            if (!element) continue;
+
+            const message: ActivationMessage = {
+                severity: toSeverity(attr(element, 'type')),
+                text: attr(element, 'shortText'),
+            };
+            const match = /#start=(\d+),(\d+)/.exec(attr(element, 'uri'));
+            if (match?.[1] && match[2]) {
+                message.line = parseInt(match[1], 10);
+                message.column = parseInt(match[2], 10);
+            }
+            messages.push(message);
+        }
+
+        result.set(triggeringUri, messages);
+    }
+
+    return ok(result);
+}
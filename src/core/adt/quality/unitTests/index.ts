@@ -0,0 +1,78 @@
+/**
+ * Unit Tests — Run ABAP Unit tests via abapunit/testruns
+ */
+
+import type { AsyncResult } from '../../../../types/result';
+import { ok, err } from '../../../../types/result';
+import type { ObjectRef } from '../../../../types/requests';
+import type { AdtRequestor } from '../../types';
+import type { UnitTestOptions, UnitTestRunResult } from './types';
+import { buildObjectUri, checkResponse, requireConfig } from '../../helpers';
+import { constructRunConfiguration, parseUnitTestResult } from './parsers';
+
+// Re-export types
+export type {
+    UnitTestOptions,
+    UnitTestRiskLevel,
+    UnitTestDuration,
+    UnitTestRunResult,
+    UnitTestSummary,
+    UnitTestProgram,
+    UnitTestClass,
+    UnitTestMethod,
+    UnitTestAlert,
+    UnitTestStackEntry,
+} from './types';
+export { toJUnitXml } from './junit';
+
+/**
+ * Run ABAP Unit tests for objects or a whole package
+ *
+ * @param client - ADT client
+ * @param target - Objects to test, or a package name
+ * @param options - Risk level and duration filters
+ * @returns Result tree (program → test class → method) or error
+ */
+export async function runUnitTests(
+    client: AdtRequestor,
+    target: ObjectRef[] | string,
+    options: UnitTestOptions = {}
+): AsyncResult<UnitTestRunResult, Error> {
+    // Resolve object URIs to test.
+    const uris: string[] = [];
+    if (typeof target === 'string') {
+        if (!target) return err(new Error('Package name is required'));
+        uris.push(`/sap/bc/adt/packages/${encodeURIComponent(target.toLowerCase())}`);
+    } else {
+        for (const object of target) {
+            const [config, configErr] = requireConfig(object.extension);
+            if (configErr) return err(configErr);
+            const [uri, uriErr] = buildObjectUri(config, { ...object, name: object.name.toLowerCase() });
+            if (uriErr) return err(uriErr);
+            uris.push(uri);
+        }
+    }
+    if (uris.length === 0) {
+        return ok({ programs: [], summary: { tests: 0, passed: 0, failed: 0, errors: 0, duration: 0 } });
+    }
+
+    // Execute test run.
+    const [response, requestErr] = await client.request({
+        method: 'POST',
+        path: '/sap/bc/adt/abapunit/testruns',
+        headers: {
+            'Content-Type': 'application/*',
+            'Accept': 'application/*',
+        },
+        body: constructRunConfiguration(uris, options),
+    });
+
+    // Validate successful response.
+    const [text, checkErr] = await checkResponse(response, requestErr, 'Failed to run unit tests');
+    if (checkErr) return err(checkErr);
+
+    // Parse result tree.
+    const [result, parseErr] = parseUnitTestResult(text);
+    if (parseErr) return err(parseErr);
+    return ok(result);
+}
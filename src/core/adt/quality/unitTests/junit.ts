@@ -0,0 +1,105 @@
+/**
+ * JUnit — Serialize ABAP Unit results to JUnit XML for CI test reporting
+ */
+
+import { escapeXml } from '../../../utils/xml';
+import type { UnitTestRunResult, UnitTestAlert, UnitTestClass, UnitTestProgram } from './types';
+
+/**
+ * Serialize an ABAP Unit run result to JUnit XML
+ *
+ * Each test class becomes a `<testsuite>` named `<PROGRAM>.<CLASS>`; each
+ * test method a `<testcase>`. Failed assertions map to `<failure>`, other
+ * blocking alerts to `<error>`. Program and class level alerts (e.g., a
+ * failing class_setup) are reported as an extra `<testcase>` with an error.
+ *
+ * @param result - Parsed ABAP Unit run result
+ * @param name - Name of the root `<testsuites>` element
+ * @returns JUnit XML string
+ */
+export function toJUnitXml(result: UnitTestRunResult, name: string = 'ABAP Unit'): string {
+    const suites: string[] = [];
+    for (const program of result.programs) {
+        if (program.alerts.length > 0) {
+            suites.push(fixtureSuite(program.name, program.alerts));
+        }
+        for (const testClass of program.testClasses) {
+            suites.push(classSuite(program, testClass));
+        }
+    }
+
+    const fixtureErrors = result.programs.reduce((sum, program) =>
+        sum + (program.alerts.length > 0 ? 1 : 0)
+        + program.testClasses.filter(testClass => testClass.alerts.length > 0).length, 0);
+    const { tests, failed, errors, duration } = result.summary;
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${escapeXml(name)}" tests="${tests + fixtureErrors}" failures="${failed}" errors="${errors + fixtureErrors}" time="${formatTime(duration)}">
+${suites.join('\n')}
+</testsuites>
+`;
+}
+
+function classSuite(program: UnitTestProgram, testClass: UnitTestClass): string {
+    const suiteName = `${program.name}.${testClass.name}`;
+    const cases: string[] = [];
+
+    // Class fixture alerts.
+    if (testClass.alerts.length > 0) {
+        cases.push(testCase(suiteName, '[class fixture]', 0, 'error', testClass.alerts));
+    }
+
+    // Test methods.
+    for (const method of testClass.methods) {
+        const kind = method.status === 'passed' ? null : method.status === 'failed' ? 'failure' : 'error';
+        cases.push(testCase(suiteName, method.name, method.duration, kind, method.alerts));
+    }
+
+    const failures = testClass.methods.filter(method => method.status === 'failed').length;
+    const errors = testClass.methods.filter(method => method.status === 'error').length
+        + (testClass.alerts.length > 0 ? 1 : 0);
+
+    return `    <testsuite name="${escapeXml(suiteName)}" package="${escapeXml(program.name)}" tests="${cases.length}" failures="${failures}" errors="${errors}" time="${formatTime(testClass.duration)}">
+${cases.join('\n')}
+    </testsuite>`;
+}
+
+function fixtureSuite(programName: string, alerts: UnitTestAlert[]): string {
+    return `    <testsuite name="${escapeXml(programName)}" package="${escapeXml(programName)}" tests="1" failures="0" errors="1" time="0.000">
+${testCase(programName, '[program]', 0, 'error', alerts)}
+    </testsuite>`;
+}
+
+function testCase(
+    className: string,
+    name: string,
+    duration: number,
+    kind: 'failure' | 'error' | null,
+    alerts: UnitTestAlert[]
+): string {
+    const open = `        <testcase classname="${escapeXml(className)}" name="${escapeXml(name)}" time="${formatTime(duration)}"`;
+    if (!kind) return `${open}/>`;
+
+    const first = alerts[0];
+    const message = first?.title ?? kind;
+    const type = first?.kind ?? kind;
+    const body = alerts.map(formatAlert).join('\n\n');
+
+    return `${open}>
+            <${kind} message="${escapeXml(message)}" type="${escapeXml(type)}">${escapeXml(body)}</${kind}>
+        </testcase>`;
+}
+
+// Human-readable alert text: title, details, then stack.
+function formatAlert(alert: UnitTestAlert): string {
+    const lines = [alert.title, ...alert.details];
+    for (const entry of alert.stack) {
+        const position = entry.line !== undefined ? `:${entry.line}` : '';
+        lines.push(`    at ${entry.description || entry.name}${position}`);
+    }
+    return lines.join('\n');
+}
+
+function formatTime(seconds: number): string {
+    return seconds.toFixed(3);
+}
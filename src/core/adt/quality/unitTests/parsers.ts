@@ -0,0 +1,202 @@
+/**
+ * Unit test parsers — Run configuration builder and result XML parsing
+ */
+
+import type { Result } from '../../../../types/result';
+import { ok, err } from '../../../../types/result';
+import { escapeXml, safeParseXml } from '../../../utils/xml';
+import type {
+    UnitTestOptions,
+    UnitTestRunResult,
+    UnitTestProgram,
+    UnitTestClass,
+    UnitTestMethod,
+    UnitTestAlert,
+    UnitTestStackEntry,
+    UnitTestSummary,
+} from './types';
+
+const ADTCORE_NS = 'http://www.sap.com/adt/core';
+
+const ALL_RISK_LEVELS = ['harmless', 'dangerous', 'critical'] as const;
+const ALL_DURATIONS = ['short', 'medium', 'long'] as const;
+
+/**
+ * Build the ABAP Unit run configuration for the given object URIs
+ */
+export function constructRunConfiguration(uris: string[], options: UnitTestOptions = {}): string {
+    const riskLevels = options.riskLevels ?? ALL_RISK_LEVELS;
+    const durations = options.durations ?? ALL_DURATIONS;
+
+    const riskAttrs = ALL_RISK_LEVELS.map(level => `${level}="${riskLevels.includes(level)}"`).join(' ');
+    const durationAttrs = ALL_DURATIONS.map(duration => `${duration}="${durations.includes(duration)}"`).join(' ');
+    const references = uris
+        .map(uri => `<adtcore:objectReference adtcore:uri="${escapeXml(uri)}"/>`)
+        .join('\n                ');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<aunit:runConfiguration xmlns:aunit="http://www.sap.com/adt/aunit">
+    <external>
+        <coverage active="false"/>
+    </external>
+    <options>
+        <uriType value="semantic"/>
+        <testDeterminationStrategy sameProgram="true" assignedTests="false" appendAssignedTestsPreview="true"/>
+        <testRiskLevels ${riskAttrs}/>
+        <testDurations ${durationAttrs}/>
+        <withNavigationUri enabled="true"/>
+    </options>
+    <adtcore:objectSets xmlns:adtcore="${ADTCORE_NS}">
+        <objectSet kind="inclusive">
+            <adtcore:objectReferences>
+                ${references}
+            </adtcore:objectReferences>
+        </objectSet>
+    </adtcore:objectSets>
+</aunit:runConfiguration>`;
+}
+
+/**
+ * Parse ABAP Unit run result XML into a program → class → method tree
+ */
+export function parseUnitTestResult(xml: string): Result<UnitTestRunResult, Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    // Process each program element.
+    const programs: UnitTestProgram[] = [];
+    const programElements = doc.getElementsByTagName('program');
+    for (let i = 0; i < programElements.length; i++) {
+        const element = programElements[i];
+        if (!element) continue;
+        programs.push(parseProgram(element));
+    }
+
+    return ok({ programs, summary: summarize(programs) });
+}
+
+// Read an adtcore attribute (namespaced or prefixed).
+function adtAttr(element: Element, name: string): string {
+    return element.getAttributeNS(ADTCORE_NS, name) || element.getAttribute(`adtcore:${name}`) || '';
+}
+
+// Direct child elements with the given tag name.
+function children(element: Element, tagName: string): Element[] {
+    const result: Element[] = [];
+    for (let node = element.firstChild; node; node = node.nextSibling) {
+        if (node.nodeType === 1 && (node as Element).localName === tagName) {
+            result.push(node as Element);
+        }
+    }
+    return result;
+}
+
+// First direct child with the given tag name, then its children with another tag name.
+function nested(element: Element, container: string, tagName: string): Element[] {
+    const parent = children(element, container)[0];
+    return parent ? children(parent, tagName) : [];
+}
+
+function parseProgram(element: Element): UnitTestProgram {
+    return {
+        name: adtAttr(element, 'name'),
+        type: adtAttr(element, 'type'),
+        uri: adtAttr(element, 'uri'),
+        alerts: nested(element, 'alerts', 'alert').map(parseAlert),
+        testClasses: nested(element, 'testClasses', 'testClass').map(parseTestClass),
+    };
+}
+
+function parseTestClass(element: Element): UnitTestClass {
+    const methods = nested(element, 'testMethods', 'testMethod').map(parseTestMethod);
+    const testClass: UnitTestClass = {
+        name: adtAttr(element, 'name'),
+        uri: adtAttr(element, 'uri'),
+        alerts: nested(element, 'alerts', 'alert').map(parseAlert),
+        methods,
+        duration: methods.reduce((sum, method) => sum + method.duration, 0),
+    };
+
+    const riskLevel = element.getAttribute('riskLevel');
+    if (riskLevel) testClass.riskLevel = riskLevel;
+    const durationCategory = element.getAttribute('durationCategory');
+    if (durationCategory) testClass.durationCategory = durationCategory;
+
+    return testClass;
+}
+
+function parseTestMethod(element: Element): UnitTestMethod {
+    const alerts = nested(element, 'alerts', 'alert').map(parseAlert);
+    const duration = parseFloat(element.getAttribute('executionTime') || '0');
+
+    return {
+        name: adtAttr(element, 'name'),
+        uri: adtAttr(element, 'uri'),
+        status: methodStatus(alerts),
+        duration: isNaN(duration) ? 0 : duration,
+        alerts,
+    };
+}
+
+// Failed assertions fail a test; any other blocking alert is an error.
+function methodStatus(alerts: UnitTestAlert[]): UnitTestMethod['status'] {
+    if (alerts.some(alert => alert.kind === 'failedAssertion')) return 'failed';
+    if (alerts.some(alert => alert.severity === 'critical' || alert.severity === 'fatal')) return 'error';
+    return 'passed';
+}
+
+function parseAlert(element: Element): UnitTestAlert {
+    const title = children(element, 'title')[0]?.textContent?.trim() ?? '';
+
+    // Details are nested <detail text="..."> elements at any depth.
+    const details: string[] = [];
+    const detailsElement = children(element, 'details')[0];
+    if (detailsElement) {
+        const detailElements = detailsElement.getElementsByTagName('detail');
+        for (let i = 0; i < detailElements.length; i++) {
+            const text = detailElements[i]?.getAttribute('text');
+            if (text) details.push(text);
+        }
+    }
+
+    return {
+        kind: element.getAttribute('kind') || '',
+        severity: element.getAttribute('severity') || '',
+        title,
+        details,
+        stack: nested(element, 'stack', 'stackEntry').map(parseStackEntry),
+    };
+}
+
+function parseStackEntry(element: Element): UnitTestStackEntry {
+    const uri = adtAttr(element, 'uri');
+    const entry: UnitTestStackEntry = {
+        name: adtAttr(element, 'name'),
+        type: adtAttr(element, 'type'),
+        uri,
+        description: adtAttr(element, 'description') || element.getAttribute('description') || '',
+    };
+
+    // Navigation URIs carry the position as '#start=<line>,<column>'.
+    const match = /#start=(\d+)/.exec(uri);
+    if (match?.[1]) entry.line = parseInt(match[1], 10);
+
+    return entry;
+}
+
+function summarize(programs: UnitTestProgram[]): UnitTestSummary {
+    const summary: UnitTestSummary = { tests: 0, passed: 0, failed: 0, errors: 0, duration: 0 };
+    for (const program of programs) {
+        for (const testClass of program.testClasses) {
+            for (const method of testClass.methods) {
+                summary.tests++;
+                if (method.status === 'passed') summary.passed++;
+                if (method.status === 'failed') summary.failed++;
+                if (method.status === 'error') summary.errors++;
+                summary.duration += method.duration;
+            }
+        }
+    }
+    return summary;
+}
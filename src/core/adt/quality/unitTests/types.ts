@@ -0,0 +1,82 @@
+/**
+ * Unit test types — ABAP Unit run options and result tree
+ */
+
+// Public option types
+
+export type UnitTestRiskLevel = 'harmless' | 'dangerous' | 'critical';
+export type UnitTestDuration = 'short' | 'medium' | 'long';
+
+export interface UnitTestOptions {
+    /** Risk levels to execute (default: all) */
+    riskLevels?: UnitTestRiskLevel[];
+    /** Duration categories to execute (default: all) */
+    durations?: UnitTestDuration[];
+}
+
+// Public result types
+
+export interface UnitTestRunResult {
+    programs: UnitTestProgram[];
+    summary: UnitTestSummary;
+}
+
+export interface UnitTestSummary {
+    tests: number;
+    passed: number;
+    failed: number;
+    errors: number;
+    /** Total execution time in seconds */
+    duration: number;
+}
+
+/** Program under test (class, program, function group) */
+export interface UnitTestProgram {
+    name: string;
+    /** ADT object type (e.g., 'CLAS/OC') */
+    type: string;
+    uri: string;
+    /** Alerts raised outside of any test class */
+    alerts: UnitTestAlert[];
+    testClasses: UnitTestClass[];
+}
+
+export interface UnitTestClass {
+    name: string;
+    uri: string;
+    riskLevel?: string;
+    durationCategory?: string;
+    /** Alerts raised by class fixtures (class_setup, setup, ...) */
+    alerts: UnitTestAlert[];
+    methods: UnitTestMethod[];
+    /** Sum of method execution times in seconds */
+    duration: number;
+}
+
+export interface UnitTestMethod {
+    name: string;
+    uri: string;
+    status: 'passed' | 'failed' | 'error';
+    /** Execution time in seconds */
+    duration: number;
+    alerts: UnitTestAlert[];
+}
+
+export interface UnitTestAlert {
+    /** Alert kind (e.g., 'failedAssertion', 'exception', 'warning') */
+    kind: string;
+    /** Alert severity (e.g., 'critical', 'fatal', 'tolerable') */
+    severity: string;
+    title: string;
+    details: string[];
+    stack: UnitTestStackEntry[];
+}
+
+export interface UnitTestStackEntry {
+    name: string;
+    type: string;
+    uri: string;
+    description: string;
+    /** Source line (parsed from the navigation URI) */
+    line?: number;
+}
@@ -0,0 +1,360 @@
+/**
+ * Transport Organizer — Read and edit transport requests
+ *
+ * Built on the CTS organizer resource (`/sap/bc/adt/cts/transportrequests/<id>`).
+ * Requests and tasks are edited by PUTting a `<tm:root>` with a user action
+ * (change owner, change description, add or remove object entries).
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import { checkResponse, requireConfig } from '../helpers';
+import { escapeXml, safeParseXml } from '../../utils/xml';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types (colocated - only used by this function)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Released requests and tasks can no longer be changed */
+export type TransportStatus = 'modifiable' | 'released';
+
+/** Object entry of a request or task (E071) */
+export interface TransportObject {
+    /** Program ID (R3TR for whole objects, LIMU for parts) */
+    pgmid: string;
+    /** E071 object type (e.g., 'CLAS') */
+    type: string;
+    name: string;
+    description?: string;
+    /** ADT URI of the object */
+    uri?: string;
+    /** Entry is locked by the request (object cannot go on another request) */
+    locked: boolean;
+}
+
+/** E071 key of an object entry */
+export interface TransportObjectKey {
+    pgmid: string;
+    type: string;
+    name: string;
+}
+
+/** Task of a transport request */
+export interface TransportTask {
+    id: string;
+    owner: string;
+    description: string;
+    status: TransportStatus;
+    objects: TransportObject[];
+}
+
+/** Transport request with its tasks and objects */
+export interface TransportDetails {
+    id: string;
+    owner: string;
+    description: string;
+    status: TransportStatus;
+    type: 'workbench' | 'customizing' | 'other';
+    /** Target system (e.g., 'QAS') */
+    target?: string;
+    /** ISO timestamp of the last change */
+    lastChanged?: string;
+    tasks: TransportTask[];
+    /** Objects of the request itself (not of its tasks) */
+    objects: TransportObject[];
+}
+
+export const ORGANIZER_CONTENT_TYPE = 'application/vnd.sap.adt.transportorganizer.v1+xml';
+export const TM_NS = 'http://www.sap.com/cts/adt/tm';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Implementation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Get a transport request with its tasks and object lists
+ *
+ * @param client - ADT client
+ * @param transportId - Request number (e.g., 'DEVK900123')
+ * @returns Transport details or error
+ */
+export async function getTransportDetails(
+    client: AdtRequestor,
+    transportId: string
+): AsyncResult<TransportDetails, Error> {
+    // Execute GET request for the organizer resource.
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: buildOrganizerUri(transportId),
+        headers: { 'Accept': ORGANIZER_CONTENT_TYPE },
+    });
+    const [text, checkErr] = await checkResponse(response, requestErr, `Failed to read transport ${transportId}`);
+    if (checkErr) return err(checkErr);
+
+    const [transports, parseErr] = parseTransportRequests(text);
+    if (parseErr) return err(parseErr);
+
+    const transport = transports.find(t => t.id === transportId.toUpperCase());
+    if (!transport) return err(new Error(`Transport ${transportId} not found`));
+    return ok(transport);
+}
+
+/**
+ * Change the owner of a request or task
+ *
+ * @param client - ADT client
+ * @param transportId - Request or task number
+ * @param user - New owner
+ * @returns void or error
+ */
+export async function setTransportOwner(
+    client: AdtRequestor,
+    transportId: string,
+    user: string
+): AsyncResult<void, Error> {
+    return putUserAction(client, transportId, 'changeowner', { targetuser: user.toUpperCase() },
+        `Failed to change owner of transport ${transportId}`);
+}
+
+/**
+ * Change the description of a request or task
+ *
+ * @param client - ADT client
+ * @param transportId - Request or task number
+ * @param description - New description
+ * @returns void or error
+ */
+export async function setTransportDescription(
+    client: AdtRequestor,
+    transportId: string,
+    description: string
+): AsyncResult<void, Error> {
+    return putUserAction(client, transportId, 'changedescription', { desc: description },
+        `Failed to change description of transport ${transportId}`);
+}
+
+/**
+ * Add an object entry to a request or task
+ *
+ * @param client - ADT client
+ * @param transportId - Request or task number
+ * @param object - Object reference or E071 key
+ * @returns void or error
+ */
+export async function addTransportObject(
+    client: AdtRequestor,
+    transportId: string,
+    object: ObjectRef | TransportObjectKey
+): AsyncResult<void, Error> {
+    const [key, keyErr] = toTransportObjectKey(object);
+    if (keyErr) return err(keyErr);
+
+    return putUserAction(client, transportId, 'newobject', {}, `Failed to add ${key.name} to transport ${transportId}`, key);
+}
+
+/**
+ * Remove an object entry from a request or task
+ *
+ * @param client - ADT client
+ * @param transportId - Request or task number
+ * @param object - Object reference or E071 key
+ * @returns void or error
+ */
+export async function removeTransportObject(
+    client: AdtRequestor,
+    transportId: string,
+    object: ObjectRef | TransportObjectKey
+): AsyncResult<void, Error> {
+    const [key, keyErr] = toTransportObjectKey(object);
+    if (keyErr) return err(keyErr);
+
+    return putUserAction(client, transportId, 'removeobject', {}, `Failed to remove ${key.name} from transport ${transportId}`, key);
+}
+
+/**
+ * Convert an object reference to its E071 key (E071 keys pass through)
+ *
+ * Function modules are parts of their function group (LIMU FUNC);
+ * every other object is transported as a whole (R3TR).
+ */
+export function toTransportObjectKey(object: ObjectRef | TransportObjectKey): Result<TransportObjectKey, Error> {
+    if ('pgmid' in object) return ok(object);
+
+    const [config, configErr] = requireConfig(object.extension);
+    if (configErr) return err(configErr);
+
+    const name = object.name.toUpperCase();
+    if (config.type === 'FUGR/FF') return ok({ pgmid: 'LIMU', type: 'FUNC', name });
+    return ok({ pgmid: 'R3TR', type: config.type.split('/')[0]!, name });
+}
+
+/**
+ * Build the organizer URI of a request or task
+ */
+export function buildOrganizerUri(transportId: string): string {
+    return `/sap/bc/adt/cts/transportrequests/${encodeURIComponent(transportId.toUpperCase())}`;
+}
+
+// PUT a user action on a request or task.
+async function putUserAction(
+    client: AdtRequestor,
+    transportId: string,
+    action: string,
+    attributes: Record<string, string>,
+    operation: string,
+    object?: TransportObjectKey
+): AsyncResult<void, Error> {
+    const id = transportId.toUpperCase();
+    const attributeXml = Object.entries(attributes)
+        .map(([name, value]) => ` tm:${name}="${escapeXml(value)}"`)
+        .join('');
+    const objectXml = object
+        ? `\n    <tm:abap_object tm:pgmid="${escapeXml(object.pgmid)}" tm:type="${escapeXml(object.type)}" tm:name="${escapeXml(object.name)}"/>\n`
+        : '';
+
+    const body = `<?xml version="1.0" encoding="UTF-8"?>
+<tm:root xmlns:tm="${TM_NS}" tm:number="${escapeXml(id)}" tm:useraction="${action}"${attributeXml}>${objectXml}</tm:root>`;
+
+    // Execute PUT request.
+    const [response, requestErr] = await client.request({
+        method: 'PUT',
+        path: buildOrganizerUri(id),
+        headers: {
+            'Content-Type': ORGANIZER_CONTENT_TYPE,
+            'Accept': ORGANIZER_CONTENT_TYPE,
+        },
+        body,
+    });
+    const [, checkErr] = await checkResponse(response, requestErr, operation);
+    if (checkErr) return err(checkErr);
+
+    return ok(undefined);
+}
+
+/**
+ * Parse transport requests from an organizer response
+ *
+ * Task objects are listed per task; `objects` of a request holds only the
+ * entries recorded on the request itself. Status, type and target missing
+ * on a request are taken from its containers (organizer lists group requests
+ * by <tm:workbench>/<tm:customizing>, <tm:target> and <tm:modifiable>/<tm:released>).
+ */
+export function parseTransportRequests(xml: string): Result<TransportDetails[], Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const requests: TransportDetails[] = [];
+    const requestElements = doc.getElementsByTagNameNS(TM_NS, 'request');
+    for (let i = 0; i < requestElements.length; i++) {
+        const element = requestElements[i];
+        if (!element) continue;
+
+        const id = tmAttr(element, 'number');
+        if (!id) continue;
+
+        const tasks: TransportTask[] = [];
+        const taskElements = childElements(element, 'task');
+        for (const taskElement of taskElements) {
+            tasks.push({
+                id: tmAttr(taskElement, 'number'),
+                owner: tmAttr(taskElement, 'owner'),
+                description: tmAttr(taskElement, 'desc'),
+                status: toStatus(tmAttr(taskElement, 'status')),
+                objects: childElements(taskElement, 'abap_object').map(parseTransportObject),
+            });
+        }
+
+        const context = containerContext(element);
+        const statusCode = tmAttr(element, 'status');
+        const typeCode = tmAttr(element, 'type');
+        const request: TransportDetails = {
+            id,
+            owner: tmAttr(element, 'owner'),
+            description: tmAttr(element, 'desc'),
+            status: statusCode ? toStatus(statusCode) : context.status ?? 'modifiable',
+            type: typeCode ? toType(typeCode) : context.type ?? 'other',
+            tasks,
+            objects: childElements(element, 'abap_object').map(parseTransportObject),
+        };
+
+        const target = tmAttr(element, 'target') || context.target;
+        if (target) request.target = target;
+        const lastChanged = toIsoTimestamp(tmAttr(element, 'lastchanged_timestamp'));
+        if (lastChanged) request.lastChanged = lastChanged;
+
+        requests.push(request);
+    }
+
+    return ok(requests);
+}
+
+// Read a tm: attribute.
+function tmAttr(element: Element, name: string): string {
+    return element.getAttributeNS(TM_NS, name) || element.getAttribute(`tm:${name}`) || '';
+}
+
+// Status, type and target implied by the containers of a request.
+function containerContext(element: Element): { status?: TransportStatus; type?: TransportDetails['type']; target?: string } {
+    const context: { status?: TransportStatus; type?: TransportDetails['type']; target?: string } = {};
+    for (let node = element.parentNode; node && node.nodeType === 1; node = node.parentNode) {
+        const container = node as Element;
+        switch (container.localName) {
+            case 'modifiable': context.status ??= 'modifiable'; break;
+            case 'released': context.status ??= 'released'; break;
+            case 'workbench': context.type ??= 'workbench'; break;
+            case 'customizing': context.type ??= 'customizing'; break;
+            case 'target': {
+                const name = tmAttr(container, 'name');
+                if (name) context.target ??= name;
+                break;
+            }
+        }
+    }
+    return context;
+}
+
+// Direct child elements with the given local name.
+function childElements(element: Element, localName: string): Element[] {
+    const children: Element[] = [];
+    for (let node = element.firstChild; node; node = node.nextSibling) {
+        if (node.nodeType === 1 && (node as Element).localName === localName) {
+            children.push(node as Element);
+        }
+    }
+    return children;
+}
+
+function parseTransportObject(element: Element): TransportObject {
+    const object: TransportObject = {
+        pgmid: tmAttr(element, 'pgmid'),
+        type: tmAttr(element, 'type'),
+        name: tmAttr(element, 'name'),
+        locked: tmAttr(element, 'lock_status') === 'X',
+    };
+    const description = tmAttr(element, 'obj_desc');
+    if (description) object.description = description;
+    const uri = element.getAttribute('adtcore:uri') || element.getAttribute('uri') || '';
+    if (uri) object.uri = uri;
+    return object;
+}
+
+// R (released) and N (released with import protection); D, L and O are still open.
+function toStatus(code: string): TransportStatus {
+    return code === 'R' || code === 'N' ? 'released' : 'modifiable';
+}
+
+function toType(code: string): TransportDetails['type'] {
+    if (code === 'K') return 'workbench';
+    if (code === 'W') return 'customizing';
+    return 'other';
+}
+
+// ABAP timestamps (YYYYMMDDhhmmss) to ISO; ISO values pass through.
+function toIsoTimestamp(value: string): string | undefined {
+    const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value);
+    if (match) return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`;
+    return value || undefined;
+}
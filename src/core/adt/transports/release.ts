@@ -0,0 +1,121 @@
+/**
+ * Release — Release transport tasks and requests
+ *
+ * Tasks must be released before their request. Each release returns a
+ * report with the messages of the release checks.
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { AdtRequestor } from '../types';
+import { checkResponse, toSeverity } from '../helpers';
+import { safeParseXml } from '../../utils/xml';
+import { buildOrganizerUri, getTransportDetails, ORGANIZER_CONTENT_TYPE } from './organizer';
+
+/**
+ * Release report of a request or task
+ */
+export interface TransportReleaseReport {
+    /** Request or task number */
+    id: string;
+    released: boolean;
+    /** Release status reported by the server (e.g., 'released') */
+    status: string;
+    statusText: string;
+    messages: TransportReleaseMessage[];
+}
+
+export interface TransportReleaseMessage {
+    severity: 'error' | 'warning' | 'info';
+    text: string;
+}
+
+const CHKRUN_NS = 'http://www.sap.com/adt/checkrun';
+
+/**
+ * Release a transport request after releasing its open tasks
+ *
+ * Stops at the first task that fails to release; the request is then
+ * left open.
+ *
+ * @param client - ADT client
+ * @param transportId - Request number
+ * @returns Reports of the released tasks, followed by the request's report, or error
+ */
+export async function releaseTransport(
+    client: AdtRequestor,
+    transportId: string
+): AsyncResult<TransportReleaseReport[], Error> {
+    // Find tasks that are still open.
+    const [transport, detailsErr] = await getTransportDetails(client, transportId);
+    if (detailsErr) return err(detailsErr);
+
+    const reports: TransportReleaseReport[] = [];
+    const openTasks = transport.tasks.filter(task => task.status === 'modifiable');
+    for (const task of openTasks) {
+        const [report, releaseErr] = await releaseSingle(client, task.id);
+        if (releaseErr) return err(releaseErr);
+
+        reports.push(report);
+        if (!report.released) return ok(reports);
+    }
+
+    // Release the request itself.
+    if (transport.status === 'modifiable') {
+        const [report, releaseErr] = await releaseSingle(client, transport.id);
+        if (releaseErr) return err(releaseErr);
+        reports.push(report);
+    }
+
+    return ok(reports);
+}
+
+// Start a release job for one request or task.
+async function releaseSingle(
+    client: AdtRequestor,
+    transportId: string
+): AsyncResult<TransportReleaseReport, Error> {
+    const [response, requestErr] = await client.request({
+        method: 'POST',
+        path: `${buildOrganizerUri(transportId)}/newreleasejobs`,
+        headers: { 'Accept': ORGANIZER_CONTENT_TYPE },
+    });
+    const [text, checkErr] = await checkResponse(response, requestErr, `Failed to release transport ${transportId}`);
+    if (checkErr) return err(checkErr);
+
+    return parseReleaseReport(text, transportId);
+}
+
+/**
+ * Parse the release report (<chkrun:checkReport>) of a release job
+ */
+export function parseReleaseReport(xml: string, transportId: string): Result<TransportReleaseReport, Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const chkAttr = (element: Element, name: string) =>
+        element.getAttributeNS(CHKRUN_NS, name) || element.getAttribute(`chkrun:${name}`) || '';
+
+    const reportElement = doc.getElementsByTagNameNS(CHKRUN_NS, 'checkReport')[0];
+    const status = reportElement ? chkAttr(reportElement, 'status') : '';
+
+    const messages: TransportReleaseMessage[] = [];
+    const messageElements = doc.getElementsByTagNameNS(CHKRUN_NS, 'checkMessage');
+    for (let i = 0; i < messageElements.length; i++) {
+        const element = messageElements[i];
+        if (!element) continue;
+
+        const text = chkAttr(element, 'shortText');
+        if (!text) continue;
+        messages.push({ severity: toSeverity(chkAttr(element, 'type')), text });
+    }
+
+    return ok({
+        id: transportId.toUpperCase(),
+        released: status === 'released',
+        status,
+        statusText: reportElement ? chkAttr(reportElement, 'statusText') : '',
+        messages,
+    });
+}
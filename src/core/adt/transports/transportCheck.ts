@@ -0,0 +1,169 @@
+/**
+ * Transport Check — Transport requirement of an object write
+ *
+ * Built on the transportchecks endpoint, queried with the object's real
+ * URI so the server reports the request already locking the object.
+ */
+
+import type { Result, AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { ObjectRef } from '../../../types/requests';
+import type { AdtRequestor } from '../types';
+import { buildObjectUri, checkResponse, requireConfig } from '../helpers';
+import { escapeXml, safeParseXml } from '../../utils/xml';
+import type { Transport } from './transports';
+
+/**
+ * Transport requirement of an object in a package
+ */
+export interface TransportRequirement {
+    object: ObjectRef;
+    package: string;
+    /** Package is local (changes are not recorded, no transport needed) */
+    local: boolean;
+    /** Modifiable requests the object can be recorded on */
+    transports: Transport[];
+    /** Request the object is already locked in (must be used for changes) */
+    lockingTransport?: Transport;
+}
+
+/**
+ * Object write needs a transport but none was given or can be selected
+ */
+export class TransportRequiredError extends Error {
+    constructor(
+        message: string,
+        public packageName: string,
+        public transports: Transport[]
+    ) {
+        super(message);
+        this.name = 'TransportRequiredError';
+    }
+}
+
+const CHECK_CONTENT_TYPE = 'application/vnd.sap.as+xml; charset=UTF-8; dataname=com.sap.adt.transport.service.checkData';
+
+/**
+ * Check whether changing an object in a package needs a transport
+ *
+ * @param client - ADT client
+ * @param object - Object reference (the object does not need to exist yet)
+ * @param packageName - Package of the object
+ * @returns Transport requirement or error
+ */
+export async function checkTransportRequirement(
+    client: AdtRequestor,
+    object: ObjectRef,
+    packageName: string
+): AsyncResult<TransportRequirement, Error> {
+    // Validate object extension is supported.
+    const [config, configErr] = requireConfig(object.extension);
+    if (configErr) return err(configErr);
+
+    const [objectUri, uriErr] = buildObjectUri(config, object);
+    if (uriErr) return err(uriErr);
+
+    const body = `<?xml version="1.0" encoding="UTF-8"?>
+<asx:abap version="1.0" xmlns:asx="http://www.sap.com/abapxml">
+  <asx:values>
+    <DATA>
+      <PGMID></PGMID>
+      <OBJECT></OBJECT>
+      <OBJECTNAME></OBJECTNAME>
+      <DEVCLASS>${escapeXml(packageName.toUpperCase())}</DEVCLASS>
+      <SUPER_PACKAGE></SUPER_PACKAGE>
+      <OPERATION>I</OPERATION>
+      <URI>${escapeXml(objectUri)}</URI>
+    </DATA>
+  </asx:values>
+</asx:abap>`;
+
+    // Execute transport check request.
+    const [response, requestErr] = await client.request({
+        method: 'POST',
+        path: '/sap/bc/adt/cts/transportchecks',
+        headers: {
+            'Accept': CHECK_CONTENT_TYPE,
+            'Content-Type': CHECK_CONTENT_TYPE,
+        },
+        body,
+    });
+    const [text, checkErr] = await checkResponse(
+        response,
+        requestErr,
+        `Failed to check transport requirement of ${config.label} ${object.name}`
+    );
+    if (checkErr) return err(checkErr);
+
+    return parseTransportCheck(text, object, packageName);
+}
+
+/**
+ * Parse a transportchecks response
+ *
+ * DLVUNIT 'LOCAL' (or no RECORDING flag) marks local packages. Valid
+ * requests are listed under REQUESTS; the lock holder under LOCKS.
+ * RESULT 'E' without a lock holder is reported as error.
+ */
+export function parseTransportCheck(
+    xml: string,
+    object: ObjectRef,
+    packageName: string
+): Result<TransportRequirement, Error> {
+    // Parse XML response.
+    const [doc, parseErr] = safeParseXml(xml);
+    if (parseErr) return err(parseErr);
+
+    const data = doc.getElementsByTagName('DATA')[0];
+    if (!data) return err(new Error('Invalid transport check response: DATA element missing'));
+
+    const field = (name: string) => childElement(data, name)?.textContent?.trim() ?? '';
+
+    const requirement: TransportRequirement = {
+        object,
+        package: packageName.toUpperCase(),
+        local: field('DLVUNIT') === 'LOCAL' || field('RECORDING') !== 'X',
+        transports: [],
+    };
+
+    const requests = childElement(data, 'REQUESTS');
+    if (requests) {
+        const headers = requests.getElementsByTagName('REQ_HEADER');
+        for (let i = 0; i < headers.length; i++) {
+            const transport = headers[i] ? parseRequestHeader(headers[i]!) : null;
+            if (transport) requirement.transports.push(transport);
+        }
+    }
+
+    const lockHeader = childElement(data, 'LOCKS')?.getElementsByTagName('REQ_HEADER')[0];
+    const lockingTransport = lockHeader ? parseRequestHeader(lockHeader) : null;
+    if (lockingTransport) requirement.lockingTransport = lockingTransport;
+
+    if (field('RESULT') === 'E' && !lockingTransport) {
+        const messages = doc.getElementsByTagName('TEXT');
+        const message = messages[0]?.textContent?.trim() || 'Transport check failed';
+        return err(new Error(`Transport check of ${object.name} in ${requirement.package} failed: ${message}`));
+    }
+
+    return ok(requirement);
+}
+
+// First direct child element with the given name.
+function childElement(element: Element, name: string): Element | undefined {
+    for (let node = element.firstChild; node; node = node.nextSibling) {
+        if (node.nodeType === 1 && (node as Element).localName === name) return node as Element;
+    }
+    return undefined;
+}
+
+// REQ_HEADER (TRKORR, AS4USER, AS4TEXT) to a transport.
+function parseRequestHeader(header: Element): Transport | null {
+    const id = header.getElementsByTagName('TRKORR')[0]?.textContent?.trim();
+    if (!id) return null;
+
+    return {
+        id,
+        description: header.getElementsByTagName('AS4TEXT')[0]?.textContent?.trim() ?? '',
+        owner: header.getElementsByTagName('AS4USER')[0]?.textContent?.trim() ?? '',
+    };
+}
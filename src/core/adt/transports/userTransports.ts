@@ -0,0 +1,60 @@
+/**
+ * User Transports — Transport organizer view of a user's requests
+ */
+
+import type { AsyncResult } from '../../../types/result';
+import { ok, err } from '../../../types/result';
+import type { AdtRequestor } from '../types';
+import { checkResponse } from '../helpers';
+import type { TransportDetails, TransportStatus } from './organizer';
+import { ORGANIZER_CONTENT_TYPE, parseTransportRequests } from './organizer';
+
+/**
+ * Filter for a user's transport requests
+ */
+export interface UserTransportQuery {
+    /** Owner of the requests (default: logged-in user) */
+    user?: string;
+    /** Only modifiable or only released requests (default: both) */
+    status?: TransportStatus;
+    /** Only requests for this target system */
+    targetSystem?: string;
+}
+
+/**
+ * Get the transport requests of a user with their tasks
+ *
+ * @param client - ADT client
+ * @param user - Owner of the requests
+ * @param query - Status and target filters
+ * @returns Requests (newest change first) or error
+ */
+export async function getUserTransports(
+    client: AdtRequestor,
+    user: string,
+    query: Omit<UserTransportQuery, 'user'> = {}
+): AsyncResult<TransportDetails[], Error> {
+    // Execute GET request for the organizer list (grouped by type, target and status).
+    const [response, requestErr] = await client.request({
+        method: 'GET',
+        path: '/sap/bc/adt/cts/transportrequests',
+        params: {
+            'user': user.toUpperCase(),
+            'targets': 'true',
+        },
+        headers: { 'Accept': ORGANIZER_CONTENT_TYPE },
+    });
+    const [text, checkErr] = await checkResponse(response, requestErr, `Failed to get transports of user ${user}`);
+    if (checkErr) return err(checkErr);
+
+    const [transports, parseErr] = parseTransportRequests(text);
+    if (parseErr) return err(parseErr);
+
+    const target = query.targetSystem?.toUpperCase();
+    const filtered = transports.filter(transport =>
+        (!query.status || transport.status === query.status) &&
+        (!target || transport.target?.toUpperCase() === target)
+    );
+
+    return ok(filtered.sort((a, b) => (b.lastChanged ?? '').localeCompare(a.lastChanged ?? '')));
+}
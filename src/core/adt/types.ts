@@ -1,6 +1,11 @@
 // ADT Object Type Configuration — metadata for SAP development objects
 
-import type { AsyncResult } from '../../types/result';
+import { z } from 'zod';
+import type { Result, AsyncResult } from '../../types/result';
+import { ok, err } from '../../types/result';
+import { CLASS_INCLUDES } from '../../types/requests';
+import type { ClassInclude } from '../../types/requests';
+import type { MergeConflict } from '../utils/merge';
 
 // Client interface for ADT requests
 export interface AdtRequestor {
@@ -13,25 +18,8 @@ export interface AdtRequestor {
     }): AsyncResult<Response, Error>;
 }
 
-// Configuration for a specific SAP object type
-export interface ObjectConfig {
-    /** ADT endpoint path (e.g., 'ddic/ddl/sources') */
-    endpoint: string;
-    /** XML namespace for creation requests */
-    nameSpace: string;
-    /** Root element name for creation XML */
-    rootName: string;
-    /** SAP ADT object type identifier (e.g., 'DDLS/DF') */
-    type: string;
-    /** Human-readable label (e.g., 'View') */
-    label: string;
-    /** File extension (e.g., 'asddls') */
-    extension: string;
-    /** Data preview endpoint (if supported) */
-    dpEndpoint?: string;
-    /** Data preview parameter name (if supported) */
-    dpParam?: string;
-}
+// Configuration for a specific SAP object type (fields documented on objectConfigSchema)
+export type ObjectConfig = z.infer<typeof objectConfigSchema>;
 
 /**
  * Result of upsert operation
@@ -39,14 +27,48 @@ export interface ObjectConfig {
 export interface UpsertResult {
     name: string;
     extension: string;
-    status: 'created' | 'updated' | 'unchanged';
+    status: 'created' | 'updated' | 'unchanged' | 'conflict';
     transport?: string;
+    /** Includes written during the upsert (only set for multi-include objects) */
+    includes?: ClassInclude[];
+    /** Server changes since the base version were merged into the written content */
+    merged?: boolean;
+    /** Conflicting changes (only set for status 'conflict'; nothing was written) */
+    conflicts?: UpsertConflict[];
 }
 
 /**
- * Supported object types
+ * Conflict between local and server changes of an upserted object
  */
-export type ConfiguredExtension = 'asddls' | 'asdcls' | 'astabldt' | 'aclass' | 'asprog';
+export interface UpsertConflict extends MergeConflict {
+    /** Include the conflict is in (only set for multi-include objects) */
+    include?: ClassInclude;
+}
+
+/**
+ * Built-in object type extensions
+ */
+export type BuiltinExtension =
+    | 'asddls'
+    | 'asdcls'
+    | 'astabldt'
+    | 'aclass'
+    | 'asprog'
+    | 'asfugr'
+    | 'asfunc'
+    | 'aint'
+    | 'asdtel'
+    | 'asdoma'
+    | 'astablds'
+    | 'asmsag'
+    | 'asbdef'
+    | 'assrvd'
+    | 'assrvb';
+
+/**
+ * Supported object types (built-in or added via registerObjectType)
+ */
+export type ConfiguredExtension = BuiltinExtension | (string & {});
 
 /**
  * Object type labels
@@ -57,15 +79,28 @@ export enum ObjectTypeLabel {
     TABLE = 'Table',
     CLASS = 'Class',
     PROGRAM = 'ABAP Program',
+    FUNCTION_GROUP = 'Function Group',
+    FUNCTION_MODULE = 'Function Module',
+    INTERFACE = 'Interface',
+    DATA_ELEMENT = 'Data Element',
+    DOMAIN = 'Domain',
+    STRUCTURE = 'Structure',
+    MESSAGE_CLASS = 'Message Class',
+    BEHAVIOR_DEFINITION = 'Behavior Definition',
+    SERVICE_DEFINITION = 'Service Definition',
+    SERVICE_BINDING = 'Service Binding',
 }
 
+/** Default source sub-resource for source-based objects */
+export const DEFAULT_SOURCE_PATH = 'source/main';
+
+/** Placeholder in `endpoint` replaced by the object's parent name */
+export const PARENT_PLACEHOLDER = '{parent}';
+
 /**
- * Configuration map for all supported object types
- *
- * Maps file extensions to their ADT configuration.
- * This is the central registry for object type metadata.
+ * Built-in configurations shipped with the package
  */
-export const OBJECT_CONFIG_MAP: Record<ConfiguredExtension, ObjectConfig> = {
+const BUILTIN_OBJECT_CONFIGS: Record<BuiltinExtension, ObjectConfig> = {
     'asddls': {
         endpoint: 'ddic/ddl/sources',
         nameSpace: 'xmlns:ddl="http://www.sap.com/adt/ddic/ddlsources"',
@@ -91,6 +126,7 @@ export const OBJECT_CONFIG_MAP: Record<ConfiguredExtension, ObjectConfig> = {
         type: 'CLAS/OC',
         label: ObjectTypeLabel.CLASS,
         extension: 'aclass',
+        includes: ['definitions', 'implementations', 'macros', 'testclasses'],
     },
     'astabldt': {
         endpoint: 'ddic/tables',
@@ -110,8 +146,217 @@ export const OBJECT_CONFIG_MAP: Record<ConfiguredExtension, ObjectConfig> = {
         label: ObjectTypeLabel.PROGRAM,
         extension: 'asprog',
     },
+    'asfugr': {
+        endpoint: 'functions/groups',
+        nameSpace: 'xmlns:group="http://www.sap.com/adt/functions/groups"',
+        rootName: 'group:abapFunctionGroup',
+        type: 'FUGR/F',
+        label: ObjectTypeLabel.FUNCTION_GROUP,
+        extension: 'asfugr',
+    },
+    'asfunc': {
+        endpoint: `functions/groups/${PARENT_PLACEHOLDER}/fmodules`,
+        nameSpace: 'xmlns:fmodule="http://www.sap.com/adt/functions/fmodules"',
+        rootName: 'fmodule:abapFunctionModule',
+        type: 'FUGR/FF',
+        label: ObjectTypeLabel.FUNCTION_MODULE,
+        extension: 'asfunc',
+        parentType: 'FUGR/F',
+    },
+    'aint': {
+        endpoint: 'oo/interfaces',
+        nameSpace: 'xmlns:intf="http://www.sap.com/adt/oo/interfaces"',
+        rootName: 'intf:abapInterface',
+        type: 'INTF/OI',
+        label: ObjectTypeLabel.INTERFACE,
+        extension: 'aint',
+    },
+    'asdtel': {
+        endpoint: 'ddic/dataelements',
+        nameSpace: 'xmlns:blue="http://www.sap.com/wbobj/dictionary/dtel"',
+        rootName: 'blue:wbobj',
+        type: 'DTEL/DE',
+        label: ObjectTypeLabel.DATA_ELEMENT,
+        extension: 'asdtel',
+        sourcePath: '',
+        contentType: 'application/vnd.sap.adt.dataelements.v2+xml',
+    },
+    'asdoma': {
+        endpoint: 'ddic/domains',
+        nameSpace: 'xmlns:doma="http://www.sap.com/dictionary/domain"',
+        rootName: 'doma:domain',
+        type: 'DOMA/DD',
+        label: ObjectTypeLabel.DOMAIN,
+        extension: 'asdoma',
+        sourcePath: '',
+        contentType: 'application/vnd.sap.adt.domains.v2+xml',
+    },
+    'astablds': {
+        endpoint: 'ddic/structures',
+        nameSpace: 'xmlns:blue="http://www.sap.com/wbobj/blue"',
+        rootName: 'blue:blueSource',
+        type: 'TABL/DS',
+        label: ObjectTypeLabel.STRUCTURE,
+        extension: 'astablds',
+    },
+    'asmsag': {
+        endpoint: 'messageclass',
+        nameSpace: 'xmlns:mc="http://www.sap.com/adt/MessageClass"',
+        rootName: 'mc:messageClass',
+        type: 'MSAG/N',
+        label: ObjectTypeLabel.MESSAGE_CLASS,
+        extension: 'asmsag',
+        sourcePath: '',
+        contentType: 'application/vnd.sap.adt.mc.messageclass+xml',
+    },
+    'asbdef': {
+        endpoint: 'bo/behaviordefinitions',
+        nameSpace: 'xmlns:blue="http://www.sap.com/wbobj/blue"',
+        rootName: 'blue:blueSource',
+        type: 'BDEF/BDO',
+        label: ObjectTypeLabel.BEHAVIOR_DEFINITION,
+        extension: 'asbdef',
+    },
+    'assrvd': {
+        endpoint: 'ddic/srvd/sources',
+        nameSpace: 'xmlns:srvd="http://www.sap.com/adt/ddic/srvdsources"',
+        rootName: 'srvd:srvdSource',
+        type: 'SRVD/SRV',
+        label: ObjectTypeLabel.SERVICE_DEFINITION,
+        extension: 'assrvd',
+    },
+    'assrvb': {
+        endpoint: 'businessservices/bindings',
+        nameSpace: 'xmlns:srvb="http://www.sap.com/adt/ddic/ServiceBindings"',
+        rootName: 'srvb:serviceBinding',
+        type: 'SRVB/SVB',
+        label: ObjectTypeLabel.SERVICE_BINDING,
+        extension: 'assrvb',
+        sourcePath: '',
+        contentType: 'application/vnd.sap.adt.businessservices.servicebinding.v2+xml',
+    },
+};
+
+/**
+ * Configuration map for all supported object types
+ *
+ * Maps file extensions to their ADT configuration.
+ * This is the central registry for object type metadata; it starts with the
+ * built-in types and is extended at runtime via registerObjectType().
+ */
+export const OBJECT_CONFIG_MAP: Record<BuiltinExtension, ObjectConfig> & Record<string, ObjectConfig> = {
+    ...BUILTIN_OBJECT_CONFIGS,
 };
 
+/**
+ * Zod schema for runtime validation of ObjectConfig
+ */
+export const objectConfigSchema = z.object({
+    /** ADT endpoint path (e.g., 'ddic/ddl/sources') */
+    endpoint: z.string().min(1),
+    /** XML namespace for creation requests */
+    nameSpace: z.string().min(1),
+    /** Root element name for creation XML */
+    rootName: z.string().min(1),
+    /** SAP ADT object type identifier (e.g., 'DDLS/DF') */
+    type: z.string().min(1),
+    /** Human-readable label (e.g., 'View') */
+    label: z.string().min(1),
+    /** File extension (e.g., 'asddls') */
+    extension: z.string().min(1).regex(/^[a-z0-9_.]+$/, 'Extension must be lowercase alphanumeric'),
+    /** Data preview endpoint (if supported) */
+    dpEndpoint: z.string().min(1).optional(),
+    /** Data preview parameter name (if supported) */
+    dpParam: z.string().min(1).optional(),
+    /**
+     * Source sub-resource relative to the object URI (default: 'source/main').
+     * Use an empty string for XML-only objects (data elements, domains, message classes)
+     * whose content is the object document itself.
+     */
+    sourcePath: z.string().optional(),
+    /** Content type used to read/write the object content (default: 'text/plain') */
+    contentType: z.string().min(1).optional(),
+    /** ADT type of the container object when `endpoint` contains `{parent}` (e.g., 'FUGR/F') */
+    parentType: z.string().min(1).optional(),
+    /** Secondary source includes exposed under `<object>/includes/<name>` (classes only) */
+    includes: z.array(z.enum(CLASS_INCLUDES).exclude(['main'])).optional(),
+}).refine(
+    config => !config.endpoint.includes(PARENT_PLACEHOLDER) || !!config.parentType,
+    { message: `parentType is required when endpoint contains ${PARENT_PLACEHOLDER}`, path: ['parentType'] }
+);
+
+/**
+ * Register (or replace) an object type in the registry
+ *
+ * Once registered, the type is picked up by read, create, lock, activate,
+ * search, where-used and tree parsing.
+ *
+ * @param config - Object type configuration
+ * @returns Registered configuration or validation error
+ *
+ * @example
+ * ```typescript
+ * registerObjectType({
+ *     endpoint: 'ddic/tabletypes',
+ *     nameSpace: 'xmlns:ttyp="http://www.sap.com/dictionary/tabletype"',
+ *     rootName: 'ttyp:tableType',
+ *     type: 'TTYP/DA',
+ *     label: 'Table Type',
+ *     extension: 'asttyp',
+ *     sourcePath: '',
+ *     contentType: 'application/vnd.sap.adt.tabletype.v1+xml',
+ * });
+ * ```
+ */
+export function registerObjectType(config: ObjectConfig): Result<ObjectConfig, Error> {
+    // Validate configuration shape.
+    const validation = objectConfigSchema.safeParse(config);
+    if (!validation.success) {
+        const issues = validation.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ');
+        return err(new Error(`Invalid object type configuration: ${issues}`));
+    }
+
+    // Each ADT type may only map to a single extension.
+    const existing = getConfigByType(config.type);
+    if (existing && existing.extension !== config.extension) {
+        return err(new Error(`ADT type ${config.type} is already registered as ${existing.extension}`));
+    }
+
+    const registered = validation.data;
+    OBJECT_CONFIG_MAP[registered.extension] = registered;
+    return ok(registered);
+}
+
+/**
+ * Remove a registered object type
+ *
+ * Built-in types are restored to their default configuration instead of removed.
+ *
+ * @param extension - Extension to remove
+ * @returns True if a registration was removed or restored
+ */
+export function unregisterObjectType(extension: string): boolean {
+    if (!Object.prototype.hasOwnProperty.call(OBJECT_CONFIG_MAP, extension)) return false;
+
+    if (isBuiltinExtension(extension)) {
+        OBJECT_CONFIG_MAP[extension] = BUILTIN_OBJECT_CONFIGS[extension];
+        return true;
+    }
+
+    delete OBJECT_CONFIG_MAP[extension];
+    return true;
+}
+
+/**
+ * Check if extension belongs to a built-in object type
+ *
+ * @param extension - Extension to check
+ * @returns True if built-in
+ */
+export function isBuiltinExtension(extension: string): extension is BuiltinExtension {
+    return Object.prototype.hasOwnProperty.call(BUILTIN_OBJECT_CONFIGS, extension);
+}
+
 /**
  * Get object configuration by extension
  *
@@ -119,7 +364,8 @@ export const OBJECT_CONFIG_MAP: Record<ConfiguredExtension, ObjectConfig> = {
  * @returns Configuration or null if not found
  */
 export function getConfigByExtension(extension: string): ObjectConfig | null {
-    return OBJECT_CONFIG_MAP[extension as ConfiguredExtension] ?? null;
+    if (!Object.prototype.hasOwnProperty.call(OBJECT_CONFIG_MAP, extension)) return null;
+    return OBJECT_CONFIG_MAP[extension] ?? null;
 }
 
 /**
@@ -143,7 +389,7 @@ export function getConfigByType(type: string): ObjectConfig | null {
  * @returns Array of supported extensions
  */
 export function getAllExtensions(): ConfiguredExtension[] {
-    return Object.keys(OBJECT_CONFIG_MAP) as ConfiguredExtension[];
+    return Object.keys(OBJECT_CONFIG_MAP);
 }
 
 /**
@@ -162,5 +408,5 @@ export function getAllTypes(): string[] {
  * @returns True if supported
  */
 export function isExtensionSupported(extension: string): extension is ConfiguredExtension {
-    return extension in OBJECT_CONFIG_MAP;
+    return getConfigByExtension(extension) !== null;
 }
@@ -7,7 +7,7 @@
 
 // Re-export client
 export { createClient } from '../client/index';
-export type { ADTClient } from '../client/index';
+export type { ADTClient, TransportOperations, CacheOptions, CacheStats, CacheOperationStats } from '../client/index';
 
 // Re-export auth (when implemented)
 // export * as auth from './auth';
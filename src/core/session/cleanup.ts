@@ -18,6 +18,11 @@ export interface CleanupHandle {
     stop: () => void;
 }
 
+/**
+ * Callback for an expired session (may be async)
+ */
+export type ExpiredCallback<TClient> = (sessionId: string, entry: SessionEntry<TClient>) => void | Promise<void>;
+
 /**
  * Starts a background cleanup task that periodically removes expired sessions
  *
@@ -25,9 +30,11 @@ export interface CleanupHandle {
  * 1. Iterates through all sessions
  * 2. Checks if session has exceeded timeout based on auth type
  * 3. Destroys expired sessions
- * 4. Invokes optional callback for each expired session
+ * 4. Invokes optional callback for each expired session (awaited; errors are logged)
  * 5. Removes clients from config hash map if no sessions reference them
  *
+ * A run is skipped while the previous one is still waiting for its callbacks.
+ *
  * @param manager - Session manager instance
  * @param config - Session configuration (timeouts, intervals)
  * @param onExpired - Optional callback invoked for each expired session
@@ -46,14 +53,17 @@ export interface CleanupHandle {
  * cleanup.stop();
  * ```
  */
-export function startCleanupTask(
-    manager: SessionManager,
+export function startCleanupTask<TClient>(
+    manager: SessionManager<TClient>,
     config: SessionConfig,
-    onExpired?: (sessionId: string, entry: SessionEntry) => void
+    onExpired?: ExpiredCallback<TClient>
 ): CleanupHandle {
     // Schedule periodic cleanup at configured interval.
+    let running = false;
     const intervalId = setInterval(() => {
-        performCleanup(manager, config, onExpired);
+        if (running) return;
+        running = true;
+        void performCleanup(manager, config, onExpired).finally(() => { running = false; });
     }, config.cleanupInterval * 1000);
 
     return {
@@ -72,13 +82,13 @@ export function startCleanupTask(
  * @param config - Session configuration
  * @param onExpired - Optional callback for expired sessions
  */
-function performCleanup(
-    manager: SessionManager,
+async function performCleanup<TClient>(
+    manager: SessionManager<TClient>,
     config: SessionConfig,
-    onExpired?: (sessionId: string, entry: SessionEntry) => void
-): void {
+    onExpired?: ExpiredCallback<TClient>
+): Promise<void> {
     const now = new Date();
-    const expiredSessions: Array<{ sessionId: string; entry: SessionEntry }> = [];
+    const expiredSessions: Array<{ sessionId: string; entry: SessionEntry<TClient> }> = [];
 
     // Find expired sessions.
     for (const [sessionId, entry] of manager.getAllSessions()) {
@@ -100,16 +110,20 @@ function performCleanup(
     if (expiredSessions.length === 0) return;
 
     // Track clients from expired sessions.
-    const expiredClients = new Set<unknown>();
+    const expiredClients = new Set<TClient>();
 
     // Destroy expired sessions and invoke callbacks.
     for (const { sessionId, entry } of expiredSessions) {
         manager.destroySession(sessionId);
         expiredClients.add(entry.client);
 
-        // Invoke callback if provided.
+        // Invoke callback if provided; a failing callback does not stop the cleanup.
         if (onExpired) {
-            onExpired(sessionId, entry);
+            try {
+                await onExpired(sessionId, entry);
+            } catch (error) {
+                console.error(`Expired session ${sessionId} callback failed:`, error);
+            }
         }
     }
 
@@ -12,7 +12,7 @@ export { SessionManager } from './manager';
 export { hashConnectionConfig } from './hash';
 export { startCleanupTask } from './cleanup';
 export type { Session, SessionEntry, SessionConfig, ExportableSessionState } from './types';
-export type { CleanupHandle } from './cleanup';
+export type { CleanupHandle, ExpiredCallback } from './cleanup';
 export { DEFAULT_SESSION_CONFIG } from './types';
 export { login, logout, sessionReset, fetchCsrfToken, getSessionTimeout } from './login';
 export type { SessionState } from './login';
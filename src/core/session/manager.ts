@@ -23,7 +23,7 @@ import { DEFAULT_SESSION_CONFIG } from './types';
  *
  * @example
  * ```typescript
- * const manager = new SessionManager();
+ * const manager = new SessionManager<ADTClient>();
  *
  * // Register a client by config hash
  * manager.registerClient(configHash, client);
@@ -41,9 +41,9 @@ import { DEFAULT_SESSION_CONFIG } from './types';
  * manager.destroySession(sessionId);
  * ```
  */
-export class SessionManager {
-    private sessionMap: Map<string, SessionEntry> = new Map();
-    private configHashMap: Map<string, unknown> = new Map();
+export class SessionManager<TClient = unknown> {
+    private sessionMap: Map<string, SessionEntry<TClient>> = new Map();
+    private configHashMap: Map<string, TClient> = new Map();
     private config: SessionConfig;
 
     constructor(config?: Partial<SessionConfig>) {
@@ -59,7 +59,7 @@ export class SessionManager {
      * @param authType - Authentication type (affects timeout)
      * @returns Generated session ID
      */
-    createSession(configHash: string, client: unknown, authType: AuthType): string {
+    createSession(configHash: string, client: TClient, authType: AuthType): string {
         // Generate unique session identifier.
         const sessionId = this.generateSessionId();
 
@@ -79,7 +79,7 @@ export class SessionManager {
      * @param sessionId - Session identifier
      * @returns Session entry or null if not found
      */
-    getSession(sessionId: string): SessionEntry | null {
+    getSession(sessionId: string): SessionEntry<TClient> | null {
         return this.sessionMap.get(sessionId) ?? null;
     }
 
@@ -119,7 +119,7 @@ export class SessionManager {
      * @param configHash - Configuration hash
      * @returns Client instance or null if not found
      */
-    getClientByHash(configHash: string): unknown | null {
+    getClientByHash(configHash: string): TClient | null {
         return this.configHashMap.get(configHash) ?? null;
     }
 
@@ -132,7 +132,7 @@ export class SessionManager {
      * @param configHash - Configuration hash
      * @param client - ADT client instance
      */
-    registerClient(configHash: string, client: unknown): void {
+    registerClient(configHash: string, client: TClient): void {
         this.configHashMap.set(configHash, client);
     }
 
@@ -153,7 +153,7 @@ export class SessionManager {
      *
      * @returns Array of [sessionId, entry] tuples
      */
-    getAllSessions(): [string, SessionEntry][] {
+    getAllSessions(): [string, SessionEntry<TClient>][] {
         return Array.from(this.sessionMap.entries());
     }
 
@@ -19,9 +19,9 @@ export interface Session {
 /**
  * Session entry stored in memory
  */
-export interface SessionEntry {
-    /** The ADT client instance (typed as unknown until client is implemented) */
-    client: unknown;
+export interface SessionEntry<TClient = unknown> {
+    /** The ADT client instance */
+    client: TClient;
     /** Last activity timestamp for timeout tracking */
     lastActivity: Date;
     /** Authentication type used for this session */
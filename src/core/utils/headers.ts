@@ -8,10 +8,13 @@
 import { CSRF_TOKEN_HEADER, FETCH_CSRF_TOKEN } from './csrf';
 import type { AuthConfig } from '../../types/config';
 
+// Session type header ('stateful' keeps the server session, and its locks, alive between requests)
+export const SESSION_TYPE_HEADER = 'X-sap-adt-sessiontype';
+
 // Mimic Eclipse ADT plugin for compatibility
 export const BASE_HEADERS = {
     'Accept': '*/*',
-    'X-sap-adt-sessiontype': 'stateful',
+    [SESSION_TYPE_HEADER]: 'stateful',
     'User-Agent': 'Eclipse/4.34.0 ADT/3.46.0',
     'X-sap-adt-profiling': 'server-time',
 } as const;
@@ -24,6 +24,7 @@ export { FETCH_CSRF_TOKEN, CSRF_TOKEN_HEADER } from './csrf';
 
 export {
     BASE_HEADERS,
+    SESSION_TYPE_HEADER,
     DEFAULT_TIMEOUT,
     buildRequestHeaders,
     extractCsrfToken
@@ -38,3 +39,9 @@ export {
 } from './logging';
 
 export { normalizeContent } from './content';
+
+export { mergeThreeWay, findConflicts } from './merge';
+export type { MergeConflict, MergeResult } from './merge';
+
+export { createTar, tarEntry, TAR_END } from './tar';
+export type { TarEntry } from './tar';
@@ -0,0 +1,167 @@
+/**
+ * Three-way merge utilities
+ *
+ * Merges two line-based edits of a common base (diff3 style). Changes of
+ * one side are taken as-is; overlapping changes of both sides are
+ * conflicts unless they are identical. The merged content keeps the line
+ * ending of the base (CRLF or LF).
+ */
+
+import { diffArrays } from 'diff';
+
+/**
+ * Overlapping change of both sides
+ */
+export interface MergeConflict {
+    /** Starting line in the base content (0-indexed) */
+    baseStart: number;
+    /** Base lines replaced by both sides (absent if no base was available) */
+    base?: string[];
+    /** Lines of the local version */
+    local: string[];
+    /** Lines of the server version */
+    server: string[];
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+    /** Merged content (null if there are conflicts) */
+    content: string | null;
+    conflicts: MergeConflict[];
+}
+
+/** Replacement of base lines [baseStart, baseEnd) by `lines` */
+interface Edit {
+    side: 'local' | 'server';
+    baseStart: number;
+    baseEnd: number;
+    lines: string[];
+}
+
+/**
+ * Merge local and server edits of a common base
+ *
+ * @param base - Content both versions started from
+ * @param local - Local version
+ * @param server - Server version
+ * @returns Merged content or conflicts
+ */
+export function mergeThreeWay(base: string, local: string, server: string): MergeResult {
+    const baseLines = splitLines(base);
+    const edits = [
+        ...computeEdits(baseLines, splitLines(local), 'local'),
+        ...computeEdits(baseLines, splitLines(server), 'server'),
+    ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+    const merged: string[] = [];
+    const conflicts: MergeConflict[] = [];
+    let baseIndex = 0;
+
+    for (let i = 0; i < edits.length;) {
+        // Group edits that overlap or touch (same rule as git).
+        const group: Edit[] = [edits[i]!];
+        let groupEnd = edits[i]!.baseEnd;
+        for (i++; i < edits.length && edits[i]!.baseStart <= groupEnd; i++) {
+            group.push(edits[i]!);
+            groupEnd = Math.max(groupEnd, edits[i]!.baseEnd);
+        }
+        const groupStart = group[0]!.baseStart;
+
+        // Copy unchanged base lines before the group.
+        merged.push(...baseLines.slice(baseIndex, groupStart));
+        baseIndex = groupEnd;
+
+        const localLines = applyEdits(baseLines, groupStart, groupEnd, group.filter(e => e.side === 'local'));
+        const serverLines = applyEdits(baseLines, groupStart, groupEnd, group.filter(e => e.side === 'server'));
+        const sides = new Set(group.map(e => e.side));
+
+        // One-sided or identical changes merge cleanly.
+        if (sides.size === 1) {
+            merged.push(...(sides.has('local') ? localLines : serverLines));
+        } else if (localLines.join('\n') === serverLines.join('\n')) {
+            merged.push(...localLines);
+        } else {
+            conflicts.push({
+                baseStart: groupStart,
+                base: baseLines.slice(groupStart, groupEnd),
+                local: localLines,
+                server: serverLines,
+            });
+        }
+    }
+    merged.push(...baseLines.slice(baseIndex));
+
+    return { content: conflicts.length > 0 ? null : merged.join(lineEnding(base)), conflicts };
+}
+
+/**
+ * Conflicts between two versions without a common base
+ *
+ * Every differing region is reported, as neither side can be preferred.
+ *
+ * @param local - Local version
+ * @param server - Server version
+ * @returns Conflicts (empty if the versions are equal)
+ */
+export function findConflicts(local: string, server: string): MergeConflict[] {
+    // Use the server version as base; every local edit is a conflicting region.
+    const serverLines = splitLines(server);
+    return computeEdits(serverLines, splitLines(local), 'local').map(edit => ({
+        baseStart: edit.baseStart,
+        local: edit.lines,
+        server: serverLines.slice(edit.baseStart, edit.baseEnd),
+    }));
+}
+
+// Split content into lines (CRLF-tolerant).
+function splitLines(content: string): string[] {
+    return content.split(/\r?\n/);
+}
+
+// Line ending of content (CRLF if any line ends with it).
+function lineEnding(content: string): string {
+    return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+// Convert a line diff into base-range replacements.
+function computeEdits(baseLines: string[], otherLines: string[], side: Edit['side']): Edit[] {
+    const edits: Edit[] = [];
+    let baseIndex = 0;
+    let current: Edit | null = null;
+
+    for (const change of diffArrays(baseLines, otherLines)) {
+        if (!change.added && !change.removed) {
+            current = null;
+            baseIndex += change.value.length;
+            continue;
+        }
+
+        // Consecutive removals and additions form a single replacement.
+        if (!current) {
+            current = { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+            edits.push(current);
+        }
+        if (change.removed) {
+            baseIndex += change.value.length;
+            current.baseEnd = baseIndex;
+        } else {
+            current.lines.push(...change.value);
+        }
+    }
+
+    return edits;
+}
+
+// Apply one side's edits to the base range [start, end).
+function applyEdits(baseLines: string[], start: number, end: number, edits: Edit[]): string[] {
+    const result: string[] = [];
+    let index = start;
+    for (const edit of edits) {
+        result.push(...baseLines.slice(index, edit.baseStart), ...edit.lines);
+        index = edit.baseEnd;
+    }
+    result.push(...baseLines.slice(index, end));
+    return result;
+}
@@ -0,0 +1,107 @@
+/**
+ * Tar archive encoding (POSIX ustar)
+ *
+ * Only regular files are written; folders are implied by the paths.
+ */
+
+import type { Result } from '../../types/result';
+import { ok, err } from '../../types/result';
+
+/**
+ * File of a tar archive
+ */
+export interface TarEntry {
+    /** Path inside the archive (e.g., 'src/zdemo.prog.abap') */
+    path: string;
+    content: string | Uint8Array;
+    /** Modification time (default: now) */
+    mtime?: Date;
+}
+
+const BLOCK_SIZE = 512;
+
+/** End of archive marker (two zero blocks) */
+export const TAR_END = new Uint8Array(BLOCK_SIZE * 2);
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode one file: header block and content padded to full blocks
+ *
+ * @param entry - File to encode
+ * @returns Encoded entry or error for paths that do not fit a ustar header
+ */
+export function tarEntry(entry: TarEntry): Result<Uint8Array, Error> {
+    const [names, pathErr] = splitPath(entry.path);
+    if (pathErr) return err(pathErr);
+
+    const content = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    const mtime = Math.floor((entry.mtime ?? new Date()).getTime() / 1000);
+
+    const header = new Uint8Array(BLOCK_SIZE);
+    const field = (offset: number, length: number, value: string) => header.set(encoder.encode(value).subarray(0, length), offset);
+    const octal = (offset: number, length: number, value: number) => field(offset, length, `${value.toString(8).padStart(length - 1, '0')}\0`);
+
+    field(0, 100, names.name);
+    octal(100, 8, 0o644);
+    octal(108, 8, 0);
+    octal(116, 8, 0);
+    octal(124, 12, content.length);
+    octal(136, 12, mtime);
+    field(148, 8, ' '.repeat(8));
+    field(156, 1, '0');
+    field(257, 6, 'ustar\0');
+    field(263, 2, '00');
+    field(345, 155, names.prefix);
+
+    // Checksum over the header with the checksum field as spaces.
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    field(148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+
+    const padded = Math.ceil(content.length / BLOCK_SIZE) * BLOCK_SIZE;
+    const encoded = new Uint8Array(BLOCK_SIZE + padded);
+    encoded.set(header);
+    encoded.set(content, BLOCK_SIZE);
+    return ok(encoded);
+}
+
+/**
+ * Encode a complete archive
+ *
+ * @param entries - Files in archive order
+ * @returns Archive bytes or error
+ */
+export function createTar(entries: TarEntry[]): Result<Uint8Array, Error> {
+    const chunks: Uint8Array[] = [];
+    for (const entry of entries) {
+        const [chunk, entryErr] = tarEntry(entry);
+        if (entryErr) return err(entryErr);
+        chunks.push(chunk);
+    }
+    chunks.push(TAR_END);
+
+    const archive = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        archive.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return ok(archive);
+}
+
+// ustar paths: up to 100 bytes of name plus up to 155 bytes of prefix, split at a '/'.
+function splitPath(path: string): Result<{ name: string; prefix: string }, Error> {
+    if (!path || path.startsWith('/') || path.split('/').includes('..')) {
+        return err(new Error(`Invalid archive path: ${path}`));
+    }
+
+    const bytes = (value: string) => encoder.encode(value).length;
+    if (bytes(path) <= 100) return ok({ name: path, prefix: '' });
+
+    for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+        const prefix = path.slice(0, i);
+        const name = path.slice(i + 1);
+        if (bytes(prefix) <= 155 && bytes(name) <= 100 && name) return ok({ name, prefix });
+    }
+    return err(new Error(`Archive path too long: ${path}`));
+}
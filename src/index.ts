@@ -31,7 +31,7 @@
 
 // Core exports
 export { createClient } from './core';
-export type { ADTClient } from './core';
+export type { ADTClient, TransportOperations, CacheOptions, CacheStats, CacheOperationStats } from './core';
 
 // Config types
 export type {
@@ -41,14 +41,22 @@ export type {
     SamlAuthConfig,
     SsoAuthConfig,
     ClientConfig,
+    CacheConfig,
+    CacheOperation,
 } from './types/config';
 
 // Request types
 export type {
     ObjectRef,
     ObjectContent,
+    ClassInclude,
+    ClassIncludeContents,
+    BaseVersion,
+    ReadOptions,
     TreeQuery,
+    PackageExportOptions,
     PreviewSQL,
+    TypedValueOptions,
 } from './types/requests';
 
 // Response wrappers
@@ -70,28 +78,101 @@ export type {
     ObjectMetadata,
     ObjectWithContent,
     UpsertResult,
+    UpsertConflict,
     ActivationResult,
     ActivationMessage,
+    InactiveObject,
     Transport,
     Package,
     DataFrame,
     ColumnInfo,
     DistinctResult,
+    ObjectColumns,
+    ColumnMetadata,
+    ParameterMetadata,
+    FieldLabels,
+    ValueHelpResult,
+    ValueHelpValue,
+    ValueHelpOptions,
+    ColumnProfile,
+    HistogramBucket,
+    ProfileOptions,
     SearchResult,
     Dependency,
     DiffResult,
+    DiffSource,
+    DiffOptions,
+    Revision,
+    ObjectLock,
+    LockStatus,
     TransportConfig,
+    TransportDetails,
+    TransportTask,
+    TransportObject,
+    TransportObjectKey,
+    TransportStatus,
+    TransportReleaseReport,
+    TransportReleaseMessage,
+    UserTransportQuery,
+    TransportRequirement,
     ObjectConfig,
+    // ABAP Unit types
+    UnitTestOptions,
+    UnitTestRiskLevel,
+    UnitTestDuration,
+    UnitTestRunResult,
+    UnitTestSummary,
+    UnitTestProgram,
+    UnitTestClass,
+    UnitTestMethod,
+    UnitTestAlert,
+    UnitTestStackEntry,
+    // Syntax check and ATC types
+    SyntaxCheckResult,
+    AtcFinding,
     // Tree types
     TreeResponse,
     PackageNode,
     FolderNode,
     ObjectNode,
+    // Package export types
+    PackageExport,
+    ExportedObject,
+    ExportPart,
+    ExportFile,
 } from './core/adt';
 
+// Object type registry (extend supported object types at runtime)
+export { registerObjectType, unregisterObjectType } from './core/adt';
+
+// Lock conflicts (returned when another user holds an object's lock)
+export { ObjectLockedError } from './core/adt';
+
+// Missing packages (returned when a requested package does not exist)
+export { PackageNotFoundError } from './core/adt';
+
+// Missing transports (returned when a write needs a transport that cannot be selected)
+export { TransportRequiredError } from './core/adt';
+
+// ABAP Unit result serialization (JUnit XML for CI)
+export { toJUnitXml } from './core/adt';
+
 // Query builder (optional helper for data preview)
-export { buildSQLQuery } from './core/adt';
-export type { DataPreviewQuery, QueryFilter, BasicFilter, BetweenFilter, ListFilter, Sorting, Aggregation, Parameter } from './core/adt';
+export { buildSQLQuery, validateQuery } from './core/adt';
+
+// Export serializers for data preview results (CSV, NDJSON, columnar JSON)
+export { toCsv, toNdjson, toColumnar, createExportSerializer } from './core/adt';
+export type { ExportFormat, ExportSerializer, CsvOptions, ColumnarFrame } from './core/adt';
+export type { DataPreviewQuery, QueryFilter, BasicFilter, BetweenFilter, ListFilter, KeyRangeFilter, DecimalLiteral, FilterGroup, NotFilter, Join, JoinCondition, JoinType, Sorting, Aggregation, Parameter } from './core/adt';
+
+// Query templates (structured queries with {{placeholders}} bound at run time)
+export { bindTemplate, validateTemplate, findPlaceholders } from './core/adt';
+export type { QueryTemplate, Placeholder, PlaceholderType, PlaceholderValues } from './core/adt';
+
+// abapGit file layout of exported packages
+export { abapGitObjectFiles, abapGitPackageFolder, abapGitFileName } from './core/adt';
+export { createTar } from './core/utils/tar';
+export type { TarEntry } from './core/utils/tar';
 
 // Result utilities
 export { ok, err } from './types/result';
@@ -12,19 +12,50 @@ import { SessionManager } from './core/session/manager';
 import { startCleanupTask } from './core/session/cleanup';
 import { createSessionMiddleware, errorMiddleware } from './server/middleware';
 import { createRoutes } from './server/routes';
-import type { ISessionManager } from './server/routes';
+import type { ADTClient } from './client';
+import { loadObjectTypesFile, QueryStore } from './server/utils';
+
+// Register custom object types from config file (OBJECT_TYPES_CONFIG=path/to/object-types.json)
+const objectTypesFile = process.env['OBJECT_TYPES_CONFIG'];
+if (objectTypesFile) {
+    const [objectTypes, objectTypesErr] = loadObjectTypesFile(objectTypesFile);
+    if (objectTypesErr) {
+        console.error(objectTypesErr.message);
+        process.exit(1);
+    }
+    console.log(`Registered ${objectTypes.length} custom object type(s) from ${objectTypesFile}`);
+}
+
+// Open saved query store (SAVED_QUERIES_FILE=path/to/saved-queries.json)
+const savedQueriesFile = process.env['SAVED_QUERIES_FILE'] || 'saved-queries.json';
+const [queryStore, queryStoreErr] = QueryStore.load(savedQueriesFile);
+if (queryStoreErr) {
+    console.error(queryStoreErr.message);
+    process.exit(1);
+}
 
 const app = new Hono();
 
-// Create session manager (cast to ISessionManager for proper typing)
-const sessionManager = new SessionManager() as unknown as ISessionManager;
+// Create session manager
+const sessionManager = new SessionManager<ADTClient>();
 
 // Start background cleanup task
 const cleanupHandle = startCleanupTask(
-    sessionManager as unknown as SessionManager,
-    (sessionManager as unknown as SessionManager).getConfig(),
-    (sessionId, entry) => {
+    sessionManager,
+    sessionManager.getConfig(),
+    async (sessionId, entry) => {
         console.log(`Session ${sessionId} expired after inactivity`);
+
+        // Release locks leaked by the session unless another session shares its client
+        const shared = sessionManager.getAllSessions().some(([, other]) => other.client === entry.client);
+        if (shared) return;
+
+        const [, releaseErr] = await entry.client.releaseLock();
+        if (releaseErr) {
+            console.error(`Failed to release locks of expired session ${sessionId}: ${releaseErr.message}`);
+            return;
+        }
+        console.log(`Released locks of expired session ${sessionId}`);
     }
 );
 
@@ -42,7 +73,7 @@ app.get('/health', (c) => {
 });
 
 // Mount all API routes
-const routes = createRoutes(sessionManager, sessionMiddleware);
+const routes = createRoutes(sessionManager, sessionMiddleware, queryStore);
 app.route('/', routes);
 
 // 404 handler
@@ -6,6 +6,8 @@
 
 import { createMiddleware } from 'hono/factory';
 import type { ErrorCode } from '../../types/responses';
+import { ObjectLockedError } from '../../core/adt/craud/lock';
+import { TransportRequiredError } from '../../core/adt/transports/transportCheck';
 
 /**
  * Custom error class for API errors with codes
@@ -22,6 +24,19 @@ export class ApiError extends Error {
     }
 }
 
+/**
+ * Find a lock conflict in an error (batch operations aggregate their errors)
+ *
+ * Routes rethrow such errors unchanged so they are reported as OBJECT_LOCKED.
+ */
+export function findLockConflict(error: unknown): ObjectLockedError | null {
+    if (error instanceof ObjectLockedError) return error;
+    if (error instanceof AggregateError) {
+        return error.errors.find((e): e is ObjectLockedError => e instanceof ObjectLockedError) ?? null;
+    }
+    return null;
+}
+
 /**
  * Error handler middleware
  *
@@ -56,6 +71,40 @@ export const errorMiddleware = createMiddleware(async (c, next) => {
             );
         }
 
+        // Handle lock conflicts (details name the user holding the lock)
+        const lockConflict = findLockConflict(error);
+        if (lockConflict) {
+            return c.json(
+                {
+                    success: false as const,
+                    error: lockConflict.message,
+                    code: 'OBJECT_LOCKED' as ErrorCode,
+                    details: {
+                        owner: lockConflict.owner,
+                        transport: lockConflict.transport,
+                        lockedAt: lockConflict.lockedAt,
+                    },
+                },
+                409
+            );
+        }
+
+        // Handle missing transports (details list the requests that can be used)
+        if (error instanceof TransportRequiredError) {
+            return c.json(
+                {
+                    success: false as const,
+                    error: error.message,
+                    code: 'TRANSPORT_REQUIRED' as ErrorCode,
+                    details: {
+                        package: error.packageName,
+                        transports: error.transports,
+                    },
+                },
+                400
+            );
+        }
+
         // Handle generic errors
         const message = error instanceof Error ? error.message : 'Unknown error';
 
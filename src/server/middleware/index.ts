@@ -9,4 +9,4 @@
 
 export { createSessionMiddleware } from './session';
 export type { SessionContext } from './session';
-export { errorMiddleware, ApiError } from './error';
+export { errorMiddleware, ApiError, findLockConflict } from './error';
@@ -0,0 +1,25 @@
+/**
+ * GET /session/cache — Result cache statistics of the session's client
+ */
+
+import type { CacheStats } from '../../../client';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CacheStatsResponse = CacheStats;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function cacheStatsHandler(c: RouteContext) {
+    const client = c.get('client');
+
+    return c.json({
+        success: true,
+        data: client.getCacheStats() satisfies CacheStatsResponse,
+    });
+}
@@ -0,0 +1,25 @@
+/**
+ * DELETE /session/cache — Drop all cached results of the session's client
+ */
+
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ClearCacheResponse = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function clearCacheHandler(c: RouteContext) {
+    const client = c.get('client');
+    client.clearCache();
+
+    return c.json({
+        success: true,
+        data: null as ClearCacheResponse,
+    });
+}
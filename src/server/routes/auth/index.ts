@@ -5,3 +5,5 @@
 export { loginHandler, type LoginResponse } from './login';
 export { logoutHandler, type LogoutResponse } from './logout';
 export { refreshHandler, type RefreshResponse } from './refresh';
+export { cacheStatsHandler, type CacheStatsResponse } from './cacheStats';
+export { clearCacheHandler, type ClearCacheResponse } from './clearCache';
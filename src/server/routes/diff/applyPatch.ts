@@ -0,0 +1,60 @@
+/**
+ * POST /git-diff/apply — Apply a unified patch to server content
+ *
+ * Returns the patched object content; nothing is written to the server
+ * (pass the result to /objects/upsert to save it).
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef, ObjectContent } from '../../../types/requests';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const applyPatchRequestSchema = z.object({
+    object: objectRefSchema,
+    patch: z.string().min(1),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ApplyPatchResponse = ObjectContent;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function applyPatchHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate object and patch text.
+    const validation = safeParseRequest(applyPatchRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid patch request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const object: ObjectRef = validation.data.object;
+    const client = c.get('client');
+
+    const [result, error] = await client.applyPatch(object, validation.data.patch);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: result satisfies ApplyPatchResponse,
+    });
+}
@@ -1,11 +1,16 @@
 /**
  * POST /git-diff — Compare local content with server content
+ *
+ * Query params:
+ *   - format: 'hunks' (default), 'unified' (adds `patch` to each result)
+ *             or 'patch' (plain unified diff text for git tooling)
+ *   - context: Context lines in unified diffs (default: 3)
  */
 
 import { z } from 'zod';
 import { objectContentSchema } from '../../../types/requests';
 import type { ObjectContent } from '../../../types/requests';
-import type { DiffResult } from '../../../core/adt/craud/gitDiff';
+import type { DiffResult, DiffOptions } from '../../../core/adt/craud/gitDiff';
 import { ApiError } from '../../middleware/error';
 import { formatZodError } from '../../utils';
 import type { RouteContext } from '../types';
@@ -16,6 +21,11 @@ import type { RouteContext } from '../types';
 
 export const gitDiffRequestSchema = z.array(objectContentSchema);
 
+export const diffQuerySchema = z.object({
+    format: z.enum(['hunks', 'unified', 'patch']).default('hunks'),
+    context: z.coerce.number().int().min(0).optional(),
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Response Type (colocated)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -40,16 +50,41 @@ export async function gitDiffHandler(c: RouteContext) {
     }
 
     const objects = validation.data as ObjectContent[];
+    const [query, options] = parseDiffQuery(c);
     const client = c.get('client');
 
-    const [results, error] = await client.gitDiff(objects);
+    const [results, error] = await client.gitDiff(objects, options);
 
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
     }
 
+    // Plain patch text for git tooling
+    if (query.format === 'patch') {
+        return c.body(results.map(r => r.patch ?? '').join(''), 200, { 'Content-Type': 'text/x-diff; charset=utf-8' });
+    }
+
     return c.json({
         success: true,
         data: results satisfies GitDiffResponse,
     });
 }
+
+/**
+ * Validate diff query params and convert them to diff options
+ */
+export function parseDiffQuery(c: RouteContext): [z.infer<typeof diffQuerySchema>, DiffOptions] {
+    const validation = diffQuerySchema.safeParse(c.req.query());
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid diff options: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const query = validation.data;
+    const options: DiffOptions = { format: query.format === 'hunks' ? 'hunks' : 'unified' };
+    if (query.context !== undefined) options.context = query.context;
+    return [query, options];
+}
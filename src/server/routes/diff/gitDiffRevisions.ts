@@ -0,0 +1,77 @@
+/**
+ * POST /git-diff/revisions — Compare two revisions of an object
+ *
+ * Each side is local content (`{ content }`), a stored version
+ * (`{ revision }`) or the current server source (`{}`). Accepts the same
+ * `format` and `context` query params as POST /git-diff.
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import type { DiffResult, DiffSource } from '../../../core/adt/craud/gitDiff';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+import { parseDiffQuery } from './gitDiff';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const diffSourceSchema = z.union([
+    z.object({ content: z.string() }).strict(),
+    z.object({ revision: z.string().min(1).optional() }).strict(),
+]);
+
+export const gitDiffRevisionsRequestSchema = z.object({
+    object: objectRefSchema,
+    base: diffSourceSchema,
+    target: diffSourceSchema,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type GitDiffRevisionsResponse = DiffResult;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function gitDiffRevisionsHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate object and both diff sides.
+    const validation = safeParseRequest(gitDiffRevisionsRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid diff request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const object: ObjectRef = validation.data.object;
+    const base: DiffSource = validation.data.base;
+    const target: DiffSource = validation.data.target;
+    const [query, options] = parseDiffQuery(c);
+    const client = c.get('client');
+
+    const [result, error] = await client.gitDiff(object, base, target, options);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    // Plain patch text for git tooling
+    if (query.format === 'patch') {
+        return c.body(result.patch ?? '', 200, { 'Content-Type': 'text/x-diff; charset=utf-8' });
+    }
+
+    return c.json({
+        success: true,
+        data: result satisfies GitDiffRevisionsResponse,
+    });
+}
@@ -3,3 +3,5 @@
  */
 
 export { gitDiffHandler } from './gitDiff';
+export { gitDiffRevisionsHandler } from './gitDiffRevisions';
+export { applyPatchHandler } from './applyPatch';
@@ -0,0 +1,66 @@
+/**
+ * POST /packages/:package/export — Download a package in abapGit layout
+ *
+ * Responds with a tar archive (gzip compressed for format 'tgz') holding
+ * `.abapgit.xml`, a `package.devc.xml` per package and the object files.
+ * Objects are streamed into the archive as they are read.
+ */
+
+import { z } from 'zod';
+import { packageExportOptionsSchema } from '../../../types/requests';
+import { PackageNotFoundError, getConfigByExtension, getConfigByType } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { archiveResponse, formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const exportPackageRequestSchema = packageExportOptionsSchema.extend({
+    types: z.array(z.string().min(1).refine(
+        type => !!(getConfigByExtension(type) ?? getConfigByType(type.toUpperCase())),
+        type => ({ message: `Unsupported object type: ${type}` })
+    )).min(1).optional(),
+    format: z.enum(['tar', 'tgz']).optional().default('tgz'),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function exportPackageHandler(c: RouteContext) {
+    const packageName = c.req.param('package');
+    if (!packageName) {
+        throw new ApiError('VALIDATION_ERROR', 'Package name is required', 400);
+    }
+
+    // Body is optional (defaults: recursive, all types, tgz).
+    const body = await c.req.json().catch(() => ({}));
+    const validation = safeParseRequest(exportPackageRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid export options: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { format, ...options } = validation.data;
+    const client = c.get('client');
+
+    // The root package is read before the response starts, so a missing
+    // package is a regular error response.
+    const parts = client.exportPackageIterator(packageName, options);
+    const first = await parts.next();
+    const [root, error] = first.done ? [null, new Error(`Package ${packageName} not exported`)] : first.value;
+
+    if (error instanceof PackageNotFoundError) {
+        throw new ApiError('OBJECT_NOT_FOUND', error.message, 404);
+    }
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return archiveResponse(c, root, parts, format, root.package.toLowerCase());
+}
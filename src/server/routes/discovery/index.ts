@@ -8,3 +8,4 @@ export type { TreeResponse } from '../../../core/adt';
 export { transportsHandler, type TransportsResponse } from './transports';
 export { createTransportHandler, type CreateTransportResponse } from './createTransport';
 export { objectConfigHandler, type ObjectConfigResponse } from './objectConfig';
+export { exportPackageHandler } from './exportPackage';
@@ -4,6 +4,7 @@
 
 import type { Transport } from '../../../core/adt';
 import { ApiError } from '../../middleware/error';
+import { cacheOptions } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -25,7 +26,7 @@ export async function transportsHandler(c: RouteContext) {
 
     const client = c.get('client');
 
-    const [transports, error] = await client.getTransports(packageName);
+    const [transports, error] = await client.getTransports(packageName, cacheOptions(c));
 
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
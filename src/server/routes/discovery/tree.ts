@@ -6,7 +6,7 @@ import { treeQuerySchema } from '../../../types/requests';
 import type { TreeQuery } from '../../../types/requests';
 import type { TreeResponse } from '../../../core/adt';
 import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { cacheOptions, formatZodError } from '../../utils';
 import type { RouteContext } from '../types';
 
 export async function treeHandler(c: RouteContext) {
@@ -25,7 +25,7 @@ export async function treeHandler(c: RouteContext) {
     const query = validation.data as TreeQuery;
     const client = c.get('client');
 
-    const [tree, error] = await client.getTree(query);
+    const [tree, error] = await client.getTree(query, cacheOptions(c));
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
     }
@@ -11,11 +11,14 @@
 import { Hono } from 'hono';
 import type { MiddlewareHandler } from 'hono';
 import type { ISessionManager, SessionContext } from './types';
+import type { QueryStore } from '../utils';
 
 // Auth routes
 import { loginHandler } from './auth/login';
 import { logoutHandler } from './auth/logout';
 import { refreshHandler } from './auth/refresh';
+import { cacheStatsHandler } from './auth/cacheStats';
+import { clearCacheHandler } from './auth/clearCache';
 
 // Discovery routes
 import { packagesHandler } from './discovery/packages';
@@ -23,17 +26,45 @@ import { treeHandler } from './discovery/tree';
 import { transportsHandler } from './discovery/transports';
 import { createTransportHandler } from './discovery/createTransport';
 import { objectConfigHandler } from './discovery/objectConfig';
+import { exportPackageHandler } from './discovery/exportPackage';
+
+// Transport routes
+import { userTransportsHandler } from './transports/list';
+import { transportContentsHandler } from './transports/contents';
+import { addTransportObjectHandler, removeTransportObjectHandler } from './transports/objects';
+import { updateTransportHandler } from './transports/update';
+import { releaseTransportHandler } from './transports/release';
 
 // Objects routes
 import { readHandler } from './objects/read';
 import { upsertHandler } from './objects/upsert';
 import { activateHandler } from './objects/activate';
+import { inactiveHandler } from './objects/inactive';
+import { activateInactiveHandler } from './objects/activateInactive';
 import { deleteHandler } from './objects/delete';
+import { lockHandler } from './objects/lock';
+import { unlockHandler } from './objects/unlock';
+import { lockStatusHandler } from './objects/lockStatus';
+import { revisionsHandler } from './objects/revisions';
+import { readRevisionHandler } from './objects/readRevision';
+import { testHandler } from './objects/test';
+import { checkSyntaxHandler } from './objects/checkSyntax';
+import { atcHandler } from './objects/atc';
 
 // Preview routes
 import { dataHandler } from './preview/data';
 import { distinctHandler } from './preview/distinct';
 import { countHandler } from './preview/count';
+import { columnsHandler } from './preview/columns';
+import { valueHelpHandler } from './preview/valueHelp';
+import { profileHandler } from './preview/profile';
+
+// Saved query routes
+import { createQueryHandler } from './queries/create';
+import { listQueriesHandler } from './queries/list';
+import { getQueryHandler } from './queries/get';
+import { deleteQueryHandler } from './queries/delete';
+import { runQueryHandler } from './queries/run';
 
 // Search routes
 import { searchHandler } from './search/search';
@@ -41,17 +72,21 @@ import { whereUsedHandler } from './search/whereUsed';
 
 // Diff routes
 import { gitDiffHandler } from './diff/gitDiff';
+import { gitDiffRevisionsHandler } from './diff/gitDiffRevisions';
+import { applyPatchHandler } from './diff/applyPatch';
 
 /**
  * Creates and configures all API routes
  *
  * @param sessionManager - Session manager instance
  * @param sessionMiddleware - Middleware that validates session and attaches client to context
+ * @param queryStore - Saved query store
  * @returns Configured Hono app with all routes
  */
 export function createRoutes(
     sessionManager: ISessionManager,
-    sessionMiddleware: MiddlewareHandler<SessionContext>
+    sessionMiddleware: MiddlewareHandler<SessionContext>,
+    queryStore: QueryStore
 ) {
     const app = new Hono<SessionContext>();
 
@@ -62,6 +97,8 @@ export function createRoutes(
     app.post('/login', loginHandler(sessionManager));
     app.delete('/logout', sessionMiddleware, logoutHandler(sessionManager));
     app.post('/session/refresh', sessionMiddleware, refreshHandler());
+    app.get('/session/cache', sessionMiddleware, cacheStatsHandler);
+    app.delete('/session/cache', sessionMiddleware, clearCacheHandler);
 
     // ─────────────────────────────────────────────────────────────────────────
     // Discovery Routes (session required, except object-config)
@@ -69,10 +106,22 @@ export function createRoutes(
 
     app.get('/object-config', objectConfigHandler); // No session required - static config
     app.get('/packages', sessionMiddleware, packagesHandler);
+    app.post('/packages/:package/export', sessionMiddleware, exportPackageHandler);
     app.post('/tree', sessionMiddleware, treeHandler);
     app.get('/transports/:package', sessionMiddleware, transportsHandler);
     app.post('/transports', sessionMiddleware, createTransportHandler);
 
+    // ─────────────────────────────────────────────────────────────────────────
+    // Transport Routes (session required)
+    // ─────────────────────────────────────────────────────────────────────────
+
+    app.get('/transports', sessionMiddleware, userTransportsHandler);
+    app.get('/transports/:id/contents', sessionMiddleware, transportContentsHandler);
+    app.post('/transports/:id/objects', sessionMiddleware, addTransportObjectHandler);
+    app.delete('/transports/:id/objects', sessionMiddleware, removeTransportObjectHandler);
+    app.patch('/transports/:id', sessionMiddleware, updateTransportHandler);
+    app.post('/transports/:id/release', sessionMiddleware, releaseTransportHandler);
+
     // ─────────────────────────────────────────────────────────────────────────
     // Object CRAUD Routes (session required)
     // ─────────────────────────────────────────────────────────────────────────
@@ -80,6 +129,16 @@ export function createRoutes(
     app.post('/objects/read', sessionMiddleware, readHandler);
     app.post('/objects/upsert/:package/:transport?', sessionMiddleware, upsertHandler);
     app.post('/objects/activate', sessionMiddleware, activateHandler);
+    app.get('/objects/inactive', sessionMiddleware, inactiveHandler);
+    app.post('/objects/activate-inactive', sessionMiddleware, activateInactiveHandler);
+    app.post('/objects/lock', sessionMiddleware, lockHandler);
+    app.post('/objects/unlock', sessionMiddleware, unlockHandler);
+    app.post('/objects/lock-status', sessionMiddleware, lockStatusHandler);
+    app.post('/objects/revisions', sessionMiddleware, revisionsHandler);
+    app.post('/objects/revisions/read', sessionMiddleware, readRevisionHandler);
+    app.post('/objects/test', sessionMiddleware, testHandler);
+    app.post('/objects/check-syntax', sessionMiddleware, checkSyntaxHandler);
+    app.post('/objects/atc', sessionMiddleware, atcHandler);
     app.delete('/objects/:transport?', sessionMiddleware, deleteHandler);
 
     // ─────────────────────────────────────────────────────────────────────────
@@ -89,6 +148,19 @@ export function createRoutes(
     app.post('/preview/data', sessionMiddleware, dataHandler);
     app.post('/preview/distinct', sessionMiddleware, distinctHandler);
     app.post('/preview/count', sessionMiddleware, countHandler);
+    app.post('/preview/columns', sessionMiddleware, columnsHandler);
+    app.post('/preview/value-help', sessionMiddleware, valueHelpHandler);
+    app.post('/preview/profile', sessionMiddleware, profileHandler);
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // Saved Query Routes (session required, queries owned by the session's user)
+    // ─────────────────────────────────────────────────────────────────────────
+
+    app.post('/queries', sessionMiddleware, createQueryHandler(queryStore));
+    app.get('/queries', sessionMiddleware, listQueriesHandler(queryStore));
+    app.get('/queries/:id', sessionMiddleware, getQueryHandler(queryStore));
+    app.delete('/queries/:id', sessionMiddleware, deleteQueryHandler(queryStore));
+    app.post('/queries/:id/run', sessionMiddleware, runQueryHandler(queryStore));
 
     // ─────────────────────────────────────────────────────────────────────────
     // Search Routes (session required)
@@ -102,6 +174,8 @@ export function createRoutes(
     // ─────────────────────────────────────────────────────────────────────────
 
     app.post('/git-diff', sessionMiddleware, gitDiffHandler);
+    app.post('/git-diff/revisions', sessionMiddleware, gitDiffRevisionsHandler);
+    app.post('/git-diff/apply', sessionMiddleware, applyPatchHandler);
 
     return app;
 }
@@ -4,9 +4,10 @@
 
 import { z } from 'zod';
 import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
 import type { ActivationResult } from '../../../core/adt/craud/activation';
 import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { formatZodError, safeParseRequest } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -29,7 +30,7 @@ export async function activateHandler(c: RouteContext) {
     const body = await c.req.json();
 
     // Validate array of object refs
-    const validation = activateRequestSchema.safeParse(body);
+    const validation = safeParseRequest(activateRequestSchema, body);
     if (!validation.success) {
         throw new ApiError(
             'VALIDATION_ERROR',
@@ -38,7 +39,7 @@ export async function activateHandler(c: RouteContext) {
         );
     }
 
-    const objectRefs = validation.data;
+    const objectRefs: ObjectRef[] = validation.data;
     const client = c.get('client');
 
     const [results, error] = await client.activate(objectRefs);
@@ -0,0 +1,32 @@
+/**
+ * POST /objects/activate-inactive — Activate all inactive objects of the logged-in user
+ */
+
+import type { ActivationResult } from '../../../core/adt/craud/activation';
+import { ApiError } from '../../middleware/error';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ActivateInactiveResponse = ActivationResult[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function activateInactiveHandler(c: RouteContext) {
+    const client = c.get('client');
+
+    const [results, error] = await client.activateInactiveObjects();
+
+    if (error) {
+        throw new ApiError('ACTIVATION_FAILED', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: results satisfies ActivateInactiveResponse,
+    });
+}
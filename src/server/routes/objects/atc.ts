@@ -0,0 +1,58 @@
+/**
+ * POST /objects/atc — Run ATC checks on objects
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import type { AtcFinding } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const atcRequestSchema = z.object({
+    objects: z.array(objectRefSchema).min(1),
+    variant: z.string().min(1).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type AtcResponse = AtcFinding[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function atcHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate objects and check variant
+    const validation = safeParseRequest(atcRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid ATC request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const objects: ObjectRef[] = validation.data.objects;
+    const client = c.get('client');
+
+    const [findings, error] = await client.runAtc(objects, validation.data.variant);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: findings satisfies AtcResponse,
+    });
+}
@@ -0,0 +1,55 @@
+/**
+ * POST /objects/check-syntax — Syntax check local content without saving it
+ */
+
+import { z } from 'zod';
+import { objectContentSchema } from '../../../types/requests';
+import type { ObjectContent } from '../../../types/requests';
+import type { SyntaxCheckResult } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const checkSyntaxRequestSchema = z.array(objectContentSchema);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CheckSyntaxResponse = SyntaxCheckResult[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function checkSyntaxHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate array of objects with content
+    const validation = safeParseRequest(checkSyntaxRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid objects: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const objects: ObjectContent[] = validation.data;
+    const client = c.get('client');
+
+    const [results, error] = await client.checkSyntax(objects);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: results satisfies CheckSyntaxResponse,
+    });
+}
@@ -4,8 +4,9 @@
 
 import { z } from 'zod';
 import { objectRefSchema } from '../../../types/requests';
-import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import type { ObjectRef } from '../../../types/requests';
+import { ApiError, findLockConflict } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -29,7 +30,7 @@ export async function deleteHandler(c: RouteContext) {
     const body = await c.req.json();
 
     // Validate array of object refs
-    const validation = deleteRequestSchema.safeParse(body);
+    const validation = safeParseRequest(deleteRequestSchema, body);
     if (!validation.success) {
         throw new ApiError(
             'VALIDATION_ERROR',
@@ -38,12 +39,14 @@ export async function deleteHandler(c: RouteContext) {
         );
     }
 
-    const objectRefs = validation.data;
+    const objectRefs: ObjectRef[] = validation.data;
     const client = c.get('client');
 
     const [, error] = await client.delete(objectRefs, transport || undefined);
 
     if (error) {
+        // Lock conflicts are reported as OBJECT_LOCKED by the error middleware
+        if (findLockConflict(error)) throw error;
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
     }
 
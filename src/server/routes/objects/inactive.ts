@@ -0,0 +1,32 @@
+/**
+ * GET /objects/inactive — List inactive objects of the logged-in user
+ */
+
+import type { InactiveObject } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type InactiveResponse = InactiveObject[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function inactiveHandler(c: RouteContext) {
+    const client = c.get('client');
+
+    const [objects, error] = await client.getInactiveObjects();
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: objects satisfies InactiveResponse,
+    });
+}
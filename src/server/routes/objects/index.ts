@@ -5,4 +5,14 @@
 export { readHandler, readRequestSchema, type ReadResponse } from './read';
 export { upsertHandler, upsertRequestSchema, type UpsertResponse } from './upsert';
 export { activateHandler, activateRequestSchema, type ActivateResponse } from './activate';
+export { inactiveHandler, type InactiveResponse } from './inactive';
+export { activateInactiveHandler, type ActivateInactiveResponse } from './activateInactive';
+export { lockHandler, lockRequestSchema, type LockResponse } from './lock';
+export { unlockHandler, unlockRequestSchema, type UnlockResponse } from './unlock';
+export { lockStatusHandler, lockStatusRequestSchema, type LockStatusResponse } from './lockStatus';
 export { deleteHandler, deleteRequestSchema, type DeleteResponse } from './delete';
+export { revisionsHandler, revisionsRequestSchema, type RevisionsResponse } from './revisions';
+export { readRevisionHandler, readRevisionRequestSchema, type ReadRevisionResponse } from './readRevision';
+export { testHandler, testRequestSchema, type TestResponse } from './test';
+export { checkSyntaxHandler, checkSyntaxRequestSchema, type CheckSyntaxResponse } from './checkSyntax';
+export { atcHandler, atcRequestSchema, type AtcResponse } from './atc';
@@ -0,0 +1,57 @@
+/**
+ * POST /objects/lock — Lock objects across requests (e.g., for an editing session)
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import type { ObjectLock } from '../../../core/adt';
+import { ApiError, findLockConflict } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const lockRequestSchema = z.array(objectRefSchema);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LockResponse = ObjectLock[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function lockHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate array of object refs
+    const validation = safeParseRequest(lockRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid objects: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const objectRefs: ObjectRef[] = validation.data;
+    const client = c.get('client');
+
+    const [locks, error] = await client.acquireLock(objectRefs);
+
+    if (error) {
+        // Lock conflicts are reported as OBJECT_LOCKED by the error middleware
+        if (findLockConflict(error)) throw error;
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: locks satisfies LockResponse,
+    });
+}
@@ -0,0 +1,55 @@
+/**
+ * POST /objects/lock-status — Report who is editing objects
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import type { LockStatus } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const lockStatusRequestSchema = z.array(objectRefSchema);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LockStatusResponse = LockStatus[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function lockStatusHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate array of object refs
+    const validation = safeParseRequest(lockStatusRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid objects: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const objectRefs: ObjectRef[] = validation.data;
+    const client = c.get('client');
+
+    const [statuses, error] = await client.getLockStatus(objectRefs);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: statuses satisfies LockStatusResponse,
+    });
+}
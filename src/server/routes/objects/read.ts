@@ -1,12 +1,16 @@
 /**
  * POST /objects/read — Batch read objects with content
+ *
+ * Query: ?includes=true returns every class include as a bundle
+ *        ?metadata=true adds package, description, owner, timestamps and language
  */
 
 import { z } from 'zod';
 import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
 import type { ObjectWithContent } from '../../../core/adt/craud/read';
 import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { formatZodError, safeParseRequest } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -29,7 +33,7 @@ export async function readHandler(c: RouteContext) {
     const body = await c.req.json();
 
     // Validate array of object refs
-    const validation = readRequestSchema.safeParse(body);
+    const validation = safeParseRequest(readRequestSchema, body);
     if (!validation.success) {
         throw new ApiError(
             'VALIDATION_ERROR',
@@ -38,10 +42,12 @@ export async function readHandler(c: RouteContext) {
         );
     }
 
-    const objectRefs = validation.data;
+    const objectRefs: ObjectRef[] = validation.data;
+    const includes = c.req.query('includes') === 'true';
+    const includeMetadata = c.req.query('metadata') === 'true';
     const client = c.get('client');
 
-    const [results, error] = await client.read(objectRefs);
+    const [results, error] = await client.read(objectRefs, { includes, includeMetadata });
 
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
@@ -0,0 +1,61 @@
+/**
+ * POST /objects/revisions/read — Read the source of a stored version
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const readRevisionRequestSchema = z.object({
+    object: objectRefSchema,
+    version: z.string().min(1),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ReadRevisionResponse {
+    version: string;
+    content: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function readRevisionHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate object ref and version ID
+    const validation = safeParseRequest(readRevisionRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid revision request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const object: ObjectRef = validation.data.object;
+    const { version } = validation.data;
+    const client = c.get('client');
+
+    const [content, error] = await client.readRevision(object, version);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: { version, content } satisfies ReadRevisionResponse,
+    });
+}
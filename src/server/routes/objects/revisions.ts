@@ -0,0 +1,54 @@
+/**
+ * POST /objects/revisions — List stored versions of an object source
+ */
+
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import type { Revision } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const revisionsRequestSchema = objectRefSchema;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RevisionsResponse = Revision[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function revisionsHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate object ref
+    const validation = safeParseRequest(revisionsRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid object: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const object: ObjectRef = validation.data;
+    const client = c.get('client');
+
+    const [revisions, error] = await client.getRevisions(object);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: revisions satisfies RevisionsResponse,
+    });
+}
@@ -0,0 +1,75 @@
+/**
+ * POST /objects/test — Run ABAP Unit tests for objects or a package
+ *
+ * Query: ?format=junit returns JUnit XML instead of JSON
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import type { UnitTestOptions, UnitTestRunResult } from '../../../core/adt';
+import { toJUnitXml } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const testRequestSchema = z.object({
+    objects: z.array(objectRefSchema).min(1).optional(),
+    package: z.string().min(1).optional(),
+    riskLevels: z.array(z.enum(['harmless', 'dangerous', 'critical'])).optional(),
+    durations: z.array(z.enum(['short', 'medium', 'long'])).optional(),
+}).refine(
+    data => !!data.objects !== !!data.package,
+    { message: 'Provide either objects or package', path: ['objects'] }
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TestResponse = UnitTestRunResult;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function testHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate test target and options
+    const validation = safeParseRequest(testRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid test request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { objects, package: packageName, riskLevels, durations } = validation.data;
+    const target: ObjectRef[] | string = objects ?? packageName ?? '';
+    const options: UnitTestOptions = {};
+    if (riskLevels) options.riskLevels = riskLevels;
+    if (durations) options.durations = durations;
+    const client = c.get('client');
+
+    const [result, error] = await client.runUnitTests(target, options);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    // JUnit XML for CI test reporting
+    if (c.req.query('format') === 'junit') {
+        return c.body(toJUnitXml(result), 200, { 'Content-Type': 'application/xml; charset=utf-8' });
+    }
+
+    return c.json({
+        success: true,
+        data: result satisfies TestResponse,
+    });
+}
@@ -0,0 +1,57 @@
+/**
+ * POST /objects/unlock — Release locks acquired via /objects/lock
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Omitting `objects` releases every lock of the session
+export const unlockRequestSchema = z.object({
+    objects: z.array(objectRefSchema).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type UnlockResponse = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function unlockHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate request body
+    const validation = safeParseRequest(unlockRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const objectRefs: ObjectRef[] | undefined = validation.data.objects;
+    const client = c.get('client');
+
+    const [, error] = await client.releaseLock(objectRefs);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: null as UnlockResponse,
+    });
+}
@@ -1,13 +1,17 @@
 /**
  * POST /objects/upsert/:package/:transport — Create or update objects
+ *
+ * Without a transport, objects in non-local packages are recorded on the
+ * request already locking them; otherwise the call fails with TRANSPORT_REQUIRED.
  */
 
 import { z } from 'zod';
 import { objectContentSchema } from '../../../types/requests';
 import type { ObjectContent } from '../../../types/requests';
 import type { UpsertResult } from '../../../core/adt/types';
-import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { TransportRequiredError } from '../../../core/adt';
+import { ApiError, findLockConflict } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -34,19 +38,10 @@ export async function upsertHandler(c: RouteContext) {
         throw new ApiError('VALIDATION_ERROR', 'Package name is required', 400);
     }
 
-    // Transport validation - required for non-temporary packages
-    if (packageName !== '$TMP' && !transport) {
-        throw new ApiError(
-            'TRANSPORT_REQUIRED',
-            `Transport required for non-temporary package ${packageName}`,
-            400
-        );
-    }
-
     const body = await c.req.json();
 
     // Validate array of object contents
-    const validation = upsertRequestSchema.safeParse(body);
+    const validation = safeParseRequest(upsertRequestSchema, body);
     if (!validation.success) {
         throw new ApiError(
             'VALIDATION_ERROR',
@@ -55,13 +50,14 @@ export async function upsertHandler(c: RouteContext) {
         );
     }
 
-    // Cast needed due to exactOptionalPropertyTypes + Zod inference
-    const objectContents = validation.data as ObjectContent[];
+    const objectContents: ObjectContent[] = validation.data;
     const client = c.get('client');
 
-    const [results, error] = await client.upsert(objectContents, transport || '');
+    const [results, error] = await client.upsert(objectContents, packageName, transport);
 
     if (error) {
+        // Lock conflicts and missing transports are reported by the error middleware
+        if (findLockConflict(error) || error instanceof TransportRequiredError) throw error;
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
     }
 
@@ -0,0 +1,56 @@
+/**
+ * POST /preview/columns — Column metadata and CDS parameters of a table/view
+ */
+
+import { z } from 'zod';
+import type { ObjectColumns } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const columnsRequestSchema = z.object({
+    objectName: z.string().min(1),
+    objectType: z.enum(['table', 'view']),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ColumnsResponse = ObjectColumns;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function columnsHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate request body
+    const validation = columnsRequestSchema.safeParse(body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { objectName, objectType } = validation.data;
+    const client = c.get('client');
+
+    const [columns, error] = await client.getColumns(objectName, objectType);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: columns satisfies ColumnsResponse,
+    });
+}
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { SqlValidationError } from '../../../core/utils/sql';
 import { ApiError } from '../../middleware/error';
 import { formatZodError } from '../../utils';
 import type { RouteContext } from '../types';
@@ -44,6 +45,9 @@ export async function countHandler(c: RouteContext) {
 
     const [count, error] = await client.countRows(objectName, objectType);
 
+    if (error instanceof SqlValidationError) {
+        throw new ApiError('VALIDATION_ERROR', error.message, 400);
+    }
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
     }
@@ -1,19 +1,37 @@
 /**
  * POST /preview/data — Query table/view data with filters and sorting
+ *
+ * Query params:
+ *   - format: 'json' (default), 'csv', 'ndjson' or 'columnar' (file download);
+ *             also negotiated from `Accept: text/csv` / `application/x-ndjson`
+ *   - delimiter, bom, header: CSV options
+ *
+ * A structured query body (fields, filters, sortings instead of sqlQuery) is
+ * rendered by the query builder, with field names checked against the
+ * object's columns. As JSON it returns one result (up to `limit` rows); as
+ * CSV or NDJSON it is paged over the whole result and streamed.
  */
 
-import { previewQuerySchema } from '../../../types/requests';
+import { z } from 'zod';
+import { previewQuerySchema, structuredQuerySchema } from '../../../types/requests';
 import type { PreviewSQL } from '../../../types/requests';
 import type { DataFrame } from '../../../core/adt/data_extraction/previewParser';
+import type { ExportSerializer } from '../../../core/adt';
+import { MAX_PAGE_SIZE } from '../../../core/adt';
+import { SqlValidationError } from '../../../core/utils/sql';
 import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { cacheOptions, exportResponse, formatZodError, negotiateExport, safeParseRequest, streamExport } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Request Schema (colocated - uses shared schema)
 // ─────────────────────────────────────────────────────────────────────────────
 
-// Uses previewQuerySchema from types/requests.ts
+// Uses previewQuerySchema and structuredQuerySchema from types/requests.ts
+
+export const structuredQueryRequestSchema = structuredQuerySchema.extend({
+    pageSize: z.number().int().positive().max(MAX_PAGE_SIZE).optional(),
+});
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Response Type (colocated)
@@ -26,10 +44,16 @@ export type DataPreviewResponse = DataFrame;
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function dataHandler(c: RouteContext) {
+    const serializer = negotiateExport(c);
     const body = await c.req.json();
 
+    // Structured queries are rendered by the query builder
+    if (body && typeof body === 'object' && !('sqlQuery' in body)) {
+        return structuredDataHandler(c, body, serializer);
+    }
+
     // Validate request body
-    const validation = previewQuerySchema.safeParse(body);
+    const validation = safeParseRequest(previewQuerySchema, body);
     if (!validation.success) {
         throw new ApiError(
             'VALIDATION_ERROR',
@@ -38,16 +62,60 @@ export async function dataHandler(c: RouteContext) {
         );
     }
 
-    // Cast needed due to exactOptionalPropertyTypes + Zod inference
-    const query = validation.data as PreviewSQL;
+    const query: PreviewSQL = validation.data;
     const client = c.get('client');
 
-    const [dataFrame, error] = await client.previewData(query);
+    const [dataFrame, error] = await client.previewData(query, cacheOptions(c));
 
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
     }
 
+    if (serializer) return exportResponse(c, serializer, dataFrame, query.objectName);
+
+    return c.json({
+        success: true,
+        data: dataFrame satisfies DataPreviewResponse,
+    });
+}
+
+// Run a structured query: one result as JSON, or all pages streamed.
+async function structuredDataHandler(c: RouteContext, body: unknown, serializer: ExportSerializer | null) {
+    const validation = safeParseRequest(structuredQueryRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid query: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { pageSize, ...query } = validation.data;
+    const client = c.get('client');
+
+    if (serializer?.streaming) {
+        if (!query.sortings?.length) {
+            throw new ApiError('VALIDATION_ERROR', 'Streamed queries need sortings on key fields', 400);
+        }
+        return streamExport(c, serializer, client.previewDataIterator(query, pageSize), query.objectName);
+    }
+
+    // Unstreamed results are read in one request, as raw SQL queries are.
+    if (query.limit !== undefined && query.limit > MAX_PAGE_SIZE) {
+        throw new ApiError('VALIDATION_ERROR', `Limit exceeds ${MAX_PAGE_SIZE} rows; stream the result as csv or ndjson for more`, 400);
+    }
+
+    const [dataFrame, error] = await client.previewQuery(query, cacheOptions(c));
+
+    if (error instanceof SqlValidationError) {
+        throw new ApiError('VALIDATION_ERROR', error.message, 400);
+    }
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    if (serializer) return exportResponse(c, serializer, dataFrame, query.objectName);
+
     return c.json({
         success: true,
         data: dataFrame satisfies DataPreviewResponse,
@@ -1,11 +1,15 @@
 /**
  * POST /preview/distinct — Get distinct values for column with counts
+ *
+ * Supports the export formats of /preview/data (`format`, Accept); the
+ * file has the columns `<column>` and `count`.
  */
 
 import { z } from 'zod';
 import type { DistinctResult } from '../../../core/adt';
+import { SqlValidationError } from '../../../core/utils/sql';
 import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { exportResponse, formatZodError, negotiateExport } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -19,6 +23,7 @@ const parameterSchema = z.object({
 
 export const distinctRequestSchema = z.object({
     objectName: z.string().min(1),
+    objectType: z.enum(['table', 'view']).optional().default('view'),
     parameters: z.array(parameterSchema).optional().default([]),
     column: z.string().min(1),
 });
@@ -34,6 +39,7 @@ export type DistinctResponse = DistinctResult;
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function distinctHandler(c: RouteContext) {
+    const serializer = negotiateExport(c);
     const body = await c.req.json();
 
     // Validate request body
@@ -46,15 +52,26 @@ export async function distinctHandler(c: RouteContext) {
         );
     }
 
-    const { objectName, parameters, column } = validation.data;
+    const { objectName, objectType, parameters, column } = validation.data;
     const client = c.get('client');
 
-    const [distinctResult, error] = await client.getDistinctValues(objectName, parameters, column);
+    const [distinctResult, error] = await client.getDistinctValues(objectName, parameters, column, objectType);
 
+    if (error instanceof SqlValidationError) {
+        throw new ApiError('VALIDATION_ERROR', error.message, 400);
+    }
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
     }
 
+    if (serializer) {
+        const frame = {
+            columns: [{ name: distinctResult.column, dataType: 'unknown' }, { name: 'count', dataType: 'I' }],
+            rows: distinctResult.values.map(v => [v.value, v.count]),
+        };
+        return exportResponse(c, serializer, frame, `${objectName}_${column}`);
+    }
+
     return c.json({
         success: true,
         data: distinctResult satisfies DistinctResponse,
@@ -2,6 +2,9 @@
  * Preview routes barrel export
  */
 
-export { dataHandler, type DataPreviewResponse } from './data';
+export { dataHandler, structuredQueryRequestSchema, type DataPreviewResponse } from './data';
 export { distinctHandler, distinctRequestSchema, type DistinctResponse } from './distinct';
 export { countHandler, countRequestSchema, type CountResponse } from './count';
+export { columnsHandler, columnsRequestSchema, type ColumnsResponse } from './columns';
+export { valueHelpHandler, valueHelpRequestSchema, type ValueHelpResponse } from './valueHelp';
+export { profileHandler, profileRequestSchema, type ProfileResponse } from './profile';
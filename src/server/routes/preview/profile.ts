@@ -0,0 +1,70 @@
+/**
+ * POST /preview/profile — Column statistics and histograms (data quality)
+ */
+
+import { z } from 'zod';
+import type { ColumnProfile, ProfileOptions } from '../../../core/adt';
+import { SqlValidationError } from '../../../core/utils/sql';
+import { ApiError } from '../../middleware/error';
+import { formatZodError } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const parameterSchema = z.object({
+    name: z.string().min(1),
+    value: z.union([z.string(), z.number()]),
+});
+
+export const profileRequestSchema = z.object({
+    objectName: z.string().min(1),
+    columns: z.array(z.string().min(1)).min(1).max(50),
+    parameters: z.array(parameterSchema).optional().default([]),
+    buckets: z.number().int().positive().max(100).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ProfileResponse = ColumnProfile[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function profileHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate request body
+    const validation = profileRequestSchema.safeParse(body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { objectName, columns, parameters, buckets } = validation.data;
+    const client = c.get('client');
+
+    const options: ProfileOptions = {};
+    if (buckets) options.buckets = buckets;
+
+    const [profiles, error] = await client.profileColumns(objectName, columns, parameters, options);
+
+    if (error instanceof SqlValidationError) {
+        throw new ApiError('VALIDATION_ERROR', error.message, 400);
+    }
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: profiles satisfies ProfileResponse,
+    });
+}
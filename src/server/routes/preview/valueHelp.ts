@@ -0,0 +1,67 @@
+/**
+ * POST /preview/value-help — Allowed values of a field (domain fixed values or check table)
+ */
+
+import { z } from 'zod';
+import type { ValueHelpOptions, ValueHelpResult } from '../../../core/adt';
+import { SqlValidationError } from '../../../core/utils/sql';
+import { ApiError } from '../../middleware/error';
+import { formatZodError } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const valueHelpRequestSchema = z.object({
+    objectName: z.string().min(1),
+    field: z.string().min(1),
+    searchTerm: z.string().optional(),
+    language: z.string().length(1).optional(),
+    maxRows: z.number().int().positive().max(5000).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ValueHelpResponse = ValueHelpResult;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function valueHelpHandler(c: RouteContext) {
+    const body = await c.req.json();
+
+    // Validate request body
+    const validation = valueHelpRequestSchema.safeParse(body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { objectName, field, searchTerm, language, maxRows } = validation.data;
+    const client = c.get('client');
+
+    const options: ValueHelpOptions = {};
+    if (language) options.language = language;
+    if (maxRows) options.maxRows = maxRows;
+
+    const [valueHelp, error] = await client.getValueHelp(objectName, field, searchTerm, options);
+
+    if (error instanceof SqlValidationError) {
+        throw new ApiError('VALIDATION_ERROR', error.message, 400);
+    }
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: valueHelp satisfies ValueHelpResponse,
+    });
+}
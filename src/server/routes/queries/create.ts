@@ -0,0 +1,74 @@
+/**
+ * POST /queries — Save a structured query template for the session's user
+ *
+ * Filter, parameter and join condition values may be `{{name}}` placeholders,
+ * declared with a type in `placeholders` and bound when the query is run.
+ */
+
+import { z } from 'zod';
+import { queryTemplateSchema } from '../../../types/requests';
+import type { QueryTemplate } from '../../../core/adt';
+import { validateQuery, validateTemplate } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest, queryOwner } from '../../utils';
+import type { QueryStore, SavedQuery, SavedQueryInput } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated - uses shared schema)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Uses queryTemplateSchema from types/requests.ts (also checked when loading saved queries)
+
+export const createQueryRequestSchema = queryTemplateSchema.extend({
+    name: z.string().min(1).max(100),
+    description: z.string().optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CreateQueryResponse = SavedQuery;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createQueryHandler(store: QueryStore) {
+    return async (c: RouteContext) => {
+        const body = await c.req.json();
+
+        // Validate request body
+        const validation = safeParseRequest(createQueryRequestSchema, body);
+        if (!validation.success) {
+            throw new ApiError(
+                'VALIDATION_ERROR',
+                `Invalid request: ${formatZodError(validation.error)}`,
+                400
+            );
+        }
+
+        const { name, description, query, placeholders } = validation.data;
+        const template: QueryTemplate = { query, placeholders };
+
+        // Reject invalid names and placeholders before saving
+        const [, queryErr] = validateQuery(query);
+        if (queryErr) throw new ApiError('VALIDATION_ERROR', queryErr.message, 400);
+        const [, templateErr] = validateTemplate(template);
+        if (templateErr) throw new ApiError('VALIDATION_ERROR', templateErr.message, 400);
+
+        const input: SavedQueryInput = { name, template };
+        if (description) input.description = description;
+
+        const [saved, saveErr] = store.create(queryOwner(c), input);
+        if (saveErr) {
+            throw new ApiError('UNKNOWN_ERROR', saveErr.message, 500);
+        }
+
+        return c.json({
+            success: true,
+            data: saved satisfies CreateQueryResponse,
+        });
+    };
+}
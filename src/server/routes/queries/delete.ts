@@ -0,0 +1,40 @@
+/**
+ * DELETE /queries/:id — Delete a saved query of the session's user
+ */
+
+import { ApiError } from '../../middleware/error';
+import { queryOwner } from '../../utils';
+import type { QueryStore } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type DeleteQueryResponse = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function deleteQueryHandler(store: QueryStore) {
+    return async (c: RouteContext) => {
+        const id = c.req.param('id');
+        if (!id) {
+            throw new ApiError('VALIDATION_ERROR', 'Query ID is required', 400);
+        }
+
+        const [deleted, error] = store.delete(queryOwner(c), id);
+        if (error) {
+            throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+        }
+        if (!deleted) {
+            throw new ApiError('OBJECT_NOT_FOUND', `Saved query ${id} not found`, 404);
+        }
+
+        return c.json({
+            success: true,
+            data: null as DeleteQueryResponse,
+        });
+    };
+}
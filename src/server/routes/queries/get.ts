@@ -0,0 +1,35 @@
+/**
+ * GET /queries/:id — Get a saved query of the session's user
+ */
+
+import { ApiError } from '../../middleware/error';
+import { queryOwner } from '../../utils';
+import type { QueryStore, SavedQuery } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type GetQueryResponse = SavedQuery;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getQueryHandler(store: QueryStore) {
+    return async (c: RouteContext) => {
+        const id = c.req.param('id');
+
+        // Queries of other users are reported as missing
+        const query = id ? store.get(queryOwner(c), id) : null;
+        if (!query) {
+            throw new ApiError('OBJECT_NOT_FOUND', `Saved query ${id} not found`, 404);
+        }
+
+        return c.json({
+            success: true,
+            data: query satisfies GetQueryResponse,
+        });
+    };
+}
@@ -0,0 +1,9 @@
+/**
+ * Saved query routes barrel export
+ */
+
+export { createQueryHandler, createQueryRequestSchema, type CreateQueryResponse } from './create';
+export { listQueriesHandler, type ListQueriesResponse } from './list';
+export { getQueryHandler, type GetQueryResponse } from './get';
+export { deleteQueryHandler, type DeleteQueryResponse } from './delete';
+export { runQueryHandler, runQueryRequestSchema, type RunQueryResponse } from './run';
@@ -0,0 +1,28 @@
+/**
+ * GET /queries — List the saved queries of the session's user
+ */
+
+import { queryOwner } from '../../utils';
+import type { QueryStore, SavedQuery } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ListQueriesResponse = SavedQuery[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function listQueriesHandler(store: QueryStore) {
+    return async (c: RouteContext) => {
+        const queries = store.list(queryOwner(c));
+
+        return c.json({
+            success: true,
+            data: queries satisfies ListQueriesResponse,
+        });
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * POST /queries/:id/run — Run a saved query with placeholder values
+ *
+ * Values are checked against the placeholder types; the bound query is
+ * built by the query builder (fields whitelisted against the object's columns).
+ */
+
+import { z } from 'zod';
+import type { DataFrame } from '../../../core/adt';
+import { MAX_PAGE_SIZE, bindTemplate } from '../../../core/adt';
+import { SqlValidationError } from '../../../core/utils/sql';
+import { ApiError } from '../../middleware/error';
+import { cacheOptions, formatZodError, queryOwner } from '../../utils';
+import type { QueryStore } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const runQueryRequestSchema = z.object({
+    values: z.record(z.union([z.string(), z.number()])).optional().default({}),
+    /** Overrides the saved row limit */
+    limit: z.number().int().positive().max(MAX_PAGE_SIZE).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RunQueryResponse = DataFrame;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function runQueryHandler(store: QueryStore) {
+    return async (c: RouteContext) => {
+        const id = c.req.param('id');
+        const saved = id ? store.get(queryOwner(c), id) : null;
+        if (!saved) {
+            throw new ApiError('OBJECT_NOT_FOUND', `Saved query ${id} not found`, 404);
+        }
+
+        // Body is optional for templates without required placeholders
+        const body = await c.req.json().catch(() => ({}));
+
+        // Validate request body
+        const validation = runQueryRequestSchema.safeParse(body);
+        if (!validation.success) {
+            throw new ApiError(
+                'VALIDATION_ERROR',
+                `Invalid request: ${formatZodError(validation.error)}`,
+                400
+            );
+        }
+
+        const { values, limit } = validation.data;
+        const [query, bindErr] = bindTemplate(saved.template, values);
+        if (bindErr) {
+            throw new ApiError('VALIDATION_ERROR', bindErr.message, 400);
+        }
+        if (limit) query.limit = limit;
+        if (query.limit !== undefined && query.limit > MAX_PAGE_SIZE) {
+            throw new ApiError('VALIDATION_ERROR', `Limit exceeds ${MAX_PAGE_SIZE} rows`, 400);
+        }
+
+        const client = c.get('client');
+        const [dataFrame, error] = await client.previewQuery(query, cacheOptions(c));
+
+        if (error instanceof SqlValidationError) {
+            throw new ApiError('VALIDATION_ERROR', error.message, 400);
+        }
+        if (error) {
+            throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+        }
+
+        return c.json({
+            success: true,
+            data: dataFrame satisfies RunQueryResponse,
+        });
+    };
+}
@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { SearchResult } from '../../../core/adt';
 import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { cacheOptions, formatZodError } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -46,7 +46,7 @@ export async function searchHandler(c: RouteContext) {
     const types = validation.data;
     const client = c.get('client');
 
-    const [results, error] = await client.search(query, types.length > 0 ? types : undefined);
+    const [results, error] = await client.search(query, types.length > 0 ? types : undefined, cacheOptions(c));
 
     if (error) {
         throw new ApiError('UNKNOWN_ERROR', error.message, 500);
@@ -4,9 +4,10 @@
 
 import { z } from 'zod';
 import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
 import type { Dependency } from '../../../core/adt';
 import { ApiError } from '../../middleware/error';
-import { formatZodError } from '../../utils';
+import { formatZodError, safeParseRequest } from '../../utils';
 import type { RouteContext } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -29,7 +30,7 @@ export async function whereUsedHandler(c: RouteContext) {
     const body = await c.req.json();
 
     // Validate array of object refs
-    const validation = whereUsedRequestSchema.safeParse(body);
+    const validation = safeParseRequest(whereUsedRequestSchema, body);
     if (!validation.success) {
         throw new ApiError(
             'VALIDATION_ERROR',
@@ -38,7 +39,7 @@ export async function whereUsedHandler(c: RouteContext) {
         );
     }
 
-    const objectRefs = validation.data;
+    const objectRefs: ObjectRef[] = validation.data;
     const client = c.get('client');
 
     // Process all where-used queries in parallel
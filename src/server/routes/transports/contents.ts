@@ -0,0 +1,38 @@
+/**
+ * GET /transports/:id/contents — Read a transport request with its tasks and objects
+ */
+
+import type { TransportDetails } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TransportContentsResponse = TransportDetails;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function transportContentsHandler(c: RouteContext) {
+    const transportId = c.req.param('id');
+
+    if (!transportId) {
+        throw new ApiError('VALIDATION_ERROR', 'Transport ID is required', 400);
+    }
+
+    const client = c.get('client');
+
+    const [transport, error] = await client.transports.get(transportId);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: transport satisfies TransportContentsResponse,
+    });
+}
@@ -0,0 +1,14 @@
+/**
+ * Transport Routes
+ */
+
+export { userTransportsHandler, userTransportsQuerySchema, type UserTransportsResponse } from './list';
+export { transportContentsHandler, type TransportContentsResponse } from './contents';
+export {
+    addTransportObjectHandler,
+    removeTransportObjectHandler,
+    transportObjectRequestSchema,
+    type TransportObjectResponse,
+} from './objects';
+export { updateTransportHandler, updateTransportRequestSchema, type UpdateTransportResponse } from './update';
+export { releaseTransportHandler, type ReleaseTransportResponse } from './release';
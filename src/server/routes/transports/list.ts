@@ -0,0 +1,64 @@
+/**
+ * GET /transports — List a user's transport requests with their tasks
+ *
+ * Query params:
+ *   - user: Owner of the requests (default: logged-in user)
+ *   - status: 'modifiable' or 'released' (default: both)
+ *   - target: Target system (e.g., 'QAS')
+ */
+
+import { z } from 'zod';
+import type { TransportDetails, UserTransportQuery } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const userTransportsQuerySchema = z.object({
+    user: z.string().min(1).optional(),
+    status: z.enum(['modifiable', 'released']).optional(),
+    target: z.string().min(1).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type UserTransportsResponse = TransportDetails[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function userTransportsHandler(c: RouteContext) {
+    const validation = userTransportsQuerySchema.safeParse(c.req.query());
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid query: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { user, status, target } = validation.data;
+    const query: UserTransportQuery = {};
+    if (user) query.user = user;
+    if (status) query.status = status;
+    if (target) query.targetSystem = target;
+
+    const client = c.get('client');
+
+    const [transports, error] = await client.getUserTransports(query);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: transports satisfies UserTransportsResponse,
+    });
+}
@@ -0,0 +1,85 @@
+/**
+ * POST /transports/:id/objects — Add an object entry to a request or task
+ * DELETE /transports/:id/objects — Remove an object entry from a request or task
+ */
+
+import { z } from 'zod';
+import { objectRefSchema } from '../../../types/requests';
+import type { ObjectRef } from '../../../types/requests';
+import type { TransportObjectKey } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import { formatZodError, safeParseRequest } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Object reference or E071 key (e.g., LIMU entries)
+export const transportObjectRequestSchema = z.union([
+    z.object({
+        pgmid: z.string().min(1),
+        type: z.string().min(1),
+        name: z.string().min(1),
+    }),
+    objectRefSchema,
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TransportObjectResponse = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function addTransportObjectHandler(c: RouteContext) {
+    const [transportId, object] = await parseRequest(c);
+    const [, error] = await c.get('client').transports.addObject(transportId, object);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: null as TransportObjectResponse,
+    });
+}
+
+export async function removeTransportObjectHandler(c: RouteContext) {
+    const [transportId, object] = await parseRequest(c);
+    const [, error] = await c.get('client').transports.removeObject(transportId, object);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: null as TransportObjectResponse,
+    });
+}
+
+async function parseRequest(c: RouteContext): Promise<[string, ObjectRef | TransportObjectKey]> {
+    const transportId = c.req.param('id');
+    if (!transportId) {
+        throw new ApiError('VALIDATION_ERROR', 'Transport ID is required', 400);
+    }
+
+    const body = await c.req.json();
+
+    // Validate object reference or E071 key
+    const validation = safeParseRequest(transportObjectRequestSchema, body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid object: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    return [transportId, validation.data];
+}
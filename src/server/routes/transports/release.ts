@@ -0,0 +1,38 @@
+/**
+ * POST /transports/:id/release — Release open tasks, then the request
+ */
+
+import type { TransportReleaseReport } from '../../../core/adt';
+import { ApiError } from '../../middleware/error';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ReleaseTransportResponse = TransportReleaseReport[];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function releaseTransportHandler(c: RouteContext) {
+    const transportId = c.req.param('id');
+
+    if (!transportId) {
+        throw new ApiError('VALIDATION_ERROR', 'Transport ID is required', 400);
+    }
+
+    const client = c.get('client');
+
+    const [reports, error] = await client.transports.release(transportId);
+
+    if (error) {
+        throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: reports satisfies ReleaseTransportResponse,
+    });
+}
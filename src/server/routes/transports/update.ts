@@ -0,0 +1,68 @@
+/**
+ * PATCH /transports/:id — Change owner and/or description of a request or task
+ */
+
+import { z } from 'zod';
+import { ApiError } from '../../middleware/error';
+import { formatZodError } from '../../utils';
+import type { RouteContext } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Schema (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const updateTransportRequestSchema = z.object({
+    owner: z.string().min(1).optional(),
+    description: z.string().min(1).optional(),
+}).refine(data => data.owner !== undefined || data.description !== undefined, {
+    message: 'owner or description is required',
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Response Type (colocated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type UpdateTransportResponse = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function updateTransportHandler(c: RouteContext) {
+    const transportId = c.req.param('id');
+
+    if (!transportId) {
+        throw new ApiError('VALIDATION_ERROR', 'Transport ID is required', 400);
+    }
+
+    const body = await c.req.json();
+
+    // Validate request body
+    const validation = updateTransportRequestSchema.safeParse(body);
+    if (!validation.success) {
+        throw new ApiError(
+            'VALIDATION_ERROR',
+            `Invalid request: ${formatZodError(validation.error)}`,
+            400
+        );
+    }
+
+    const { owner, description } = validation.data;
+    const client = c.get('client');
+
+    if (description !== undefined) {
+        const [, error] = await client.transports.setDescription(transportId, description);
+        if (error) throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    // Change owner last: the new owner may not let us edit the description any more
+    if (owner !== undefined) {
+        const [, error] = await client.transports.setOwner(transportId, owner);
+        if (error) throw new ApiError('UNKNOWN_ERROR', error.message, 500);
+    }
+
+    return c.json({
+        success: true,
+        data: null as UpdateTransportResponse,
+    });
+}
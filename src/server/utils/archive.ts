@@ -0,0 +1,72 @@
+import type { Context } from 'hono';
+import { stream } from 'hono/streaming';
+import { once } from 'node:events';
+import { createGzip } from 'node:zlib';
+import type { Result } from '../../types/result';
+import type { ExportFile } from '../../core/adt';
+import { tarEntry, TAR_END } from '../../core/utils/tar';
+
+/**
+ * Archive format of file downloads ('tgz' is a gzip compressed tar)
+ */
+export type ArchiveFormat = 'tar' | 'tgz';
+
+const ARCHIVES: Record<ArchiveFormat, { contentType: string; extension: string }> = {
+    tar: { contentType: 'application/x-tar', extension: 'tar' },
+    tgz: { contentType: 'application/gzip', extension: 'tar.gz' },
+};
+
+// Stream files as archive download, one tar entry per file as the parts arrive.
+// The first part is awaited by the caller, so its errors become regular error
+// responses; later errors (and invalid paths) abort the download.
+export function archiveResponse(
+    c: Context,
+    first: { files: ExportFile[] },
+    rest: AsyncGenerator<Result<{ files: ExportFile[] }>>,
+    format: ArchiveFormat,
+    filename: string
+) {
+    const { contentType, extension } = ARCHIVES[format];
+    const safeName = filename.replace(/[^A-Za-z0-9_.-]/g, '_');
+    c.header('Content-Type', contentType);
+    c.header('Content-Disposition', `attachment; filename="${safeName}.${extension}"`);
+
+    return stream(c, async (s) => {
+        s.onAbort(() => { void rest.return(undefined); });
+
+        // Gzip output is forwarded while entries are written into it.
+        const gzip = format === 'tgz' ? createGzip() : null;
+        const forwarded = gzip
+            ? (async () => { for await (const chunk of gzip) await s.write(chunk); })()
+            : null;
+        const write = async (chunk: Uint8Array) => {
+            if (!gzip) await s.write(chunk);
+            else if (!gzip.write(chunk)) await once(gzip, 'drain');
+        };
+        const fail = async () => {
+            gzip?.destroy();
+            await forwarded?.catch(() => {});
+            await s.abort();
+        };
+
+        const mtime = new Date();
+        const writeFiles = async (files: ExportFile[]) => {
+            for (const file of files) {
+                const [chunk, entryErr] = tarEntry({ ...file, mtime });
+                if (entryErr) return false;
+                await write(chunk);
+            }
+            return true;
+        };
+
+        if (!await writeFiles(first.files)) return fail();
+        for await (const [part, error] of rest) {
+            if (s.aborted) return;
+            if (error || !await writeFiles(part.files)) return fail();
+        }
+        await write(TAR_END);
+
+        gzip?.end();
+        await forwarded;
+    });
+}
@@ -0,0 +1,11 @@
+import type { Context } from 'hono';
+import type { CacheOptions } from '../../client';
+
+// Cache options of a request: `Cache-Control: no-cache` (or no-store, or
+// `Pragma: no-cache`) skips cached results.
+export function cacheOptions(c: Context): CacheOptions {
+    const cacheControl = c.req.header('Cache-Control') ?? '';
+    const pragma = c.req.header('Pragma') ?? '';
+    const bypassCache = /\bno-(cache|store)\b/i.test(cacheControl) || /\bno-cache\b/i.test(pragma);
+    return { bypassCache };
+}
@@ -0,0 +1,100 @@
+import type { Context } from 'hono';
+import { stream } from 'hono/streaming';
+import { z } from 'zod';
+import type { Result } from '../../types/result';
+import type { DataFrame } from '../../core/adt/data_extraction/previewParser';
+import type { CsvOptions, ExportFormat, ExportSerializer } from '../../core/adt/data_extraction/export';
+import { createExportSerializer } from '../../core/adt/data_extraction/export';
+import { SqlValidationError } from '../../core/utils/sql';
+import { ApiError } from '../middleware/error';
+import { formatZodError } from './validation';
+
+// Export query params (`format` wins over the Accept header)
+const exportQuerySchema = z.object({
+    format: z.enum(['json', 'csv', 'ndjson', 'columnar']).optional(),
+    delimiter: z.string().optional()
+        .transform(d => (d === 'tab' ? '\t' : d))
+        .refine(d => d === undefined || (d.length === 1 && !/["\r\n]/.test(d)), 'must be a single character (or "tab")'),
+    bom: z.enum(['true', 'false']).optional(),
+    header: z.enum(['true', 'false']).optional(),
+});
+
+// Accept media types of the export formats
+const ACCEPT_FORMATS: [string, ExportFormat][] = [
+    ['text/csv', 'csv'],
+    ['application/x-ndjson', 'ndjson'],
+];
+
+// Negotiate the response format of a preview route (null for the regular JSON response)
+export function negotiateExport(c: Context): ExportSerializer | null {
+    const validation = exportQuerySchema.safeParse(c.req.query());
+    if (!validation.success) {
+        throw new ApiError('VALIDATION_ERROR', `Invalid export options: ${formatZodError(validation.error)}`, 400);
+    }
+
+    const query = validation.data;
+    const accept = c.req.header('Accept') ?? '';
+    const format = query.format ?? ACCEPT_FORMATS.find(([type]) => accept.includes(type))?.[1] ?? 'json';
+    if (format === 'json') return null;
+
+    const options: CsvOptions = {};
+    if (query.delimiter !== undefined) options.delimiter = query.delimiter;
+    if (query.bom) options.bom = query.bom === 'true';
+    if (query.header) options.header = query.header === 'true';
+    return createExportSerializer(format, options);
+}
+
+// Respond with a serialized DataFrame as file download
+export function exportResponse(c: Context, serializer: ExportSerializer, frame: DataFrame, filename: string) {
+    const body = serializer.begin(frame.columns) + serializer.rows(frame.rows) + serializer.end();
+    return c.body(body, 200, exportHeaders(serializer, filename));
+}
+
+// Stream pages as file download. The first page is awaited before the response
+// starts, so its errors become regular error responses. Later errors end NDJSON
+// streams with an `{"error": ...}` line; other formats are aborted (truncated download).
+export async function streamExport(
+    c: Context,
+    serializer: ExportSerializer,
+    pages: AsyncGenerator<Result<DataFrame>>,
+    filename: string
+) {
+    const first = await pages.next();
+    const firstErr = first.done ? null : first.value[1];
+    if (firstErr instanceof SqlValidationError) {
+        throw new ApiError('VALIDATION_ERROR', firstErr.message, 400);
+    }
+    if (firstErr) {
+        throw new ApiError('UNKNOWN_ERROR', firstErr.message, 500);
+    }
+
+    for (const [name, value] of Object.entries(exportHeaders(serializer, filename))) c.header(name, value);
+    return stream(c, async (s) => {
+        s.onAbort(() => { void pages.return(undefined); });
+
+        const firstPage = first.done ? null : first.value[0];
+        await s.write(serializer.begin(firstPage?.columns ?? []));
+        if (firstPage) {
+            await s.write(serializer.rows(firstPage.rows));
+
+            for await (const [page, error] of pages) {
+                if (s.aborted) return;
+                if (error) {
+                    if (serializer.format !== 'ndjson') return s.abort();
+                    await s.write(`${JSON.stringify({ error: error.message, code: 'UNKNOWN_ERROR' })}\n`);
+                    return;
+                }
+                await s.write(serializer.rows(page.rows));
+            }
+        }
+        await s.write(serializer.end());
+    });
+}
+
+function exportHeaders(serializer: ExportSerializer, filename: string): Record<string, string> {
+    const safeName = filename.replace(/[^A-Za-z0-9_.-]/g, '_');
+    return {
+        'Content-Type': serializer.contentType,
+        'Content-Disposition': `attachment; filename="${safeName}.${serializer.fileExtension}"`,
+    };
+}
@@ -1 +1,6 @@
-export { formatZodError } from './validation';
+export { formatZodError, safeParseRequest, type Parsed } from './validation';
+export { loadObjectTypesFile } from './objectTypes';
+export { negotiateExport, exportResponse, streamExport } from './export';
+export { QueryStore, queryOwner, type QueryOwner, type SavedQuery, type SavedQueryInput } from './queryStore';
+export { cacheOptions } from './cache';
+export { archiveResponse, type ArchiveFormat } from './archive';
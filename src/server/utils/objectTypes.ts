@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { Result } from '../../types/result';
+import { ok, err } from '../../types/result';
+import type { ObjectConfig } from '../../core/adt/types';
+import { objectConfigSchema, registerObjectType } from '../../core/adt/types';
+import { formatZodError } from './validation';
+
+const objectTypesFileSchema = z.array(objectConfigSchema);
+
+// Load custom object types from a JSON file and add them to the registry
+export function loadObjectTypesFile(path: string): Result<ObjectConfig[], Error> {
+    // Read and parse JSON file.
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return err(new Error(`Failed to read object types file ${path}: ${message}`));
+    }
+
+    // Validate file contents before touching the registry.
+    const validation = objectTypesFileSchema.safeParse(raw);
+    if (!validation.success) {
+        return err(new Error(`Invalid object types file ${path}: ${formatZodError(validation.error)}`));
+    }
+
+    // Register each object type.
+    const registered: ObjectConfig[] = [];
+    for (const config of validation.data) {
+        const [result, registerErr] = registerObjectType(config);
+        if (registerErr) return err(registerErr);
+        registered.push(result);
+    }
+
+    return ok(registered);
+}
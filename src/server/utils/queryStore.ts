@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { z } from 'zod';
+import type { Result } from '../../types/result';
+import { ok, err } from '../../types/result';
+import type { QueryTemplate } from '../../core/adt';
+import { validateQuery, validateTemplate } from '../../core/adt';
+import { queryTemplateSchema } from '../../types/requests';
+import { ApiError } from '../middleware/error';
+import type { RouteContext } from '../routes/types';
+import { formatZodError, safeParseRequest } from './validation';
+
+/**
+ * Owner of saved queries: a user of one SAP system and client
+ */
+export interface QueryOwner {
+    /** Host of the SAP system (e.g., 'sap.example.com:44300') */
+    system: string;
+    /** SAP client number */
+    client: string;
+    /** SAP username (upper case) */
+    user: string;
+}
+
+/**
+ * Saved query template of a user
+ */
+export interface SavedQuery {
+    id: string;
+    /** Creator of the query */
+    owner: QueryOwner;
+    name: string;
+    description?: string;
+    template: QueryTemplate;
+    createdAt: string;
+}
+
+/**
+ * Fields of a new saved query
+ */
+export interface SavedQueryInput {
+    name: string;
+    description?: string;
+    template: QueryTemplate;
+}
+
+// Templates of the file are checked as those of POST /queries, so an edited
+// file cannot bring in queries the API would have rejected.
+const queryFileSchema = z.array(z.object({
+    id: z.string(),
+    owner: z.object({ system: z.string(), client: z.string(), user: z.string() }),
+    name: z.string(),
+    description: z.string().optional(),
+    template: queryTemplateSchema,
+    createdAt: z.string(),
+}));
+
+/**
+ * Saved queries persisted to a JSON file
+ *
+ * Every change rewrites the whole file (through a temporary file, so a
+ * crash never leaves it half written). Queries are only visible to their owner,
+ * the same user on the same system and client.
+ */
+export class QueryStore {
+    private constructor(
+        private path: string,
+        private queries: SavedQuery[]
+    ) {}
+
+    /**
+     * Open the store of a file (created on the first change if missing)
+     */
+    static load(path: string): Result<QueryStore, Error> {
+        if (!existsSync(path)) return ok(new QueryStore(path, []));
+
+        let raw: unknown;
+        try {
+            raw = JSON.parse(readFileSync(path, 'utf-8'));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return err(new Error(`Failed to read saved queries file ${path}: ${message}`));
+        }
+
+        const validation = safeParseRequest(queryFileSchema, raw);
+        if (!validation.success) {
+            return err(new Error(`Invalid saved queries file ${path}: ${formatZodError(validation.error)}`));
+        }
+
+        const queries: SavedQuery[] = validation.data;
+        for (const { id, template } of queries) {
+            const [, queryErr] = validateQuery(template.query);
+            if (queryErr) return err(new Error(`Invalid saved query ${id} in ${path}: ${queryErr.message}`));
+            const [, templateErr] = validateTemplate(template);
+            if (templateErr) return err(new Error(`Invalid saved query ${id} in ${path}: ${templateErr.message}`));
+        }
+        return ok(new QueryStore(path, queries));
+    }
+
+    list(owner: QueryOwner): SavedQuery[] {
+        return this.queries.filter(q => isOwner(q, owner));
+    }
+
+    get(owner: QueryOwner, id: string): SavedQuery | null {
+        return this.queries.find(q => q.id === id && isOwner(q, owner)) ?? null;
+    }
+
+    create(owner: QueryOwner, input: SavedQueryInput): Result<SavedQuery, Error> {
+        const query: SavedQuery = {
+            id: randomUUID(),
+            owner: { ...owner, user: owner.user.toUpperCase() },
+            name: input.name,
+            template: input.template,
+            createdAt: new Date().toISOString(),
+        };
+        if (input.description) query.description = input.description;
+
+        const [, saveErr] = this.save([...this.queries, query]);
+        if (saveErr) return err(saveErr);
+        return ok(query);
+    }
+
+    /**
+     * Delete a query of an owner
+     *
+     * @returns Whether the query existed
+     */
+    delete(owner: QueryOwner, id: string): Result<boolean, Error> {
+        const query = this.get(owner, id);
+        if (!query) return ok(false);
+
+        const [, saveErr] = this.save(this.queries.filter(q => q !== query));
+        if (saveErr) return err(saveErr);
+        return ok(true);
+    }
+
+    // Write the file, then replace the queries in memory.
+    private save(queries: SavedQuery[]): Result<true, Error> {
+        const temporary = `${this.path}.tmp`;
+        try {
+            writeFileSync(temporary, JSON.stringify(queries, null, 2), 'utf-8');
+            renameSync(temporary, this.path);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return err(new Error(`Failed to write saved queries file ${this.path}: ${message}`));
+        }
+
+        this.queries = queries;
+        return ok(true);
+    }
+}
+
+// Same user on the same system and client
+function isOwner(query: SavedQuery, owner: QueryOwner): boolean {
+    return query.owner.system === owner.system
+        && query.owner.client === owner.client
+        && query.owner.user === owner.user.toUpperCase();
+}
+
+// Owner of the saved queries of a request: the SAP user of its session, on
+// the system and client the session is connected to
+export function queryOwner(c: RouteContext): QueryOwner {
+    const client = c.get('client');
+    const username = client.session?.username;
+    if (!username) throw new ApiError('SESSION_EXPIRED', 'Session has no user', 401);
+    return { system: new URL(client.system.url).host, client: client.system.client, user: username.toUpperCase() };
+}
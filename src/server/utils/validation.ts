@@ -1,4 +1,4 @@
-import type { ZodError } from 'zod';
+import type { SafeParseReturnType, ZodError, ZodTypeAny, input, output } from 'zod';
 
 // Format Zod validation errors into readable string
 export function formatZodError(error: ZodError): string {
@@ -6,3 +6,24 @@ export function formatZodError(error: ZodError): string {
         .map((i) => `${i.path.join('.')}: ${i.message}`)
         .join(', ');
 }
+
+/**
+ * Parsed data with optional properties as `prop?: T`
+ *
+ * Zod infers optional properties as `prop?: T | undefined`, which
+ * exactOptionalPropertyTypes does not accept for the domain types' `prop?: T`.
+ */
+export type Parsed<T> =
+    T extends readonly (infer U)[] ? Parsed<U>[]
+    : T extends object ? { [K in keyof T]: {} extends Pick<T, K> ? Parsed<Exclude<T[K], undefined>> : Parsed<T[K]> }
+    : T;
+
+/**
+ * Validate request data, typed for assignment to domain types
+ *
+ * Zod leaves absent keys out of its output instead of setting them to
+ * undefined, so optional properties of JSON request data are never undefined.
+ */
+export function safeParseRequest<S extends ZodTypeAny>(schema: S, data: unknown): SafeParseReturnType<input<S>, Parsed<output<S>>> {
+    return schema.safeParse(data);
+}
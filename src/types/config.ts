@@ -83,6 +83,32 @@ export interface AutoRefreshConfig {
     intervalMs?: number;
 }
 
+/**
+ * Cached read operations
+ *
+ * - tree: getTree
+ * - packageStats: getPackageStats
+ * - search: search
+ * - preview: previewData, previewQuery
+ * - transports: getTransports
+ */
+export type CacheOperation = 'tree' | 'packageStats' | 'search' | 'preview' | 'transports';
+
+/**
+ * Result cache configuration
+ */
+export interface CacheConfig {
+    /** Enable result caching (default: false) */
+    enabled: boolean;
+    /**
+     * Time to live per operation in milliseconds, 0 to not cache it
+     * (default: tree 30s, packageStats 60s, search 30s, preview 10s, transports 30s)
+     */
+    ttlMs?: Partial<Record<CacheOperation, number>>;
+    /** Maximum cached results, least recently used are dropped first (default: 500) */
+    maxEntries?: number;
+}
+
 /**
  * Client configuration for connecting to SAP ADT
  */
@@ -99,6 +125,8 @@ export interface ClientConfig {
     insecure?: boolean;
     /** Auto-refresh configuration for session keepalive (default: enabled with 2-hour interval) */
     autoRefresh?: AutoRefreshConfig;
+    /** Result cache for tree, package stats, search, preview and transport reads (default: disabled) */
+    cache?: CacheConfig;
 }
 
 /**
@@ -152,4 +180,15 @@ export const clientConfigSchema = z.object({
         enabled: z.boolean(),
         intervalMs: z.number().positive().optional(),
     }).optional(),
+    cache: z.object({
+        enabled: z.boolean(),
+        ttlMs: z.object({
+            tree: z.number().nonnegative(),
+            packageStats: z.number().nonnegative(),
+            search: z.number().nonnegative(),
+            preview: z.number().nonnegative(),
+            transports: z.number().nonnegative(),
+        }).partial().strict().optional(),
+        maxEntries: z.number().int().positive().optional(),
+    }).optional(),
 });
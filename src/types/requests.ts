@@ -1,4 +1,22 @@
 import { z } from 'zod';
+import type { QueryFilter } from '../core/adt';
+
+/**
+ * Source includes of an ABAP class
+ *
+ * - main: global class (source/main)
+ * - definitions: local class definitions
+ * - implementations: local class implementations
+ * - macros: local macros
+ * - testclasses: ABAP Unit test classes
+ */
+export const CLASS_INCLUDES = ['main', 'definitions', 'implementations', 'macros', 'testclasses'] as const;
+export type ClassInclude = typeof CLASS_INCLUDES[number];
+
+/**
+ * Content of the secondary includes of a class (main source lives in `content`)
+ */
+export type ClassIncludeContents = Partial<Record<Exclude<ClassInclude, 'main'>, string>>;
 
 /**
  * Reference to an SAP development object
@@ -8,6 +26,10 @@ export interface ObjectRef {
     name: string;
     /** File extension indicating object type (e.g., 'asddls') */
     extension: string;
+    /** Parent container for nested object types (e.g., function group of a function module) */
+    parent?: string;
+    /** Source include to target (classes only, defaults to 'main') */
+    include?: ClassInclude;
 }
 
 /**
@@ -18,6 +40,37 @@ export interface ObjectContent extends ObjectRef {
     content: string;
     /** Optional description for transport */
     description?: string;
+    /** Secondary class includes to write alongside the main source */
+    includes?: ClassIncludeContents;
+    /** Server version the local content started from (enables conflict detection on upsert) */
+    base?: BaseVersion;
+}
+
+/**
+ * Server version a local edit started from
+ *
+ * With base content, upsert merges server changes made in the meantime;
+ * with only `etag`/`lastModified`, it reports any server change as a conflict.
+ */
+export interface BaseVersion {
+    /** Base content of the main source (or the include selected via `include`) */
+    content?: string;
+    /** Base content of secondary class includes */
+    includes?: ClassIncludeContents;
+    /** ETag of the main source version (from `read`) */
+    etag?: string;
+    /** Last-modified timestamp of the main source version (from `read`) */
+    lastModified?: string;
+}
+
+/**
+ * Options for reading objects
+ */
+export interface ReadOptions {
+    /** Return every include of a class as a bundle (ignored for other object types) */
+    includes?: boolean;
+    /** Also read package, description, owner, timestamps and language (one extra request per object) */
+    includeMetadata?: boolean;
 }
 
 /**
@@ -32,6 +85,47 @@ export interface TreeQuery {
     owner?: string;
 }
 
+/**
+ * Options for exporting a package (see `exportPackage`)
+ */
+export interface PackageExportOptions {
+    /** Also export subpackages (default: true) */
+    recursive?: boolean;
+    /** Object types to export as extensions or ADT types (e.g., ['aclass', 'DDLS/DF']; default: all supported types) */
+    types?: string[];
+    /** Write the files below this directory (library only) */
+    directory?: string;
+}
+
+/**
+ * Typed value conversion (opt-in, see `parseDataPreview`)
+ *
+ * | ABAP type | JS value |
+ * |-----------|----------|
+ * | I, INT1, INT2, INT4, b, s | number |
+ * | INT8 | decimal string (default) or bigint |
+ * | P, DEC, CURR, QUAN, D16N, D34N, DECFLOAT16/34 | number (default) or decimal string |
+ * | F, FLTP | number |
+ * | D, DATS, DATN | 'YYYY-MM-DD' |
+ * | T, TIMS, TIMN | 'hh:mm:ss' |
+ * | UTCL, UTCLONG | ISO timestamp |
+ * | BOOLEAN | boolean ('X' is true) |
+ * | anything else (C, N, STRING, X, ...) | string (NUMC keeps leading zeros) |
+ *
+ * Initial values: by default numbers become 0, strings '' and booleans
+ * false; the initial date is '0000-00-00' and the initial time midnight
+ * ('00:00:00'), while initial timestamps have no ISO form and always become
+ * null. With `initialAsNull` every initial value becomes null.
+ */
+export interface TypedValueOptions {
+    /** Convert every initial value to null */
+    initialAsNull?: boolean;
+    /** INT8 values as decimal 'string' (default, JSON-safe) or 'bigint' */
+    int8?: 'string' | 'bigint';
+    /** Packed numbers as 'number' (default) or exact decimal 'string' */
+    decimals?: 'number' | 'string';
+}
+
 /**
  * Data preview query
  */
@@ -44,6 +138,8 @@ export interface PreviewSQL {
     sqlQuery: string;
     /** Maximum rows to return (default: 100) */
     limit?: number;
+    /** Convert cells to JS values by ABAP type (default: raw strings) */
+    typed?: boolean | TypedValueOptions;
 }
 
 // Zod schemas for runtime validation
@@ -51,11 +147,29 @@ export interface PreviewSQL {
 export const objectRefSchema = z.object({
     name: z.string().min(1),
     extension: z.string().min(1),
+    parent: z.string().min(1).optional(),
+    include: z.enum(CLASS_INCLUDES).optional(),
+});
+
+export const classIncludeContentsSchema = z.object({
+    definitions: z.string().optional(),
+    implementations: z.string().optional(),
+    macros: z.string().optional(),
+    testclasses: z.string().optional(),
+}).strict();
+
+export const baseVersionSchema = z.object({
+    content: z.string().optional(),
+    includes: classIncludeContentsSchema.optional(),
+    etag: z.string().min(1).optional(),
+    lastModified: z.string().min(1).optional(),
 });
 
 export const objectContentSchema = objectRefSchema.extend({
     content: z.string(),
     description: z.string().optional(),
+    includes: classIncludeContentsSchema.optional(),
+    base: baseVersionSchema.optional(),
 });
 
 export const treeQuerySchema = z.object({
@@ -64,9 +178,95 @@ export const treeQuerySchema = z.object({
     owner: z.string().min(1).optional(),
 });
 
+export const packageExportOptionsSchema = z.object({
+    recursive: z.boolean().optional(),
+    types: z.array(z.string().min(1)).min(1).optional(),
+});
+
+export const typedValueOptionsSchema = z.object({
+    initialAsNull: z.boolean().optional(),
+    // bigint values cannot be sent as JSON
+    int8: z.literal('string').optional(),
+    decimals: z.enum(['number', 'string']).optional(),
+});
+
 export const previewQuerySchema = z.object({
     objectName: z.string().min(1),
     objectType: z.enum(['table', 'view']),
     sqlQuery: z.string().min(1),
     limit: z.number().positive().max(50000).optional(),
+    typed: z.union([z.boolean(), typedValueOptionsSchema]).optional(),
+});
+
+const queryValueSchema = z.union([z.string(), z.number()]);
+
+// Filters nest through and/or groups and not
+const queryFilterSchema: z.ZodType<QueryFilter> = z.lazy(() => z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('basic'),
+        field: z.string().min(1),
+        value: queryValueSchema,
+        operator: z.enum(['=', '<>', '<', '<=', '>', '>=', 'like', 'not like']),
+    }),
+    z.object({
+        type: z.literal('between'),
+        field: z.string().min(1),
+        minimum: queryValueSchema,
+        maximum: queryValueSchema,
+    }),
+    z.object({
+        type: z.literal('list'),
+        field: z.string().min(1),
+        values: z.array(queryValueSchema).min(1),
+        include: z.boolean(),
+    }),
+    z.object({
+        type: z.enum(['and', 'or']),
+        filters: z.array(queryFilterSchema).min(1),
+    }),
+    z.object({
+        type: z.literal('not'),
+        filter: queryFilterSchema,
+    }),
+]));
+
+const queryParameterSchema = z.object({ name: z.string().min(1), value: queryValueSchema });
+
+const queryJoinSchema = z.object({
+    type: z.enum(['inner', 'left outer', 'right outer']),
+    objectName: z.string().min(1),
+    alias: z.string().min(1),
+    on: z.array(z.union([
+        z.object({ field: z.string().min(1), otherField: z.string().min(1) }),
+        z.object({ field: z.string().min(1), value: queryValueSchema }),
+    ])).min(1),
+    parameters: z.array(queryParameterSchema).optional(),
+});
+
+export const structuredQuerySchema = z.object({
+    objectName: z.string().min(1),
+    objectType: z.enum(['table', 'view']),
+    fields: z.array(z.string().min(1)).min(1),
+    joins: z.array(queryJoinSchema).optional(),
+    parameters: z.array(queryParameterSchema).optional(),
+    filters: z.array(queryFilterSchema).optional(),
+    sortings: z.array(z.object({
+        field: z.string().min(1),
+        direction: z.enum(['ascending', 'descending']),
+    })).optional(),
+    /** Row limit (default: 100 as JSON, all rows when streamed) */
+    limit: z.number().int().positive().optional(),
+    typed: z.union([z.boolean(), typedValueOptionsSchema]).optional(),
+});
+
+export const placeholderSchema = z.object({
+    name: z.string().min(1),
+    type: z.enum(['string', 'number', 'date']),
+    default: queryValueSchema.optional(),
+    description: z.string().optional(),
+});
+
+export const queryTemplateSchema = z.object({
+    query: structuredQuerySchema,
+    placeholders: z.array(placeholderSchema).optional().default([]),
 });